@@ -6,7 +6,7 @@ import { Chip } from '@heroui/chip';
 import { useGameStore } from '@/stores/gameStore';
 import { usePlayerSync } from '@/hooks/usePlayerSync';
 import { useItemEffectsStore } from '@/stores/itemEffectsStore';
-import { getRarityColor, getResourceTypeColor, formatNumber } from '@/utils/gameHelpers';
+import { getRarityColor, getResourceTypeColor, formatNumber, getQualityMultiplier, getStackKey } from '@/utils/gameHelpers';
 import InventoryInterface from '@/components/ui/InventoryInterface';
 import NotificationSystem, { useNotifications } from '@/components/ui/NotificationSystem';
 
@@ -33,9 +33,9 @@ export default function InventoryPage() {
     );
   }
 
-  // Group inventory items by type and rarity
+  // Group inventory items by stack
   const groupedInventory = inventory.reduce((acc, item) => {
-    const key = `${item.type}_${item.rarity}`;
+    const key = getStackKey(item);
     if (!acc[key]) {
       acc[key] = {
         ...item,
@@ -103,6 +103,9 @@ export default function InventoryPage() {
     // Remove the specified quantity of the item
     removeResource(itemId, quantity);
 
+    // Crafted items scale their boosts by quality
+    const quality = getQualityMultiplier(item);
+
     // Use new tiered benefit system
     const baseDuration = 300000; // 5 minutes base duration
     const totalDuration = baseDuration * quantity;
@@ -110,7 +113,7 @@ export default function InventoryPage() {
     switch (item.type) {
       case 'energy':
         // Energy items provide mining efficiency boost using tiered system
-        useItemEffectsStore.getState().useItems('mining_efficiency', quantity, totalDuration, `${item.name} Mining Boost`);
+        useItemEffectsStore.getState().useItems('mining_efficiency', quantity, totalDuration, `${item.name} Mining Boost`, quality);
 
         showSuccess(
           'Mining Efficiency Boosted!',
@@ -119,7 +122,7 @@ export default function InventoryPage() {
         break;
 
       case 'crystal':
-        // Crystals provide experience boost using tiered system
+        // Crystals provide experience and crafting quality boosts using tiered system
         const rarityMultiplier = {
           common: 1.0,
           rare: 1.5,
@@ -127,15 +130,16 @@ export default function InventoryPage() {
           legendary: 3.0,
         }[item.rarity] || 1.0;
 
-        const experienceGained = quantity * 50 * rarityMultiplier; // 50-150 XP per crystal based on rarity
+        const experienceGained = quantity * 50 * rarityMultiplier * quality; // 50-150 XP per crystal based on rarity
         const expDuration = 600000 * quantity; // 10 minutes per crystal
 
         updatePlayerExperience(Math.floor(experienceGained));
-        useItemEffectsStore.getState().useItems('experience_boost', quantity, expDuration, `${item.name} Experience Boost`);
+        useItemEffectsStore.getState().useItems('experience_boost', quantity, expDuration, `${item.name} Experience Boost`, quality);
+        useItemEffectsStore.getState().useItems('crafting_quality', quantity, expDuration, `${item.name} Crafting Quality`, quality);
 
         showSuccess(
           'Experience Boosted!',
-          `Used ${quantity} ${item.name}(s) - Gained ${Math.floor(experienceGained)} XP and tiered experience boost!`
+          `Used ${quantity} ${item.name}(s) - Gained ${Math.floor(experienceGained)} XP and tiered experience and crafting quality boosts!`
         );
         break;
 
@@ -143,8 +147,8 @@ export default function InventoryPage() {
         // Metals provide crafting speed and resource yield boost using tiered system
         const metalDuration = 450000 * quantity; // 7.5 minutes per metal
 
-        useItemEffectsStore.getState().useItems('crafting_speed', quantity, metalDuration, `${item.name} Crafting Boost`);
-        useItemEffectsStore.getState().useItems('resource_yield', quantity, metalDuration, `${item.name} Resource Yield`);
+        useItemEffectsStore.getState().useItems('crafting_speed', quantity, metalDuration, `${item.name} Crafting Boost`, quality);
+        useItemEffectsStore.getState().useItems('resource_yield', quantity, metalDuration, `${item.name} Resource Yield`, quality);
 
         showSuccess(
           'Equipment Enhanced!',
@@ -156,7 +160,7 @@ export default function InventoryPage() {
         // Generic items provide small temporary boosts using tiered system
         const genericDuration = 180000 * quantity; // 3 minutes per item
 
-        useItemEffectsStore.getState().useItems('mining_efficiency', quantity, genericDuration, `${item.name} Boost`);
+        useItemEffectsStore.getState().useItems('mining_efficiency', quantity, genericDuration, `${item.name} Boost`, quality);
 
         showInfo(
           'Item Used',
@@ -306,7 +310,7 @@ export default function InventoryPage() {
                     <h4 className="font-semibold text-blue-700 mb-1">💡 Item Usage Tips</h4>
                     <ul className="text-xs text-blue-600 space-y-1">
                       <li>• Energy items restore mining efficiency</li>
-                      <li>• Crystals provide experience boosts</li>
+                      <li>• Crystals provide experience and crafting quality boosts</li>
                       <li>• Metals enhance equipment performance</li>
                       <li>• Rare items unlock special abilities</li>
                     </ul>
@@ -6,6 +6,7 @@ import clsx from "clsx";
 import { Providers } from "./providers";
 
 import { ProgressSyncProvider } from "@/components/providers/ProgressSyncProvider";
+import { StorageProvider } from "@/components/providers/StorageProvider";
 import { InitializationProvider } from "@/components/providers/InitializationProvider";
 import { siteConfig } from "@/config/site";
 import { fontSans } from "@/config/fonts";
@@ -93,41 +94,43 @@ export default function RootLayout({
         )}
       >
         <Providers themeProps={{ attribute: "class", defaultTheme: "dark", forcedTheme: "dark", enableSystem: false }}>
-          <ProgressSyncProvider>
-            <InitializationProvider>
-              <div className="relative flex flex-col h-screen">
-                <Navbar />
-                <main className="flex-grow overflow-hidden">{children}</main>
-                <footer className="bg-black/20 backdrop-blur-sm border-t border-white/10 z-20">
-                  <div className="flex items-center justify-between px-6 py-2 text-sm">
-                    <div className="flex items-center gap-4 text-white/70">
-                      <span>© 2024 G-Bax</span>
-                      <span>•</span>
-                      <span>Blockchain Space Exploration</span>
+          <StorageProvider>
+            <ProgressSyncProvider>
+              <InitializationProvider>
+                <div className="relative flex flex-col h-screen">
+                  <Navbar />
+                  <main className="flex-grow overflow-hidden">{children}</main>
+                  <footer className="bg-black/20 backdrop-blur-sm border-t border-white/10 z-20">
+                    <div className="flex items-center justify-between px-6 py-2 text-sm">
+                      <div className="flex items-center gap-4 text-white/70">
+                        <span>© 2024 G-Bax</span>
+                        <span>•</span>
+                        <span>Blockchain Space Exploration</span>
+                      </div>
+                      <div className="flex items-center gap-1 text-white/70">
+                        <span>Powered by</span>
+                        <Link
+                          isExternal
+                          className="text-primary hover:text-primary/80 transition-colors"
+                          href="https://honeycomb.gg"
+                        >
+                          Honeycomb Protocol
+                        </Link>
+                        <span>•</span>
+                        <Link
+                          isExternal
+                          className="text-secondary hover:text-secondary/80 transition-colors"
+                          href="https://verxio.com"
+                        >
+                          Verxio
+                        </Link>
+                      </div>
                     </div>
-                    <div className="flex items-center gap-1 text-white/70">
-                      <span>Powered by</span>
-                      <Link
-                        isExternal
-                        className="text-primary hover:text-primary/80 transition-colors"
-                        href="https://honeycomb.gg"
-                      >
-                        Honeycomb Protocol
-                      </Link>
-                      <span>•</span>
-                      <Link
-                        isExternal
-                        className="text-secondary hover:text-secondary/80 transition-colors"
-                        href="https://verxio.com"
-                      >
-                        Verxio
-                      </Link>
-                    </div>
-                  </div>
-                </footer>
-              </div>
-            </InitializationProvider>
-          </ProgressSyncProvider>
+                  </footer>
+                </div>
+              </InitializationProvider>
+            </ProgressSyncProvider>
+          </StorageProvider>
         </Providers>
       </body>
     </html>
@@ -17,6 +17,7 @@ import {
   getExperienceProgress,
 } from "@/utils/gameHelpers";
 import LoyaltyDashboard from "@/components/ui/LoyaltyDashboard";
+import CreditsLedgerPanel from "@/components/ui/CreditsLedgerPanel";
 
 export default function ProfilePage() {
   const { inventory, missions } = useGameStore();
@@ -256,6 +257,12 @@ export default function ProfilePage() {
               </CardBody>
             </Card>
 
+            {/* Credits History */}
+            <CreditsLedgerPanel
+              credits={player.credits}
+              playerId={player.id}
+            />
+
             {/* Inventory Summary */}
             <Card>
               <CardHeader>
@@ -23,6 +23,7 @@ import {
   useHoneycombStore,
   resetHoneycombStore,
 } from "@/stores/honeycombStore";
+import { gameStorage } from "@/services/storageAdapter";
 
 
 export default function SettingsPage() {
@@ -109,7 +110,7 @@ export default function SettingsPage() {
   // Game settings state (only functional settings)
   const [gameSettings, setGameSettings] = useState(() => {
     if (typeof window !== "undefined") {
-      const saved = localStorage.getItem("g-bax-game-settings");
+      const saved = gameStorage.getItem("g-bax-game-settings");
 
       if (saved) {
         try {
@@ -147,8 +148,7 @@ export default function SettingsPage() {
     const newSettings = { ...gameSettings, [key]: value };
 
     setGameSettings(newSettings);
-    // Save to localStorage
-    localStorage.setItem("g-bax-game-settings", JSON.stringify(newSettings));
+    gameStorage.setItem("g-bax-game-settings", JSON.stringify(newSettings));
   };
 
   const handleProfileUpdate = async () => {
@@ -202,14 +202,16 @@ export default function SettingsPage() {
       resetVerxioStore();
       resetHoneycombStore();
 
-      // Clear any remaining localStorage data
+      // Clear any remaining saved game data
       const keysToRemove = [];
 
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
+      for (let i = 0; i < gameStorage.length; i++) {
+        const key = gameStorage.key(i);
 
+        // Settings are preferences rather than progress, so they stay
         if (
           key &&
+          key !== "g-bax-game-settings" &&
           (key.startsWith("g-bax-") ||
             key.startsWith("verxio_") ||
             key.startsWith("honeycomb_"))
@@ -217,22 +219,22 @@ export default function SettingsPage() {
           keysToRemove.push(key);
         }
       }
-      keysToRemove.forEach((key) => localStorage.removeItem(key));
+      keysToRemove.forEach((key) => gameStorage.removeItem(key));
 
       // Clear all Zustand persist storage (double-check)
-      localStorage.removeItem("g-bax-game-storage");
-      localStorage.removeItem("g-bax-verxio-storage");
-      localStorage.removeItem("g-bax-honeycomb-storage");
-      localStorage.removeItem("g-bax-game-progress");
+      gameStorage.removeItem("g-bax-game-storage");
+      gameStorage.removeItem("g-bax-verxio-storage");
+      gameStorage.removeItem("g-bax-honeycomb-storage");
+      gameStorage.removeItem("g-bax-game-progress");
 
       // Clear any session storage as well
       sessionStorage.clear();
 
-      // Close modal and refresh the page to ensure clean state
+      // Close modal and refresh the page once the removals are stored
       onResetModalClose();
-      setTimeout(() => {
+      gameStorage.flush().then(() => {
         window.location.reload();
-      }, 100);
+      });
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
     } catch (error) {
       onResetErrorOpen();
@@ -248,11 +250,11 @@ export default function SettingsPage() {
       const verxioState = useVerxioStore.getState();
       const honeycombState = useHoneycombStore.getState();
 
-      // Collect all localStorage data
+      // Collect all saved game data
       const localStorageData: Record<string, any> = {};
 
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
+      for (let i = 0; i < gameStorage.length; i++) {
+        const key = gameStorage.key(i);
 
         if (
           key &&
@@ -261,9 +263,9 @@ export default function SettingsPage() {
             key.startsWith("honeycomb_"))
         ) {
           try {
-            localStorageData[key] = JSON.parse(localStorage.getItem(key) || "");
+            localStorageData[key] = JSON.parse(gameStorage.getItem(key) || "");
           } catch {
-            localStorageData[key] = localStorage.getItem(key);
+            localStorageData[key] = gameStorage.getItem(key);
           }
         }
       }
@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import SiteLoader from "@/components/ui/SiteLoader";
+import { saveMigrationService } from "@/services/saveMigrationService";
+import { gameStorage } from "@/services/storageAdapter";
+import { useBlueprintStore } from "@/stores/blueprintStore";
+import { useCreditsLedgerStore } from "@/stores/creditsLedgerStore";
+import { useEquipmentStore } from "@/stores/equipmentStore";
+import { useGameStore } from "@/stores/gameStore";
+import { useItemEffectsStore } from "@/stores/itemEffectsStore";
+import { useLocalCharacterStore } from "@/stores/localCharacterStore";
+import { useLocalMissionStore } from "@/stores/localMissionStore";
+import { useVerxioStore } from "@/stores/verxioStore";
+import { useWarehouseStore } from "@/stores/warehouseStore";
+
+interface StorageProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Provider component that loads the storage backend, upgrades old saves and
+ * hydrates the persisted stores before anything else reads game data
+ */
+export function StorageProvider({ children }: StorageProviderProps) {
+  const [isReady, setIsReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSaves = async () => {
+      await gameStorage.ready();
+
+      const result = saveMigrationService.migrate();
+
+      if (result.error) {
+        console.error(result.error);
+      }
+
+      await Promise.all([
+        useGameStore.persist.rehydrate(),
+        useBlueprintStore.persist.rehydrate(),
+        useCreditsLedgerStore.persist.rehydrate(),
+        useEquipmentStore.persist.rehydrate(),
+        useItemEffectsStore.persist.rehydrate(),
+        useLocalCharacterStore.persist.rehydrate(),
+        useLocalMissionStore.persist.rehydrate(),
+        useVerxioStore.persist.rehydrate(),
+        useWarehouseStore.persist.rehydrate(),
+      ]);
+
+      if (!cancelled) setIsReady(true);
+    };
+
+    loadSaves();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!isReady) {
+    return <SiteLoader />;
+  }
+
+  return <>{children}</>;
+}
@@ -1,15 +1,29 @@
 "use client";
 
-import type { SpaceObject } from "@/types/game";
+import type { Resource, SpaceObject } from "@/types/game";
+import type { EquipmentSlot } from "@/data/equipment";
+import type { WarpJump } from "@/systems/galaxySystem";
 
-import React, { useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import * as THREE from "three";
 
-import { SCENE_CONFIG, COLORS } from "@/utils/constants";
+import { SCENE_CONFIG, COLORS, GAME_CONFIG } from "@/utils/constants";
 import { CameraControls } from "@/utils/cameraControls";
-import { SpaceGenerator } from "@/utils/spaceGeneration";
 import { SpaceObjectManager } from "@/utils/spaceObjectManager";
+import {
+  getQualityMultiplier,
+  getRemainingReserves,
+  hasFiniteReserves,
+} from "@/utils/gameHelpers";
 import { GameSystemsManager } from "@/systems/gameSystemsManager";
+import { CARGO_UPGRADES } from "@/systems/craftingSystem";
+import { getRecipeName } from "@/data/recipes";
+import {
+  getBlueprintStudyChance,
+  getCraftingQuality,
+  getCrystalPurity,
+  getSalvageBonus,
+} from "@/data/traits";
 import MiningInterface from "@/components/ui/MiningInterface";
 import CraftingInterface from "@/components/ui/CraftingInterface";
 import InventoryInterface from "@/components/ui/InventoryInterface";
@@ -20,6 +34,11 @@ import LoyaltyDashboard from "@/components/ui/LoyaltyDashboard";
 import GuildBrowser from "@/components/ui/GuildBrowser";
 import { SaveStatus } from "@/components/ui/SaveStatus";
 import ActiveEffectsPanel from "@/components/ui/ActiveEffectsPanel";
+import ShipEnergyPanel from "@/components/ui/ShipEnergyPanel";
+import EquipmentPanel from "@/components/ui/EquipmentPanel";
+import MarketInterface from "@/components/ui/MarketInterface";
+import StationServicesPanel from "@/components/ui/StationServicesPanel";
+import GalaxyMapInterface from "@/components/ui/GalaxyMapInterface";
 
 import MissionProgressIndicator from "@/components/ui/MissionProgressIndicator";
 import MissionCompletionModal from "@/components/ui/MissionCompletionModal";
@@ -30,14 +49,17 @@ import TraitBonusesPanel from "@/components/ui/TraitBonusesPanel";
 import { useGameStore } from "@/stores/gameStore";
 import { useHoneycombStore } from "@/stores/honeycombStore";
 import { usePlayerSync } from "@/hooks/usePlayerSync";
-import { useVerxioIntegration } from "@/hooks/useVerxioIntegration";
+import { useLoyaltyEventTracking } from "@/hooks/useVerxioIntegration";
 import { useItemEffectsStore } from "@/stores/itemEffectsStore";
+import { useEquipmentStore } from "@/stores/equipmentStore";
+import { useWarehouseStore } from "@/stores/warehouseStore";
+import { useLocalCharacterStore } from "@/stores/localCharacterStore";
 import { useHoneycombIntegration } from "@/hooks/useHoneycombIntegration";
-import { useMissionProgressTracker } from "@/hooks/useMissionProgressTracker";
-import { useTraitBonuses } from "@/hooks/useTraitBonuses";
-import { useAchievementTracker } from "@/hooks/useAchievementTracker";
-import { useResourceOwnership } from "@/hooks/useResourceOwnership";
-import { useGuildProgression } from "@/hooks/useGuildProgression";
+import { useMissionEventTracking } from "@/hooks/useMissionProgressTracker";
+import { useAchievementEventTracking } from "@/hooks/useAchievementTracker";
+import { useResourceOwnershipEventTracking } from "@/hooks/useResourceOwnership";
+import { useGuildEventTracking } from "@/hooks/useGuildProgression";
+import { useGameEvent } from "@/hooks/useGameEvent";
 
 interface VanillaSceneProps {
   className?: string;
@@ -67,16 +89,17 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
   const [showCrafting, setShowCrafting] = useState(false);
   const [showLoyalty, setShowLoyalty] = useState(false);
   const [showGuilds, setShowGuilds] = useState(false);
+  const [showMarket, setShowMarket] = useState(false);
+  const [dockedStation, setDockedStation] = useState<SpaceObject | null>(null);
+  const [showGalaxyMap, setShowGalaxyMap] = useState(false);
+  const [warp, setWarp] = useState<WarpJump | null>(null);
 
   // Game store and player sync
-  const {
-    inventory,
-    activeMission,
-    addResource,
-    removeResource,
-    updatePlayerExperience,
-  } = useGameStore();
+  const { inventory, cargoCapacity, removeResource, updatePlayerExperience } =
+    useGameStore();
   const { player } = usePlayerSync();
+  const warehouses = useWarehouseStore((state) => state.warehouses);
+  const expiredEffects = useItemEffectsStore((state) => state.expiredEffects);
 
   // Honeycomb system states
   const {
@@ -87,124 +110,29 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
     isConnected: honeycombConnected,
   } = useHoneycombStore();
 
-  // Verxio loyalty system
+  // Verxio loyalty system, awards loyalty points from game events
   const {
-    awardPointsForActivity,
     getCurrentMultiplier,
     playerLoyalty,
     playerGuild,
     isConnected: verxioConnected,
-  } = useVerxioIntegration();
-
-  // Mission progress tracking
-  const {
-    trackMiningActivity,
-    trackCraftingActivity,
-    trackExplorationActivity,
-    completionModal,
-    closeCompletionModal,
-  } = useMissionProgressTracker();
-
-  // Trait-based bonuses
-  const {
-    applyMiningBonus,
-    applyCraftingBonus,
-    applyExplorationBonus,
-    applyExperienceBonus,
-    getBonusSummary,
-    hasTraits,
-  } = useTraitBonuses();
-
-  // Achievement tracking
-  const { trackActivity } = useAchievementTracker();
-
-  // Resource ownership
-  const { awardMiningRewards, awardCraftingResult } = useResourceOwnership();
+  } = useLoyaltyEventTracking();
 
-  // Guild progression
-  const { recordContribution, getGuildBonus } = useGuildProgression();
+  // Mission progress tracking from game events
+  const { completionModal, closeCompletionModal } = useMissionEventTracking();
 
-  // Item effects system
-  const { getActiveMultipliers } = useItemEffectsStore();
+  // Achievements, on-chain resources and guild contributions from game events
+  useAchievementEventTracking();
+  useResourceOwnershipEventTracking();
+  useGuildEventTracking();
 
-  // Honeycomb integration for missions
-  const { updateMissionProgress } = useHoneycombIntegration();
+  // Honeycomb profile and mission pool sync
+  useHoneycombIntegration();
 
   // Mission progress notification throttling
   const lastMissionNotificationTime = useRef<number>(0);
   const missionNotificationCooldown = 3000; // 3 seconds between mission progress notifications
 
-  // Helper function to track mission progress based on activity
-  const trackMissionProgress = async (
-    activityType: string,
-    amount: number = 1,
-  ) => {
-    if (!activeMission || !player) return;
-
-    // Special handling for specific mission requirements
-    let shouldTrackProgress = false;
-
-    if (
-      activeMission.id === "mining_002" &&
-      activityType === "mining_crystal"
-    ) {
-      // Mission 2 specifically requires crystal mining
-      shouldTrackProgress = true;
-    } else if (
-      activeMission.id === "exploration_001" &&
-      activityType === "object_discovery"
-    ) {
-      // Sector Scout mission specifically requires object discoveries
-      shouldTrackProgress = true;
-    } else if (
-      activeMission.id === "exploration_002" &&
-      activityType === "location_discovery"
-    ) {
-      // Deep Space Cartographer mission specifically requires location discoveries
-      shouldTrackProgress = true;
-    } else if (
-      activeMission.type.toLowerCase() === activityType.toLowerCase()
-    ) {
-      // General type matching for other missions
-      shouldTrackProgress = true;
-    }
-
-    if (shouldTrackProgress) {
-      try {
-        const newProgress = Math.min(
-          activeMission.progress + amount,
-          activeMission.maxProgress,
-        );
-
-        await updateMissionProgress(activeMission.id, newProgress);
-
-        // Check if mission is completed
-        if (newProgress >= activeMission.maxProgress) {
-          showSuccess(
-            "Mission Complete!",
-            `Completed "${activeMission.title}" and earned ${activeMission.rewards.experience} XP and ${activeMission.rewards.credits} credits!`,
-          );
-        } else {
-          // Only show mission progress notification if enough time has passed
-          const currentTime = Date.now();
-          const timeSinceLastNotification =
-            currentTime - lastMissionNotificationTime.current;
-
-          if (timeSinceLastNotification >= missionNotificationCooldown) {
-            showInfo(
-              "Mission Progress",
-              `${activeMission.title}: ${newProgress}/${activeMission.maxProgress}`,
-            );
-            lastMissionNotificationTime.current = currentTime;
-          }
-        }
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      } catch (error) {
-        // Handle error silently in production
-      }
-    }
-  };
-
   // Notification system
   const {
     notifications,
@@ -215,6 +143,202 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
     showError,
   } = useNotifications();
 
+  // Resources that didn't fit in the cargo hold are left behind
+  const warnAboutOverflow = (overflow: Resource[]) => {
+    const lostUnits = overflow.reduce(
+      (total, resource) => total + resource.quantity,
+      0,
+    );
+
+    if (lostUnits > 0) {
+      showWarning(
+        "Cargo Hold Full",
+        `${lostUnits} units were left behind. Use or drop items, or craft a Cargo Expander.`,
+      );
+    }
+  };
+
+  // Summarise completed operations for the player
+  useGameEvent("MiningCompleted", ({ result }) => {
+    // Displayed experience includes the loyalty multiplier the systems applied
+    const finalExperience = Math.floor(
+      result.experience * getCurrentMultiplier(),
+    );
+
+    // Create a summary of extracted resources
+    const resourceSummary = result.resources.reduce(
+      (acc, resource) => {
+        acc[resource.type] = (acc[resource.type] || 0) + resource.quantity;
+
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
+
+    const resourceText = Object.entries(resourceSummary)
+      .map(([type, totalQuantity]) => `${totalQuantity} ${type}`)
+      .join(", ");
+
+    showSuccess(
+      "Mining Complete!",
+      `Extracted ${resourceText} and gained ${finalExperience} XP!`,
+    );
+    warnAboutOverflow(result.overflow);
+  });
+
+  useGameEvent("ItemCrafted", ({ result }) => {
+    const finalExperience = Math.floor(
+      result.experience * getCurrentMultiplier(),
+    );
+
+    showSuccess(
+      "Crafting Complete!",
+      CARGO_UPGRADES[result.recipeId]
+        ? `Fitted ${result.item.name} - cargo capacity raised by ${CARGO_UPGRADES[result.recipeId]}. Gained ${finalExperience} XP!`
+        : `Created ${result.item.name} (${result.item.quality} quality) and gained ${finalExperience} XP!`,
+    );
+    warnAboutOverflow(result.overflow || []);
+  });
+
+  useGameEvent("EquipmentBroken", ({ item }) => {
+    showWarning(
+      "Equipment Broken",
+      `Your ${item.name} has broken and gives no bonus until it is repaired.`,
+    );
+  });
+
+  // Docking holds the camera on the station and opens its services
+  useGameEvent("StationDocked", ({ station }) => {
+    controlsRef.current?.lockOn(
+      new THREE.Vector3(...station.position),
+      GAME_CONFIG.STATION_DOCKING_RANGE / 2,
+    );
+    setDockedStation(station);
+    setShowMarket(true);
+  });
+
+  useGameEvent("StationUndocked", () => {
+    controlsRef.current?.unlock();
+    setDockedStation(null);
+    setShowMarket(false);
+  });
+
+  useGameEvent("MarketTrade", ({ item, side, credits }) => {
+    showSuccess(
+      side === "buy" ? "Purchase Complete" : "Sale Complete",
+      side === "buy"
+        ? `Bought ${item.quantity} ${item.name} for ${credits} credits.`
+        : `Sold ${item.quantity} ${item.name} for ${credits} credits.`,
+    );
+  });
+
+  useGameEvent("ItemSalvaged", ({ result }) => {
+    showSuccess(
+      "Salvage Complete!",
+      `Took apart ${result.item.name} for ${result.returns
+        .map(({ quantity, name }) => `${quantity} ${name}`)
+        .join(", ")} and gained ${result.experience} XP!`,
+    );
+    warnAboutOverflow(result.overflow || []);
+  });
+
+  useGameEvent("MaterialRefined", ({ result }) => {
+    showSuccess(
+      "Refining Complete!",
+      `Produced ${result.item.quantity} ${result.item.name}.`,
+    );
+    warnAboutOverflow(result.overflow || []);
+  });
+
+  useGameEvent("BlueprintLearned", ({ recipeId, source }) => {
+    showSuccess(
+      "Blueprint Learned!",
+      source === "study"
+        ? `Your crafting experience revealed the ${getRecipeName(recipeId)} blueprint.`
+        : `You can now craft ${getRecipeName(recipeId)}.`,
+    );
+  });
+
+  useGameEvent("MissionProgressed", ({ mission, progress, completed }) => {
+    if (completed) {
+      showSuccess(
+        "Mission Complete!",
+        `Completed "${mission.title}" and earned ${mission.rewards.experience} XP and ${mission.rewards.credits} credits!`,
+      );
+
+      return;
+    }
+
+    // Only show mission progress notification if enough time has passed
+    const currentTime = Date.now();
+    const timeSinceLastNotification =
+      currentTime - lastMissionNotificationTime.current;
+
+    if (timeSinceLastNotification >= missionNotificationCooldown) {
+      showInfo(
+        "Mission Progress",
+        `${mission.title}: ${progress}/${mission.maxProgress}`,
+      );
+      lastMissionNotificationTime.current = currentTime;
+    }
+  });
+
+  // Keep the scene and the object panel in step with mining damage
+  useGameEvent("ObjectDamaged", ({ object }) => {
+    objectManagerRef.current?.damageSpaceObject(object);
+    setSelectedObject((current) =>
+      current?.id === object.id ? object : current,
+    );
+  });
+
+  useGameEvent("ObjectDepleted", ({ object }) => {
+    objectManagerRef.current?.depleteSpaceObject(object);
+    showInfo(
+      "Object Depleted",
+      `This ${object.type.replace("_", " ")} has been mined out. It will reform in time.`,
+    );
+  });
+
+  useGameEvent("ObjectRespawned", ({ object }) => {
+    objectManagerRef.current?.respawnSpaceObject(object);
+  });
+
+  useGameEvent("ObjectSpawned", ({ object }) => {
+    objectManagerRef.current?.addSpaceObject(object);
+    setSectorInfo((current) =>
+      current ? { ...current, objectCount: current.objectCount + 1 } : current,
+    );
+  });
+
+  useGameEvent("WarpStarted", ({ to, duration }) => {
+    setWarp(gameSystemsRef.current?.getWarp() ?? null);
+    showInfo(
+      "Warp Jump Started",
+      `Arriving in ${to.name} in ${Math.ceil(duration / 1000)} seconds.`,
+    );
+  });
+
+  // Swap the old sector's objects for the new one's without rebuilding the scene
+  useGameEvent("SectorEntered", ({ sector }) => {
+    const objectManager = objectManagerRef.current;
+
+    if (objectManager) {
+      objectManager.clearSpaceObjects();
+      sector.objects.forEach((spaceObject) => {
+        objectManager.addSpaceObject(spaceObject);
+      });
+    }
+
+    controlsRef.current?.resetView(
+      new THREE.Vector3(...SCENE_CONFIG.CAMERA.POSITION),
+      new THREE.Vector3(),
+    );
+    setSelectedObject(null);
+    setWarp(null);
+    setSectorInfo({ name: sector.name, objectCount: sector.objects.length });
+    showSuccess("Warp Complete", `Arrived in ${sector.name}.`);
+  });
+
   useEffect(() => {
     if (!mountRef.current) return;
 
@@ -275,193 +399,29 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
 
     objectManagerRef.current = objectManager;
 
-    // Initialize game systems with callbacks
+    // Initialize game systems. Outcomes are published on the game event bus
     const gameSystems = new GameSystemsManager(
       {},
       {
-        onResourceAdded: (resource) => {
-          addResource(resource);
-        },
-        onExperienceGained: (experience) => {
-          // Apply loyalty tier multiplier and item effect multipliers to experience
-          const loyaltyMultiplier = getCurrentMultiplier();
-          const itemMultipliers = getActiveMultipliers();
-          const totalMultiplier =
-            loyaltyMultiplier * itemMultipliers.experienceBoost;
-          const finalExperience = Math.floor(experience * totalMultiplier);
-
-          updatePlayerExperience(finalExperience);
-        },
-        onGetLoyaltyMultiplier: () => {
-          return getCurrentMultiplier();
-        },
-        onExplorationComplete: (result) => {
-          // Exploration notifications removed per user preference
-          // Still track discoveries for mission progress and experience
-        },
-        onMissionProgress: (missionType: string, progress: number) => {
-          // Track mission progress based on an activity type
-          trackMissionProgress(missionType, progress);
-        },
-        onMiningComplete: async (result) => {
-          if (result.success) {
-            // Apply trait bonuses to mining results
-            const enhancedResources = result.resources.map(resource => ({
-              ...resource,
-              quantity: applyMiningBonus(resource.quantity),
-            }));
-
-            // Apply trait bonuses to experience
-            const enhancedExperience = applyExperienceBonus(result.experience);
-
-            // Update the result with enhanced values
-            const enhancedResult = {
-              ...result,
-              resources: enhancedResources,
-              experience: enhancedExperience,
-            };
-
-            // Track mission progress for mining activities
-            const totalQuantity = enhancedResources.reduce((sum, resource) => sum + resource.quantity, 0);
-            await trackMiningActivity("mining", totalQuantity);
-
-            // Track achievement progress for mining
-            await trackActivity("mining", 1);
-
-            // Award mining rewards as on-chain resources
-            try {
-              await awardMiningRewards(enhancedResources.map(resource => ({
-                type: resource.type,
-                quantity: resource.quantity,
-                rarity: resource.rarity || "common",
-              })));
-              console.log("Mining rewards awarded as on-chain resources");
-            } catch (error) {
-              console.warn("Failed to award on-chain mining rewards:", error);
-            }
-
-            // Record guild contribution for mining
-            try {
-              await recordContribution("mining", totalQuantity);
-            } catch (error) {
-              console.warn("Failed to record guild mining contribution:", error);
-            }
-
-            // Calculate base loyalty points for mining (with bonuses)
-            const basePoints = enhancedResources.length * 10 + enhancedExperience;
-
-            // Award loyalty points for mining
-            const loyaltyPoints = await awardPointsForActivity(
-              "mining_complete",
-              basePoints,
-            );
-
-            // Calculate final experience for display (multiplier is applied in onExperienceGained)
-            const multiplier = getCurrentMultiplier();
-            const finalExperience = Math.floor(result.experience * multiplier);
-
-            // Create a summary of extracted resources
-            const resourceSummary = result.resources.reduce(
-              (acc, resource) => {
-                const key = resource.type;
-
-                if (!acc[key]) {
-                  acc[key] = {
-                    type: resource.type,
-                    totalQuantity: 0,
-                    count: 0,
-                  };
-                }
-                acc[key].totalQuantity += resource.quantity;
-                acc[key].count += 1;
-
-                return acc;
-              },
-              {} as Record<
-                string,
-                { type: string; totalQuantity: number; count: number }
-              >,
-            );
-
-            const resourceText = Object.values(resourceSummary)
-              .map((summary) => {
-                const typedSummary = summary as {
-                  totalQuantity: number;
-                  type: string;
-                };
-
-                return `${typedSummary.totalQuantity} ${typedSummary.type}`;
-              })
-              .join(", ");
-
-            showSuccess(
-              "Mining Complete!",
-              `Extracted ${resourceText}, gained ${finalExperience} XP${loyaltyPoints && loyaltyPoints > 0 ? `, and earned ${loyaltyPoints} loyalty points` : ""}!`,
-            );
-          }
-        },
-        onCraftingComplete: async (result) => {
-          if (result.success) {
-            // Apply trait bonuses to experience
-            const enhancedExperience = applyExperienceBonus(result.experience);
-
-            // Update the result with enhanced values
-            const enhancedResult = {
-              ...result,
-              experience: enhancedExperience,
-            };
-
-            // Track mission progress for crafting activities
-            await trackCraftingActivity(result.item.type, 1);
-
-            // Track achievement progress for crafting
-            await trackActivity("crafting", 1);
-
-            // Award crafting result as on-chain resource
-            try {
-              await awardCraftingResult({
-                type: result.item.type,
-                rarity: result.item.rarity,
-              });
-              console.log("Crafting result awarded as on-chain resource");
-            } catch (error) {
-              console.warn("Failed to award on-chain crafting result:", error);
-            }
-
-            // Record guild contribution for crafting
-            try {
-              await recordContribution("crafting", 1);
-            } catch (error) {
-              console.warn("Failed to record guild crafting contribution:", error);
-            }
-
-            // Calculate base loyalty points for crafting based on item rarity (with bonuses)
-            const rarityMultipliers: Record<string, number> = {
-              common: 20,
-              rare: 50,
-              epic: 100,
-              legendary: 200,
-            };
-            const rarityMultiplier =
-              rarityMultipliers[result.item.rarity] || 20;
-            const basePoints = rarityMultiplier + enhancedExperience;
-
-            // Award loyalty points for crafting
-            const loyaltyPoints = await awardPointsForActivity(
-              "crafting_complete",
-              basePoints,
-            );
-
-            // Calculate final experience for display (multiplier is applied in onExperienceGained)
-            const multiplier = getCurrentMultiplier();
-            const finalExperience = Math.floor(result.experience * multiplier);
-
-            showSuccess(
-              "Crafting Complete!",
-              `Created ${result.item.name}, gained ${finalExperience} XP${loyaltyPoints && loyaltyPoints > 0 ? `, and earned ${loyaltyPoints} loyalty points` : ""}!`,
-            );
-          }
-        },
+        getLoyaltyMultiplier: () => getCurrentMultiplier(),
+        getBlueprintStudyChance: () =>
+          getBlueprintStudyChance(
+            useLocalCharacterStore.getState().activeCharacter?.traits || [],
+          ),
+        getCrystalPurity: () =>
+          getCrystalPurity(
+            useLocalCharacterStore.getState().activeCharacter?.traits || [],
+          ),
+        getCraftingQuality: () =>
+          getCraftingQuality(
+            useLocalCharacterStore.getState().activeCharacter?.traits || [],
+          ),
+        getSalvageBonus: () =>
+          getSalvageBonus(
+            useLocalCharacterStore.getState().activeCharacter?.traits || [],
+            useHoneycombStore.getState().playerGuildInfo?.guild.benefits
+              .craftingBonus,
+          ),
       },
     );
 
@@ -507,58 +467,21 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
       return stars;
     };
 
-    // Generate procedural space sector
+    // Generate the sector the ship is in, the home sector for a new game
     const generateSpaceSector = () => {
-      const sector = SpaceGenerator.generateSector({
-        size: 40,
-        asteroidCount: 15,
-        resourceNodeCount: 8,
-        stationCount: 2,
-        density: 0.3,
-        seed: 12345, // Fixed seed for consistent generation
-      });
+      const sector = gameSystems.loadCurrentSector();
 
       // Add all objects to the scene
       sector.objects.forEach((spaceObject) => {
         objectManager.addSpaceObject(spaceObject);
       });
 
-      // Generate additional asteroid fields
-      const asteroidField1 = SpaceGenerator.generateAsteroidField(
-        new THREE.Vector3(15, 5, -10),
-        8,
-        20,
-        54321,
-      );
-
-      const asteroidField2 = SpaceGenerator.generateAsteroidField(
-        new THREE.Vector3(-12, -8, 15),
-        6,
-        15,
-        98765,
-      );
-
-      [...asteroidField1, ...asteroidField2].forEach((asteroid) => {
-        objectManager.addSpaceObject(asteroid);
-      });
-
-      // Collect all space objects and update game systems
-      const allSpaceObjects = [
-        ...sector.objects,
-        ...asteroidField1,
-        ...asteroidField2,
-      ];
-
-      if (gameSystemsRef.current) {
-        gameSystemsRef.current.updateSpaceObjects(allSpaceObjects);
-      }
-
-      // Update sector info for UI
+      // Update sector info for UI, picking up a jump saved mid-warp
       setSectorInfo({
         name: sector.name,
-        objectCount:
-          sector.objects.length + asteroidField1.length + asteroidField2.length,
+        objectCount: sector.objects.length,
       });
+      setWarp(gameSystems.getWarp());
 
       return sector;
     };
@@ -601,8 +524,13 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
       const deltaTime = clockRef.current.getDelta();
       const deltaTimeMs = deltaTime * 1000; // Convert to milliseconds for game systems
 
-      // Update camera controls
+      // Update camera controls. Thrust draws ship energy and stops when it runs out
       if (controls) {
+        controls.setMovementEnabled(
+          !controls.isMoving() ||
+            !gameSystems ||
+            gameSystems.spendMovementEnergy(deltaTimeMs),
+        );
         controls.update(deltaTime);
       }
 
@@ -704,6 +632,17 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
       return;
     }
 
+    const canMine = gameSystemsRef.current.canStartMining(
+      player.id,
+      selectedObject,
+    );
+
+    if (!canMine.canMine) {
+      showWarning("Cannot Start Mining", canMine.reason || "");
+
+      return;
+    }
+
     const success = gameSystemsRef.current.startMining(
       player.id,
       selectedObject,
@@ -746,45 +685,310 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
       return;
     }
 
-    // Remove required resources from inventory
-    recipe.requiredResources.forEach((req) => {
-      removeResource(req.resourceType, req.quantity);
-    });
+    if (
+      !gameSystemsRef.current.hasEnergyFor(GAME_CONFIG.CRAFTING_ENERGY_COST)
+    ) {
+      showWarning(
+        "Not Enough Energy",
+        `Crafting needs ${GAME_CONFIG.CRAFTING_ENERGY_COST} ship energy. Refuel or wait for it to recharge.`,
+      );
 
-    // Start crafting
-    const success = gameSystemsRef.current.startCrafting(
+      return;
+    }
+
+    // Queue the job, which reserves the required resources from inventory
+    const job = gameSystemsRef.current.queueCrafting(
       player.id,
       recipeId,
       inventory,
     );
 
-    if (success) {
+    if (!job) {
+      showError(
+        "Crafting Failed",
+        `Unable to queue crafting. The queue holds at most ${GAME_CONFIG.CRAFTING_QUEUE_SIZE} waiting jobs.`,
+      );
+    } else if (
+      gameSystemsRef.current
+        .getCraftingQueue(player.id)
+        .some((queued) => queued.id === job.id)
+    ) {
+      showInfo(
+        "Crafting Queued",
+        `${recipe.name} will start when a crafting slot frees up.`,
+      );
+    } else {
       showInfo(
         "Crafting Started",
-        `Started crafting ${recipe.name}. This will take ${Math.ceil(recipe.craftingTime / 1000)} seconds.`,
+        `Started crafting ${recipe.name}. This will take ${Math.ceil(job.duration / 1000)} seconds.`,
       );
+    }
+  };
+
+  const handleCancelCrafting = (jobId: string) => {
+    if (!gameSystemsRef.current) return;
+
+    const overflow = gameSystemsRef.current.cancelCrafting(jobId);
+
+    if (!overflow) return;
+
+    showInfo(
+      "Crafting Cancelled",
+      "The reserved resources have been returned to your cargo hold.",
+    );
+    warnAboutOverflow(overflow);
+  };
+
+  const handleStartRefining = (recipeId: string) => {
+    if (!player || !gameSystemsRef.current) return;
+
+    if (
+      !gameSystemsRef.current.hasEnergyFor(GAME_CONFIG.REFINING_ENERGY_COST)
+    ) {
+      showWarning(
+        "Not Enough Energy",
+        `Refining needs ${GAME_CONFIG.REFINING_ENERGY_COST} ship energy. Refuel or wait for it to recharge.`,
+      );
+
+      return;
+    }
+
+    if (!gameSystemsRef.current.startRefining(player.id, recipeId, inventory)) {
+      showError(
+        "Refining Failed",
+        `Check your raw resources. At most ${GAME_CONFIG.REFINING_SLOTS} batches can refine at once.`,
+      );
+    }
+  };
+
+  const handleCancelRefining = (operationId: string) => {
+    if (!gameSystemsRef.current) return;
+
+    const overflow = gameSystemsRef.current.cancelRefining(operationId);
+
+    if (!overflow) return;
+
+    showInfo(
+      "Refining Cancelled",
+      "The raw resources have been returned to your cargo hold.",
+    );
+    warnAboutOverflow(overflow);
+  };
+
+  const handleStartSalvage = (itemId: string) => {
+    const item = inventory.find((r) => r.id === itemId);
+
+    if (!player || !gameSystemsRef.current || !item) return;
+
+    if (
+      !gameSystemsRef.current.hasEnergyFor(GAME_CONFIG.CRAFTING_ENERGY_COST)
+    ) {
+      showWarning(
+        "Not Enough Energy",
+        `Salvage needs ${GAME_CONFIG.CRAFTING_ENERGY_COST} ship energy. Refuel or wait for it to recharge.`,
+      );
+
+      return;
+    }
+
+    if (!gameSystemsRef.current.startSalvage(player.id, item)) {
+      showError(
+        "Salvage Failed",
+        `At most ${GAME_CONFIG.SALVAGE_SLOTS} item can be taken apart at once.`,
+      );
+    }
+  };
+
+  const handleCancelSalvage = (operationId: string) => {
+    if (!gameSystemsRef.current) return;
+
+    const overflow = gameSystemsRef.current.cancelSalvage(operationId);
+
+    if (!overflow) return;
+
+    showInfo(
+      "Salvage Cancelled",
+      "The item has been returned to your cargo hold.",
+    );
+    warnAboutOverflow(overflow);
+  };
+
+  const handlePurchaseBlueprint = (recipeId: string) => {
+    if (!player || !gameSystemsRef.current || !selectedObject) return;
+
+    const purchased = gameSystemsRef.current.purchaseBlueprint(
+      player.id,
+      recipeId,
+      selectedObject,
+    );
+
+    if (!purchased) {
+      showWarning(
+        "Purchase Failed",
+        "Dock at the station and make sure you have enough credits.",
+      );
+    }
+  };
+
+  const handleRepairAtStation = (slot: EquipmentSlot) => {
+    if (!gameSystemsRef.current || !selectedObject) {
+      showWarning("Repair Failed", "Select a station to repair at.");
+
+      return;
+    }
+
+    const repaired = gameSystemsRef.current.repairAtStation(
+      slot,
+      selectedObject,
+    );
+
+    if (repaired) {
+      showSuccess("Repaired", "Your equipment is as good as new.");
     } else {
-      showError("Crafting Failed", "Unable to start crafting operation.");
-      // Restore resources if crafting failed
-      recipe.requiredResources.forEach((req) => {
-        addResource({
-          id: `${req.resourceType}_${Date.now()}`,
-          name:
-            req.resourceType.charAt(0).toUpperCase() +
-            req.resourceType.slice(1),
-          type: req.resourceType as "crystal" | "metal" | "energy",
-          quantity: req.quantity,
-          rarity: "common",
-        });
-      });
+      showWarning(
+        "Repair Failed",
+        "Dock at the station and make sure you have enough credits.",
+      );
+    }
+  };
+
+  const handleRepairWithMetal = (slot: EquipmentSlot) => {
+    if (!gameSystemsRef.current) return;
+
+    if (gameSystemsRef.current.repairWithMetal(slot, inventory)) {
+      showSuccess("Repaired", "Your equipment is as good as new.");
+    } else {
+      showWarning("Repair Failed", "Not enough metal in the hold.");
+    }
+  };
+
+  const handleWarp = (sectorId: string) => {
+    if (!gameSystemsRef.current || !player) return;
+
+    const check = gameSystemsRef.current.canWarpTo(sectorId);
+
+    if (!check.canWarp) {
+      showWarning("Cannot Warp", check.reason || "Unable to start the jump.");
+
+      return;
+    }
+
+    gameSystemsRef.current.startWarp(player.id, sectorId);
+  };
+
+  const handleBuyFromMarket = (item: Resource, quantity: number) => {
+    if (!gameSystemsRef.current || !dockedStation) return;
+
+    const bought = gameSystemsRef.current.buyFromMarket(
+      dockedStation,
+      item,
+      quantity,
+    );
+
+    if (!bought) {
+      showWarning(
+        "Purchase Failed",
+        "Make sure you have enough credits and cargo space.",
+      );
+    }
+  };
+
+  const handleSellToMarket = (item: Resource, quantity: number) => {
+    if (!gameSystemsRef.current || !dockedStation) return;
+
+    const sold = gameSystemsRef.current.sellToMarket(
+      dockedStation,
+      item,
+      quantity,
+    );
+
+    if (!sold) {
+      showWarning("Sale Failed", "The station won't take that right now.");
+    }
+  };
+
+  const handleDeposit = (item: Resource, quantity: number) => {
+    if (!gameSystemsRef.current) return;
+
+    if (gameSystemsRef.current.depositToWarehouse(item, quantity) < quantity) {
+      showWarning(
+        "Warehouse Full",
+        "Not everything fit in the station's warehouse.",
+      );
+    }
+  };
+
+  const handleWithdraw = (item: Resource, quantity: number) => {
+    if (!gameSystemsRef.current) return;
+
+    if (
+      gameSystemsRef.current.withdrawFromWarehouse(item, quantity) < quantity
+    ) {
+      showWarning("Cargo Hold Full", "Make room in the hold to take the rest.");
+    }
+  };
+
+  const handleRestoreBoost = (effectId: string) => {
+    if (!gameSystemsRef.current) return;
+
+    if (gameSystemsRef.current.restoreBoost(effectId)) {
+      showSuccess("Boost Restored", "The boost is active again.");
+    } else {
+      showWarning("Restore Failed", "You don't have enough credits.");
     }
   };
 
-  const handleCancelCrafting = (operationId: string) => {
+  const handleReorderCrafting = (jobId: string, toIndex: number) => {
+    if (!player || !gameSystemsRef.current) return;
+
+    gameSystemsRef.current.reorderCraftingQueue(player.id, jobId, toIndex);
+  };
+
+  // Ship energy functions
+  const getShipEnergy = useCallback(
+    () => gameSystemsRef.current?.getEnergy() ?? null,
+    [],
+  );
+
+  // Read by the galaxy map while a warp jump is under way
+  const getWarpProgress = useCallback(
+    () => gameSystemsRef.current?.getWarpProgress() ?? 0,
+    [],
+  );
+
+  const handleRefuel = () => {
     if (!gameSystemsRef.current) return;
 
-    gameSystemsRef.current.cancelCrafting(operationId);
-    showInfo("Crafting Cancelled", "Crafting operation has been cancelled.");
+    const restored = gameSystemsRef.current.refuelFromInventory();
+
+    if (restored > 0) {
+      showSuccess(
+        "Refueled",
+        `Converted energy resources into ${Math.floor(restored)} ship energy.`,
+      );
+    } else {
+      showWarning("No Fuel", "You have no energy resources to convert.");
+    }
+  };
+
+  const handleDock = () => {
+    if (!gameSystemsRef.current || !selectedObject || !cameraRef.current) {
+      return;
+    }
+
+    const docked = gameSystemsRef.current.dockAt(
+      selectedObject,
+      cameraRef.current.position,
+    );
+
+    if (docked) {
+      showSuccess(
+        "Docked",
+        "Ship energy fully restored. Station services are open.",
+      );
+    } else {
+      showWarning("Too Far to Dock", "Fly closer to the station to dock.");
+    }
   };
 
   // Get active mining operations
@@ -799,12 +1003,73 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
       ? gameSystemsRef.current.getPlayerCraftingOperations(player.id)
       : [];
 
+  // Get jobs waiting for a free crafting slot
+  const craftingQueue =
+    player && gameSystemsRef.current
+      ? gameSystemsRef.current.getCraftingQueue(player.id)
+      : [];
+
+  const craftingSlots =
+    player && gameSystemsRef.current
+      ? gameSystemsRef.current.getCraftingSlots(player.id)
+      : GAME_CONFIG.CRAFTING_BASE_SLOTS;
+
   // Get available crafting recipes
   const availableRecipes =
     player && gameSystemsRef.current
-      ? gameSystemsRef.current.getAvailableRecipes(player.level || 1)
+      ? gameSystemsRef.current.getAvailableRecipes(player.id, player.level || 1)
+      : [];
+
+  const activeRefiningOperations =
+    player && gameSystemsRef.current
+      ? gameSystemsRef.current.getPlayerRefiningOperations(player.id)
+      : [];
+
+  const refiningRecipes = gameSystemsRef.current?.getRefiningRecipes() ?? [];
+
+  const activeSalvageOperations =
+    player && gameSystemsRef.current
+      ? gameSystemsRef.current.getPlayerSalvageOperations(player.id)
+      : [];
+
+  // Crafted items in the hold and what taking each apart would give back
+  const salvageableItems = inventory
+    .map((item) => ({
+      item,
+      returns: gameSystemsRef.current?.getSalvageReturns(item) ?? [],
+    }))
+    .filter(({ returns }) => returns.length > 0);
+
+  // Quality each recipe would craft at with the current inventory and bonuses
+  const expectedQualities = Object.fromEntries(
+    availableRecipes.map((recipe) => [
+      recipe.id,
+      gameSystemsRef.current?.getExpectedQuality(recipe.id, inventory) ?? null,
+    ]),
+  );
+
+  // Blueprints for sale at the selected station
+  const stationBlueprints =
+    player && gameSystemsRef.current && selectedObject?.type === "station"
+      ? gameSystemsRef.current.getStationBlueprints(
+          player.id,
+          player.level || 1,
+        )
       : [];
 
+  // Goods for sale at the docked station
+  const marketListings =
+    gameSystemsRef.current && dockedStation
+      ? gameSystemsRef.current.getMarketListings(dockedStation)
+      : [];
+
+  const warehouse = dockedStation ? warehouses[dockedStation.id] || [] : [];
+
+  // "station_0", without the sector prefix stations outside home space carry
+  const dockedStationName = dockedStation
+    ? dockedStation.id.split("_").slice(-2).join(" ")
+    : "";
+
   // Inventory action handlers
   const handleUseItem = (itemId: string, quantity: number) => {
     // Find the item in inventory
@@ -827,6 +1092,9 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
     // Remove the specified quantity of the item
     removeResource(itemId, quantity);
 
+    // Crafted items scale their boosts by quality
+    const quality = getQualityMultiplier(item);
+
     // Use new tiered benefit system
     const baseDuration = 300000; // 5 minutes base duration
     const totalDuration = baseDuration * quantity;
@@ -841,6 +1109,7 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
             quantity,
             totalDuration,
             `${item.name} Mining Boost`,
+            quality,
           );
 
         showSuccess(
@@ -850,7 +1119,7 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
         break;
 
       case "crystal":
-        // Crystals provide experience boost using tiered system
+        // Crystals provide experience and crafting quality boosts using tiered system
         const rarityMultiplier =
           {
             common: 1.0,
@@ -859,7 +1128,7 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
             legendary: 3.0,
           }[item.rarity] || 1.0;
 
-        const experienceGained = quantity * 50 * rarityMultiplier; // 50-150 XP per crystal based on rarity
+        const experienceGained = quantity * 50 * rarityMultiplier * quality; // 50-150 XP per crystal based on rarity
         const expDuration = 600000 * quantity; // 10 minutes per crystal
 
         updatePlayerExperience(Math.floor(experienceGained));
@@ -870,11 +1139,21 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
             quantity,
             expDuration,
             `${item.name} Experience Boost`,
+            quality,
+          );
+        useItemEffectsStore
+          .getState()
+          .useItems(
+            "crafting_quality",
+            quantity,
+            expDuration,
+            `${item.name} Crafting Quality`,
+            quality,
           );
 
         showSuccess(
           "Experience Boosted!",
-          `Used ${quantity} ${item.name}(s) - Gained ${Math.floor(experienceGained)} XP and tiered experience boost!`,
+          `Used ${quantity} ${item.name}(s) - Gained ${Math.floor(experienceGained)} XP and tiered experience and crafting quality boosts!`,
         );
         break;
 
@@ -889,6 +1168,7 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
             quantity,
             metalDuration,
             `${item.name} Crafting Boost`,
+            quality,
           );
         useItemEffectsStore
           .getState()
@@ -897,6 +1177,7 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
             quantity,
             metalDuration,
             `${item.name} Resource Yield`,
+            quality,
           );
 
         showSuccess(
@@ -916,6 +1197,7 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
             quantity,
             genericDuration,
             `${item.name} Boost`,
+            quality,
           );
 
         showInfo(
@@ -926,6 +1208,21 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
     }
   };
 
+  const handleEquipItem = (itemId: string) => {
+    const item = inventory.find((r) => r.id === itemId);
+
+    if (!item) return;
+
+    if (useEquipmentStore.getState().equipItem(item)) {
+      showSuccess("Item Equipped", `${item.name} is now fitted to your ship.`);
+    } else {
+      showWarning(
+        "Cannot Equip",
+        `No room in the cargo hold for the item ${item.name} would replace.`,
+      );
+    }
+  };
+
   const handleDropItem = (itemId: string, quantity: number) => {
     // Find the item in inventory
     const item = inventory.find((r) => r.id === itemId);
@@ -1070,6 +1367,12 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
                         {obj.resources.length}
                       </div>
                     )}
+                    {hasFiniteReserves(obj) && (
+                      <div>
+                        <span className="text-white">Reserves:</span>{" "}
+                        {getRemainingReserves(obj)} units
+                      </div>
+                    )}
                   </>
                 );
               })()}
@@ -1131,12 +1434,47 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
         <div className="mt-2">
           <ActiveEffectsPanel />
         </div>
+
+        {/* Ship Energy Panel */}
+        <div className="mt-2">
+          <ShipEnergyPanel
+            canDock={selectedObject?.type === "station" && !dockedStation}
+            getEnergy={getShipEnergy}
+            onDock={handleDock}
+            onRefuel={handleRefuel}
+          />
+        </div>
+
+        {/* Equipment Panel */}
+        <div className="mt-2">
+          <EquipmentPanel
+            getRepairCost={(slot) =>
+              gameSystemsRef.current?.getRepairCost(slot) ?? {
+                credits: 0,
+                metal: 0,
+              }
+            }
+            onRepairAtStation={handleRepairAtStation}
+            onRepairWithMetal={handleRepairWithMetal}
+            onUnequipFailed={(slotName) =>
+              showWarning(
+                "Cargo Hold Full",
+                `Make room in the hold before removing your ${slotName}.`,
+              )
+            }
+          />
+        </div>
       </div>
 
       {/* Mining Interface */}
       <div className="absolute top-4 right-4 z-10">
         <MiningInterface
           activeMiningOperations={activeMiningOperations}
+          estimatedYield={
+            selectedObject && gameSystemsRef.current
+              ? gameSystemsRef.current.getEstimatedYield(selectedObject)
+              : null
+          }
           selectedObject={selectedObject}
           onCancelMining={handleCancelMining}
           onStartMining={handleStartMining}
@@ -1199,6 +1537,24 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
           <div className="absolute inset-0 bg-white/5 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
         </button>
 
+        {/* Galaxy Map Button */}
+        <button
+          className={`group relative bg-gradient-to-r ${
+            showGalaxyMap
+              ? "from-cyan-700/90 to-cyan-600/90 border-cyan-400/40"
+              : "from-cyan-800/70 to-cyan-700/70 border-cyan-500/30"
+          } backdrop-blur-md border rounded-xl px-5 py-3 text-white hover:from-cyan-600/90 hover:to-cyan-500/90 hover:border-cyan-400/50 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:scale-105 min-w-[140px]`}
+          onClick={() => setShowGalaxyMap(!showGalaxyMap)}
+        >
+          <div className="flex items-center justify-center gap-2">
+            <span className="text-lg">🌌</span>
+            <span className="font-medium">
+              {showGalaxyMap ? "Hide" : "Show"} Galaxy
+            </span>
+          </div>
+          <div className="absolute inset-0 bg-white/5 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
+        </button>
+
         {/* Guilds Button */}
         <button
           className={`group relative bg-gradient-to-r ${
@@ -1225,9 +1581,11 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
         <div className="absolute bottom-24 right-4 z-20 animate-in slide-in-from-right-4 duration-300">
           <div className="bg-black/20 backdrop-blur-sm rounded-2xl p-1 border border-white/10">
             <InventoryInterface
+              cargoCapacity={cargoCapacity}
               inventory={inventory}
               onClose={() => setShowInventory(false)}
               onDropItem={handleDropItem}
+              onEquipItem={handleEquipItem}
               onUseItem={handleUseItem}
             />
           </div>
@@ -1241,10 +1599,25 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
             <CraftingInterface
               activeCraftingOperations={activeCraftingOperations}
               availableRecipes={availableRecipes}
+              craftingQueue={craftingQueue}
+              craftingSlots={craftingSlots}
+              expectedQualities={expectedQualities}
               inventory={inventory}
+              isDocked={!!dockedStation}
               onCancelCrafting={handleCancelCrafting}
               onClose={() => setShowCrafting(false)}
+              activeRefiningOperations={activeRefiningOperations}
+              refiningRecipes={refiningRecipes}
+              stationBlueprints={stationBlueprints}
+              activeSalvageOperations={activeSalvageOperations}
+              salvageableItems={salvageableItems}
+              onCancelRefining={handleCancelRefining}
+              onCancelSalvage={handleCancelSalvage}
+              onPurchaseBlueprint={handlePurchaseBlueprint}
+              onReorderCrafting={handleReorderCrafting}
               onStartCrafting={handleStartCrafting}
+              onStartRefining={handleStartRefining}
+              onStartSalvage={handleStartSalvage}
             />
           </div>
         </div>
@@ -1268,6 +1641,71 @@ export default function VanillaScene({ className = "" }: VanillaSceneProps) {
         </div>
       )}
 
+      {/* Galaxy Map */}
+      {showGalaxyMap && gameSystemsRef.current && (
+        <div className="absolute top-24 right-4 z-20 animate-in slide-in-from-right-4 duration-300">
+          <div className="bg-black/20 backdrop-blur-sm rounded-2xl p-1 border border-cyan-400/20">
+            <GalaxyMapInterface
+              canWarpTo={(sectorId) =>
+                gameSystemsRef.current!.canWarpTo(sectorId)
+              }
+              currentSectorId={gameSystemsRef.current.getCurrentSector().id}
+              galaxy={gameSystemsRef.current.getGalaxy()}
+              getWarpCost={(sectorId) =>
+                gameSystemsRef.current!.getWarpCost(sectorId)
+              }
+              getWarpProgress={getWarpProgress}
+              warp={warp}
+              onClose={() => setShowGalaxyMap(false)}
+              onWarp={handleWarp}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Station Services and Market, open while docked */}
+      {player && dockedStation && (
+        <div className="absolute top-24 left-1/2 -translate-x-1/2 z-20 flex gap-2 animate-in slide-in-from-top-4 duration-300">
+          <div className="bg-black/20 backdrop-blur-sm rounded-2xl p-1 border border-cyan-400/20">
+            <StationServicesPanel
+              credits={player.credits}
+              expiredEffects={expiredEffects}
+              getRestoreFee={(effect) =>
+                gameSystemsRef.current?.getBoostRestoreFee(effect) ?? 0
+              }
+              inventory={inventory}
+              stationName={dockedStationName}
+              warehouse={warehouse}
+              onDeposit={handleDeposit}
+              onOpenMarket={showMarket ? undefined : () => setShowMarket(true)}
+              onRestoreBoost={handleRestoreBoost}
+              onUndock={() => gameSystemsRef.current?.undock()}
+              onWithdraw={handleWithdraw}
+            />
+          </div>
+          {showMarket && (
+            <div className="bg-black/20 backdrop-blur-sm rounded-2xl p-1 border border-yellow-400/20">
+              <MarketInterface
+                credits={player.credits}
+                getSellPrice={(item, quantity) =>
+                  gameSystemsRef.current?.getMarketSellPrice(
+                    dockedStation,
+                    item,
+                    quantity,
+                  ) ?? null
+                }
+                inventory={inventory}
+                listings={marketListings}
+                stationName={dockedStationName}
+                onBuy={handleBuyFromMarket}
+                onClose={() => setShowMarket(false)}
+                onSell={handleSellToMarket}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Mission Completion Modal */}
       <MissionCompletionModal
         isOpen={completionModal.isOpen}
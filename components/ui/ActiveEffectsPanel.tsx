@@ -66,6 +66,9 @@ export default function ActiveEffectsPanel({
     if (multipliers.craftingSpeed > 1.0) {
       bonuses.push(`🔨 ${Math.round(multipliers.craftingSpeed * 100)}%`);
     }
+    if (multipliers.craftingQuality > 1.0) {
+      bonuses.push(`🏅 ${Math.round(multipliers.craftingQuality * 100)}%`);
+    }
     if (multipliers.experienceBoost > 1.0) {
       bonuses.push(`⭐ ${Math.round(multipliers.experienceBoost * 100)}%`);
     }
@@ -210,6 +213,17 @@ export default function ActiveEffectsPanel({
                         </div>
                       </div>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-2xl">🏅</span>
+                      <div>
+                        <div className="font-semibold text-secondary-600">
+                          {(multipliers.craftingQuality * 100).toFixed(0)}%
+                        </div>
+                        <div className="text-xs text-default-600">
+                          Crafting Quality
+                        </div>
+                      </div>
+                    </div>
                     <div className="flex items-center gap-2">
                       <span className="text-2xl">⭐</span>
                       <div>
@@ -254,8 +268,8 @@ export default function ActiveEffectsPanel({
                       • <strong>Energy items</strong> boost mining efficiency
                     </li>
                     <li>
-                      • <strong>Crystals</strong> provide experience boosts +
-                      immediate XP
+                      • <strong>Crystals</strong> provide experience and
+                      crafting quality boosts + immediate XP
                     </li>
                     <li>
                       • <strong>Metals</strong> enhance crafting speed +
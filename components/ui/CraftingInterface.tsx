@@ -1,7 +1,17 @@
 "use client";
 
-import type { CraftingRecipe } from "@/types/game";
-import type { CraftingOperation } from "@/systems/craftingSystem";
+import type {
+  CraftingRecipe,
+  ItemQuality,
+  RecipeInput,
+  RefiningRecipe,
+} from "@/types/game";
+import type {
+  CraftingJob,
+  CraftingOperation,
+  RefiningOperation,
+  SalvageOperation,
+} from "@/systems/craftingSystem";
 
 import React, { useState, useEffect } from "react";
 import { Button } from "@heroui/button";
@@ -22,15 +32,37 @@ import {
 import WalletConnectionDialog from "./WalletConnectionDialog";
 
 import { Resource } from "@/stores/gameStore";
-import { getRarityColor, getResourceTypeColor } from "@/utils/gameHelpers";
+import {
+  checkRecipeInputs,
+  formatRecipeInput,
+  getQualityColor,
+  getRarityColor,
+  getResourceTypeColor,
+  matchesRecipeInput,
+} from "@/utils/gameHelpers";
 import { useGameStore } from "@/stores/gameStore";
 
 interface CraftingInterfaceProps {
   availableRecipes: CraftingRecipe[];
   inventory: Resource[];
   activeCraftingOperations: CraftingOperation[];
+  craftingQueue?: CraftingJob[]; // Jobs waiting for a free slot
+  craftingSlots?: number;
+  expectedQualities?: Record<string, ItemQuality | null>; // By recipe id, null if it can't be crafted now
   onStartCrafting: (recipeId: string) => void;
-  onCancelCrafting: (operationId: string) => void;
+  onCancelCrafting: (jobId: string) => void;
+  onReorderCrafting?: (jobId: string, toIndex: number) => void;
+  stationBlueprints?: { recipe: CraftingRecipe; price: number }[]; // For sale at the selected station
+  onPurchaseBlueprint?: (recipeId: string) => void;
+  refiningRecipes?: RefiningRecipe[];
+  activeRefiningOperations?: RefiningOperation[];
+  onStartRefining?: (recipeId: string) => void;
+  onCancelRefining?: (operationId: string) => void;
+  salvageableItems?: { item: Resource; returns: Resource[] }[];
+  activeSalvageOperations?: SalvageOperation[];
+  onStartSalvage?: (itemId: string) => void;
+  onCancelSalvage?: (operationId: string) => void;
+  isDocked?: boolean; // Station-only recipes can only be started while docked
   onClose?: () => void;
   className?: string;
 }
@@ -39,8 +71,23 @@ export default function CraftingInterface({
   availableRecipes,
   inventory,
   activeCraftingOperations,
+  craftingQueue = [],
+  craftingSlots = 1,
+  expectedQualities = {},
   onStartCrafting,
   onCancelCrafting,
+  onReorderCrafting,
+  stationBlueprints = [],
+  onPurchaseBlueprint,
+  refiningRecipes = [],
+  activeRefiningOperations = [],
+  onStartRefining,
+  onCancelRefining,
+  salvageableItems = [],
+  activeSalvageOperations = [],
+  onStartSalvage,
+  onCancelSalvage,
+  isDocked = false,
   onClose,
   className = "",
 }: CraftingInterfaceProps) {
@@ -67,11 +114,9 @@ export default function CraftingInterface({
     const interval = setInterval(() => {
       const newProgress: { [key: string]: number } = {};
 
+      // Progress is advanced by the game clock, so read it from the operation
       activeCraftingOperations.forEach((operation) => {
-        const elapsed = Date.now() - operation.startTime;
-        const progress = Math.min(elapsed / operation.duration, 1.0) * 100;
-
-        newProgress[operation.id] = progress;
+        newProgress[operation.id] = Math.min(operation.progress, 1.0) * 100;
       });
 
       setCraftingProgress(newProgress);
@@ -81,47 +126,17 @@ export default function CraftingInterface({
   }, [activeCraftingOperations]);
 
   // Check if player can craft a recipe
-  const canCraftRecipe = (
-    recipe: CraftingRecipe,
-  ): {
-    canCraft: boolean;
-    missingResources?: { resourceType: string; needed: number; have: number }[];
-  } => {
-    const missingResources: {
-      resourceType: string;
-      needed: number;
-      have: number;
-    }[] = [];
-
-    for (const requirement of recipe.requiredResources) {
-      const playerAmount = getResourceAmount(
-        inventory,
-        requirement.resourceType,
-      );
-
-      if (playerAmount < requirement.quantity) {
-        missingResources.push({
-          resourceType: requirement.resourceType,
-          needed: requirement.quantity,
-          have: playerAmount,
-        });
-      }
-    }
+  const canCraftRecipe = (recipe: Pick<CraftingRecipe, "inputs">) =>
+    checkRecipeInputs(recipe, inventory);
 
-    return {
-      canCraft: missingResources.length === 0,
-      missingResources:
-        missingResources.length > 0 ? missingResources : undefined,
-    };
-  };
+  // Station-only recipes wait until the ship is docked
+  const needsStation = (recipe: CraftingRecipe) =>
+    !!recipe.stationOnly && !isDocked;
 
-  // Get resource amount from inventory
-  const getResourceAmount = (
-    inventory: Resource[],
-    resourceType: string,
-  ): number => {
+  // Get the inventory amount that counts towards a recipe input
+  const getInputAmount = (input: RecipeInput): number => {
     return inventory
-      .filter((resource) => resource.type === resourceType)
+      .filter((resource) => matchesRecipeInput(resource, input))
       .reduce((total, resource) => total + resource.quantity, 0);
   };
 
@@ -131,15 +146,14 @@ export default function CraftingInterface({
       recipe.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       recipe.description.toLowerCase().includes(searchTerm.toLowerCase());
 
-    const matchesTab =
-      selectedTab === "all" || recipe.output.rarity === selectedTab;
+    const matchesTab = selectedTab === "all" || recipe.category === selectedTab;
 
     return matchesSearch && matchesTab;
   });
 
-  // Get unique rarities for tabs
-  const rarities = Array.from(
-    new Set(availableRecipes.map((recipe) => recipe.output.rarity)),
+  // Get unique categories for tabs
+  const categories = Array.from(
+    new Set(availableRecipes.map((recipe) => recipe.category)),
   );
 
   const handleRecipeClick = (recipe: CraftingRecipe) => {
@@ -209,21 +223,30 @@ export default function CraftingInterface({
               onSelectionChange={(key) => setSelectedTab(key as string)}
             >
               <Tab key="all" title="All" />
-              {rarities.map((rarity) => (
+              {categories.map((category) => (
                 <Tab
-                  key={rarity}
-                  title={rarity.charAt(0).toUpperCase() + rarity.slice(1)}
+                  key={category}
+                  title={category.charAt(0).toUpperCase() + category.slice(1)}
                 />
               ))}
+              {refiningRecipes.length > 0 && onStartRefining && (
+                <Tab key="refinery" title="Refinery" />
+              )}
+              {onStartSalvage && <Tab key="salvage" title="Salvage" />}
             </Tabs>
           </div>
 
           {/* Active Crafting Operations */}
           {activeCraftingOperations.length > 0 && (
             <div className="space-y-2">
-              <h4 className="text-sm font-semibold text-primary">
-                Active Crafting
-              </h4>
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-semibold text-primary">
+                  Active Crafting
+                </h4>
+                <span className="text-xs text-default-500">
+                  {activeCraftingOperations.length} / {craftingSlots} slots
+                </span>
+              </div>
               {activeCraftingOperations.map((operation) => (
                 <Card key={operation.id} className="bg-primary/10">
                   <CardBody className="p-3">
@@ -255,8 +278,7 @@ export default function CraftingInterface({
                       />
                       <div className="text-xs text-default-500">
                         {formatTime(
-                          operation.duration -
-                            (Date.now() - operation.startTime),
+                          operation.duration * (1 - operation.progress),
                         )}{" "}
                         remaining
                       </div>
@@ -267,9 +289,236 @@ export default function CraftingInterface({
             </div>
           )}
 
+          {/* Active Refining Operations */}
+          {activeRefiningOperations.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-secondary">Refining</h4>
+              {activeRefiningOperations.map((operation) => (
+                <div
+                  key={operation.id}
+                  className="space-y-1 p-2 bg-secondary/10 rounded"
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">{operation.outputItem.name}</span>
+                    {onCancelRefining && (
+                      <Button
+                        aria-label={`Cancel refining ${operation.outputItem.name}`}
+                        color="danger"
+                        size="sm"
+                        variant="light"
+                        onPress={() => onCancelRefining(operation.id)}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                  <Progress
+                    aria-label={`Refining progress for ${operation.outputItem.name}`}
+                    color="secondary"
+                    size="sm"
+                    value={Math.min(operation.progress, 1.0) * 100}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Active Salvage Operations */}
+          {activeSalvageOperations.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-warning">Salvaging</h4>
+              {activeSalvageOperations.map((operation) => (
+                <div
+                  key={operation.id}
+                  className="space-y-1 p-2 bg-warning/10 rounded"
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">
+                      {operation.requiredResources[0].name}
+                    </span>
+                    {onCancelSalvage && (
+                      <Button
+                        aria-label={`Cancel salvaging ${operation.requiredResources[0].name}`}
+                        color="danger"
+                        size="sm"
+                        variant="light"
+                        onPress={() => onCancelSalvage(operation.id)}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                  <Progress
+                    aria-label={`Salvage progress for ${operation.requiredResources[0].name}`}
+                    color="warning"
+                    size="sm"
+                    value={Math.min(operation.progress, 1.0) * 100}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Jobs waiting for a free slot, started top to bottom */}
+          {craftingQueue.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-default-600">
+                Queued ({craftingQueue.length})
+              </h4>
+              {craftingQueue.map((job, index) => (
+                <div
+                  key={job.id}
+                  className="flex items-center gap-2 p-2 bg-default-100 rounded"
+                >
+                  <span className="text-sm flex-1 truncate">
+                    {index + 1}. {job.outputItem.name}
+                  </span>
+                  <span className="text-xs text-default-500">
+                    {formatTime(job.duration)}
+                  </span>
+                  {onReorderCrafting && (
+                    <>
+                      <Button
+                        isIconOnly
+                        aria-label={`Move ${job.outputItem.name} up the queue`}
+                        isDisabled={index === 0}
+                        size="sm"
+                        variant="light"
+                        onPress={() => onReorderCrafting(job.id, index - 1)}
+                      >
+                        ▲
+                      </Button>
+                      <Button
+                        isIconOnly
+                        aria-label={`Move ${job.outputItem.name} down the queue`}
+                        isDisabled={index === craftingQueue.length - 1}
+                        size="sm"
+                        variant="light"
+                        onPress={() => onReorderCrafting(job.id, index + 1)}
+                      >
+                        ▼
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    aria-label={`Cancel queued ${job.outputItem.name}`}
+                    color="danger"
+                    size="sm"
+                    variant="light"
+                    onPress={() => onCancelCrafting(job.id)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Blueprints for sale at the selected station */}
+          {stationBlueprints.length > 0 && onPurchaseBlueprint && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-warning">
+                Station Blueprints
+              </h4>
+              {stationBlueprints.map(({ recipe, price }) => (
+                <div
+                  key={recipe.id}
+                  className="flex items-center gap-2 p-2 bg-default-100 rounded"
+                >
+                  <span className="text-sm flex-1 truncate">{recipe.name}</span>
+                  <span className="text-xs text-default-500">
+                    {price} credits
+                  </span>
+                  <Button
+                    aria-label={`Buy the ${recipe.name} blueprint`}
+                    color="warning"
+                    isDisabled={!player || player.credits < price}
+                    size="sm"
+                    variant="flat"
+                    onPress={() => onPurchaseBlueprint(recipe.id)}
+                  >
+                    Buy
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Recipes Grid */}
           <div className="flex-1 overflow-y-auto">
-            {filteredRecipes.length === 0 ? (
+            {selectedTab === "salvage" ? (
+              salvageableItems.length === 0 ? (
+                <div className="text-center text-default-500 py-8">
+                  No crafted items to salvage
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 gap-2">
+                  {salvageableItems.map(({ item, returns }) => (
+                    <div
+                      key={item.id}
+                      className="flex items-center gap-2 p-3 bg-default-100 rounded"
+                    >
+                      <div className="flex-1">
+                        <h4 className="text-sm font-medium">
+                          {item.name}{" "}
+                          <span className="text-xs text-default-500">
+                            x{item.quantity}
+                          </span>
+                        </h4>
+                        <p className="text-xs text-default-500">
+                          →{" "}
+                          {returns
+                            .map(({ quantity, name }) => `${quantity} ${name}`)
+                            .join(", ")}
+                        </p>
+                      </div>
+                      <Button
+                        aria-label={`Salvage ${item.name}`}
+                        color="warning"
+                        isDisabled={!player}
+                        size="sm"
+                        variant="flat"
+                        onPress={() => onStartSalvage?.(item.id)}
+                      >
+                        Salvage
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )
+            ) : selectedTab === "refinery" ? (
+              <div className="grid grid-cols-1 gap-2">
+                {refiningRecipes.map((recipe) => (
+                  <div
+                    key={recipe.id}
+                    className="flex items-center gap-2 p-3 bg-default-100 rounded"
+                  >
+                    <div className="flex-1">
+                      <h4 className="text-sm font-medium">{recipe.name}</h4>
+                      <p className="text-xs text-default-500">
+                        {recipe.inputs
+                          .map((input) =>
+                            formatRecipeInput(input, input.quantity),
+                          )
+                          .join(", ")}{" "}
+                        → {recipe.output.quantity} {recipe.output.name} •{" "}
+                        {formatTime(recipe.refiningTime)}
+                      </p>
+                    </div>
+                    <Button
+                      aria-label={`Refine ${recipe.name}`}
+                      color="secondary"
+                      isDisabled={!player || !canCraftRecipe(recipe).canCraft}
+                      size="sm"
+                      variant="flat"
+                      onPress={() => onStartRefining?.(recipe.id)}
+                    >
+                      Refine
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : filteredRecipes.length === 0 ? (
               <div className="text-center text-default-500 py-8">
                 {searchTerm
                   ? "No recipes match your search"
@@ -285,7 +534,9 @@ export default function CraftingInterface({
                       key={recipe.id}
                       isPressable
                       className={`hover:scale-[1.02] transition-transform cursor-pointer ${
-                        !craftCheck.canCraft ? "opacity-60" : ""
+                        !craftCheck.canCraft || needsStation(recipe)
+                          ? "opacity-60"
+                          : ""
                       }`}
                       onPress={() => handleRecipeClick(recipe)}
                     >
@@ -303,12 +554,14 @@ export default function CraftingInterface({
                             <Chip
                               size="sm"
                               style={{
-                                backgroundColor: `${getRarityColor(recipe.output.rarity)}20`,
-                                color: getRarityColor(recipe.output.rarity),
+                                backgroundColor: `${getRarityColor(recipe.outputs[0].item.rarity)}20`,
+                                color: getRarityColor(
+                                  recipe.outputs[0].item.rarity,
+                                ),
                               }}
                               variant="flat"
                             >
-                              {recipe.output.rarity}
+                              {recipe.outputs[0].item.rarity}
                             </Chip>
                           </div>
 
@@ -318,9 +571,9 @@ export default function CraftingInterface({
                               {formatTime(recipe.craftingTime)}
                             </span>
                             <div className="flex gap-1">
-                              {recipe.requiredResources.map((req) => (
+                              {recipe.inputs.map((req) => (
                                 <Chip
-                                  key={`${recipe.id}_${req.resourceType}`}
+                                  key={`${recipe.id}_${req.resourceType}_${req.item || req.rarity || "any"}`}
                                   className="text-xs"
                                   color={
                                     getResourceTypeColor(
@@ -330,19 +583,28 @@ export default function CraftingInterface({
                                   size="sm"
                                   variant="flat"
                                 >
-                                  {req.quantity} {req.resourceType}
+                                  {formatRecipeInput(req, req.quantity)}
                                 </Chip>
                               ))}
                             </div>
                           </div>
 
+                          {recipe.stationOnly && (
+                            <div
+                              className={`text-xs ${isDocked ? "text-success" : "text-warning"}`}
+                            >
+                              {isDocked
+                                ? "Station fabricators available"
+                                : "Dock at a station to craft"}
+                            </div>
+                          )}
+
                           {!craftCheck.canCraft && (
                             <div className="text-xs text-danger">
                               Missing:{" "}
                               {craftCheck.missingResources
-                                ?.map(
-                                  (mr) =>
-                                    `${mr.needed - mr.have} ${mr.resourceType}`,
+                                ?.map((mr) =>
+                                  formatRecipeInput(mr, mr.needed - mr.have),
                                 )
                                 .join(", ")}
                             </div>
@@ -367,14 +629,14 @@ export default function CraftingInterface({
               <Chip
                 size="sm"
                 style={{
-                  backgroundColor: `${getRarityColor(selectedRecipe?.output.rarity || "common")}20`,
+                  backgroundColor: `${getRarityColor(selectedRecipe?.outputs[0].item.rarity || "common")}20`,
                   color: getRarityColor(
-                    selectedRecipe?.output.rarity || "common",
+                    selectedRecipe?.outputs[0].item.rarity || "common",
                   ),
                 }}
                 variant="flat"
               >
-                {selectedRecipe?.output.rarity}
+                {selectedRecipe?.outputs[0].item.rarity}
               </Chip>
             </div>
           </ModalHeader>
@@ -402,6 +664,23 @@ export default function CraftingInterface({
                       {formatTime(selectedRecipe.craftingTime)}
                     </div>
                   </div>
+                  {expectedQualities[selectedRecipe.id] && (
+                    <div>
+                      <span className="text-sm text-default-500">
+                        Expected Quality
+                      </span>
+                      <div
+                        className="text-lg font-bold capitalize"
+                        style={{
+                          color: getQualityColor(
+                            expectedQualities[selectedRecipe.id]!,
+                          ),
+                        }}
+                      >
+                        {expectedQualities[selectedRecipe.id]}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 <div>
@@ -409,16 +688,13 @@ export default function CraftingInterface({
                     Required Resources
                   </span>
                   <div className="mt-2 space-y-2">
-                    {selectedRecipe.requiredResources.map((req) => {
-                      const available = getResourceAmount(
-                        inventory,
-                        req.resourceType,
-                      );
+                    {selectedRecipe.inputs.map((req) => {
+                      const available = getInputAmount(req);
                       const hasEnough = available >= req.quantity;
 
                       return (
                         <div
-                          key={`${selectedRecipe.id}_req_${req.resourceType}`}
+                          key={`${selectedRecipe.id}_req_${req.resourceType}_${req.item || req.rarity || "any"}`}
                           className="flex justify-between items-center p-2 bg-default-100 rounded"
                         >
                           <div className="flex items-center gap-2">
@@ -429,7 +705,10 @@ export default function CraftingInterface({
                               size="sm"
                               variant="flat"
                             >
-                              {req.resourceType}
+                              {req.item ||
+                                (req.rarity
+                                  ? `${req.rarity} ${req.resourceType}`
+                                  : req.resourceType)}
                             </Chip>
                             <span className="text-sm">
                               {req.quantity} required
@@ -448,26 +727,30 @@ export default function CraftingInterface({
 
                 <div>
                   <span className="text-sm text-default-500">Output</span>
-                  <div className="mt-2 p-2 bg-default-100 rounded">
-                    <div className="flex items-center gap-2">
-                      <Chip
-                        color={
-                          getResourceTypeColor(
-                            selectedRecipe.output.type,
-                          ) as any
-                        }
-                        size="sm"
-                        variant="flat"
+                  <div className="mt-2 space-y-2">
+                    {selectedRecipe.outputs.map(({ item, probability }) => (
+                      <div
+                        key={`${selectedRecipe.id}_out_${item.id}`}
+                        className="flex items-center gap-2 p-2 bg-default-100 rounded"
                       >
-                        {selectedRecipe.output.type}
-                      </Chip>
-                      <span className="text-sm font-medium">
-                        {selectedRecipe.output.name}
-                      </span>
-                      <span className="text-xs text-default-500">
-                        x{selectedRecipe.output.quantity}
-                      </span>
-                    </div>
+                        <Chip
+                          color={getResourceTypeColor(item.type) as any}
+                          size="sm"
+                          variant="flat"
+                        >
+                          {item.type}
+                        </Chip>
+                        <span className="text-sm font-medium">{item.name}</span>
+                        <span className="text-xs text-default-500">
+                          x{item.quantity}
+                        </span>
+                        {probability < 1 && (
+                          <span className="text-xs text-default-500 ml-auto">
+                            {Math.round(probability * 100)}% chance
+                          </span>
+                        )}
+                      </div>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -491,11 +774,18 @@ export default function CraftingInterface({
               }
               color="primary"
               isDisabled={
-                selectedRecipe ? !canCraftRecipe(selectedRecipe).canCraft : true
+                selectedRecipe
+                  ? !canCraftRecipe(selectedRecipe).canCraft ||
+                    needsStation(selectedRecipe)
+                  : true
               }
               onPress={handleStartCrafting}
             >
-              {!player ? "Connect Wallet to Craft" : "Start Crafting"}
+              {!player
+                ? "Connect Wallet to Craft"
+                : activeCraftingOperations.length >= craftingSlots
+                  ? "Add to Queue"
+                  : "Start Crafting"}
             </Button>
           </ModalFooter>
         </ModalContent>
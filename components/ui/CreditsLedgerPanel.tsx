@@ -0,0 +1,149 @@
+"use client";
+
+import type { CreditsEntryType } from "@/stores/creditsLedgerStore";
+
+import React, { useState } from "react";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Button } from "@heroui/button";
+import { Chip } from "@heroui/chip";
+
+import {
+  auditCreditsLedger,
+  creditsLedgerToCsv,
+  useCreditsLedgerStore,
+} from "@/stores/creditsLedgerStore";
+import { formatNumber } from "@/utils/gameHelpers";
+
+interface CreditsLedgerPanelProps {
+  playerId: string;
+  credits: number; // The balance the ledger is audited against
+  className?: string;
+}
+
+const ENTRY_LABELS: Record<CreditsEntryType, string> = {
+  opening_balance: "Opening Balance",
+  mission_reward: "Mission Reward",
+  purchase: "Purchase",
+  sale: "Sale",
+  refund: "Refund",
+  adjustment: "Adjustment",
+};
+
+// Entries shown before the rest of the history is expanded
+const RECENT_ENTRY_COUNT = 10;
+
+export default function CreditsLedgerPanel({
+  playerId,
+  credits,
+  className = "",
+}: CreditsLedgerPanelProps) {
+  const [showAll, setShowAll] = useState(false);
+  const ledger = useCreditsLedgerStore((state) => state.ledgers[playerId]);
+  const entries = ledger || [];
+  const audit = auditCreditsLedger(entries, credits);
+  const newestFirst = [...entries].reverse();
+  const shownEntries = showAll
+    ? newestFirst
+    : newestFirst.slice(0, RECENT_ENTRY_COUNT);
+
+  const handleExport = () => {
+    const blob = new Blob([creditsLedgerToCsv(entries)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+
+    link.href = url;
+    link.download = `g-bax-credits-${playerId.slice(0, 8)}-${new Date().toISOString().split("T")[0]}.csv`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex justify-between items-center w-full">
+          <h3 className="text-xl font-bold">Credits History</h3>
+          <div className="flex items-center gap-2">
+            <Chip
+              color={audit.balanced ? "success" : "danger"}
+              size="sm"
+              variant="flat"
+            >
+              {audit.balanced ? "Balanced" : "Discrepancy"}
+            </Chip>
+            <Button
+              isDisabled={entries.length === 0}
+              size="sm"
+              variant="flat"
+              onPress={handleExport}
+            >
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardBody className="space-y-3">
+        {!audit.balanced && (
+          <div className="p-3 bg-danger-50 rounded-lg space-y-2">
+            {audit.brokenEntries.length > 0 && (
+              <p className="text-sm text-danger">
+                {audit.brokenEntries.length} entries don&apos;t follow from the
+                balance before them: {audit.brokenEntries.join(", ")}
+              </p>
+            )}
+            {audit.discrepancy !== 0 && (
+              <p className="text-sm text-danger">
+                The ledger adds up to {formatNumber(audit.ledgerBalance)}{" "}
+                credits but the account holds {formatNumber(credits)}.
+              </p>
+            )}
+          </div>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-center text-default-500 py-4">
+            No credit transactions yet
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {shownEntries.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex justify-between items-center p-2 bg-default-100 rounded-lg"
+              >
+                <div>
+                  <p className="text-sm font-medium">{entry.description}</p>
+                  <p className="text-xs text-default-500">
+                    {ENTRY_LABELS[entry.type]} •{" "}
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p
+                    className={`text-sm font-medium ${entry.amount < 0 ? "text-danger" : "text-success"}`}
+                  >
+                    {entry.amount < 0 ? "-" : "+"}
+                    {formatNumber(Math.abs(entry.amount))}
+                  </p>
+                  <p className="text-xs text-default-500">
+                    {formatNumber(entry.balanceAfter)}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {entries.length > RECENT_ENTRY_COUNT && (
+          <Button
+            size="sm"
+            variant="light"
+            onPress={() => setShowAll(!showAll)}
+          >
+            {showAll ? "Show Recent" : `Show All ${entries.length}`}
+          </Button>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import type { EquipmentEffects, EquipmentSlot } from "@/data/equipment";
+
+import React from "react";
+import { Button } from "@heroui/button";
+
+import {
+  EQUIPMENT_SLOTS,
+  getDurability,
+  getEquipmentDefinition,
+} from "@/data/equipment";
+import { useEquipmentStore } from "@/stores/equipmentStore";
+import { getRarityColor } from "@/utils/gameHelpers";
+
+interface EquipmentPanelProps {
+  onUnequipFailed?: (slotName: string) => void; // Cargo hold too full
+  getRepairCost?: (slot: EquipmentSlot) => { credits: number; metal: number };
+  onRepairAtStation?: (slot: EquipmentSlot) => void;
+  onRepairWithMetal?: (slot: EquipmentSlot) => void;
+  className?: string;
+}
+
+// Short summary of an item's bonuses, e.g. "⛏️ +20%"
+const formatEffects = (effects: EquipmentEffects): string => {
+  const bonuses = [];
+
+  if (effects.miningBonus) {
+    bonuses.push(`⛏️ +${Math.round((effects.miningBonus - 1) * 100)}%`);
+  }
+  if (effects.craftingBonus) {
+    bonuses.push(`🔨 +${Math.round((effects.craftingBonus - 1) * 100)}%`);
+  }
+
+  return bonuses.join(" ");
+};
+
+export default function EquipmentPanel({
+  onUnequipFailed,
+  getRepairCost,
+  onRepairAtStation,
+  onRepairWithMetal,
+  className = "",
+}: EquipmentPanelProps) {
+  const { equipped, unequipItem } = useEquipmentStore();
+
+  return (
+    <div
+      className={`bg-black/30 backdrop-blur-sm rounded-lg p-3 border border-white/10 ${className}`}
+    >
+      <h3 className="text-sm font-semibold text-cyan-300 mb-2">Equipment</h3>
+      <div className="space-y-1">
+        {EQUIPMENT_SLOTS.map(({ slot, name }) => {
+          const item = equipped[slot];
+          const definition = item ? getEquipmentDefinition(item) : null;
+          const durability = item ? getDurability(item) : 0;
+          const repairCost = getRepairCost?.(slot);
+
+          return (
+            <div key={slot} className="space-y-1">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="text-white/50 w-24 shrink-0">{name}</span>
+                {item && definition ? (
+                  <>
+                    <span
+                      className="truncate"
+                      style={{ color: getRarityColor(item.rarity) }}
+                      title={formatEffects(definition.effects)}
+                    >
+                      {item.name}
+                    </span>
+                    <span
+                      className={
+                        durability > 0 ? "text-white/50" : "text-red-400"
+                      }
+                    >
+                      {durability > 0
+                        ? `${durability}/${definition.maxDurability}`
+                        : "Broken"}
+                    </span>
+                    <Button
+                      className="h-6 min-w-0 px-2"
+                      size="sm"
+                      variant="light"
+                      onPress={() => {
+                        if (!unequipItem(slot)) onUnequipFailed?.(name);
+                      }}
+                    >
+                      Unequip
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-white/30 flex-1">Empty</span>
+                )}
+              </div>
+              {repairCost && repairCost.credits > 0 && (
+                <div className="flex justify-end gap-1">
+                  <Button
+                    className="h-6 min-w-0 px-2"
+                    size="sm"
+                    variant="flat"
+                    onPress={() => onRepairAtStation?.(slot)}
+                  >
+                    Repair {repairCost.credits} cr
+                  </Button>
+                  <Button
+                    className="h-6 min-w-0 px-2"
+                    size="sm"
+                    variant="flat"
+                    onPress={() => onRepairWithMetal?.(slot)}
+                  >
+                    Repair {repairCost.metal} metal
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
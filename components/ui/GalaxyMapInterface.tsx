@@ -0,0 +1,250 @@
+"use client";
+
+import type { Galaxy, GalaxySector } from "@/utils/spaceGeneration";
+import type { WarpCost, WarpJump } from "@/systems/galaxySystem";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Button } from "@heroui/button";
+import { Chip } from "@heroui/chip";
+import { Progress } from "@heroui/progress";
+
+import { COLORS, GAME_CONFIG } from "@/utils/constants";
+
+interface GalaxyMapInterfaceProps {
+  galaxy: Galaxy;
+  currentSectorId: string;
+  warp: WarpJump | null;
+  getWarpProgress: () => number;
+  getWarpCost: (sectorId: string) => WarpCost | null;
+  canWarpTo: (sectorId: string) => { canWarp: boolean; reason?: string };
+  onWarp: (sectorId: string) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+const RESOURCE_COLORS = {
+  crystal: COLORS.CRYSTAL,
+  metal: COLORS.METAL,
+  energy: COLORS.ENERGY,
+} as const;
+
+// Share of resource nodes of each type, even when the sector sets no weights
+function getResourceShares(sector: GalaxySector) {
+  const weights = sector.config.resourceWeights ?? {
+    crystal: 1,
+    metal: 1,
+    energy: 1,
+  };
+  const total = weights.crystal + weights.metal + weights.energy;
+
+  return (Object.keys(RESOURCE_COLORS) as (keyof typeof weights)[]).map(
+    (type) => ({ type, share: Math.round((weights[type] / total) * 100) }),
+  );
+}
+
+export default function GalaxyMapInterface({
+  galaxy,
+  currentSectorId,
+  warp,
+  getWarpProgress,
+  getWarpCost,
+  canWarpTo,
+  onWarp,
+  onClose,
+  className = "",
+}: GalaxyMapInterfaceProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [warpProgress, setWarpProgress] = useState(0);
+  const sectors = new Map(galaxy.sectors.map((sector) => [sector.id, sector]));
+  const currentSector = sectors.get(currentSectorId);
+  const selectedSector = selectedId ? sectors.get(selectedId) : null;
+  const warpCost = selectedId ? getWarpCost(selectedId) : null;
+  const warpCheck = selectedId ? canWarpTo(selectedId) : null;
+
+  // Each route once, from the lower sector index to the higher
+  const routes = galaxy.sectors.flatMap((sector, index) =>
+    sector.links
+      .filter(
+        (linkId) => galaxy.sectors.findIndex((s) => s.id === linkId) > index,
+      )
+      .map((linkId) => [sector, sectors.get(linkId)!] as const),
+  );
+
+  // Jumps run on game time, so sample progress rather than re-render per frame
+  useEffect(() => {
+    if (!warp) return;
+
+    const update = () => setWarpProgress(getWarpProgress());
+
+    update();
+    const interval = setInterval(update, 250);
+
+    return () => clearInterval(interval);
+  }, [warp, getWarpProgress]);
+
+  const getSectorColor = (sector: GalaxySector) => {
+    if (sector.id === currentSectorId) return COLORS.SUCCESS;
+    if (currentSector?.links.includes(sector.id)) return COLORS.SECONDARY;
+
+    return COLORS.COMMON;
+  };
+
+  return (
+    <Card className={`w-[28rem] ${className}`}>
+      <CardHeader className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Galaxy Map</h3>
+          <p className="text-xs text-default-500">
+            In {currentSector?.name}. Warp along the routes to reach further
+            sectors.
+          </p>
+        </div>
+        {onClose && (
+          <Button
+            isIconOnly
+            aria-label="Close galaxy map"
+            className="text-default-400 hover:text-default-600"
+            size="sm"
+            variant="light"
+            onPress={onClose}
+          >
+            ✕
+          </Button>
+        )}
+      </CardHeader>
+
+      <CardBody className="space-y-3">
+        <svg
+          aria-label="Galaxy map"
+          className="w-full aspect-square bg-black/40 rounded-lg"
+          role="img"
+          viewBox="0 0 100 100"
+        >
+          {routes.map(([from, to]) => (
+            <line
+              key={`${from.id}-${to.id}`}
+              stroke="rgba(255,255,255,0.25)"
+              strokeWidth={0.4}
+              x1={from.mapPosition[0]}
+              x2={to.mapPosition[0]}
+              y1={from.mapPosition[1]}
+              y2={to.mapPosition[1]}
+            />
+          ))}
+          {galaxy.sectors.map((sector) => (
+            <g
+              key={sector.id}
+              className="cursor-pointer"
+              onClick={() => setSelectedId(sector.id)}
+            >
+              {sector.id === selectedId && (
+                <circle
+                  cx={sector.mapPosition[0]}
+                  cy={sector.mapPosition[1]}
+                  fill="none"
+                  r={4}
+                  stroke="white"
+                  strokeWidth={0.5}
+                />
+              )}
+              <circle
+                cx={sector.mapPosition[0]}
+                cy={sector.mapPosition[1]}
+                fill={getSectorColor(sector)}
+                r={1.5 + sector.difficulty * 0.4}
+              />
+              <text
+                fill="rgba(255,255,255,0.8)"
+                fontSize={3}
+                textAnchor="middle"
+                x={sector.mapPosition[0]}
+                y={sector.mapPosition[1] + 7}
+              >
+                {sector.name}
+              </text>
+            </g>
+          ))}
+        </svg>
+
+        {warp && (
+          <div>
+            <div className="flex justify-between text-xs text-default-500 mb-1">
+              <span>Warping to {sectors.get(warp.toSectorId)?.name}</span>
+              <span>{Math.round(warpProgress * 100)}%</span>
+            </div>
+            <Progress
+              aria-label="Warp progress"
+              color="secondary"
+              size="sm"
+              value={warpProgress * 100}
+            />
+          </div>
+        )}
+
+        {selectedSector ? (
+          <div className="p-3 bg-default-100 rounded-lg space-y-2">
+            <div className="flex justify-between items-center">
+              <h4 className="font-semibold">{selectedSector.name}</h4>
+              <Chip size="sm" variant="flat">
+                Difficulty {selectedSector.difficulty}/
+                {GAME_CONFIG.GALAXY_MAX_DIFFICULTY}
+              </Chip>
+            </div>
+            <p className="text-xs text-default-500">
+              Needs level {selectedSector.minLevel}. Harder sectors hold rarer
+              deposits in tougher rock.
+            </p>
+            <div className="flex gap-1">
+              {getResourceShares(selectedSector).map(({ type, share }) => (
+                <Chip
+                  key={type}
+                  size="sm"
+                  style={{
+                    backgroundColor: `${RESOURCE_COLORS[type]}20`,
+                    color: RESOURCE_COLORS[type],
+                  }}
+                  variant="flat"
+                >
+                  {type} {share}%
+                </Chip>
+              ))}
+            </div>
+            {selectedSector.id === currentSectorId ? (
+              <p className="text-xs text-success">You are here</p>
+            ) : warpCost ? (
+              <div className="flex justify-between items-center gap-2">
+                <p className="text-xs text-default-500">
+                  {warpCost.energy} energy •{" "}
+                  {Math.ceil(warpCost.duration / 1000)}s in transit
+                  {warpCheck?.reason && (
+                    <span className="block text-warning">
+                      {warpCheck.reason}
+                    </span>
+                  )}
+                </p>
+                <Button
+                  color="secondary"
+                  isDisabled={!warpCheck?.canWarp}
+                  size="sm"
+                  variant="flat"
+                  onPress={() => onWarp(selectedSector.id)}
+                >
+                  Warp
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-default-500">
+                No direct route from here
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-center text-xs text-default-500">
+            Select a sector to see its details
+          </p>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { Button } from "@heroui/button";
 import { Chip } from "@heroui/chip";
 import { Input } from "@heroui/input";
 import { Tabs, Tab } from "@heroui/tabs";
+import { Progress } from "@heroui/progress";
 import {
   Modal,
   ModalContent,
@@ -16,10 +17,15 @@ import {
 } from "@heroui/modal";
 
 import { Resource } from "@/stores/gameStore";
+import { getDurability, getEquipmentDefinition } from "@/data/equipment";
 import {
   getRarityColor,
   getResourceTypeColor,
   formatNumber,
+  getCargoMass,
+  getQualityColor,
+  getQualityMultiplier,
+  getStackKey,
 } from "@/utils/gameHelpers";
 
 // Extended interface for grouped inventory items
@@ -30,16 +36,20 @@ interface GroupedInventoryItem extends Resource {
 
 interface InventoryInterfaceProps {
   inventory: Resource[];
+  cargoCapacity?: number; // Mass the ship's hold can carry
   onUseItem?: (itemId: string, quantity: number) => void;
   onDropItem?: (itemId: string, quantity: number) => void;
+  onEquipItem?: (itemId: string) => void;
   onClose?: () => void;
   className?: string;
 }
 
 export default function InventoryInterface({
   inventory,
+  cargoCapacity,
   onUseItem,
   onDropItem,
+  onEquipItem,
   onClose,
   className = "",
 }: InventoryInterfaceProps) {
@@ -51,10 +61,10 @@ export default function InventoryInterface({
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedTab, setSelectedTab] = useState("all");
 
-  // Group inventory items by type and rarity
+  // Group inventory items by stack
   const groupedInventory = inventory.reduce(
     (acc, item) => {
-      const key = `${item.type}_${item.rarity}`;
+      const key = getStackKey(item);
 
       if (!acc[key]) {
         acc[key] = {
@@ -120,6 +130,13 @@ export default function InventoryInterface({
     }
   };
 
+  const handleEquipItem = () => {
+    if (selectedItem && onEquipItem) {
+      onEquipItem(selectedItem.items[0].id);
+      onModalClose();
+    }
+  };
+
   const handleDropItem = () => {
     if (selectedItem && onDropItem) {
       let remainingQuantity = dropQuantity;
@@ -150,7 +167,9 @@ export default function InventoryInterface({
       {} as Record<string, number>,
     );
 
-    return { totalItems, uniqueItems, rarityCount };
+    const cargoMass = getCargoMass(inventory);
+
+    return { totalItems, uniqueItems, rarityCount, cargoMass };
   };
 
   const stats = getInventoryStats();
@@ -192,6 +211,27 @@ export default function InventoryInterface({
             onChange={(e) => setSearchTerm(e.target.value)}
           />
 
+          {/* Cargo Hold */}
+          {cargoCapacity !== undefined && (
+            <div>
+              <div className="flex justify-between text-xs text-default-500 mb-1">
+                <span>Cargo Hold</span>
+                <span>
+                  {formatNumber(Math.ceil(stats.cargoMass))}/
+                  {formatNumber(cargoCapacity)} mass
+                </span>
+              </div>
+              <Progress
+                aria-label="Cargo hold usage"
+                color={
+                  stats.cargoMass >= cargoCapacity * 0.9 ? "danger" : "primary"
+                }
+                size="sm"
+                value={Math.min(100, (stats.cargoMass / cargoCapacity) * 100)}
+              />
+            </div>
+          )}
+
           {/* Inventory Stats */}
           <div className="grid grid-cols-2 gap-2">
             {Object.entries(stats.rarityCount).map(([rarity, count]) => (
@@ -238,7 +278,7 @@ export default function InventoryInterface({
               <div className="grid grid-cols-2 gap-2">
                 {filteredItems.map((item: GroupedInventoryItem) => (
                   <Card
-                    key={`${item.type}_${item.rarity}_${item.name}`}
+                    key={getStackKey(item)}
                     isPressable
                     className="hover:scale-105 transition-transform cursor-pointer"
                     onPress={() => handleItemClick(item)}
@@ -262,13 +302,38 @@ export default function InventoryInterface({
                         </div>
 
                         <div className="flex justify-between items-center">
-                          <Chip
-                            color={getResourceTypeColor(item.type) as any}
-                            size="sm"
-                            variant="flat"
-                          >
-                            {item.type}
-                          </Chip>
+                          <div className="flex gap-1">
+                            <Chip
+                              color={getResourceTypeColor(item.type) as any}
+                              size="sm"
+                              variant="flat"
+                            >
+                              {item.type}
+                            </Chip>
+                            {item.quality && (
+                              <Chip
+                                size="sm"
+                                style={{
+                                  backgroundColor: `${getQualityColor(item.quality)}20`,
+                                  color: getQualityColor(item.quality),
+                                }}
+                                variant="flat"
+                              >
+                                {item.quality}
+                              </Chip>
+                            )}
+                            {item.durability !== undefined && (
+                              <Chip
+                                color={
+                                  item.durability > 0 ? "default" : "danger"
+                                }
+                                size="sm"
+                                variant="flat"
+                              >
+                                {item.durability > 0 ? "worn" : "broken"}
+                              </Chip>
+                            )}
+                          </div>
                           <span className="text-lg font-bold">
                             {formatNumber(item.totalQuantity)}
                           </span>
@@ -327,13 +392,36 @@ export default function InventoryInterface({
                       {formatNumber(selectedItem.totalQuantity)}
                     </div>
                   </div>
+                  {selectedItem.quality && (
+                    <div>
+                      <span className="text-sm text-default-500">Quality</span>
+                      <div
+                        className="text-lg font-bold capitalize"
+                        style={{ color: getQualityColor(selectedItem.quality) }}
+                      >
+                        {selectedItem.quality} (x
+                        {getQualityMultiplier(selectedItem)} effects)
+                      </div>
+                    </div>
+                  )}
+                  {getEquipmentDefinition(selectedItem) && (
+                    <div>
+                      <span className="text-sm text-default-500">
+                        Durability
+                      </span>
+                      <div className="text-lg font-bold">
+                        {getDurability(selectedItem)} /{" "}
+                        {getEquipmentDefinition(selectedItem)!.maxDurability}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 <div>
                   <span className="text-sm text-default-500">Description</span>
                   <p className="text-sm mt-1">
-                    A valuable {selectedItem.rarity} {selectedItem.type}{" "}
-                    resource used in various crafting recipes.
+                    {getEquipmentDefinition(selectedItem)?.description ||
+                      `A valuable ${selectedItem.rarity} ${selectedItem.type} resource used in various crafting recipes.`}
                   </p>
                 </div>
 
@@ -395,6 +483,17 @@ export default function InventoryInterface({
             >
               Close
             </Button>
+            {onEquipItem &&
+              selectedItem &&
+              getEquipmentDefinition(selectedItem) && (
+                <Button
+                  aria-label={`Equip ${selectedItem.name}`}
+                  color="secondary"
+                  onPress={handleEquipItem}
+                >
+                  Equip
+                </Button>
+              )}
             {onUseItem && (
               <Button
                 aria-label={`Use ${dropQuantity} ${selectedItem?.name || "item"}${dropQuantity === 1 ? "" : "s"}`}
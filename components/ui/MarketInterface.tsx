@@ -0,0 +1,196 @@
+"use client";
+
+import type { MarketListing } from "@/systems/marketSystem";
+
+import React, { useState } from "react";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Button } from "@heroui/button";
+import { Chip } from "@heroui/chip";
+import { Input } from "@heroui/input";
+import { Tabs, Tab } from "@heroui/tabs";
+
+import { Resource } from "@/stores/gameStore";
+import {
+  formatNumber,
+  getQualityColor,
+  getRarityColor,
+} from "@/utils/gameHelpers";
+
+interface MarketInterfaceProps {
+  stationName: string;
+  credits: number;
+  listings: MarketListing[];
+  inventory: Resource[];
+  getSellPrice: (item: Resource, quantity: number) => number | null;
+  onBuy: (item: Resource, quantity: number) => void;
+  onSell: (item: Resource, quantity: number) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+export default function MarketInterface({
+  stationName,
+  credits,
+  listings,
+  inventory,
+  getSellPrice,
+  onBuy,
+  onSell,
+  onClose,
+  className = "",
+}: MarketInterfaceProps) {
+  const [selectedTab, setSelectedTab] = useState("buy");
+  const [quantity, setQuantity] = useState(1);
+
+  // Stacks in the hold the station would buy, priced for the chosen amount
+  const sellableItems = inventory.flatMap((item) => {
+    const amount = Math.min(quantity, item.quantity);
+    const price = getSellPrice(item, amount);
+
+    return price === null ? [] : [{ item, amount, price }];
+  });
+
+  return (
+    <Card className={`w-96 h-[600px] ${className}`}>
+      <CardHeader className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Station Market</h3>
+          <p className="text-xs text-default-500">{stationName}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Chip color="warning" size="sm" variant="flat">
+            {formatNumber(credits)} credits
+          </Chip>
+          {onClose && (
+            <Button
+              isIconOnly
+              aria-label="Close market"
+              className="text-default-400 hover:text-default-600"
+              size="sm"
+              variant="light"
+              onPress={onClose}
+            >
+              ✕
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardBody className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Input
+            className="w-28"
+            label="Quantity"
+            max={999}
+            min={1}
+            size="sm"
+            type="number"
+            value={quantity.toString()}
+            onChange={(e) =>
+              setQuantity(Math.max(1, parseInt(e.target.value) || 1))
+            }
+          />
+          <p className="text-xs text-default-500">
+            Prices move as you trade and settle back over time. Dock to trade.
+          </p>
+        </div>
+
+        <Tabs
+          className="w-full"
+          selectedKey={selectedTab}
+          size="sm"
+          onSelectionChange={(key) => setSelectedTab(key as string)}
+        >
+          <Tab key="buy" title="Buy" />
+          <Tab key="sell" title={`Sell (${sellableItems.length})`} />
+        </Tabs>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {selectedTab === "buy" &&
+            listings.map(({ item, buyPrice }) => (
+              <div
+                key={item.id}
+                className="flex justify-between items-center p-2 bg-default-100 rounded-lg"
+              >
+                <div>
+                  <p className="text-sm font-medium">{item.name}</p>
+                  <div className="flex items-center gap-1">
+                    <Chip
+                      size="sm"
+                      style={{
+                        backgroundColor: `${getRarityColor(item.rarity)}20`,
+                        color: getRarityColor(item.rarity),
+                      }}
+                      variant="flat"
+                    >
+                      {item.rarity}
+                    </Chip>
+                    <span className="text-xs text-default-500">
+                      {formatNumber(buyPrice)} each
+                    </span>
+                  </div>
+                </div>
+                <Button
+                  color="primary"
+                  isDisabled={credits < buyPrice * quantity}
+                  size="sm"
+                  variant="flat"
+                  onPress={() => onBuy(item, quantity)}
+                >
+                  Buy {quantity}
+                </Button>
+              </div>
+            ))}
+
+          {selectedTab === "sell" &&
+            (sellableItems.length === 0 ? (
+              <div className="text-center text-default-500 py-8">
+                Nothing in the hold this station will buy
+              </div>
+            ) : (
+              sellableItems.map(({ item, amount, price }) => (
+                <div
+                  key={item.id}
+                  className="flex justify-between items-center p-2 bg-default-100 rounded-lg"
+                >
+                  <div>
+                    <p className="text-sm font-medium">
+                      {item.name}{" "}
+                      <span className="text-xs text-default-500">
+                        x{item.quantity}
+                      </span>
+                    </p>
+                    <div className="flex items-center gap-1">
+                      {item.quality && (
+                        <Chip
+                          size="sm"
+                          style={{
+                            backgroundColor: `${getQualityColor(item.quality)}20`,
+                            color: getQualityColor(item.quality),
+                          }}
+                          variant="flat"
+                        >
+                          {item.quality}
+                        </Chip>
+                      )}
+                      <span className="text-xs text-default-500">
+                        {formatNumber(price)} for {amount}
+                      </span>
+                    </div>
+                  </div>
+                  <Button
+                    color="success"
+                    size="sm"
+                    variant="flat"
+                    onPress={() => onSell(item, amount)}
+                  >
+                    Sell {amount}
+                  </Button>
+                </div>
+              ))
+            ))}
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -1,7 +1,10 @@
 "use client";
 
 import type { SpaceObject } from "@/types/game";
-import type { MiningOperation } from "@/systems/miningSystem";
+import type {
+  MiningOperation,
+  MiningYieldEstimate,
+} from "@/systems/miningSystem";
 
 import React, { useState, useEffect } from "react";
 import { Button } from "@heroui/button";
@@ -20,13 +23,13 @@ import {
 import WalletConnectionDialog from "./WalletConnectionDialog";
 
 import { useGameStore } from "@/stores/gameStore";
-import { GAME_CONFIG } from "@/utils/constants";
 
 interface MiningInterfaceProps {
   selectedObject: SpaceObject | null;
   onStartMining: (objectId: string) => void;
   onCancelMining: (operationId: string) => void;
   activeMiningOperations: MiningOperation[];
+  estimatedYield: MiningYieldEstimate | null;
   className?: string;
 }
 
@@ -35,6 +38,7 @@ export default function MiningInterface({
   onStartMining,
   onCancelMining,
   activeMiningOperations,
+  estimatedYield,
   className = "",
 }: MiningInterfaceProps) {
   const { isOpen, onOpen, onClose } = useDisclosure();
@@ -55,11 +59,9 @@ export default function MiningInterface({
     const interval = setInterval(() => {
       const newProgress: { [key: string]: number } = {};
 
+      // Progress is advanced by the game clock, so read it from the operation
       activeMiningOperations.forEach((operation) => {
-        const elapsed = Date.now() - operation.startTime;
-        const progress = Math.min((elapsed / operation.duration) * 100, 100);
-
-        newProgress[operation.id] = progress;
+        newProgress[operation.id] = Math.min(operation.progress * 100, 100);
       });
 
       setMiningProgress(newProgress);
@@ -126,35 +128,18 @@ export default function MiningInterface({
     }
   };
 
-  const getEstimatedYield = (object: SpaceObject) => {
-    // Calculate base resource count (1-3 items)
-    const baseResourceCount = Math.floor(Math.random() * 3) + 1;
-
-    // Calculate duration based on object type
-    let duration = GAME_CONFIG.MINING_DURATION;
-
-    if (object.type === "asteroid") {
-      duration = GAME_CONFIG.MINING_DURATION * 0.8; // Asteroids are easier
-    } else if (object.type === "resource_node") {
-      duration = GAME_CONFIG.MINING_DURATION * 1.5; // Resource nodes take longer
-    }
+  const getResourceTypes = (object: SpaceObject): string => {
+    if (!object.resources || object.resources.length === 0) return "random";
 
-    // Get resource types from object
-    let resourceTypes: string[] = ["random"];
-    if (object.resources && object.resources.length > 0) {
-      const typeSet = new Set<string>();
-      object.resources.forEach((r) => {
-        typeSet.add(r.type);
-      });
-      resourceTypes = Array.from(typeSet);
-    }
+    return Array.from(
+      new Set(object.resources.map((resource) => resource.type)),
+    ).join("/");
+  };
 
-    return {
-      resourceCount: `1-3`,
-      resourceTypes: resourceTypes.join("/"),
-      duration: Math.round((duration / 1000) * 10) / 10, // Convert to seconds with 1 decimal
-      experience: 25,
-    };
+  const formatYieldRange = (estimate: MiningYieldEstimate): string => {
+    return estimate.minQuantity === estimate.maxQuantity
+      ? `${estimate.maxQuantity}`
+      : `${estimate.minQuantity}-${estimate.maxQuantity}`;
   };
 
   if (!selectedObject) {
@@ -216,6 +201,11 @@ export default function MiningInterface({
                     </div>
                   </div>
                 )}
+              {estimatedYield && estimatedYield.remainingReserves !== null && (
+                <div>
+                  Reserves: {estimatedYield.remainingReserves} units left
+                </div>
+              )}
             </div>
           </div>
 
@@ -233,8 +223,7 @@ export default function MiningInterface({
               <div className="text-sm text-default-600">
                 Time Remaining:{" "}
                 {formatTimeRemaining(
-                  miningOperation.duration -
-                  (Date.now() - miningOperation.startTime),
+                  miningOperation.duration * (1 - miningOperation.progress),
                 )}
               </div>
               <Button
@@ -322,20 +311,20 @@ export default function MiningInterface({
               <div className="bg-default-100 rounded-lg p-3 space-y-2">
                 <h4 className="font-medium">Estimated Yield</h4>
                 <div className="text-sm space-y-1">
-                  {(() => {
-                    const estimatedYield = getEstimatedYield(selectedObject);
-
-                    return (
-                      <>
-                        <div>
-                          Resources: {estimatedYield.resourceCount}{" "}
-                          {estimatedYield.resourceTypes} items
-                        </div>
-                        <div>Experience: {estimatedYield.experience} XP</div>
-                        <div>Duration: ~{estimatedYield.duration} seconds</div>
-                      </>
-                    );
-                  })()}
+                  {estimatedYield && (
+                    <>
+                      <div>
+                        Resources: {formatYieldRange(estimatedYield)}{" "}
+                        {getResourceTypes(selectedObject)} units
+                      </div>
+                      <div>Experience: {estimatedYield.experience} XP</div>
+                      <div>
+                        Duration: ~
+                        {Math.round((estimatedYield.duration / 1000) * 10) / 10}{" "}
+                        seconds
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
 
@@ -4,6 +4,7 @@ import React, { useState, useEffect } from "react";
 import { Chip } from "@heroui/chip";
 
 import { useGameStore } from "@/stores/gameStore";
+import { gameStorage } from "@/services/storageAdapter";
 
 export function SaveStatus() {
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
@@ -33,7 +34,7 @@ export function SaveStatus() {
   useEffect(() => {
     if (!isClient) return;
 
-    const saved = localStorage.getItem("g-bax-game-storage");
+    const saved = gameStorage.getItem("g-bax-game-storage");
 
     if (saved) {
       try {
@@ -0,0 +1,82 @@
+"use client";
+
+import type { EnergyState } from "@/systems/energySystem";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@heroui/button";
+import { Progress } from "@heroui/progress";
+
+interface ShipEnergyPanelProps {
+  getEnergy: () => EnergyState | null;
+  onRefuel: () => void;
+  onDock: () => void;
+  canDock: boolean; // A station is selected
+  className?: string;
+}
+
+export default function ShipEnergyPanel({
+  getEnergy,
+  onRefuel,
+  onDock,
+  canDock,
+  className = "",
+}: ShipEnergyPanelProps) {
+  const [energy, setEnergy] = useState<EnergyState | null>(null);
+
+  // Energy changes every game step, so sample it rather than re-render per frame
+  useEffect(() => {
+    const update = () => setEnergy(getEnergy());
+
+    update();
+    const interval = setInterval(update, 500);
+
+    return () => clearInterval(interval);
+  }, [getEnergy]);
+
+  if (!energy) return null;
+
+  const percentage = (energy.energy / energy.maxEnergy) * 100;
+  const color =
+    percentage < 20 ? "danger" : percentage < 50 ? "warning" : "success";
+
+  return (
+    <div
+      className={`bg-black/30 backdrop-blur-sm rounded-lg p-3 border border-white/10 ${className}`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-yellow-300">Ship Energy</h3>
+        <span className="text-xs text-white/70">
+          {Math.floor(energy.energy)}/{energy.maxEnergy}
+        </span>
+      </div>
+      <Progress
+        aria-label={`Ship energy: ${Math.floor(percentage)}%`}
+        color={color}
+        size="sm"
+        value={percentage}
+      />
+      <div className="flex gap-2 mt-2">
+        <Button
+          className="flex-1"
+          isDisabled={energy.energy >= energy.maxEnergy}
+          size="sm"
+          variant="flat"
+          onPress={onRefuel}
+        >
+          Refuel
+        </Button>
+        {canDock && (
+          <Button
+            className="flex-1"
+            color="primary"
+            size="sm"
+            variant="flat"
+            onPress={onDock}
+          >
+            Dock
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import type { ItemEffect } from "@/stores/itemEffectsStore";
+
+import React, { useState } from "react";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Button } from "@heroui/button";
+import { Chip } from "@heroui/chip";
+import { Tabs, Tab } from "@heroui/tabs";
+import { Progress } from "@heroui/progress";
+
+import { Resource } from "@/stores/gameStore";
+import { GAME_CONFIG } from "@/utils/constants";
+import {
+  formatNumber,
+  getCargoMass,
+  getRarityColor,
+} from "@/utils/gameHelpers";
+
+interface StationServicesPanelProps {
+  stationName: string;
+  credits: number;
+  inventory: Resource[];
+  warehouse: Resource[]; // Goods stored at this station
+  expiredEffects: ItemEffect[]; // Boosts the station can restore
+  getRestoreFee: (effect: ItemEffect) => number;
+  onDeposit: (item: Resource, quantity: number) => void;
+  onWithdraw: (item: Resource, quantity: number) => void;
+  onRestoreBoost: (effectId: string) => void;
+  onOpenMarket?: () => void; // Shown while the market is closed
+  onUndock: () => void;
+  className?: string;
+}
+
+// One row per stack with a button that moves the whole stack
+function StackList({
+  items,
+  emptyText,
+  actionLabel,
+  onAction,
+}: {
+  items: Resource[];
+  emptyText: string;
+  actionLabel: string;
+  onAction: (item: Resource, quantity: number) => void;
+}) {
+  if (items.length === 0) {
+    return (
+      <div className="text-center text-default-500 text-xs py-4">
+        {emptyText}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {items.map((item) => (
+        <div
+          key={item.id}
+          className="flex justify-between items-center p-2 bg-default-100 rounded-lg"
+        >
+          <div className="flex items-center gap-2">
+            <span className="text-sm">{item.name}</span>
+            <Chip
+              size="sm"
+              style={{
+                backgroundColor: `${getRarityColor(item.rarity)}20`,
+                color: getRarityColor(item.rarity),
+              }}
+              variant="flat"
+            >
+              x{item.quantity}
+            </Chip>
+          </div>
+          <Button
+            size="sm"
+            variant="flat"
+            onPress={() => onAction(item, item.quantity)}
+          >
+            {actionLabel}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function StationServicesPanel({
+  stationName,
+  credits,
+  inventory,
+  warehouse,
+  expiredEffects,
+  getRestoreFee,
+  onDeposit,
+  onWithdraw,
+  onRestoreBoost,
+  onOpenMarket,
+  onUndock,
+  className = "",
+}: StationServicesPanelProps) {
+  const [selectedTab, setSelectedTab] = useState("warehouse");
+  const storedMass = getCargoMass(warehouse);
+
+  return (
+    <Card className={`w-96 h-[600px] ${className}`}>
+      <CardHeader className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Station Services</h3>
+          <p className="text-xs text-default-500">Docked at {stationName}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {onOpenMarket && (
+            <Button size="sm" variant="flat" onPress={onOpenMarket}>
+              Market
+            </Button>
+          )}
+          <Button color="warning" size="sm" variant="flat" onPress={onUndock}>
+            Undock
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardBody className="space-y-4">
+        <Tabs
+          className="w-full"
+          selectedKey={selectedTab}
+          size="sm"
+          onSelectionChange={(key) => setSelectedTab(key as string)}
+        >
+          <Tab key="warehouse" title="Warehouse" />
+          <Tab key="boosts" title={`Boosts (${expiredEffects.length})`} />
+        </Tabs>
+
+        {selectedTab === "warehouse" && (
+          <div className="flex-1 overflow-y-auto space-y-3">
+            <div>
+              <div className="flex justify-between text-xs text-default-500 mb-1">
+                <span>Warehouse</span>
+                <span>
+                  {formatNumber(Math.ceil(storedMass))}/
+                  {formatNumber(GAME_CONFIG.STATION_WAREHOUSE_CAPACITY)} mass
+                </span>
+              </div>
+              <Progress
+                aria-label="Warehouse usage"
+                size="sm"
+                value={Math.min(
+                  100,
+                  (storedMass / GAME_CONFIG.STATION_WAREHOUSE_CAPACITY) * 100,
+                )}
+              />
+              <p className="text-xs text-default-500 mt-1">
+                Anything the hold can&apos;t take while docked is stored here.
+              </p>
+            </div>
+
+            <h4 className="text-sm font-medium">Stored</h4>
+            <StackList
+              actionLabel="Take"
+              emptyText="Nothing stored at this station"
+              items={warehouse}
+              onAction={onWithdraw}
+            />
+
+            <h4 className="text-sm font-medium">Cargo Hold</h4>
+            <StackList
+              actionLabel="Store"
+              emptyText="The hold is empty"
+              items={inventory}
+              onAction={onDeposit}
+            />
+          </div>
+        )}
+
+        {selectedTab === "boosts" && (
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {expiredEffects.length === 0 ? (
+              <div className="text-center text-default-500 py-8">
+                No expired boosts to restore
+              </div>
+            ) : (
+              expiredEffects.map((effect) => {
+                const fee = getRestoreFee(effect);
+
+                return (
+                  <div
+                    key={effect.id}
+                    className="flex justify-between items-center p-2 bg-default-100 rounded-lg"
+                  >
+                    <div>
+                      <p className="text-sm font-medium">{effect.name}</p>
+                      <p className="text-xs text-default-500">
+                        {effect.description} •{" "}
+                        {Math.round(effect.duration / 60000)} min
+                      </p>
+                    </div>
+                    <Button
+                      color="secondary"
+                      isDisabled={credits < fee}
+                      size="sm"
+                      variant="flat"
+                      onPress={() => onRestoreBoost(effect.id)}
+                    >
+                      Restore ({formatNumber(fee)})
+                    </Button>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
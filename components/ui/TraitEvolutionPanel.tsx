@@ -13,6 +13,7 @@ import { PublicKey } from "@solana/web3.js";
 import { useGameStore } from "@/stores/gameStore";
 import { useLocalCharacterIntegration } from "@/hooks/useLocalCharacterIntegration";
 import { formatNumber } from "@/utils/gameHelpers";
+import { gameStorage } from "@/services/storageAdapter";
 
 interface TraitEvolutionPanelProps {
   className?: string;
@@ -50,10 +51,10 @@ export default function TraitEvolutionPanel({
 
     // Get activity counts from localStorage (tracked by achievement system)
     const playerKey = publicKey.toString();
-    const miningFromStorage = parseInt(localStorage.getItem(`activity-${playerKey}-mining`) || "0");
-    const craftingFromStorage = parseInt(localStorage.getItem(`activity-${playerKey}-crafting`) || "0");
-    const explorationFromStorage = parseInt(localStorage.getItem(`activity-${playerKey}-exploration`) || "0");
-    const missionsFromStorage = parseInt(localStorage.getItem(`activity-${playerKey}-mission_complete`) || "0");
+    const miningFromStorage = parseInt(gameStorage.getItem(`activity-${playerKey}-mining`) || "0");
+    const craftingFromStorage = parseInt(gameStorage.getItem(`activity-${playerKey}-crafting`) || "0");
+    const explorationFromStorage = parseInt(gameStorage.getItem(`activity-${playerKey}-exploration`) || "0");
+    const missionsFromStorage = parseInt(gameStorage.getItem(`activity-${playerKey}-mission_complete`) || "0");
 
     return {
       miningCount: Math.max(player.stats?.miningOperations || 0, miningFromStorage),
@@ -0,0 +1,126 @@
+import type { SpaceObject } from "@/types/game";
+
+// Ways a player can learn a recipe's blueprint
+export type BlueprintSource =
+  | { type: "starter" }
+  | { type: "mission"; missionId: string }
+  | { type: "discovery"; objectType: SpaceObject["type"] }
+  | { type: "achievement"; achievementId: string }
+  | { type: "station"; price: number }; // Bought for credits while docked
+
+// How a blueprint was actually learned. "study" comes from the
+// Blueprint Mastery trait rather than a fixed source
+export type BlueprintSourceType = BlueprintSource["type"] | "study";
+
+export interface BlueprintDefinition {
+  recipeId: string;
+  sources: BlueprintSource[];
+}
+
+export const BLUEPRINTS: BlueprintDefinition[] = [
+  {
+    recipeId: "basic_mining_tool",
+    sources: [{ type: "starter" }],
+  },
+
+  {
+    recipeId: "cargo_expander",
+    sources: [
+      { type: "discovery", objectType: "station" },
+      { type: "mission", missionId: "mining_001" },
+      { type: "station", price: 800 },
+    ],
+  },
+
+  {
+    recipeId: "advanced_scanner",
+    sources: [
+      { type: "discovery", objectType: "resource_node" },
+      { type: "achievement", achievementId: "first-mining" },
+      { type: "station", price: 1500 },
+    ],
+  },
+
+  {
+    recipeId: "quantum_alloy",
+    sources: [
+      { type: "mission", missionId: "crafting_001" },
+      { type: "achievement", achievementId: "level-up" },
+      { type: "station", price: 3000 },
+    ],
+  },
+
+  // Station fabrication recipes are only sold at stations
+  {
+    recipeId: "fabrication_matrix",
+    sources: [{ type: "station", price: 2000 }],
+  },
+
+  {
+    recipeId: "precision_mining_laser",
+    sources: [{ type: "station", price: 4000 }],
+  },
+
+  // Never sold, it has to be earned
+  {
+    recipeId: "stellar_forge",
+    sources: [
+      { type: "mission", missionId: "crafting_003" },
+      { type: "achievement", achievementId: "mission-master" },
+    ],
+  },
+];
+
+// Recipes every player knows from the start
+export const STARTER_BLUEPRINTS = BLUEPRINTS.filter((blueprint) =>
+  blueprint.sources.some((source) => source.type === "starter"),
+).map((blueprint) => blueprint.recipeId);
+
+// Find the recipes whose blueprint a matching source teaches
+const findBlueprints = (
+  matches: (source: BlueprintSource) => boolean,
+): string[] =>
+  BLUEPRINTS.filter((blueprint) => blueprint.sources.some(matches)).map(
+    (blueprint) => blueprint.recipeId,
+  );
+
+/**
+ * Blueprints awarded for completing a mission
+ */
+export function getMissionBlueprints(missionId: string): string[] {
+  return findBlueprints(
+    (source) => source.type === "mission" && source.missionId === missionId,
+  );
+}
+
+/**
+ * Blueprints learned by discovering an object of the given type
+ */
+export function getDiscoveryBlueprints(
+  objectType: SpaceObject["type"],
+): string[] {
+  return findBlueprints(
+    (source) => source.type === "discovery" && source.objectType === objectType,
+  );
+}
+
+/**
+ * Blueprints awarded for unlocking an achievement
+ */
+export function getAchievementBlueprints(achievementId: string): string[] {
+  return findBlueprints(
+    (source) =>
+      source.type === "achievement" && source.achievementId === achievementId,
+  );
+}
+
+/**
+ * Credits a station charges for a blueprint, or null if stations don't sell it
+ */
+export function getBlueprintPrice(recipeId: string): number | null {
+  const source = BLUEPRINTS.find(
+    (blueprint) => blueprint.recipeId === recipeId,
+  )?.sources.find((candidate) => candidate.type === "station");
+
+  return source?.type === "station" ? source.price : null;
+}
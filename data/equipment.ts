@@ -0,0 +1,122 @@
+import type { Resource } from "@/stores/gameStore";
+
+import { getStackKey } from "@/utils/gameHelpers";
+
+export type EquipmentSlot = "mining_tool" | "scanner" | "crafting_module";
+
+export interface EquipmentEffects {
+  miningBonus?: number; // Mining efficiency multiplier
+  craftingBonus?: number; // Crafting efficiency multiplier
+}
+
+export interface EquipmentDefinition {
+  id: string;
+  itemStackKey: string; // Inventory stack of the crafted item
+  name: string;
+  description: string;
+  slot: EquipmentSlot;
+  effects: EquipmentEffects;
+  maxDurability: number; // Operations it can help with before it breaks
+}
+
+export const EQUIPMENT_SLOTS: { slot: EquipmentSlot; name: string }[] = [
+  { slot: "mining_tool", name: "Mining Tool" },
+  { slot: "scanner", name: "Scanner" },
+  { slot: "crafting_module", name: "Crafting Module" },
+];
+
+export const EQUIPMENT_DEFINITIONS: EquipmentDefinition[] = [
+  {
+    id: "basic_mining_tool",
+    itemStackKey: "metal_common_basic_mining_tool",
+    name: "Basic Mining Tool",
+    description: "A simple tool that increases mining efficiency.",
+    slot: "mining_tool",
+    effects: {
+      miningBonus: 1.2,
+    },
+    maxDurability: 50,
+  },
+
+  {
+    id: "advanced_scanner",
+    itemStackKey: "crystal_rare_advanced_scanner",
+    name: "Advanced Scanner",
+    description: "Pinpoints the richest seams before the drill bites.",
+    slot: "scanner",
+    effects: {
+      miningBonus: 1.1,
+    },
+    maxDurability: 100,
+  },
+
+  {
+    id: "precision_mining_laser",
+    itemStackKey: "metal_epic_precision_mining_laser",
+    name: "Precision Mining Laser",
+    description: "Station-calibrated optics that cut far cleaner than a drill.",
+    slot: "mining_tool",
+    effects: {
+      miningBonus: 1.4,
+    },
+    maxDurability: 150,
+  },
+
+  {
+    id: "fabrication_matrix",
+    itemStackKey: "energy_rare_fabrication_matrix",
+    name: "Fabrication Matrix",
+    description: "A station-grade assembler that speeds up crafting jobs.",
+    slot: "crafting_module",
+    effects: {
+      craftingBonus: 1.25,
+    },
+    maxDurability: 100,
+  },
+
+  {
+    id: "stellar_forge",
+    itemStackKey: "crystal_legendary_stellar_forge",
+    name: "Stellar Forge",
+    description: "A legendary forge that speeds up every crafting job.",
+    slot: "crafting_module",
+    effects: {
+      craftingBonus: 1.5,
+    },
+    maxDurability: 200,
+  },
+];
+
+/**
+ * Look up the equipment an inventory item can be fitted as, if any,
+ * whatever its quality
+ */
+export function getEquipmentDefinition(
+  item: Pick<Resource, "type" | "rarity" | "name">,
+): EquipmentDefinition | null {
+  const stackKey = getStackKey({
+    type: item.type,
+    rarity: item.rarity,
+    name: item.name,
+  });
+
+  return (
+    EQUIPMENT_DEFINITIONS.find(
+      (definition) => definition.itemStackKey === stackKey,
+    ) || null
+  );
+}
+
+/**
+ * Durability an equipment item has left, full for items that haven't worn
+ */
+export function getDurability(item: Resource): number {
+  return item.durability ?? getEquipmentDefinition(item)?.maxDurability ?? 0;
+}
+
+/**
+ * Broken equipment stays fitted but gives no bonus until it is repaired
+ */
+export function isBroken(item: Resource): boolean {
+  return getDurability(item) <= 0;
+}
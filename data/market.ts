@@ -0,0 +1,149 @@
+import type { RecipeInput, Resource } from "@/types/game";
+
+import { CRAFTING_RECIPES } from "./recipes";
+import { REFINING_RECIPES } from "./refining";
+import { getDurability, getEquipmentDefinition } from "./equipment";
+
+import {
+  getQualityMultiplier,
+  getRawResourceName,
+  getStackKey,
+} from "@/utils/gameHelpers";
+
+// Station value of one common unit of each raw resource
+export const BASE_RESOURCE_PRICES: Record<Resource["type"], number> = {
+  metal: 4,
+  crystal: 6,
+  energy: 3,
+};
+
+export const RARITY_PRICE_MULTIPLIERS: Record<Resource["rarity"], number> = {
+  common: 1,
+  rare: 3,
+  epic: 8,
+  legendary: 20,
+};
+
+// Refining and crafting add value on top of what went into them
+export const REFINED_PRICE_MARKUP = 1.25;
+export const CRAFTED_PRICE_MARKUP = 1.5;
+
+// Raw resources every station trades, on top of its refined and crafted goods
+const STOCKED_RARITIES: Resource["rarity"][] = ["common", "rare"];
+
+// Ship upgrades are fitted the moment they are crafted, so never traded
+const TRADED_RECIPES = CRAFTING_RECIPES.filter(
+  (recipe) => recipe.category !== "upgrades",
+);
+
+const getRawValue = (
+  type: Resource["type"],
+  rarity: Resource["rarity"],
+): number => BASE_RESOURCE_PRICES[type] * RARITY_PRICE_MULTIPLIERS[rarity];
+
+const getInputValue = (input: RecipeInput): number => {
+  if (input.item) {
+    return (getRefinedValue(input.item) ?? 0) * input.quantity;
+  }
+
+  return (
+    getRawValue(input.resourceType, input.rarity || "common") * input.quantity
+  );
+};
+
+function getRefinedValue(name: string): number | null {
+  const recipe = REFINING_RECIPES.find((refining) => refining.name === name);
+
+  if (!recipe) return null;
+
+  const inputValue = recipe.inputs.reduce(
+    (total, input) => total + getInputValue(input),
+    0,
+  );
+
+  return (inputValue / recipe.output.quantity) * REFINED_PRICE_MARKUP;
+}
+
+function getCraftedValue(item: Resource): number | null {
+  const stackKey = getStackKey({
+    name: item.name,
+    type: item.type,
+    rarity: item.rarity,
+  });
+  const recipe = TRADED_RECIPES.find(
+    (craftable) => getStackKey(craftable.outputs[0].item) === stackKey,
+  );
+
+  if (!recipe) return null;
+
+  const inputValue = recipe.inputs.reduce(
+    (total, input) => total + getInputValue(input),
+    0,
+  );
+
+  return (inputValue / recipe.outputs[0].item.quantity) * CRAFTED_PRICE_MARKUP;
+}
+
+/**
+ * Fair value of one unit of an item before any station's pricing. Crafted
+ * items scale with their quality and worn equipment with what's left of it.
+ * Null for anything stations don't trade
+ */
+export function getBaseValue(item: Resource): number | null {
+  if (item.name === getRawResourceName(item.type, item.rarity)) {
+    return getRawValue(item.type, item.rarity);
+  }
+
+  const refinedValue = getRefinedValue(item.name);
+
+  if (refinedValue !== null) return refinedValue;
+
+  const craftedValue = getCraftedValue(item);
+
+  if (craftedValue === null) return null;
+
+  const definition = getEquipmentDefinition(item);
+  const condition = definition
+    ? getDurability(item) / definition.maxDurability
+    : 1;
+
+  return craftedValue * getQualityMultiplier(item) * condition;
+}
+
+/**
+ * Every item a station could stock, one unit each. Staples are raw resources
+ * and refined materials every station trades, crafted goods vary by station
+ */
+export function getTradeGoods(): {
+  staples: Resource[];
+  craftedGoods: Resource[];
+} {
+  const toGood = (item: Resource): Resource => ({
+    ...item,
+    id: getStackKey(item),
+    quantity: 1,
+  });
+  const rawResources = (
+    Object.keys(BASE_RESOURCE_PRICES) as Resource["type"][]
+  ).flatMap((type) =>
+    STOCKED_RARITIES.map((rarity) =>
+      toGood({
+        id: "",
+        name: getRawResourceName(type, rarity),
+        type,
+        quantity: 1,
+        rarity,
+      }),
+    ),
+  );
+
+  return {
+    staples: [
+      ...rawResources,
+      ...REFINING_RECIPES.map((recipe) => toGood(recipe.output)),
+    ],
+    craftedGoods: TRADED_RECIPES.map((recipe) =>
+      toGood(recipe.outputs[0].item),
+    ),
+  };
+}
@@ -1,4 +1,4 @@
-import type { Mission } from "@/stores/gameStore";
+import type { Mission, Resource } from "@/stores/gameStore";
 
 export const PREDEFINED_MISSIONS: Mission[] = [
   // Mining Missions
@@ -311,7 +311,44 @@ export const MISSION_REQUIREMENTS = {
   },
 };
 
+// Activities that advance missions, derived from game events
+export type MissionActivity =
+  | "mining"
+  | `mining_${Resource["type"]}`
+  | "crafting"
+  | "exploration"
+  | "object_discovery"
+  | "location_discovery";
+
+// Tracked activities that count toward specific missions on top of their type
+export const MISSION_ACTIVITY_OVERRIDES: Record<string, MissionActivity> = {
+  mining_002: "mining_crystal", // Crystal Hunter requires crystal mining
+  exploration_001: "object_discovery", // Sector Scout requires object discoveries
+  exploration_002: "location_discovery", // Deep Space Cartographer requires location discoveries
+};
+
 // Helper functions
+export function doesActivityCountForMission(
+  mission: Mission,
+  activityType: MissionActivity,
+): boolean {
+  if (MISSION_ACTIVITY_OVERRIDES[mission.id] === activityType) return true;
+
+  // General type matching for other missions
+  return mission.type.toLowerCase() === activityType.toLowerCase();
+}
+
+// Activities produced by one completed mining operation: general mining plus
+// one per distinct resource type extracted
+export function getMiningActivities(resources: Resource[]): MissionActivity[] {
+  const resourceTypes = Array.from(new Set(resources.map((r) => r.type)));
+
+  return [
+    "mining",
+    ...resourceTypes.map((type): MissionActivity => `mining_${type}`),
+  ];
+}
+
 export function getMissionById(missionId: string): Mission | undefined {
   return PREDEFINED_MISSIONS.find((mission) => mission.id === missionId);
 }
@@ -0,0 +1,266 @@
+import type { CraftingRecipe } from "@/types/game";
+
+import { REFINED_MATERIALS } from "@/utils/constants";
+
+export const CRAFTING_RECIPES: CraftingRecipe[] = [
+  // Basic Tools
+  {
+    id: "basic_mining_tool",
+    name: "Basic Mining Tool",
+    description: "A simple tool that increases mining efficiency",
+    category: "tools",
+    inputs: [
+      { resourceType: "metal", quantity: 3 },
+      { resourceType: "crystal", quantity: 1 },
+    ],
+    outputs: [
+      {
+        item: {
+          id: "basic_mining_tool_001",
+          name: "Basic Mining Tool",
+          type: "metal",
+          quantity: 1,
+          rarity: "common",
+        },
+        probability: 1,
+      },
+    ],
+    craftingTime: 3000,
+    requiredLevel: 1,
+  },
+
+  // Ship Upgrades
+  {
+    id: "cargo_expander",
+    name: "Cargo Expander",
+    description: "Extra hold modules that raise the ship's cargo capacity",
+    category: "upgrades",
+    inputs: [
+      { resourceType: "metal", quantity: 15 },
+      { resourceType: "crystal", quantity: 5 },
+    ],
+    outputs: [
+      {
+        item: {
+          id: "cargo_expander_001",
+          name: "Cargo Expander",
+          type: "metal",
+          quantity: 1,
+          rarity: "rare",
+        },
+        probability: 1,
+      },
+    ],
+    craftingTime: 12000,
+    requiredLevel: 2,
+  },
+
+  // Advanced Tools
+  {
+    id: "advanced_scanner",
+    name: "Advanced Scanner",
+    description: "Detects rare resources more effectively",
+    category: "tools",
+    inputs: [
+      { resourceType: "crystal", quantity: 5 },
+      { resourceType: "energy", quantity: 3 },
+      { resourceType: "metal", quantity: 2 },
+    ],
+    outputs: [
+      {
+        item: {
+          id: "advanced_scanner_001",
+          name: "Advanced Scanner",
+          type: "crystal",
+          quantity: 1,
+          rarity: "rare",
+        },
+        probability: 1,
+      },
+    ],
+    craftingTime: 8000,
+    requiredLevel: 3,
+  },
+
+  // Rare Alloys
+  {
+    id: "quantum_alloy",
+    name: "Quantum Alloy",
+    description: "An extremely durable and lightweight material",
+    category: "components",
+    inputs: [
+      {
+        resourceType: "metal",
+        item: REFINED_MATERIALS.METAL_INGOT,
+        quantity: 5,
+      },
+      {
+        resourceType: "crystal",
+        item: REFINED_MATERIALS.PURIFIED_CRYSTAL,
+        quantity: 2,
+      },
+      { resourceType: "crystal", rarity: "rare", quantity: 2 },
+      {
+        resourceType: "energy",
+        item: REFINED_MATERIALS.ENERGY_CELL,
+        quantity: 1,
+      },
+    ],
+    outputs: [
+      {
+        item: {
+          id: "quantum_alloy_001",
+          name: "Quantum Alloy",
+          type: "metal",
+          quantity: 1,
+          rarity: "epic",
+        },
+        probability: 1,
+      },
+      // Offcuts from the smelt can be recovered as ore
+      {
+        item: {
+          id: "metal_common",
+          name: "Common Metal",
+          type: "metal",
+          quantity: 3,
+          rarity: "common",
+        },
+        probability: 0.3,
+      },
+    ],
+    craftingTime: 15000,
+    requiredLevel: 5,
+  },
+
+  // Station Fabrication - only started while docked
+  {
+    id: "fabrication_matrix",
+    name: "Fabrication Matrix",
+    description: "A station-grade assembler module that speeds up crafting",
+    category: "components",
+    inputs: [
+      {
+        resourceType: "metal",
+        item: REFINED_MATERIALS.METAL_INGOT,
+        quantity: 6,
+      },
+      {
+        resourceType: "energy",
+        item: REFINED_MATERIALS.ENERGY_CELL,
+        quantity: 3,
+      },
+      { resourceType: "crystal", rarity: "rare", quantity: 3 },
+    ],
+    outputs: [
+      {
+        item: {
+          id: "fabrication_matrix_001",
+          name: "Fabrication Matrix",
+          type: "energy",
+          quantity: 1,
+          rarity: "rare",
+        },
+        probability: 1,
+      },
+    ],
+    craftingTime: 20000,
+    requiredLevel: 4,
+    stationOnly: true,
+  },
+
+  {
+    id: "precision_mining_laser",
+    name: "Precision Mining Laser",
+    description:
+      "A station-calibrated laser that cuts far cleaner than a drill",
+    category: "tools",
+    inputs: [
+      { resourceType: "metal", rarity: "epic", quantity: 2 },
+      {
+        resourceType: "crystal",
+        item: REFINED_MATERIALS.PURIFIED_CRYSTAL,
+        quantity: 4,
+      },
+      {
+        resourceType: "energy",
+        item: REFINED_MATERIALS.ENERGY_CELL,
+        quantity: 2,
+      },
+    ],
+    outputs: [
+      {
+        item: {
+          id: "precision_mining_laser_001",
+          name: "Precision Mining Laser",
+          type: "metal",
+          quantity: 1,
+          rarity: "epic",
+        },
+        probability: 1,
+      },
+    ],
+    craftingTime: 25000,
+    requiredLevel: 6,
+    stationOnly: true,
+  },
+
+  // Legendary Equipment
+  {
+    id: "stellar_forge",
+    name: "Stellar Forge",
+    description: "A legendary crafting station that enhances all operations",
+    category: "artifacts",
+    inputs: [
+      {
+        resourceType: "metal",
+        item: REFINED_MATERIALS.METAL_INGOT,
+        quantity: 15,
+      },
+      {
+        resourceType: "crystal",
+        item: REFINED_MATERIALS.PURIFIED_CRYSTAL,
+        quantity: 8,
+      },
+      { resourceType: "crystal", rarity: "epic", quantity: 5 },
+      {
+        resourceType: "energy",
+        item: REFINED_MATERIALS.ENERGY_CELL,
+        quantity: 4,
+      },
+    ],
+    outputs: [
+      {
+        item: {
+          id: "stellar_forge_001",
+          name: "Stellar Forge",
+          type: "crystal",
+          quantity: 1,
+          rarity: "legendary",
+        },
+        probability: 1,
+      },
+      {
+        item: {
+          id: "quantum_alloy_001",
+          name: "Quantum Alloy",
+          type: "metal",
+          quantity: 1,
+          rarity: "epic",
+        },
+        probability: 0.1,
+      },
+    ],
+    craftingTime: 30000,
+    requiredLevel: 8,
+  },
+];
+
+/**
+ * Display name of a recipe, falling back to its id
+ */
+export function getRecipeName(recipeId: string): string {
+  return (
+    CRAFTING_RECIPES.find((recipe) => recipe.id === recipeId)?.name || recipeId
+  );
+}
@@ -0,0 +1,52 @@
+import type { RefiningRecipe } from "@/types/game";
+
+import { REFINED_MATERIALS } from "@/utils/constants";
+
+// The refining tier between raw resources and crafting. Every player knows
+// these, higher tier crafting recipes ask for their outputs
+export const REFINING_RECIPES: RefiningRecipe[] = [
+  {
+    id: "metal_ingot",
+    name: REFINED_MATERIALS.METAL_INGOT,
+    description: "Smelt raw ore into standard ingots",
+    inputs: [{ resourceType: "metal", quantity: 3 }],
+    output: {
+      id: "metal_ingot_001",
+      name: REFINED_MATERIALS.METAL_INGOT,
+      type: "metal",
+      quantity: 1,
+      rarity: "common",
+    },
+    refiningTime: 4000,
+  },
+
+  {
+    id: "purified_crystal",
+    name: REFINED_MATERIALS.PURIFIED_CRYSTAL,
+    description: "Strip impurities from raw crystal",
+    inputs: [{ resourceType: "crystal", quantity: 3 }],
+    output: {
+      id: "purified_crystal_001",
+      name: REFINED_MATERIALS.PURIFIED_CRYSTAL,
+      type: "crystal",
+      quantity: 1,
+      rarity: "common",
+    },
+    refiningTime: 5000,
+  },
+
+  {
+    id: "energy_cell",
+    name: REFINED_MATERIALS.ENERGY_CELL,
+    description: "Store raw energy in stable cells",
+    inputs: [{ resourceType: "energy", quantity: 5 }],
+    output: {
+      id: "energy_cell_001",
+      name: REFINED_MATERIALS.ENERGY_CELL,
+      type: "energy",
+      quantity: 1,
+      rarity: "common",
+    },
+    refiningTime: 3000,
+  },
+];
@@ -55,7 +55,7 @@ export const PREDEFINED_TRAITS: TraitDefinition[] = [
     id: "crystal_resonance",
     name: "Crystal Resonance",
     description:
-      "Specialized knowledge in crystal extraction and purification.",
+      "Specialized knowledge in crystal extraction and purification. Refined crystal comes out purer and in greater quantity.",
     category: "mining",
     maxLevel: 6,
     baseEffects: {
@@ -134,7 +134,8 @@ export const PREDEFINED_TRAITS: TraitDefinition[] = [
   {
     id: "material_synthesis",
     name: "Material Synthesis",
-    description: "Improved efficiency in combining and refining materials.",
+    description:
+      "Improved efficiency in combining and refining materials. Salvaging crafted items recovers more of their materials.",
     category: "crafting",
     maxLevel: 10,
     baseEffects: {
@@ -151,7 +152,7 @@ export const PREDEFINED_TRAITS: TraitDefinition[] = [
     id: "blueprint_mastery",
     name: "Blueprint Mastery",
     description:
-      "Enhanced understanding of complex crafting patterns and designs.",
+      "Enhanced understanding of complex crafting patterns and designs. Finished crafts can reveal unknown blueprints and come out at a higher quality.",
     category: "crafting",
     maxLevel: 8,
     baseEffects: {
@@ -372,6 +373,63 @@ export function calculateTraitEffects(
   return effects;
 }
 
+// A character's multiplier for one trait effect, 1 if they lack the trait
+export function getCharacterTraitEffect(
+  traits: { id: string; effects: Record<string, number> }[],
+  traitId: string,
+  effectKey: string,
+): number {
+  return traits.find((trait) => trait.id === traitId)?.effects[effectKey] ?? 1;
+}
+
+// Chance per finished craft to work out an unknown blueprint, from the
+// Blueprint Mastery trait's efficiency bonus
+export function getBlueprintStudyChance(
+  traits: { id: string; effects: Record<string, number> }[],
+): number {
+  return Math.max(
+    0,
+    getCharacterTraitEffect(
+      traits,
+      "blueprint_mastery",
+      "blueprintEfficiency",
+    ) - 1,
+  );
+}
+
+// Quality bonus for crafted items, from Blueprint Mastery
+export function getCraftingQuality(
+  traits: { id: string; effects: Record<string, number> }[],
+): number {
+  return getCharacterTraitEffect(
+    traits,
+    "blueprint_mastery",
+    "craftingQuality",
+  );
+}
+
+// Multiplier on what salvage gives back, from Material Synthesis plus the
+// guild's crafting bonus
+export function getSalvageBonus(
+  traits: { id: string; effects: Record<string, number> }[],
+  guildCraftingBonus: number = 0,
+): number {
+  return (
+    getCharacterTraitEffect(
+      traits,
+      "material_synthesis",
+      "materialEfficiency",
+    ) + guildCraftingBonus
+  );
+}
+
+// Output multiplier for refining crystal, from Crystal Resonance
+export function getCrystalPurity(
+  traits: { id: string; effects: Record<string, number> }[],
+): number {
+  return getCharacterTraitEffect(traits, "crystal_resonance", "crystalPurity");
+}
+
 export function getTraitUpgradeCost(
   traitId: string,
   currentLevel: number,
@@ -5,7 +5,12 @@ import { useWallet } from "@solana/wallet-adapter-react";
 
 import { useHoneycombStore } from "@/stores/honeycombStore";
 import { useGameStore } from "@/stores/gameStore";
+import { useGameEvent } from "@/hooks/useGameEvent";
 import { HoneycombAchievement } from "@/types";
+import { gameStorage } from "@/services/storageAdapter";
+import { useBlueprintStore } from "@/stores/blueprintStore";
+import { getAchievementBlueprints } from "@/data/blueprints";
+import { gameEvents } from "@/systems/gameEvents";
 
 /**
  * Hook to track and award achievements based on player actions
@@ -78,10 +83,10 @@ export function useAchievementTracker() {
 
     // Get activity counts from localStorage (tracked by trackActivity)
     const playerKey = publicKey.toString();
-    const miningFromStorage = parseInt(localStorage.getItem(`activity-${playerKey}-mining`) || "0");
-    const craftingFromStorage = parseInt(localStorage.getItem(`activity-${playerKey}-crafting`) || "0");
-    const explorationFromStorage = parseInt(localStorage.getItem(`activity-${playerKey}-exploration`) || "0");
-    const missionsFromStorage = parseInt(localStorage.getItem(`activity-${playerKey}-mission_complete`) || "0");
+    const miningFromStorage = parseInt(gameStorage.getItem(`activity-${playerKey}-mining`) || "0");
+    const craftingFromStorage = parseInt(gameStorage.getItem(`activity-${playerKey}-crafting`) || "0");
+    const explorationFromStorage = parseInt(gameStorage.getItem(`activity-${playerKey}-exploration`) || "0");
+    const missionsFromStorage = parseInt(gameStorage.getItem(`activity-${playerKey}-mission_complete`) || "0");
 
     return {
       miningCount: Math.max(player.stats?.miningOperations || 0, miningFromStorage),
@@ -110,6 +115,7 @@ export function useAchievementTracker() {
 
       if (newAchievementIds.length > 0) {
         setNewAchievements(prev => [...prev, ...newAchievementIds]);
+        awardAchievementBlueprints(newAchievementIds);
       }
 
       return newAchievementIds;
@@ -120,6 +126,19 @@ export function useAchievementTracker() {
     }
   };
 
+  // Teach the blueprints that newly unlocked achievements award
+  const awardAchievementBlueprints = (achievementIds: string[]) => {
+    if (!player) return;
+
+    achievementIds.forEach((achievementId) => {
+      getAchievementBlueprints(achievementId).forEach((recipeId) => {
+        if (useBlueprintStore.getState().learnBlueprint(player.id, recipeId)) {
+          gameEvents.emit("BlueprintLearned", { recipeId, source: "achievement" });
+        }
+      });
+    });
+  };
+
   // Track specific activity and check achievements
   const trackActivity = async (
     activity: "mining" | "crafting" | "exploration" | "mission_complete" | "level_up",
@@ -132,9 +151,9 @@ export function useAchievementTracker() {
     try {
       // Update activity tracking in localStorage for immediate feedback
       const activityKey = `activity-${publicKey.toString()}-${activity}`;
-      const currentCount = parseInt(localStorage.getItem(activityKey) || "0");
+      const currentCount = parseInt(gameStorage.getItem(activityKey) || "0");
       const newCount = currentCount + amount;
-      localStorage.setItem(activityKey, newCount.toString());// Small delay to ensure game state is updated, then check achievements
+      gameStorage.setItem(activityKey, newCount.toString());// Small delay to ensure game state is updated, then check achievements
       setTimeout(async () => {
         const newAchievements = await checkAchievements();
         if (newAchievements.length > 0) {}
@@ -275,3 +294,16 @@ export function useAchievementTracker() {
     status: getAchievementSystemStatus(),
   };
 }
+
+/**
+ * Hook that counts game events toward achievements. Mount once, in the game scene
+ */
+export function useAchievementEventTracking() {
+  const achievementTracker = useAchievementTracker();
+  const { trackActivity } = achievementTracker;
+
+  useGameEvent("MiningCompleted", () => trackActivity("mining", 1));
+  useGameEvent("ItemCrafted", () => trackActivity("crafting", 1));
+
+  return achievementTracker;
+}
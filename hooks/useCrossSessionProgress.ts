@@ -5,6 +5,7 @@ import { useWallet } from "@solana/wallet-adapter-react";
 
 import { useHoneycombStore } from "@/stores/honeycombStore";
 import { useGameStore } from "@/stores/gameStore";
+import { gameStorage } from "@/services/storageAdapter";
 
 /**
  * Hook to manage cross-session progress persistence
@@ -54,7 +55,7 @@ export function useCrossSessionProgress() {
     const progressData = getLocalProgress();
     if (progressData) {
       const localKey = `g-bax-progress-${publicKey.toString()}`;
-      localStorage.setItem(localKey, JSON.stringify(progressData));
+      gameStorage.setItem(localKey, JSON.stringify(progressData));
     }
   }, [publicKey, player, getLocalProgress]);
 
@@ -64,7 +65,7 @@ export function useCrossSessionProgress() {
 
     try {
       const localKey = `g-bax-progress-${publicKey.toString()}`;
-      const savedData = localStorage.getItem(localKey);
+      const savedData = gameStorage.getItem(localKey);
 
       if (savedData) {
         return JSON.parse(savedData);
@@ -254,8 +255,8 @@ export function useCrossSessionProgress() {
     // Clear local storage
     const localKey = `g-bax-progress-${publicKey.toString()}`;
     const syncKey = `g-bax-sync-${publicKey.toString()}`;
-    localStorage.removeItem(localKey);
-    localStorage.removeItem(syncKey);
+    gameStorage.removeItem(localKey);
+    gameStorage.removeItem(syncKey);
 
     // Reset state
     setSyncConflicts([]);
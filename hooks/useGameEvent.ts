@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+import {
+  gameEvents,
+  type GameEventHandler,
+  type GameEventType,
+} from "@/systems/gameEvents";
+
+/**
+ * Subscribe a component to a game event for as long as it is mounted.
+ * The latest handler is always called, so it can read current hook state
+ */
+export function useGameEvent<T extends GameEventType>(
+  type: T,
+  handler: GameEventHandler<T>,
+) {
+  const handlerRef = useRef(handler);
+
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    return gameEvents.on(type, (payload) => handlerRef.current(payload));
+  }, [type]);
+}
@@ -5,6 +5,8 @@ import { useWallet } from "@solana/wallet-adapter-react";
 
 import { useHoneycombStore } from "@/stores/honeycombStore";
 import { useGameStore } from "@/stores/gameStore";
+import { useGameEvent } from "@/hooks/useGameEvent";
+import { useTraitBonuses } from "@/hooks/useTraitBonuses";
 import { Guild, PlayerGuildInfo } from "@/types";
 
 /**
@@ -283,3 +285,35 @@ export function useGuildProgression() {
     canJoinGuild: !!(publicKey && honeycombConnected && isGuildSystemInitialized && !playerGuildInfo),
   };
 }
+
+/**
+ * Hook that records guild contributions from game events. Mount once, in the game scene
+ */
+export function useGuildEventTracking() {
+  const guildProgression = useGuildProgression();
+  const { recordContribution } = guildProgression;
+  const { applyMiningBonus } = useTraitBonuses();
+
+  useGameEvent("MiningCompleted", async ({ result }) => {
+    const totalQuantity = result.resources.reduce(
+      (sum, resource) => sum + applyMiningBonus(resource.quantity),
+      0,
+    );
+
+    try {
+      await recordContribution("mining", totalQuantity);
+    } catch (error) {
+      console.warn("Failed to record guild mining contribution:", error);
+    }
+  });
+
+  useGameEvent("ItemCrafted", async () => {
+    try {
+      await recordContribution("crafting", 1);
+    } catch (error) {
+      console.warn("Failed to record guild crafting contribution:", error);
+    }
+  });
+
+  return guildProgression;
+}
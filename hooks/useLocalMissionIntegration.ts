@@ -46,14 +46,15 @@ export function useLocalMissionIntegration() {
     }
   }, [connected, player, isInitialized, initialize, getPlayerId]);
 
-  // Load available missions when player level changes
+  // Load available missions when player level changes or a mission is
+  // completed, unlocking the ones that are now in reach
   useEffect(() => {
     const playerId = getPlayerId();
 
     if (isInitialized && player) {
       loadAvailableMissions(playerId, player.level);
     }
-  }, [isInitialized, player?.level, loadAvailableMissions, getPlayerId]);
+  }, [isInitialized, player?.level, completedMissions.length, loadAvailableMissions, getPlayerId]);
 
   // Sync mission data across tabs
   useEffect(() => {
@@ -4,8 +4,15 @@ import { useEffect, useCallback, useState } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 
 import { useLocalMissionIntegration } from "@/hooks/useLocalMissionIntegration";
+import { useGameEvent } from "@/hooks/useGameEvent";
 import { useGameStore } from "@/stores/gameStore";
-import { PREDEFINED_MISSIONS } from "@/data/missions";
+import { gameEvents } from "@/systems/gameEvents";
+import {
+  PREDEFINED_MISSIONS,
+  doesActivityCountForMission,
+  getMiningActivities,
+  type MissionActivity,
+} from "@/data/missions";
 import { useMissionRewards } from "./useMissionRewards";
 
 /**
@@ -230,3 +237,51 @@ export function useMissionProgressTracker() {
     activeMission,
   };
 }
+
+/**
+ * Hook that advances the active mission from game events.
+ * Mount once, in the game scene - it also owns the completion modal state
+ */
+export function useMissionEventTracking() {
+  const tracker = useMissionProgressTracker();
+
+  // Advance the active mission by one if any of the activities count toward it
+  const trackActivities = async (activities: MissionActivity[]) => {
+    const { activeMission, player } = useGameStore.getState();
+
+    if (!activeMission || !player) return;
+
+    const counts = activities.some((activity) =>
+      doesActivityCountForMission(activeMission, activity),
+    );
+
+    if (!counts) return;
+
+    const progress = Math.min(
+      activeMission.progress + 1,
+      activeMission.maxProgress,
+    );
+
+    await tracker.updateMissionProgress(activeMission.id, progress);
+
+    gameEvents.emit("MissionProgressed", {
+      mission: activeMission,
+      progress,
+      completed: progress >= activeMission.maxProgress,
+    });
+  };
+
+  useGameEvent("MiningCompleted", ({ result }) =>
+    trackActivities(getMiningActivities(result.resources)),
+  );
+  useGameEvent("ItemCrafted", () => trackActivities(["crafting"]));
+  useGameEvent("ItemSalvaged", () => trackActivities(["crafting"]));
+  useGameEvent("ObjectDiscovered", () =>
+    trackActivities(["exploration", "object_discovery"]),
+  );
+  useGameEvent("LocationVisited", () =>
+    trackActivities(["location_discovery"]),
+  );
+
+  return tracker;
+}
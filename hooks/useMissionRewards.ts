@@ -4,6 +4,10 @@ import { useCallback } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 
 import { useGameStore } from "@/stores/gameStore";
+import { useBlueprintStore } from "@/stores/blueprintStore";
+import { getMissionBlueprints } from "@/data/blueprints";
+import { getRecipeName } from "@/data/recipes";
+import { gameEvents } from "@/systems/gameEvents";
 import { useVerxioIntegration } from "./useVerxioIntegration";
 import { useAchievementTracker } from "./useAchievementTracker";
 import { useGuildProgression } from "./useGuildProgression";
@@ -19,6 +23,7 @@ export function useMissionRewards() {
     addResource,
     updatePlayerExperience,
     setPlayer,
+    changeCredits,
   } = useGameStore();
 
   // Local mission system doesn't need blockchain sync for core rewards
@@ -40,6 +45,7 @@ export function useMissionRewards() {
       experience: 0,
       credits: 0,
       resources: [] as any[],
+      blueprints: [] as string[],
       loyaltyPoints: 0,
     };
 
@@ -71,24 +77,35 @@ export function useMissionRewards() {
       if (rewards.credits > 0) {
         rewardSummary.credits = rewards.credits;
 
-        // Update player credits
-        setPlayer({
-          ...player,
-          credits: player.credits + rewards.credits,
-        });
+        // Update player credits, recorded in the credits ledger
+        changeCredits(
+          "mission_reward",
+          rewards.credits,
+          `Mission: ${completedMission.title}`
+        );
       }
 
       // 3. Award Resources
       if (rewards.resources && rewards.resources.length > 0) {
-        rewardSummary.resources = rewards.resources;
-
-        // Add each resource to inventory
+        // Add each resource to inventory, a full cargo hold only takes what fits
         for (const resource of rewards.resources) {
-          addResource(resource);
+          const quantity = addResource(resource);
+
+          if (quantity > 0) {
+            rewardSummary.resources.push({ ...resource, quantity });
+          }
+        }
+      }
+
+      // 4. Teach any blueprints the mission unlocks
+      for (const recipeId of getMissionBlueprints(completedMission.id)) {
+        if (useBlueprintStore.getState().learnBlueprint(player.id, recipeId)) {
+          rewardSummary.blueprints.push(getRecipeName(recipeId));
+          gameEvents.emit("BlueprintLearned", { recipeId, source: "mission" });
         }
       }
 
-      // 4. Award Loyalty Points (bonus for mission completion)
+      // 5. Award Loyalty Points (bonus for mission completion)
       const baseLoyaltyPoints = Math.floor(rewards.experience * 0.5) + rewards.credits * 0.1;
       if (baseLoyaltyPoints > 0) {
         try {
@@ -102,21 +119,21 @@ export function useMissionRewards() {
         }
       }
 
-      // 5. Track achievement progress for mission completion
+      // 6. Track achievement progress for mission completion
       try {
         await trackActivity("mission_complete", 1);
       } catch (error) {
         console.warn("Failed to track mission achievement:", error);
       }
 
-      // 6. Record guild contribution for mission completion
+      // 7. Record guild contribution for mission completion
       try {
         await recordContribution("mission", 1);
       } catch (error) {
         console.warn("Failed to record guild mission contribution:", error);
       }
 
-      // 7. Log mission completion
+      // 8. Log mission completion
       console.log(`Mission "${completedMission.title}" completed!`, {
         mission: completedMission,
         rewards: rewardSummary,
@@ -133,6 +150,7 @@ export function useMissionRewards() {
     addResource,
     updatePlayerExperience,
     setPlayer,
+    changeCredits,
     // Removed Honeycomb dependencies - now using local system
     awardPointsForActivity,
     trackActivity,
@@ -158,6 +176,10 @@ export function useMissionRewards() {
       parts.push(resourceText);
     }
 
+    if (rewardSummary.blueprints?.length > 0) {
+      parts.push(`${rewardSummary.blueprints.join(", ")} Blueprint`);
+    }
+
     if (rewardSummary.loyaltyPoints > 0) {
       parts.push(`${formatNumber(rewardSummary.loyaltyPoints)} Loyalty Points`);
     }
@@ -186,6 +208,12 @@ export function useMissionRewards() {
       preview.push(`${mission.rewards.resources.length} Resources`);
     }
 
+    const blueprints = getMissionBlueprints(mission.id);
+
+    if (blueprints.length > 0) {
+      preview.push(`${blueprints.map(getRecipeName).join(", ")} Blueprint`);
+    }
+
     // Add estimated loyalty points
     const estimatedLoyalty = Math.floor(mission.rewards.experience * 0.5) + mission.rewards.credits * 0.1;
     if (estimatedLoyalty > 0) {
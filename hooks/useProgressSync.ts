@@ -8,6 +8,8 @@ import { useVerxioStore, resetVerxioStore } from "@/stores/verxioStore";
 import { useHoneycombStore } from "@/stores/honeycombStore";
 // import { useCrossSessionProgress } from "./useCrossSessionProgress";
 import { resetItemEffectsStore } from "@/stores/itemEffectsStore";
+import { resetEquipmentStore } from "@/stores/equipmentStore";
+import { gameStorage } from "@/services/storageAdapter";
 
 /**
  * Hook to automatically sync game progress to localStorage and blockchain
@@ -81,19 +83,22 @@ export function useProgressSync() {
         lastSaved: new Date().toISOString(),
       };
 
-      localStorage.setItem(walletSpecificKey, JSON.stringify(gameData));
+      gameStorage.setItem(walletSpecificKey, JSON.stringify(gameData));
 
       // Clear all game states
       gameState.reset();
 
       // Clear general localStorage data
-      localStorage.removeItem("g-bax-game-progress");
+      gameStorage.removeItem("g-bax-game-progress");
 
       // Clear Verxio state and localStorage
       resetVerxioStore();
 
       // Clear item effects and localStorage
       resetItemEffectsStore();
+
+      // Clear fitted equipment and localStorage
+      resetEquipmentStore();
     }
   }, [connected]);
 
@@ -180,7 +185,7 @@ export function useProgressSync() {
     },
     loadProgress: () => {
       // Manual load progress implementation
-      const saved = localStorage.getItem("g-bax-game-progress");
+      const saved = gameStorage.getItem("g-bax-game-progress");
 
       if (saved && connected && publicKey) {
         try {
@@ -206,8 +211,8 @@ export function useProgressSync() {
       // Clear localStorage
       const keysToRemove = [];
 
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
+      for (let i = 0; i < gameStorage.length; i++) {
+        const key = gameStorage.key(i);
 
         if (
           key &&
@@ -218,7 +223,7 @@ export function useProgressSync() {
           keysToRemove.push(key);
         }
       }
-      keysToRemove.forEach((key) => localStorage.removeItem(key));
+      keysToRemove.forEach((key) => gameStorage.removeItem(key));
     },
   };
 }
@@ -4,7 +4,11 @@ import { useEffect, useState } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 
 import { useHoneycombStore } from "@/stores/honeycombStore";
-import { GameResource, PlayerResourceHolding } from "@/types";
+import { useGameEvent } from "@/hooks/useGameEvent";
+import { useTraitBonuses } from "@/hooks/useTraitBonuses";
+import { useGameStore } from "@/stores/gameStore";
+import { checkRecipeInputs } from "@/utils/gameHelpers";
+import { CraftingRecipe, GameResource, PlayerResourceHolding } from "@/types";
 
 /**
  * Hook to manage on-chain resource ownership and inventory
@@ -25,6 +29,7 @@ export function useResourceOwnership() {
     loadPlayerResourceHoldings,
     getResourceSystemStatus,
   } = useHoneycombStore();
+  const { inventory } = useGameStore();
 
   const [isTransferring, setIsTransferring] = useState(false);
   const [isConsuming, setIsConsuming] = useState(false);
@@ -209,14 +214,10 @@ export function useResourceOwnership() {
     }
   };
 
-  // Check if player has enough resources for a recipe
-  const hasResourcesForRecipe = (
-    requiredResources: Array<{ resourceId: string; amount: number }>,
-  ): boolean => {
-    return requiredResources.every(requirement => {
-      const playerAmount = getPlayerResourceAmount(requirement.resourceId);
-      return playerAmount >= requirement.amount;
-    });
+  // Check if player has enough resources for a recipe. Recipes are crafted
+  // from the ship's inventory, so that's what is checked
+  const hasResourcesForRecipe = (recipe: CraftingRecipe): boolean => {
+    return checkRecipeInputs(recipe, inventory).canCraft;
   };
 
   // Get resource statistics
@@ -295,3 +296,39 @@ export function useResourceOwnership() {
     canUseResources: !!(publicKey && honeycombConnected && isResourceSystemInitialized),
   };
 }
+
+/**
+ * Hook that awards on-chain resources from game events. Mount once, in the game scene
+ */
+export function useResourceOwnershipEventTracking() {
+  const resourceOwnership = useResourceOwnership();
+  const { awardMiningRewards, awardCraftingResult } = resourceOwnership;
+  const { applyMiningBonus } = useTraitBonuses();
+
+  useGameEvent("MiningCompleted", async ({ result }) => {
+    try {
+      await awardMiningRewards(
+        result.resources.map((resource) => ({
+          type: resource.type,
+          quantity: applyMiningBonus(resource.quantity),
+          rarity: resource.rarity || "common",
+        })),
+      );
+    } catch (error) {
+      console.warn("Failed to award on-chain mining rewards:", error);
+    }
+  });
+
+  useGameEvent("ItemCrafted", async ({ result }) => {
+    try {
+      await awardCraftingResult({
+        type: result.item.type,
+        rarity: result.item.rarity,
+      });
+    } catch (error) {
+      console.warn("Failed to award on-chain crafting result:", error);
+    }
+  });
+
+  return resourceOwnership;
+}
@@ -5,6 +5,8 @@ import { useWallet } from "@solana/wallet-adapter-react";
 
 import { useVerxioStore } from "@/stores/verxioStore";
 import { useGameStore } from "@/stores/gameStore";
+import { useGameEvent } from "@/hooks/useGameEvent";
+import { useTraitBonuses } from "@/hooks/useTraitBonuses";
 
 /**
  * Custom hook to integrate a Verxio loyalty system with game mechanics
@@ -312,3 +314,37 @@ export function useVerxioIntegration() {
     verxioService,
   };
 }
+
+// Base loyalty points for crafting, by item rarity
+const CRAFTING_RARITY_POINTS: Record<string, number> = {
+  common: 20,
+  rare: 50,
+  epic: 100,
+  legendary: 200,
+};
+
+/**
+ * Hook that awards loyalty points from game events. Mount once, in the game scene
+ */
+export function useLoyaltyEventTracking() {
+  const verxioIntegration = useVerxioIntegration();
+  const { awardPointsForActivity } = verxioIntegration;
+  const { applyExperienceBonus } = useTraitBonuses();
+
+  useGameEvent("MiningCompleted", async ({ result }) => {
+    const basePoints =
+      result.resources.length * 10 + applyExperienceBonus(result.experience);
+
+    await awardPointsForActivity("mining_complete", basePoints);
+  });
+
+  useGameEvent("ItemCrafted", async ({ result }) => {
+    const basePoints =
+      (CRAFTING_RARITY_POINTS[result.item.rarity] || 20) +
+      applyExperienceBonus(result.experience);
+
+    await awardPointsForActivity("crafting_complete", basePoints);
+  });
+
+  return verxioIntegration;
+}
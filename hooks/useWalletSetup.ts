@@ -9,6 +9,7 @@ import { useHoneycombStore } from "@/stores/honeycombStore";
 import { useVerxioStore } from "@/stores/verxioStore";
 import { useLoadingStore } from "@/stores/loadingStore";
 import { useGameStore } from "@/stores/gameStore";
+import { gameStorage } from "@/services/storageAdapter";
 
 export function useWalletSetup() {
   const { publicKey, wallet, connected } = useWallet();
@@ -53,24 +54,24 @@ export function useWalletSetup() {
     `wallet_setup_${publicKey.toString()}`;
 
   const isSetupCompleted = (publicKey: any) => {
-    return localStorage.getItem(getSetupKey(publicKey)) === "true";
+    return gameStorage.getItem(getSetupKey(publicKey)) === "true";
   };
 
   const markSetupCompleted = (publicKey: any) => {
-    localStorage.setItem(getSetupKey(publicKey), "true");
+    gameStorage.setItem(getSetupKey(publicKey), "true");
   };
 
   const clearSetupFlag = (publicKey: any) => {
-    localStorage.removeItem(getSetupKey(publicKey));
+    gameStorage.removeItem(getSetupKey(publicKey));
   };
 
   const clearAllSetupFlags = () => {
     // Clear all wallet setup flags from localStorage
-    const keys = Object.keys(localStorage);
+    const keys = gameStorage.keys();
 
     keys.forEach((key) => {
       if (key.startsWith("wallet_setup_")) {
-        localStorage.removeItem(key);
+        gameStorage.removeItem(key);
       }
     });
   };
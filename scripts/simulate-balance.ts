@@ -0,0 +1,605 @@
+#!/usr/bin/env node
+
+/**
+ * Headless Balance Simulation
+ * Drives the game systems and local mission service with a scripted bot player,
+ * without the Three.js renderer or React, and reports XP/hour, credits/hour,
+ * resource flow by rarity and the time taken to reach each level and mission.
+ * Under Node the game saves to in-memory storage, so real saves are never touched.
+ *
+ * Usage: npm run simulate -- [--hours=10] [--seed=12345] [--json]
+ */
+
+import type { Mission, Player, Resource } from "@/stores/gameStore";
+import type { SpaceObject } from "@/types/game";
+
+import * as THREE from "three";
+
+import { GameSystemsManager } from "@/systems/gameSystemsManager";
+import { GameClock } from "@/systems/gameClock";
+import { GameEventBus } from "@/systems/gameEvents";
+import { GAME_CONFIG } from "@/utils/constants";
+import { getRawResourceName, isRefinedMaterial } from "@/utils/gameHelpers";
+import { useGameStore } from "@/stores/gameStore";
+import { useBlueprintStore } from "@/stores/blueprintStore";
+import { getMissionBlueprints } from "@/data/blueprints";
+import { localMissionService } from "@/services/localMissionService";
+import {
+  PREDEFINED_MISSIONS,
+  doesActivityCountForMission,
+  getMiningActivities,
+  type MissionActivity,
+} from "@/data/missions";
+
+interface SimulationOptions {
+  hours: number;
+  seed: number;
+  decisionInterval: number; // Game milliseconds between bot decisions
+  json: boolean;
+}
+
+interface SimulationReport {
+  seed: number;
+  hours: number;
+  finalLevel: number;
+  totalExperience: number;
+  totalCredits: number;
+  experiencePerHour: number;
+  creditsPerHour: number;
+  experienceBySource: Record<string, number>;
+  resourceFlow: Record<Resource["rarity"], { gained: number; spent: number }>;
+  activity: {
+    miningOperations: number;
+    itemsCrafted: number;
+    discoveries: number;
+    objectsDepleted: number;
+    energyRefueled: number;
+    cargoOverflow: number;
+    blueprintsLearned: number;
+    materialsRefined: number;
+    itemsSold: number;
+  };
+  levels: { level: number; reachedAtHours: number }[];
+  missions: { id: string; title: string; completedAtHours: number | null }[];
+  failures: string[]; // Balance limits the run broke
+}
+
+const PLAYER_ID = "simulation_bot";
+const BOT_SPEED = 5; // Units per second, matches the camera move speed
+const HOUR = 60 * 60 * 1000;
+
+class BalanceSimulation {
+  private options: SimulationOptions;
+  private manager!: GameSystemsManager;
+  private spaceObjects: SpaceObject[] = [];
+  private waypoints: THREE.Vector3[] = [];
+  private waypointIndex = 0;
+  private position = new THREE.Vector3(0, 0, 0);
+  private report: SimulationReport;
+
+  constructor(options: SimulationOptions) {
+    this.options = options;
+    this.report = {
+      seed: options.seed,
+      hours: options.hours,
+      finalLevel: 1,
+      totalExperience: 0,
+      totalCredits: 0,
+      experiencePerHour: 0,
+      creditsPerHour: 0,
+      experienceBySource: {
+        mining: 0,
+        crafting: 0,
+        exploration: 0,
+        missions: 0,
+      },
+      resourceFlow: {
+        common: { gained: 0, spent: 0 },
+        rare: { gained: 0, spent: 0 },
+        epic: { gained: 0, spent: 0 },
+        legendary: { gained: 0, spent: 0 },
+      },
+      activity: {
+        miningOperations: 0,
+        itemsCrafted: 0,
+        discoveries: 0,
+        objectsDepleted: 0,
+        energyRefueled: 0,
+        cargoOverflow: 0,
+        blueprintsLearned: 0,
+        materialsRefined: 0,
+        itemsSold: 0,
+      },
+      levels: [],
+      missions: [],
+      failures: [],
+    };
+  }
+
+  async run(): Promise<SimulationReport> {
+    this.setup();
+
+    const duration = this.options.hours * HOUR;
+
+    while (this.manager.clock.now() < duration) {
+      this.startNextMission();
+      this.refuel();
+      this.refineMaterials();
+      this.craftBestRecipe();
+      this.mineNearestObjects();
+      this.travel(this.options.decisionInterval);
+
+      this.manager.stepSystems(this.options.decisionInterval);
+    }
+
+    const player = useGameStore.getState().player!;
+
+    this.report.finalLevel = player.level;
+    this.report.totalExperience = player.experience;
+    this.report.totalCredits = player.credits;
+    this.report.experiencePerHour = Math.round(
+      player.experience / this.options.hours,
+    );
+    this.report.creditsPerHour = Math.round(
+      player.credits / this.options.hours,
+    );
+    this.report.missions = PREDEFINED_MISSIONS.map((mission) => ({
+      id: mission.id,
+      title: mission.title,
+      completedAtHours:
+        this.report.missions.find((m) => m.id === mission.id)
+          ?.completedAtHours ?? null,
+    }));
+
+    if (player.level > GAME_CONFIG.MAX_LEVEL) {
+      this.report.failures.push(
+        `Reached level ${player.level}, past the level cap of ${GAME_CONFIG.MAX_LEVEL}`,
+      );
+    }
+
+    this.manager.dispose();
+
+    return this.report;
+  }
+
+  // Create the bot player, sector and game systems
+  private setup(): void {
+    useGameStore.getState().setPlayer(createBotPlayer());
+
+    // Private bus so nothing outside the simulation reacts to the bot
+    const events = new GameEventBus();
+
+    events.on("MiningCompleted", ({ result }) => {
+      this.report.activity.miningOperations++;
+      this.report.experienceBySource.mining += result.experience;
+      this.recordGained(result.resources);
+      this.recordOverflow(result.overflow);
+      this.trackMissionProgress(getMiningActivities(result.resources));
+    });
+    events.on("ObjectDepleted", () => {
+      this.report.activity.objectsDepleted++;
+    });
+    events.on("ItemCrafted", ({ result }) => {
+      this.report.activity.itemsCrafted++;
+      this.report.experienceBySource.crafting += result.experience;
+      this.recordGained([result.item, ...(result.bonusItems || [])]);
+      this.recordOverflow(result.overflow || []);
+      this.trackMissionProgress(["crafting"]);
+    });
+    events.on("ObjectDiscovered", ({ experience }) => {
+      this.report.activity.discoveries++;
+      this.report.experienceBySource.exploration += experience;
+      this.trackMissionProgress(["exploration", "object_discovery"]);
+    });
+    events.on("LocationVisited", ({ experience }) => {
+      this.report.activity.discoveries++;
+      this.report.experienceBySource.exploration += experience;
+      this.trackMissionProgress(["location_discovery"]);
+    });
+    events.on("MaterialRefined", ({ result }) => {
+      this.report.activity.materialsRefined += result.item.quantity;
+      this.report.experienceBySource.crafting += result.experience;
+      this.recordGained([result.item]);
+      this.recordOverflow(result.overflow || []);
+    });
+    events.on("MarketTrade", ({ item, side }) => {
+      if (side === "sell") this.report.activity.itemsSold += item.quantity;
+    });
+    events.on("BlueprintLearned", () => {
+      this.report.activity.blueprintsLearned++;
+    });
+    events.on("LevelUp", ({ previousLevel, level }) =>
+      this.recordLevels(previousLevel, level),
+    );
+
+    this.manager = new GameSystemsManager(
+      { enableAutoSave: false, seed: this.options.seed },
+      {},
+      // Coarser steps than the browser - bot decisions are a second apart anyway
+      new GameClock({ fixedTimeStep: 100 }),
+      events,
+    );
+    this.manager.initialize();
+    this.manager.initializeExploration(PLAYER_ID);
+
+    // Same home sector as the live scene
+    this.spaceObjects = this.manager.loadCurrentSector().objects;
+    this.waypoints = this.spaceObjects.map(
+      (object) => new THREE.Vector3(...object.position),
+    );
+
+    localMissionService.initialize(PLAYER_ID);
+  }
+
+  // Start the first mission the service will let the bot take
+  private startNextMission(): void {
+    if (localMissionService.getActiveMission(PLAYER_ID)) return;
+
+    const level = useGameStore.getState().player!.level;
+
+    // Unlock what the bot's level and finished missions allow, as the game
+    // does on level-up and mission completion
+    localMissionService.unlockMissions(PLAYER_ID, level);
+
+    const nextMission = localMissionService
+      .getAvailableMissions(PLAYER_ID, level)
+      .find((mission) => mission.status === "available");
+
+    if (nextMission) {
+      localMissionService.startMission(PLAYER_ID, nextMission.id);
+    }
+  }
+
+  // Top up the ship when it can no longer afford a mining run - dock if a
+  // station is in range, otherwise burn energy resources from the hold
+  private refuel(): void {
+    if (this.manager.hasEnergyFor(GAME_CONFIG.MINING_ENERGY_COST)) return;
+
+    const before = this.manager.getEnergy().energy;
+    const station = this.spaceObjects.find(
+      (object) =>
+        object.type === "station" &&
+        this.position.distanceTo(new THREE.Vector3(...object.position)) <=
+          GAME_CONFIG.STATION_DOCKING_RANGE,
+    );
+
+    if (station && this.manager.dockAt(station, this.position)) {
+      this.sellCraftedItems(station);
+      this.buyBlueprints(station);
+    } else {
+      this.manager.refuelFromInventory();
+    }
+
+    this.report.activity.energyRefueled +=
+      this.manager.getEnergy().energy - before;
+  }
+
+  // Turn crafted items into credits, keeping raw and refined materials to craft with
+  private sellCraftedItems(station: SpaceObject): void {
+    useGameStore
+      .getState()
+      .inventory.filter(
+        (item) =>
+          item.name !== getRawResourceName(item.type, item.rarity) &&
+          !isRefinedMaterial(item),
+      )
+      .forEach((item) =>
+        this.manager.sellToMarket(station, item, item.quantity),
+      );
+  }
+
+  // Spend credits on every blueprint the docked station sells, cheapest first
+  private buyBlueprints(station: SpaceObject): void {
+    const level = useGameStore.getState().player!.level;
+
+    this.manager
+      .getStationBlueprints(PLAYER_ID, level)
+      .sort((a, b) => a.price - b.price)
+      .forEach(({ recipe }) =>
+        this.manager.purchaseBlueprint(PLAYER_ID, recipe.id, station),
+      );
+  }
+
+  // Keep the refinery busy on whichever refined material the hold has least of
+  private refineMaterials(): void {
+    const { inventory } = useGameStore.getState();
+    const stock = (name: string) =>
+      inventory
+        .filter((resource) => resource.name === name)
+        .reduce((total, resource) => total + resource.quantity, 0);
+
+    this.manager
+      .getRefiningRecipes()
+      .sort((a, b) => stock(a.output.name) - stock(b.output.name))
+      .forEach((recipe) => {
+        const running = this.manager.getPlayerRefiningOperations(PLAYER_ID);
+
+        if (running.length >= GAME_CONFIG.REFINING_SLOTS) return;
+
+        const resources = useGameStore.getState().inventory;
+
+        if (this.manager.startRefining(PLAYER_ID, recipe.id, resources)) {
+          const [operation] = this.manager
+            .getPlayerRefiningOperations(PLAYER_ID)
+            .slice(-1);
+
+          operation.requiredResources.forEach((resource) => {
+            this.report.resourceFlow[resource.rarity].spent +=
+              resource.quantity;
+          });
+        }
+      });
+  }
+
+  // Craft the highest level recipe the bot can afford, keeping at most one
+  // job waiting behind the busy slots
+  private craftBestRecipe(): void {
+    if (this.manager.getCraftingQueue(PLAYER_ID).length > 0) return;
+
+    const { player, inventory } = useGameStore.getState();
+    const recipe = this.manager
+      .getAvailableRecipes(PLAYER_ID, player!.level)
+      .sort((a, b) => b.requiredLevel - a.requiredLevel)
+      .find(
+        (candidate) =>
+          (!candidate.stationOnly || this.manager.getDockedStation()) &&
+          this.manager.crafting.canCraftRecipe(candidate, inventory).canCraft,
+      );
+
+    if (!recipe) return;
+
+    const job = this.manager.queueCrafting(PLAYER_ID, recipe.id, inventory);
+
+    job?.requiredResources.forEach((resource) => {
+      this.report.resourceFlow[resource.rarity].spent += resource.quantity;
+    });
+  }
+
+  // Keep the mining slots busy on the closest mineable objects
+  private mineNearestObjects(): void {
+    const busyTargets = new Set(
+      this.manager
+        .getPlayerMiningOperations(PLAYER_ID)
+        .map((operation) => operation.targetObjectId),
+    );
+    // Health comes from the mining system, which tracks depletion
+    const candidates = this.manager.mining
+      .getSpaceObjects()
+      .filter(
+        (object) =>
+          (object.type === "asteroid" || object.type === "resource_node") &&
+          (object.health === undefined || object.health > 0) &&
+          !busyTargets.has(object.id),
+      )
+      .sort(
+        (a, b) =>
+          this.position.distanceTo(new THREE.Vector3(...a.position)) -
+          this.position.distanceTo(new THREE.Vector3(...b.position)),
+      );
+
+    for (const object of candidates) {
+      if (!this.manager.startMining(PLAYER_ID, object)) break;
+    }
+  }
+
+  // Fly between objects in a loop so exploration keeps discovering
+  private travel(deltaTime: number): void {
+    if (this.waypoints.length === 0) return;
+
+    // Drifting with empty tanks - exploration only resumes after a refuel
+    if (!this.manager.spendMovementEnergy(deltaTime)) return;
+
+    this.manager.undock();
+
+    const target = this.waypoints[this.waypointIndex];
+    const step = (BOT_SPEED * deltaTime) / 1000;
+
+    if (this.position.distanceTo(target) <= step) {
+      this.position.copy(target);
+      this.waypointIndex = (this.waypointIndex + 1) % this.waypoints.length;
+    } else {
+      this.position.add(
+        target.clone().sub(this.position).normalize().multiplyScalar(step),
+      );
+    }
+
+    this.manager.updatePlayerPosition(PLAYER_ID, this.position.clone());
+  }
+
+  // Advance the active mission by one if any of the activities count toward it
+  private trackMissionProgress(activities: MissionActivity[]): void {
+    const activeMission = localMissionService.getActiveMission(PLAYER_ID);
+
+    if (
+      !activeMission ||
+      !activities.some((activity) =>
+        doesActivityCountForMission(activeMission, activity),
+      )
+    ) {
+      return;
+    }
+
+    const current =
+      localMissionService
+        .getPlayerMissions(PLAYER_ID)
+        .find((progress) => progress.missionId === activeMission.id)
+        ?.progress ?? 0;
+    const updated = localMissionService.updateMissionProgress(
+      PLAYER_ID,
+      activeMission.id,
+      current + 1,
+    );
+
+    if (updated.completed) {
+      this.awardMission(activeMission);
+    }
+  }
+
+  // Mirror the rewards handed out on mission completion in the live game
+  private awardMission(mission: Mission): void {
+    const { rewards } = mission;
+
+    this.report.missions.push({
+      id: mission.id,
+      title: mission.title,
+      completedAtHours: this.hoursElapsed(),
+    });
+
+    if (rewards.experience > 0) {
+      this.report.experienceBySource.missions += rewards.experience;
+      this.gainExperience(rewards.experience);
+    }
+
+    if (rewards.credits > 0) {
+      useGameStore
+        .getState()
+        .changeCredits(
+          "mission_reward",
+          rewards.credits,
+          `Mission: ${mission.title}`,
+        );
+    }
+
+    rewards.resources?.forEach((resource) => {
+      const accepted = useGameStore.getState().addResource({ ...resource });
+
+      this.report.activity.cargoOverflow += resource.quantity - accepted;
+    });
+    this.recordGained(rewards.resources || []);
+
+    getMissionBlueprints(mission.id).forEach((recipeId) => {
+      if (useBlueprintStore.getState().learnBlueprint(PLAYER_ID, recipeId)) {
+        this.report.activity.blueprintsLearned++;
+      }
+    });
+  }
+
+  private recordOverflow(overflow: Resource[]): void {
+    overflow.forEach((resource) => {
+      this.report.activity.cargoOverflow += resource.quantity;
+    });
+  }
+
+  private recordGained(resources: Resource[]): void {
+    resources.forEach((resource) => {
+      this.report.resourceFlow[resource.rarity].gained += resource.quantity;
+    });
+  }
+
+  // Mission experience is granted here; the game systems grant their own
+  private gainExperience(experience: number): void {
+    const previousLevel = useGameStore.getState().player!.level;
+
+    useGameStore.getState().updatePlayerExperience(experience);
+    this.recordLevels(previousLevel, useGameStore.getState().player!.level);
+  }
+
+  private recordLevels(previousLevel: number, level: number): void {
+    for (let reached = previousLevel + 1; reached <= level; reached++) {
+      this.report.levels.push({
+        level: reached,
+        reachedAtHours: this.hoursElapsed(),
+      });
+    }
+  }
+
+  private hoursElapsed(): number {
+    return Math.round((this.manager.clock.now() / HOUR) * 100) / 100;
+  }
+}
+
+function createBotPlayer(): Player {
+  const now = new Date().toISOString();
+
+  return {
+    id: PLAYER_ID,
+    name: "Simulation Bot",
+    bio: "",
+    address: PLAYER_ID,
+    createdAt: now,
+    lastUpdated: now,
+    pfp: "",
+    profileAddress: "",
+    projectAddress: "",
+    profileTreeAddress: "",
+    source: "simulation",
+    level: 1,
+    experience: 0,
+    position: [0, 0, 0],
+    credits: 0,
+  };
+}
+
+function parseOptions(args: string[]): SimulationOptions {
+  const getArg = (name: string) =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.split("=")[1];
+
+  return {
+    hours: Number(getArg("hours") ?? 10),
+    seed: Number(getArg("seed") ?? 12345),
+    decisionInterval: 1000,
+    json: args.includes("--json"),
+  };
+}
+
+function printReport(report: SimulationReport): void {
+  console.log(
+    `\n📊 Balance simulation - ${report.hours}h, seed ${report.seed}`,
+  );
+  console.log("=".repeat(60));
+  console.log(`Final level:      ${report.finalLevel}`);
+  console.log(`XP/hour:          ${report.experiencePerHour}`);
+  console.log(`Credits/hour:     ${report.creditsPerHour}`);
+  console.log(
+    `Activity:         ${report.activity.miningOperations} mined, ${report.activity.itemsCrafted} crafted, ${report.activity.discoveries} discoveries, ${report.activity.objectsDepleted} objects depleted, ${Math.round(report.activity.energyRefueled)} energy refueled, ${report.activity.cargoOverflow} units lost to a full hold, ${report.activity.blueprintsLearned} blueprints learned, ${report.activity.materialsRefined} materials refined, ${report.activity.itemsSold} items sold`,
+  );
+
+  console.log("\nXP by source:");
+  Object.entries(report.experienceBySource).forEach(([source, experience]) => {
+    console.log(`  ${source.padEnd(12)} ${experience}`);
+  });
+
+  console.log("\nResource flow by rarity (gained / spent):");
+  Object.entries(report.resourceFlow).forEach(([rarity, flow]) => {
+    console.log(`  ${rarity.padEnd(12)} ${flow.gained} / ${flow.spent}`);
+  });
+
+  // Every level is in the JSON output; the summary keeps the early ones and milestones
+  console.log("\nTime to level:");
+  report.levels
+    .filter(({ level }) => level <= 10 || level % 10 === 0)
+    .forEach(({ level, reachedAtHours }) => {
+      console.log(`  Level ${String(level).padEnd(6)} ${reachedAtHours}h`);
+    });
+
+  console.log("\nTime to mission:");
+  report.missions.forEach(({ id, title, completedAtHours }) => {
+    console.log(
+      `  ${id.padEnd(16)} ${title.padEnd(30)} ${completedAtHours === null ? "not reached" : `${completedAtHours}h`}`,
+    );
+  });
+
+  if (report.failures.length > 0) {
+    console.log("\n❌ Balance failures:");
+    report.failures.forEach((failure) => console.log(`  ${failure}`));
+  }
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2));
+
+  const report = await new BalanceSimulation(options).run();
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  if (report.failures.length > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error("❌ Simulation failed:", error);
+  process.exit(1);
+});
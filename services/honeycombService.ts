@@ -3,6 +3,7 @@ import { Connection, Keypair, PublicKey } from "@solana/web3.js";
 import { sendTransactionForTests as sendTransactionT } from "@honeycomb-protocol/edge-client/client/helpers.js";
 import {WalletContextState} from "@solana/wallet-adapter-react/src/useWallet";
 import {sendClientTransactions} from "@honeycomb-protocol/edge-client/client/walletHelpers";
+import { gameStorage } from "@/services/storageAdapter";
 
 export interface HoneycombConfig {
   rpcUrl: string;
@@ -88,14 +89,14 @@ export class HoneycombService {
       const traits: PlayerTrait[] = [];
 
       // Scan localStorage for trait entries
-      const keys = Object.keys(localStorage);
+      const keys = gameStorage.keys();
       const traitKeys = keys.filter((key) =>
         key.startsWith(`character-trait-${playerKey}-`),
       );
 
       for (const key of traitKeys) {
         try {
-          const traitData = JSON.parse(localStorage.getItem(key) || "{}");
+          const traitData = JSON.parse(gameStorage.getItem(key) || "{}");
 
           if (traitData.traitId) {
             traits.push({
@@ -149,7 +150,7 @@ export class HoneycombService {
 
       const blockchainKey = `honeycomb-profile-${player.toString()}`;
 
-      localStorage.setItem(blockchainKey, JSON.stringify(localProfile));
+      gameStorage.setItem(blockchainKey, JSON.stringify(localProfile));
 
       return localProfile;
     } catch (error) {
@@ -224,7 +225,7 @@ export class HoneycombService {
       }
 
       const blockchainKey = `honeycomb-profile-${playerKey}`;
-      const saved = localStorage.getItem(blockchainKey);
+      const saved = gameStorage.getItem(blockchainKey);
 
       if (saved) {
         try {
@@ -248,7 +249,7 @@ export class HoneycombService {
     try {
       // Fallback: Update in localStorage
       const blockchainKey = `honeycomb-profile-${player.toString()}`;
-      const existing = localStorage.getItem(blockchainKey);
+      const existing = gameStorage.getItem(blockchainKey);
       let profile = {
         id: player.toString(),
         address: player.toString(),
@@ -275,7 +276,7 @@ export class HoneycombService {
       profile.lastUpdated = new Date().toISOString();
 
       // Save to localStorage
-      localStorage.setItem(blockchainKey, JSON.stringify(profile));
+      gameStorage.setItem(blockchainKey, JSON.stringify(profile));
     } catch (error) {
       throw new Error("Failed to update player experience");
     }
@@ -534,8 +535,8 @@ export class HoneycombService {
     const localKey = `g-bax-progress-${playerKey}`;
     const syncKey = `g-bax-sync-${playerKey}`;
 
-    const hasLocalProgress = localStorage.getItem(localKey) !== null;
-    const lastSyncTime = parseInt(localStorage.getItem(syncKey) || "0");
+    const hasLocalProgress = gameStorage.getItem(localKey) !== null;
+    const lastSyncTime = parseInt(gameStorage.getItem(syncKey) || "0");
 
     return {
       hasLocalProgress,
@@ -686,7 +687,7 @@ export class HoneycombService {
       const playerKey = player.toString();
       const achievementsKey = `achievements-${playerKey}`;
       const existingAchievements = JSON.parse(
-        localStorage.getItem(achievementsKey) || "[]",
+        gameStorage.getItem(achievementsKey) || "[]",
       );
 
       const predefinedAchievements = this.getPredefinedAchievements();
@@ -723,7 +724,7 @@ export class HoneycombService {
       }
 
       if (newAchievements.length > 0) {
-        localStorage.setItem(
+        gameStorage.setItem(
           achievementsKey,
           JSON.stringify(existingAchievements),
         );
@@ -742,7 +743,7 @@ export class HoneycombService {
       const playerKey = player.toString();
       const achievementsKey = `achievements-${playerKey}`;
 
-      return JSON.parse(localStorage.getItem(achievementsKey) || "[]");
+      return JSON.parse(gameStorage.getItem(achievementsKey) || "[]");
     } catch (error) {
       return [];
     }
@@ -804,7 +805,7 @@ export class HoneycombService {
 
       const storageKey = `character-${player.toString()}`;
 
-      localStorage.setItem(storageKey, JSON.stringify(character));
+      gameStorage.setItem(storageKey, JSON.stringify(character));
 
       return characterAddress;
     } catch (error) {
@@ -885,7 +886,7 @@ export class HoneycombService {
   private getLocalPlayerCharacters(player: PublicKey): any[] {
     try {
       const storageKey = `character-${player.toString()}`;
-      const stored = localStorage.getItem(storageKey);
+      const stored = gameStorage.getItem(storageKey);
 
       if (stored) {
         const character = JSON.parse(stored);
@@ -906,7 +907,7 @@ export class HoneycombService {
       // Extract player key from character address
       const playerKey = characterAddress.split("-")[1];
       const storageKey = `character-${playerKey}`;
-      const stored = localStorage.getItem(storageKey);
+      const stored = gameStorage.getItem(storageKey);
 
       if (stored) {
         const character = JSON.parse(stored);
@@ -979,7 +980,7 @@ export class HoneycombService {
       const guilds = this.getAllGuilds();
       const guildsKey = "g-bax-guilds";
 
-      localStorage.setItem(guildsKey, JSON.stringify(Array.from(guilds)));
+      gameStorage.setItem(guildsKey, JSON.stringify(Array.from(guilds)));
 
       return true;
     } catch (error) {
@@ -1046,7 +1047,7 @@ export class HoneycombService {
       const guildInfoKey = `guild-info-${playerKey}`;
 
       // Check if player is already in a guild
-      const existingGuild = localStorage.getItem(guildInfoKey);
+      const existingGuild = gameStorage.getItem(guildInfoKey);
 
       if (existingGuild) {
         throw new Error("Player is already in a guild");
@@ -1075,7 +1076,7 @@ export class HoneycombService {
         totalContributions: 0,
       };
 
-      localStorage.setItem(guildInfoKey, JSON.stringify(guildInfo));
+      gameStorage.setItem(guildInfoKey, JSON.stringify(guildInfo));
 
       return true;
     } catch (error) {
@@ -1090,7 +1091,7 @@ export class HoneycombService {
       const playerKey = player.toString();
       const guildInfoKey = `guild-info-${playerKey}`;
 
-      localStorage.removeItem(guildInfoKey);
+      gameStorage.removeItem(guildInfoKey);
 
       return true;
     } catch (error) {
@@ -1114,7 +1115,7 @@ export class HoneycombService {
     try {
       const playerKey = player.toString();
       const guildInfoKey = `guild-info-${playerKey}`;
-      const stored = localStorage.getItem(guildInfoKey);
+      const stored = gameStorage.getItem(guildInfoKey);
 
       if (!stored) {
         return false; // Player not in a guild
@@ -1134,7 +1135,7 @@ export class HoneycombService {
         guildInfo.rank = "Senior Member";
       }
 
-      localStorage.setItem(guildInfoKey, JSON.stringify(guildInfo));
+      gameStorage.setItem(guildInfoKey, JSON.stringify(guildInfo));
 
       return true;
     } catch (error) {
@@ -1148,7 +1149,7 @@ export class HoneycombService {
     try {
       const playerKey = player.toString();
       const guildInfoKey = `guild-info-${playerKey}`;
-      const stored = localStorage.getItem(guildInfoKey);
+      const stored = gameStorage.getItem(guildInfoKey);
 
       if (stored) {
         return JSON.parse(stored);
@@ -1181,7 +1182,7 @@ export class HoneycombService {
       const resources = this.getAllGameResources();
       const resourcesKey = "g-bax-resources";
 
-      localStorage.setItem(
+      gameStorage.setItem(
         resourcesKey,
         JSON.stringify(Array.from(resources.values())),
       );
@@ -1278,11 +1279,11 @@ export class HoneycombService {
     try {
       const playerKey = player.toString();
       const holdingsKey = `resource-holdings-${playerKey}`;
-      const holdings = JSON.parse(localStorage.getItem(holdingsKey) || "{}");
+      const holdings = JSON.parse(gameStorage.getItem(holdingsKey) || "{}");
 
       holdings[resourceId] = (holdings[resourceId] || 0) + amount;
 
-      localStorage.setItem(holdingsKey, JSON.stringify(holdings));
+      gameStorage.setItem(holdingsKey, JSON.stringify(holdings));
 
       return true;
     } catch (error) {
@@ -1306,10 +1307,10 @@ export class HoneycombService {
       const toHoldingsKey = `resource-holdings-${toKey}`;
 
       const fromHoldings = JSON.parse(
-        localStorage.getItem(fromHoldingsKey) || "{}",
+        gameStorage.getItem(fromHoldingsKey) || "{}",
       );
       const toHoldings = JSON.parse(
-        localStorage.getItem(toHoldingsKey) || "{}",
+        gameStorage.getItem(toHoldingsKey) || "{}",
       );
 
       // Check if sender has enough resources
@@ -1326,8 +1327,8 @@ export class HoneycombService {
         delete fromHoldings[resourceId];
       }
 
-      localStorage.setItem(fromHoldingsKey, JSON.stringify(fromHoldings));
-      localStorage.setItem(toHoldingsKey, JSON.stringify(toHoldings));
+      gameStorage.setItem(fromHoldingsKey, JSON.stringify(fromHoldings));
+      gameStorage.setItem(toHoldingsKey, JSON.stringify(toHoldings));
 
       return true;
     } catch (error) {
@@ -1346,7 +1347,7 @@ export class HoneycombService {
     try {
       const playerKey = player.toString();
       const holdingsKey = `resource-holdings-${playerKey}`;
-      const holdings = JSON.parse(localStorage.getItem(holdingsKey) || "{}");
+      const holdings = JSON.parse(gameStorage.getItem(holdingsKey) || "{}");
 
       // Check if player has enough resources
       if ((holdings[resourceId] || 0) < amount) {
@@ -1361,7 +1362,7 @@ export class HoneycombService {
         delete holdings[resourceId];
       }
 
-      localStorage.setItem(holdingsKey, JSON.stringify(holdings));
+      gameStorage.setItem(holdingsKey, JSON.stringify(holdings));
 
       return true;
     } catch (error) {
@@ -1377,7 +1378,7 @@ export class HoneycombService {
     try {
       const playerKey = player.toString();
       const holdingsKey = `resource-holdings-${playerKey}`;
-      const holdings = JSON.parse(localStorage.getItem(holdingsKey) || "{}");
+      const holdings = JSON.parse(gameStorage.getItem(holdingsKey) || "{}");
 
       const holdingsMap = new Map<string, number>();
 
@@ -1466,7 +1467,7 @@ export class HoneycombService {
       ];
 
       // Store predefined missions
-      localStorage.setItem(
+      gameStorage.setItem(
         "predefined-missions",
         JSON.stringify(predefinedMissions),
       );
@@ -1481,7 +1482,7 @@ export class HoneycombService {
 
   getMissionPoolAddress(): string | null {
     try {
-      const stored = localStorage.getItem("mission-pool");
+      const stored = gameStorage.getItem("mission-pool");
 
       if (stored) {
         const missionPool = JSON.parse(stored);
@@ -1496,12 +1497,12 @@ export class HoneycombService {
   }
 
   areMissionsInitialized(): boolean {
-    return localStorage.getItem("predefined-missions") !== null;
+    return gameStorage.getItem("predefined-missions") !== null;
   }
 
   getCreatedMissions(): Map<string, any> {
     try {
-      const stored = localStorage.getItem("predefined-missions");
+      const stored = gameStorage.getItem("predefined-missions");
 
       if (stored) {
         const missions = JSON.parse(stored);
@@ -5,6 +5,7 @@
 
 import type { TraitDefinition } from "@/data/traits";
 import { PREDEFINED_TRAITS, getTraitById, getAvailableTraits } from "@/data/traits";
+import { gameStorage } from "@/services/storageAdapter";
 
 export interface LocalCharacterTrait {
   id: string;
@@ -355,7 +356,7 @@ export class LocalCharacterService {
   createBackup(): void {
     const data = this.loadCharacterData();
     if (data) {
-      localStorage.setItem(this.BACKUP_KEY, JSON.stringify(data));
+      gameStorage.setItem(this.BACKUP_KEY, JSON.stringify(data));
     }
   }
 
@@ -364,7 +365,7 @@ export class LocalCharacterService {
    */
   restoreFromBackup(): LocalCharacterData | null {
     try {
-      const backupData = localStorage.getItem(this.BACKUP_KEY);
+      const backupData = gameStorage.getItem(this.BACKUP_KEY);
       if (backupData) {
         const data = JSON.parse(backupData) as LocalCharacterData;
         this.saveCharacterData(data);
@@ -378,7 +379,7 @@ export class LocalCharacterService {
 
   private loadCharacterData(): LocalCharacterData | null {
     try {
-      const data = localStorage.getItem(this.STORAGE_KEY);
+      const data = gameStorage.getItem(this.STORAGE_KEY);
       return data ? JSON.parse(data) : null;
     } catch (error) {return null;
     }
@@ -386,7 +387,7 @@ export class LocalCharacterService {
 
   private saveCharacterData(data: LocalCharacterData): void {
     try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
+      gameStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
     } catch (error) {}
   }
 
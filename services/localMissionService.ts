@@ -4,7 +4,12 @@
  */
 
 import type { Mission, Resource } from "@/stores/gameStore";
-import { PREDEFINED_MISSIONS, MISSION_REQUIREMENTS } from "@/data/missions";
+import {
+  PREDEFINED_MISSIONS,
+  MISSION_REQUIREMENTS,
+  getAvailableMissions,
+} from "@/data/missions";
+import { gameStorage } from "@/services/storageAdapter";
 
 export interface LocalMissionProgress {
   missionId: string;
@@ -98,6 +103,34 @@ export class LocalMissionService {
     });
   }
 
+  /**
+   * Unlock every locked mission whose level and prerequisite missions are met.
+   * Call when the player levels up or completes a mission
+   */
+  unlockMissions(playerId: string, playerLevel: number = 1): Mission[] {
+    const data = this.loadMissionData();
+    if (!data) return [];
+
+    const unlockable = new Set(
+      getAvailableMissions(playerLevel, data.completedMissions).map((m) => m.id)
+    );
+    const unlocked = data.missions.filter(
+      (m) => m.status === "locked" && unlockable.has(m.id)
+    );
+
+    if (unlocked.length === 0) return [];
+
+    this.saveMissionData({
+      ...data,
+      missions: data.missions.map((m) =>
+        unlocked.includes(m) ? { ...m, status: "available" as const } : m
+      ),
+      lastSyncTimestamp: new Date().toISOString(),
+    });
+
+    return unlocked.map((m) => ({ ...m, status: "available" }));
+  }
+
   /**
    * Start a mission
    */
@@ -257,7 +290,7 @@ export class LocalMissionService {
   createBackup(): void {
     const data = this.loadMissionData();
     if (data) {
-      localStorage.setItem(this.BACKUP_KEY, JSON.stringify(data));
+      gameStorage.setItem(this.BACKUP_KEY, JSON.stringify(data));
     }
   }
 
@@ -266,7 +299,7 @@ export class LocalMissionService {
    */
   restoreFromBackup(): LocalMissionData | null {
     try {
-      const backupData = localStorage.getItem(this.BACKUP_KEY);
+      const backupData = gameStorage.getItem(this.BACKUP_KEY);
       if (backupData) {
         const data = JSON.parse(backupData) as LocalMissionData;
         this.saveMissionData(data);
@@ -280,7 +313,7 @@ export class LocalMissionService {
 
   private loadMissionData(): LocalMissionData | null {
     try {
-      const data = localStorage.getItem(this.STORAGE_KEY);
+      const data = gameStorage.getItem(this.STORAGE_KEY);
       return data ? JSON.parse(data) : null;
     } catch (error) {return null;
     }
@@ -288,7 +321,7 @@ export class LocalMissionService {
 
   private saveMissionData(data: LocalMissionData): void {
     try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
+      gameStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
     } catch (error) {}
   }
 
@@ -0,0 +1,52 @@
+/**
+ * RNG Service
+ * Named, seedable random streams shared by all game systems
+ */
+
+import { RandomStream, hashSeed } from "@/utils/random";
+
+export class RngService {
+  private seed: number;
+  private streams: Map<string, RandomStream> = new Map();
+
+  constructor(seed: number = Math.floor(Math.random() * 0x100000000)) {
+    this.seed = seed >>> 0;
+  }
+
+  /**
+   * Get the session seed
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Reseed the session. Every stream restarts from a state derived from
+   * the new seed and its name, so the same seed replays the same rolls
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+
+    this.streams.forEach((stream, name) => {
+      stream.reseed(hashSeed(this.seed, name));
+    });
+  }
+
+  /**
+   * Get a named stream, creating it on first use. Systems keep their own
+   * stream so one system's rolls never shift another's
+   */
+  stream(name: string): RandomStream {
+    let stream = this.streams.get(name);
+
+    if (!stream) {
+      stream = new RandomStream(hashSeed(this.seed, name));
+      this.streams.set(name, stream);
+    }
+
+    return stream;
+  }
+}
+
+// Export singleton instance
+export const rngService = new RngService();
@@ -0,0 +1,183 @@
+/**
+ * Save Migration Service
+ * Stamps persisted game data with a schema version and upgrades old saves
+ */
+
+import {
+  SAVE_MANIFEST_KEY,
+  SAVE_MIGRATIONS,
+  isSaveKey,
+  type SaveMigration,
+} from "./saveMigrations";
+import { gameStorage, type StorageAdapter } from "./storageAdapter";
+
+export const SAVE_BACKUP_KEY = "g-bax-save-backup";
+
+export interface SaveManifest {
+  version: number;
+  updatedAt: string;
+  appliedMigrations: number[];
+}
+
+export interface SaveMigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  error?: string;
+}
+
+export class SaveMigrationService {
+  private migrations: SaveMigration[];
+  private storage: StorageAdapter;
+
+  constructor(
+    migrations: SaveMigration[] = SAVE_MIGRATIONS,
+    storage: StorageAdapter = gameStorage,
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.storage = storage;
+  }
+
+  /**
+   * Save version written by this build of the game
+   */
+  getCurrentVersion(): number {
+    return this.migrations.length > 0
+      ? this.migrations[this.migrations.length - 1].version
+      : 0;
+  }
+
+  /**
+   * Read the save manifest. Saves from before versioning have none
+   */
+  getManifest(): SaveManifest | null {
+    try {
+      const data = this.storage.getItem(SAVE_MANIFEST_KEY);
+
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * List the persisted game keys currently in storage
+   */
+  getSaveKeys(): string[] {
+    return this.storage
+      .keys()
+      .filter((key) => key !== SAVE_MANIFEST_KEY && isSaveKey(key));
+  }
+
+  /**
+   * Run every migration newer than the saved version, in order. All game
+   * keys are backed up first and restored if any migration fails, so a
+   * broken upgrade leaves the old save intact for the next attempt
+   */
+  migrate(): SaveMigrationResult {
+    const storage = this.storage;
+    const currentVersion = this.getCurrentVersion();
+    const manifest = this.getManifest();
+    const saveKeys = this.getSaveKeys();
+
+    // Fresh install - nothing to upgrade, start at the current version
+    if (!manifest && saveKeys.length === 0) {
+      this.writeManifest(storage, currentVersion, []);
+
+      return {
+        fromVersion: currentVersion,
+        toVersion: currentVersion,
+        applied: [],
+      };
+    }
+
+    const fromVersion = manifest?.version ?? 0;
+    const pending = this.migrations.filter(
+      (migration) => migration.version > fromVersion,
+    );
+
+    if (pending.length === 0) {
+      return { fromVersion, toVersion: fromVersion, applied: [] };
+    }
+
+    const backup = this.createBackup(storage, saveKeys);
+    const applied: number[] = [];
+
+    for (const migration of pending) {
+      try {
+        migration.migrate(storage);
+        applied.push(migration.version);
+      } catch (error) {
+        this.restoreBackup(storage, backup);
+
+        return {
+          fromVersion,
+          toVersion: fromVersion,
+          applied: [],
+          error: `Save migration ${migration.version} (${migration.description}) failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        };
+      }
+    }
+
+    this.writeManifest(storage, currentVersion, [
+      ...(manifest?.appliedMigrations || []),
+      ...applied,
+    ]);
+
+    return { fromVersion, toVersion: currentVersion, applied };
+  }
+
+  // Private methods
+
+  private writeManifest(
+    storage: StorageAdapter,
+    version: number,
+    appliedMigrations: number[],
+  ): void {
+    const manifest: SaveManifest = {
+      version,
+      updatedAt: new Date().toISOString(),
+      appliedMigrations,
+    };
+
+    storage.setItem(SAVE_MANIFEST_KEY, JSON.stringify(manifest));
+  }
+
+  private createBackup(
+    storage: StorageAdapter,
+    keys: string[],
+  ): Record<string, string> {
+    const backup: Record<string, string> = {};
+
+    keys.forEach((key) => {
+      const value = storage.getItem(key);
+
+      if (value !== null) backup[key] = value;
+    });
+
+    try {
+      storage.setItem(SAVE_BACKUP_KEY, JSON.stringify(backup));
+    } catch (error) {}
+
+    return backup;
+  }
+
+  private restoreBackup(
+    storage: StorageAdapter,
+    backup: Record<string, string>,
+  ): void {
+    // Drop keys a failed migration may have added, then put the originals back
+    this.getSaveKeys()
+      .filter((key) => !(key in backup))
+      .forEach((key) => storage.removeItem(key));
+
+    Object.entries(backup).forEach(([key, value]) => {
+      storage.setItem(key, value);
+    });
+  }
+}
+
+// Export singleton instance
+export const saveMigrationService = new SaveMigrationService();
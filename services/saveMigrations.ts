@@ -0,0 +1,276 @@
+/**
+ * Save Migrations
+ * Persisted key catalogue, helpers for rewriting saved data and the ordered
+ * registry of save migrations. Add a migration here whenever the shape of
+ * anything the game persists changes
+ */
+
+import type { CreditsLedgerEntry } from "@/stores/creditsLedgerStore";
+import type { Resource } from "@/stores/gameStore";
+import type { StorageAdapter } from "./storageAdapter";
+
+import { stackResources } from "@/utils/gameHelpers";
+
+export interface SaveMigration {
+  version: number; // Save version after this migration has run
+  description: string;
+  migrate: (storage: StorageAdapter) => void;
+}
+
+export const SAVE_MANIFEST_KEY = "g-bax-save-manifest";
+
+// Every key the game persists. Prefixed keys are stored once per player
+export const SAVE_KEYS = [
+  SAVE_MANIFEST_KEY,
+  "g-bax-game-storage",
+  "g-bax-game-progress",
+  "g-bax-systems-state",
+  "g-bax-equipment",
+  "g-bax-blueprints",
+  "g-bax-warehouses",
+  "g-bax-credits-ledger",
+  "g-bax-missions",
+  "g-bax-missions-backup",
+  "g-bax-characters",
+  "g-bax-characters-backup",
+  "g-bax-guilds",
+  "g-bax-game-settings",
+  "g-bax-verxio-storage",
+  "g-bax-loyalty-metadata",
+  "g_bax_loyalty_program_id",
+  "verxio_guilds",
+  "local-mission-store",
+  "predefined-missions",
+  "mission-pool",
+  "local-character-store",
+  "item-effects-storage",
+];
+
+export const SAVE_KEY_PREFIXES = [
+  "g-bax-game-progress-",
+  "g-bax-progress-",
+  "g-bax-sync-",
+  "verxio_loyalty_",
+  "verxio_pass_",
+  "verxio_guild_member_",
+  "resource-holdings-",
+  "achievements-",
+  "guild-info-",
+  "activity-",
+  "honeycomb-profile-",
+  "character-",
+  "wallet_setup_",
+];
+
+/**
+ * Check whether a storage key holds persisted game data
+ */
+export function isSaveKey(key: string): boolean {
+  return (
+    SAVE_KEYS.includes(key) ||
+    SAVE_KEY_PREFIXES.some((prefix) => key.startsWith(prefix))
+  );
+}
+
+/**
+ * List every key in a browser storage area
+ */
+export function getStorageKeys(storage: Storage): string[] {
+  const keys: string[] = [];
+
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+
+    if (key !== null) keys.push(key);
+  }
+
+  return keys;
+}
+
+/**
+ * Rewrite a JSON value in place. Missing keys and values that aren't JSON
+ * (plain counters, flags) are left alone
+ */
+export function updateJsonItem(
+  storage: StorageAdapter,
+  key: string,
+  update: (value: unknown) => unknown,
+): void {
+  const data = storage.getItem(key);
+
+  if (data === null) return;
+
+  let value: unknown;
+
+  try {
+    value = JSON.parse(data);
+  } catch (error) {
+    return;
+  }
+
+  storage.setItem(key, JSON.stringify(update(value)));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Saved resources are recognised by shape, wherever they are nested
+function isSavedResource(value: unknown): value is Resource {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.rarity === "string" &&
+    typeof value.quantity === "number"
+  );
+}
+
+function mapResourcesDeep(
+  value: unknown,
+  transform: (resource: Resource) => unknown,
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => mapResourcesDeep(item, transform));
+  }
+
+  if (isSavedResource(value)) return transform(value);
+
+  if (!isRecord(value)) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [
+      key,
+      mapResourcesDeep(child, transform),
+    ]),
+  );
+}
+
+/**
+ * Rewrite every saved resource in every persisted key - inventories,
+ * mission rewards, in-flight operations and backups alike. Use this for
+ * changes to the Resource shape, e.g. renaming a field
+ */
+export function mapSavedResources(
+  storage: StorageAdapter,
+  transform: (resource: Resource) => unknown,
+): void {
+  storage
+    .keys()
+    .filter(isSaveKey)
+    .forEach((key) =>
+      updateJsonItem(storage, key, (value) =>
+        mapResourcesDeep(value, transform),
+      ),
+    );
+}
+
+function mapInventoriesDeep(
+  value: unknown,
+  transform: (inventory: unknown[]) => unknown[],
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => mapInventoriesDeep(item, transform));
+  }
+
+  if (!isRecord(value)) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [
+      key,
+      key === "inventory" && Array.isArray(child)
+        ? transform(child)
+        : mapInventoriesDeep(child, transform),
+    ]),
+  );
+}
+
+/**
+ * Rewrite every saved inventory as a whole - the live store, progress
+ * snapshots and per-wallet backups. Use this when a change needs to see all
+ * of an inventory at once, e.g. merging entries
+ */
+export function mapSavedInventories(
+  storage: StorageAdapter,
+  transform: (inventory: unknown[]) => unknown[],
+): void {
+  storage
+    .keys()
+    .filter(isSaveKey)
+    .forEach((key) =>
+      updateJsonItem(storage, key, (value) =>
+        mapInventoriesDeep(value, transform),
+      ),
+    );
+}
+
+// Players saved before the credits ledger get one, opened with the credits
+// they hold, so every credit from then on is accounted for
+function openSavedCreditsLedger(storage: StorageAdapter): void {
+  let gameSave: unknown;
+  let ledgerSave: unknown;
+
+  try {
+    gameSave = JSON.parse(storage.getItem("g-bax-game-storage") ?? "null");
+    ledgerSave = JSON.parse(storage.getItem("g-bax-credits-ledger") ?? "null");
+  } catch (error) {
+    return;
+  }
+
+  const player =
+    isRecord(gameSave) && isRecord(gameSave.state)
+      ? gameSave.state.player
+      : null;
+
+  if (
+    !isRecord(player) ||
+    typeof player.id !== "string" ||
+    typeof player.credits !== "number"
+  ) {
+    return;
+  }
+
+  const save = isRecord(ledgerSave) ? ledgerSave : { version: 0 };
+  const state = isRecord(save.state) ? save.state : {};
+  const ledgers = isRecord(state.ledgers) ? state.ledgers : {};
+  const ledger = ledgers[player.id];
+
+  if (Array.isArray(ledger) && ledger.length > 0) return;
+
+  const opening: CreditsLedgerEntry = {
+    id: "txn_1",
+    type: "opening_balance",
+    amount: player.credits,
+    balanceAfter: player.credits,
+    description: "Opening balance",
+    timestamp: Date.now(),
+  };
+
+  storage.setItem(
+    "g-bax-credits-ledger",
+    JSON.stringify({
+      ...save,
+      state: { ...state, ledgers: { ...ledgers, [player.id]: [opening] } },
+    }),
+  );
+}
+
+// Ordered by version. Never edit a migration that has shipped - add a new one
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    version: 1,
+    description: "Stamp saves written before versioning",
+    migrate: () => {},
+  },
+  {
+    version: 2,
+    description: "Merge inventory rows into type and rarity stacks",
+    migrate: (storage) =>
+      mapSavedInventories(storage, (inventory) =>
+        stackResources(inventory.filter(isSavedResource)),
+      ),
+  },
+  {
+    version: 3,
+    description: "Open a credits ledger for the saved player",
+    migrate: openSavedCreditsLedger,
+  },
+];
@@ -0,0 +1,350 @@
+/**
+ * Storage Adapter
+ * Pluggable key-value storage behind every saved piece of game data.
+ *
+ * Reads are synchronous so services keep their existing APIs. Backends that
+ * are asynchronous underneath (IndexedDB) load everything into memory once in
+ * ready() and write through in the background
+ */
+
+import { isSaveKey, getStorageKeys } from "./saveMigrations";
+
+export interface StorageAdapter {
+  readonly name: string;
+  readonly length: number;
+
+  ready(): Promise<void>; // Resolves once reads return saved data
+  flush(): Promise<void>; // Resolves once every write so far is stored
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  key(index: number): string | null;
+  keys(): string[];
+  clear(): void;
+}
+
+// Map-backed storage shared by the memory and IndexedDB adapters
+abstract class CachedStorageAdapter implements StorageAdapter {
+  abstract readonly name: string;
+  protected cache: Map<string, string> = new Map();
+
+  get length(): number {
+    return this.cache.size;
+  }
+
+  abstract ready(): Promise<void>;
+  abstract flush(): Promise<void>;
+
+  getItem(key: string): string | null {
+    return this.cache.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.cache.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.cache.delete(key);
+  }
+
+  key(index: number): string | null {
+    return this.keys()[index] ?? null;
+  }
+
+  keys(): string[] {
+    return Array.from(this.cache.keys());
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+}
+
+/**
+ * In-memory storage for tests and headless runs. Nothing survives the process
+ */
+export class MemoryStorageAdapter extends CachedStorageAdapter {
+  readonly name = "memory";
+
+  constructor(initialData: Record<string, string> = {}) {
+    super();
+    Object.entries(initialData).forEach(([key, value]) => {
+      this.cache.set(key, value);
+    });
+  }
+
+  async ready(): Promise<void> {}
+
+  async flush(): Promise<void> {}
+}
+
+/**
+ * Browser localStorage. Synchronous and limited to about 5MB per origin
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = "localStorage";
+  private customStorage: Storage | null;
+
+  constructor(storage: Storage | null = null) {
+    this.customStorage = storage;
+  }
+
+  // Looked up on every call so a replaced window.localStorage is picked up
+  private get storage(): Storage {
+    return this.customStorage ?? window.localStorage;
+  }
+
+  get length(): number {
+    return this.storage.length;
+  }
+
+  async ready(): Promise<void> {}
+
+  async flush(): Promise<void> {}
+
+  getItem(key: string): string | null {
+    return this.storage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+
+  key(index: number): string | null {
+    return this.storage.key(index);
+  }
+
+  keys(): string[] {
+    return getStorageKeys(this.storage);
+  }
+
+  clear(): void {
+    this.storage.clear();
+  }
+}
+
+/**
+ * IndexedDB storage. Saves from localStorage are moved over on first load.
+ * If IndexedDB can't be opened, writes go to localStorage instead
+ */
+export class IndexedDBStorageAdapter extends CachedStorageAdapter {
+  readonly name = "indexedDB";
+  private databaseName: string;
+  private storeName: string;
+  private legacyStorage: Storage | null;
+  private database: IDBDatabase | null = null;
+  private loading: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    databaseName: string = "g-bax",
+    storeName: string = "saves",
+    legacyStorage: Storage | null = getLocalStorage(),
+  ) {
+    super();
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+    this.legacyStorage = legacyStorage;
+  }
+
+  ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+
+    return this.loading;
+  }
+
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  setItem(key: string, value: string): void {
+    super.setItem(key, value);
+    this.write(
+      (store) => store.put(String(value), key),
+      () => this.legacyStorage?.setItem(key, value),
+    );
+  }
+
+  removeItem(key: string): void {
+    super.removeItem(key);
+    this.write(
+      (store) => store.delete(key),
+      () => this.legacyStorage?.removeItem(key),
+    );
+  }
+
+  clear(): void {
+    const keys = this.keys();
+
+    super.clear();
+    this.write(
+      (store) => store.clear(),
+      () => keys.forEach((key) => this.legacyStorage?.removeItem(key)),
+    );
+  }
+
+  // Private methods
+
+  private async load(): Promise<void> {
+    try {
+      this.database = await this.openDatabase();
+
+      const entries = await this.readAll();
+
+      if (entries.length === 0) {
+        await this.importLegacyData();
+      } else {
+        // Anything written while loading is newer than what was stored
+        entries.forEach(([key, value]) => {
+          if (!this.cache.has(key)) this.cache.set(key, value);
+        });
+      }
+    } catch (error) {
+      console.warn("IndexedDB unavailable, saving to localStorage:", error);
+      this.database = null;
+      this.readLegacyData().forEach(([key, value]) => {
+        if (!this.cache.has(key)) this.cache.set(key, value);
+      });
+    }
+  }
+
+  // Move existing saves out of localStorage so they stop counting toward its
+  // quota. The localStorage copy is only removed once IndexedDB has it
+  private importLegacyData(): Promise<void> {
+    const entries = this.readLegacyData();
+
+    if (entries.length === 0) return Promise.resolve();
+
+    entries.forEach(([key, value]) => {
+      if (!this.cache.has(key)) this.cache.set(key, value);
+    });
+
+    return new Promise((resolve) => {
+      const transaction = this.database!.transaction(
+        this.storeName,
+        "readwrite",
+      );
+      const store = transaction.objectStore(this.storeName);
+
+      entries.forEach(([key, value]) => store.put(value, key));
+
+      transaction.oncomplete = () => {
+        entries.forEach(([key]) => this.legacyStorage?.removeItem(key));
+        resolve();
+      };
+      // Keep the localStorage copy and import again on the next load
+      transaction.onerror = () => resolve();
+      transaction.onabort = () => resolve();
+    });
+  }
+
+  private readLegacyData(): [string, string][] {
+    if (!this.legacyStorage) return [];
+
+    const storage = this.legacyStorage;
+
+    return getStorageKeys(storage)
+      .filter(isSaveKey)
+      .map((key): [string, string] => [key, storage.getItem(key) ?? ""]);
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName, 1);
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.storeName);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private readAll(): Promise<[string, string][]> {
+    return new Promise((resolve, reject) => {
+      const entries: [string, string][] = [];
+      const request = this.database!.transaction(this.storeName, "readonly")
+        .objectStore(this.storeName)
+        .openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+
+        if (!cursor) {
+          resolve(entries);
+
+          return;
+        }
+
+        entries.push([String(cursor.key), cursor.value]);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Queue a write behind loading and earlier writes so they land in order
+  private write(
+    operation: (store: IDBObjectStore) => IDBRequest,
+    fallback: () => void,
+  ): void {
+    this.writes = this.writes
+      .then(() => this.ready())
+      .then(
+        () =>
+          new Promise<void>((resolve) => {
+            if (!this.database) {
+              try {
+                fallback();
+              } catch (error) {}
+              resolve();
+
+              return;
+            }
+
+            const transaction = this.database.transaction(
+              this.storeName,
+              "readwrite",
+            );
+
+            operation(transaction.objectStore(this.storeName));
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => resolve();
+            transaction.onabort = () => resolve();
+          }),
+      );
+  }
+}
+
+function getLocalStorage(): Storage | null {
+  try {
+    return typeof window !== "undefined" ? window.localStorage : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Pick the best backend available: IndexedDB in browsers that have it,
+ * then localStorage, then memory (Node scripts, server rendering)
+ */
+export function createStorageAdapter(): StorageAdapter {
+  if (typeof indexedDB !== "undefined") {
+    return new IndexedDBStorageAdapter();
+  }
+
+  if (getLocalStorage()) {
+    return new LocalStorageAdapter();
+  }
+
+  return new MemoryStorageAdapter();
+}
+
+// Export singleton instance
+export const gameStorage = createStorageAdapter();
@@ -15,6 +15,7 @@ import {
   generateSigner,
   createSignerFromKeypair,
 } from "@metaplex-foundation/umi";
+import { gameStorage } from "@/services/storageAdapter";
 
 export interface VerxioConfig {
   apiKey?: string; // Optional - Verxio doesn't require API key
@@ -346,7 +347,7 @@ export class VerxioService {
 
     try {
       // Check if we have a stored loyalty program ID
-      const storedProgramId = localStorage.getItem("g_bax_loyalty_program_id");
+      const storedProgramId = gameStorage.getItem("g_bax_loyalty_program_id");
 
       if (storedProgramId) {
         this.loyaltyProgramId = storedProgramId;
@@ -359,7 +360,7 @@ export class VerxioService {
         } catch {
           // Program doesn't exist, create a new one
           console.log("Stored loyalty program not found, creating new one");
-          localStorage.removeItem("g_bax_loyalty_program_id");
+          gameStorage.removeItem("g_bax_loyalty_program_id");
         }
       }
 
@@ -566,7 +567,7 @@ export class VerxioService {
 
       console.log("Loyalty program created successfully:", result);
       this.loyaltyProgramId = result.collection.publicKey.toString();
-      localStorage.setItem("g_bax_loyalty_program_id", this.loyaltyProgramId);
+      gameStorage.setItem("g_bax_loyalty_program_id", this.loyaltyProgramId);
 
       // Save the collection signer for future use (as mentioned in docs)
       if (result.collection) {
@@ -622,7 +623,7 @@ export class VerxioService {
     const metadataString = JSON.stringify(metadata, null, 2);
 
     // Store in localStorage for retrieval
-    localStorage.setItem("g-bax-loyalty-metadata", metadataString);
+    gameStorage.setItem("g-bax-loyalty-metadata", metadataString);
 
     // Return a proper HTTPS URL that points to GitHub raw content
     // This serves as a fallback metadata URL that Verxio will accept
@@ -661,7 +662,7 @@ export class VerxioService {
               };
 
               // Cache in localStorage for faster access
-              localStorage.setItem(
+              gameStorage.setItem(
                 `verxio_loyalty_${playerId}`,
                 JSON.stringify(loyalty),
               );
@@ -675,7 +676,7 @@ export class VerxioService {
       }
 
       // Fall back to localStorage
-      const savedLoyalty = localStorage.getItem(`verxio_loyalty_${playerId}`);
+      const savedLoyalty = gameStorage.getItem(`verxio_loyalty_${playerId}`);
 
       if (savedLoyalty) {
         const loyalty = JSON.parse(savedLoyalty);
@@ -697,7 +698,7 @@ export class VerxioService {
         lastActivity: new Date(),
       };
 
-      localStorage.setItem(
+      gameStorage.setItem(
         `verxio_loyalty_${playerId}`,
         JSON.stringify(newLoyalty),
       );
@@ -718,7 +719,7 @@ export class VerxioService {
       // In a real implementation, you would query the blockchain for the player's loyalty pass
       // For now, we'll check localStorage for a cached pass address
       const playerId = playerPublicKey.toString();
-      const cachedPassAddress = localStorage.getItem(`verxio_pass_${playerId}`);
+      const cachedPassAddress = gameStorage.getItem(`verxio_pass_${playerId}`);
 
       if (cachedPassAddress) {
         return new PublicKey(cachedPassAddress);
@@ -768,7 +769,7 @@ export class VerxioService {
                 loyalty.lastActivity = new Date();
                 loyalty.currentTier = this.getTierByPoints(result.points);
 
-                localStorage.setItem(
+                gameStorage.setItem(
                   `verxio_loyalty_${playerId}`,
                   JSON.stringify(loyalty),
                 );
@@ -789,7 +790,7 @@ export class VerxioService {
       }
 
       // Fall back to localStorage
-      const savedLoyalty = localStorage.getItem(`verxio_loyalty_${playerId}`);
+      const savedLoyalty = gameStorage.getItem(`verxio_loyalty_${playerId}`);
 
       if (!savedLoyalty) return false;
 
@@ -800,7 +801,7 @@ export class VerxioService {
       loyalty.lastActivity = new Date();
       loyalty.currentTier = this.getTierByPoints(loyalty.points);
 
-      localStorage.setItem(
+      gameStorage.setItem(
         `verxio_loyalty_${playerId}`,
         JSON.stringify(loyalty),
       );
@@ -855,7 +856,7 @@ export class VerxioService {
         // Cache the pass address
         const playerId = playerPublicKey.toString();
 
-        localStorage.setItem(
+        gameStorage.setItem(
           `verxio_pass_${playerId}`,
           result.asset.publicKey.toString(),
         );
@@ -875,7 +876,7 @@ export class VerxioService {
   async getAvailableGuilds(): Promise<Guild[]> {
     try {
       // Load guilds from localStorage or return empty array for new installations
-      const savedGuilds = localStorage.getItem("verxio_guilds");
+      const savedGuilds = gameStorage.getItem("verxio_guilds");
 
       if (savedGuilds) {
         const guilds = JSON.parse(savedGuilds);
@@ -893,7 +894,7 @@ export class VerxioService {
         );
 
         // Save the synced guild data back to localStorage
-        localStorage.setItem("verxio_guilds", JSON.stringify(syncedGuilds));
+        gameStorage.setItem("verxio_guilds", JSON.stringify(syncedGuilds));
 
         return syncedGuilds;
       }
@@ -966,7 +967,7 @@ export class VerxioService {
       ];
 
       // Save initial guilds to localStorage
-      localStorage.setItem("verxio_guilds", JSON.stringify(initialGuilds));
+      gameStorage.setItem("verxio_guilds", JSON.stringify(initialGuilds));
 
       return initialGuilds;
     } catch (error) {
@@ -983,7 +984,7 @@ export class VerxioService {
     const failedRequirements: string[] = [];
 
     // Get player loyalty data
-    const savedLoyalty = localStorage.getItem(`verxio_loyalty_${playerId}`);
+    const savedLoyalty = gameStorage.getItem(`verxio_loyalty_${playerId}`);
 
     if (!savedLoyalty) {
       failedRequirements.push("Player loyalty data not found");
@@ -1036,7 +1037,7 @@ export class VerxioService {
       const playerId = playerPublicKey.toString();
 
       // Check if player is already in a guild
-      const existingMembership = localStorage.getItem(
+      const existingMembership = gameStorage.getItem(
         `verxio_guild_member_${playerId}`,
       );
 
@@ -1049,7 +1050,7 @@ export class VerxioService {
       }
 
       // Load current guilds
-      const savedGuilds = localStorage.getItem("verxio_guilds");
+      const savedGuilds = gameStorage.getItem("verxio_guilds");
 
       if (!savedGuilds) {
         return { success: false, error: "No guilds available" };
@@ -1089,7 +1090,7 @@ export class VerxioService {
       guilds[guildIndex].totalReputation += 10;
 
       // Save updated guilds
-      localStorage.setItem("verxio_guilds", JSON.stringify(guilds));
+      gameStorage.setItem("verxio_guilds", JSON.stringify(guilds));
 
       // Save guild membership for the player
       const playerGuildData = {
@@ -1101,20 +1102,20 @@ export class VerxioService {
         lastActive: new Date(), // Track activity
       };
 
-      localStorage.setItem(
+      gameStorage.setItem(
         `verxio_guild_member_${playerId}`,
         JSON.stringify(playerGuildData),
       );
 
       // Update player loyalty with guild info
-      const savedLoyalty = localStorage.getItem(`verxio_loyalty_${playerId}`);
+      const savedLoyalty = gameStorage.getItem(`verxio_loyalty_${playerId}`);
 
       if (savedLoyalty) {
         const loyalty = JSON.parse(savedLoyalty);
 
         loyalty.guildId = guildId;
         loyalty.guildRank = memberRank;
-        localStorage.setItem(
+        gameStorage.setItem(
           `verxio_loyalty_${playerId}`,
           JSON.stringify(loyalty),
         );
@@ -1134,7 +1135,7 @@ export class VerxioService {
       const playerId = playerPublicKey.toString();
 
       // Check if player is in a guild
-      const existingMembership = localStorage.getItem(
+      const existingMembership = gameStorage.getItem(
         `verxio_guild_member_${playerId}`,
       );
 
@@ -1146,7 +1147,7 @@ export class VerxioService {
       const guildId = membershipData.guildId;
 
       // Load current guilds and update member count
-      const savedGuilds = localStorage.getItem("verxio_guilds");
+      const savedGuilds = gameStorage.getItem("verxio_guilds");
 
       if (savedGuilds) {
         const guilds = JSON.parse(savedGuilds);
@@ -1167,22 +1168,22 @@ export class VerxioService {
             guilds[guildIndex].totalReputation - 5,
           );
 
-          localStorage.setItem("verxio_guilds", JSON.stringify(guilds));
+          gameStorage.setItem("verxio_guilds", JSON.stringify(guilds));
         }
       }
 
       // Remove player guild membership
-      localStorage.removeItem(`verxio_guild_member_${playerId}`);
+      gameStorage.removeItem(`verxio_guild_member_${playerId}`);
 
       // Update player loyalty to remove guild info
-      const savedLoyalty = localStorage.getItem(`verxio_loyalty_${playerId}`);
+      const savedLoyalty = gameStorage.getItem(`verxio_loyalty_${playerId}`);
 
       if (savedLoyalty) {
         const loyalty = JSON.parse(savedLoyalty);
 
         delete loyalty.guildId;
         delete loyalty.guildRank;
-        localStorage.setItem(
+        gameStorage.setItem(
           `verxio_loyalty_${playerId}`,
           JSON.stringify(loyalty),
         );
@@ -1200,11 +1201,11 @@ export class VerxioService {
       const members: GuildMember[] = [];
 
       // Scan localStorage for all guild members of this guild
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
+      for (let i = 0; i < gameStorage.length; i++) {
+        const key = gameStorage.key(i);
 
         if (key && key.startsWith("verxio_guild_member_")) {
-          const memberData = localStorage.getItem(key);
+          const memberData = gameStorage.getItem(key);
 
           if (memberData) {
             const member = JSON.parse(memberData);
@@ -1212,7 +1213,7 @@ export class VerxioService {
             if (member.guildId === guildId) {
               // Get player name from their loyalty data
               const playerId = member.playerId;
-              const playerLoyalty = localStorage.getItem(
+              const playerLoyalty = gameStorage.getItem(
                 `verxio_loyalty_${playerId}`,
               );
               let playerName = `Explorer ${playerId.slice(0, 6)}`;
@@ -1251,7 +1252,7 @@ export class VerxioService {
   ): Promise<boolean> {
     try {
       const playerId = playerPublicKey.toString();
-      const savedLoyalty = localStorage.getItem(`verxio_loyalty_${playerId}`);
+      const savedLoyalty = gameStorage.getItem(`verxio_loyalty_${playerId}`);
 
       if (!savedLoyalty) {
         return false;
@@ -1264,7 +1265,7 @@ export class VerxioService {
       loyalty.lastActivity = new Date();
 
       // Save updated loyalty data
-      localStorage.setItem(
+      gameStorage.setItem(
         `verxio_loyalty_${playerId}`,
         JSON.stringify(loyalty),
       );
@@ -1329,7 +1330,7 @@ export class VerxioService {
   // Utility function to sync all guild member counts with actual membership data
   async syncAllGuildMemberCounts(): Promise<void> {
     try {
-      const savedGuilds = localStorage.getItem("verxio_guilds");
+      const savedGuilds = gameStorage.getItem("verxio_guilds");
 
       if (!savedGuilds) return;
 
@@ -1349,7 +1350,7 @@ export class VerxioService {
       }
 
       if (hasChanges) {
-        localStorage.setItem("verxio_guilds", JSON.stringify(guilds));
+        gameStorage.setItem("verxio_guilds", JSON.stringify(guilds));
       }
     } catch (error) {
       console.error("Failed to sync guild member counts:", error);
@@ -1451,24 +1452,24 @@ export class VerxioService {
     try {
       // Update guild membership data
       const membershipKey = `verxio_guild_member_${playerId}`;
-      const membershipData = localStorage.getItem(membershipKey);
+      const membershipData = gameStorage.getItem(membershipKey);
 
       if (membershipData) {
         const membership = JSON.parse(membershipData);
 
         membership.rank = newRank;
-        localStorage.setItem(membershipKey, JSON.stringify(membership));
+        gameStorage.setItem(membershipKey, JSON.stringify(membership));
       }
 
       // Update player loyalty data
       const loyaltyKey = `verxio_loyalty_${playerId}`;
-      const loyaltyData = localStorage.getItem(loyaltyKey);
+      const loyaltyData = gameStorage.getItem(loyaltyKey);
 
       if (loyaltyData) {
         const loyalty = JSON.parse(loyaltyData);
 
         loyalty.guildRank = newRank;
-        localStorage.setItem(loyaltyKey, JSON.stringify(loyalty));
+        gameStorage.setItem(loyaltyKey, JSON.stringify(loyalty));
       }
     } catch (error) {
       console.error("Failed to update member rank:", error);
@@ -1486,7 +1487,7 @@ export class VerxioService {
       const playerId = playerPublicKey.toString();
 
       // Update guild total reputation
-      const savedGuilds = localStorage.getItem("verxio_guilds");
+      const savedGuilds = gameStorage.getItem("verxio_guilds");
 
       if (savedGuilds) {
         const guilds = JSON.parse(savedGuilds);
@@ -1503,12 +1504,12 @@ export class VerxioService {
             guilds[guildIndex].level = newLevel;
           }
 
-          localStorage.setItem("verxio_guilds", JSON.stringify(guilds));
+          gameStorage.setItem("verxio_guilds", JSON.stringify(guilds));
         }
       }
 
       // Update player's guild contribution and activity
-      const memberData = localStorage.getItem(
+      const memberData = gameStorage.getItem(
         `verxio_guild_member_${playerId}`,
       );
 
@@ -1517,7 +1518,7 @@ export class VerxioService {
 
         member.contribution += contribution;
         member.lastActive = new Date(); // Update activity timestamp
-        localStorage.setItem(
+        gameStorage.setItem(
           `verxio_guild_member_${playerId}`,
           JSON.stringify(member),
         );
@@ -1538,7 +1539,7 @@ export class VerxioService {
       const playerId = playerPublicKey.toString();
 
       // Update guild membership activity
-      const membershipData = localStorage.getItem(
+      const membershipData = gameStorage.getItem(
         `verxio_guild_member_${playerId}`,
       );
 
@@ -1546,7 +1547,7 @@ export class VerxioService {
         const membership = JSON.parse(membershipData);
 
         membership.lastActive = new Date();
-        localStorage.setItem(
+        gameStorage.setItem(
           `verxio_guild_member_${playerId}`,
           JSON.stringify(membership),
         );
@@ -0,0 +1,60 @@
+import { create } from "zustand";
+import { createJSONStorage, devtools, persist } from "zustand/middleware";
+
+import { STARTER_BLUEPRINTS } from "@/data/blueprints";
+import { gameStorage } from "@/services/storageAdapter";
+
+export interface BlueprintState {
+  // Recipe ids each player has learned, keyed by player id so they survive
+  // switching wallets. Starter blueprints are known without being stored
+  knownBlueprints: Record<string, string[]>;
+
+  // Actions
+  learnBlueprint: (playerId: string, recipeId: string) => boolean; // False if already known
+  hasBlueprint: (playerId: string, recipeId: string) => boolean;
+  getKnownBlueprints: (playerId: string) => string[];
+  reset: () => void;
+}
+
+export const useBlueprintStore = create<BlueprintState>()(
+  devtools(
+    persist<BlueprintState>(
+      (set, get) => ({
+        knownBlueprints: {},
+
+        learnBlueprint: (playerId, recipeId) => {
+          if (get().hasBlueprint(playerId, recipeId)) return false;
+
+          set((state) => ({
+            knownBlueprints: {
+              ...state.knownBlueprints,
+              [playerId]: [
+                ...(state.knownBlueprints[playerId] || []),
+                recipeId,
+              ],
+            },
+          }));
+
+          return true;
+        },
+
+        hasBlueprint: (playerId, recipeId) =>
+          get().getKnownBlueprints(playerId).includes(recipeId),
+
+        getKnownBlueprints: (playerId) => [
+          ...STARTER_BLUEPRINTS,
+          ...(get().knownBlueprints[playerId] || []),
+        ],
+
+        reset: () => set({ knownBlueprints: {} }),
+      }),
+      {
+        name: "g-bax-blueprints",
+        // Hydrated by StorageProvider once the storage backend has loaded
+        storage: createJSONStorage(() => gameStorage),
+        skipHydration: true,
+      },
+    ),
+    { name: "BlueprintStore" },
+  ),
+);
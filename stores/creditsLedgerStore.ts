@@ -0,0 +1,150 @@
+import { create } from "zustand";
+import { createJSONStorage, devtools, persist } from "zustand/middleware";
+
+import { gameStorage } from "@/services/storageAdapter";
+
+export type CreditsEntryType =
+  | "opening_balance"
+  | "mission_reward"
+  | "purchase"
+  | "sale"
+  | "refund"
+  | "adjustment";
+
+export interface CreditsLedgerEntry {
+  id: string;
+  type: CreditsEntryType;
+  amount: number; // Signed change, negative when credits are spent
+  balanceAfter: number;
+  description: string;
+  timestamp: number;
+}
+
+export interface CreditsLedgerAudit {
+  balanced: boolean;
+  ledgerBalance: number; // What the entries add up to
+  discrepancy: number; // Actual balance minus the ledger balance
+  brokenEntries: string[]; // Ids of entries that don't follow from the one before
+}
+
+export interface CreditsLedgerState {
+  // Every change to each player's credits, oldest first and keyed by player
+  // id. Entries are only ever appended, corrections are new adjustments
+  ledgers: Record<string, CreditsLedgerEntry[]>;
+
+  // Actions
+  appendEntry: (
+    playerId: string,
+    type: CreditsEntryType,
+    amount: number,
+    description: string,
+  ) => CreditsLedgerEntry;
+  openLedger: (playerId: string, credits: number) => boolean; // False if the ledger was already open
+  getLedger: (playerId: string) => CreditsLedgerEntry[];
+  getBalance: (playerId: string) => number;
+  reset: () => void;
+}
+
+export const useCreditsLedgerStore = create<CreditsLedgerState>()(
+  devtools(
+    persist<CreditsLedgerState>(
+      (set, get) => ({
+        ledgers: {},
+
+        appendEntry: (playerId, type, amount, description) => {
+          const ledger = get().getLedger(playerId);
+          const entry: CreditsLedgerEntry = {
+            id: `txn_${ledger.length + 1}`,
+            type,
+            amount,
+            balanceAfter: get().getBalance(playerId) + amount,
+            description,
+            timestamp: Date.now(),
+          };
+
+          set((state) => ({
+            ledgers: { ...state.ledgers, [playerId]: [...ledger, entry] },
+          }));
+
+          return entry;
+        },
+
+        openLedger: (playerId, credits) => {
+          if (get().getLedger(playerId).length > 0) return false;
+
+          get().appendEntry(
+            playerId,
+            "opening_balance",
+            credits,
+            "Opening balance",
+          );
+
+          return true;
+        },
+
+        getLedger: (playerId) => get().ledgers[playerId] || [],
+
+        getBalance: (playerId) => {
+          const ledger = get().getLedger(playerId);
+
+          return ledger.length > 0 ? ledger[ledger.length - 1].balanceAfter : 0;
+        },
+
+        reset: () => set({ ledgers: {} }),
+      }),
+      {
+        name: "g-bax-credits-ledger",
+        // Hydrated by StorageProvider once the storage backend has loaded
+        storage: createJSONStorage(() => gameStorage),
+        skipHydration: true,
+      },
+    ),
+    { name: "CreditsLedgerStore" },
+  ),
+);
+
+// Check that each entry follows from the one before, no balance ever went
+// negative and the entries add up to the credits the player actually holds
+export const auditCreditsLedger = (
+  ledger: CreditsLedgerEntry[],
+  credits: number,
+): CreditsLedgerAudit => {
+  let balance = 0;
+  const brokenEntries: string[] = [];
+
+  ledger.forEach((entry) => {
+    if (
+      entry.balanceAfter !== balance + entry.amount ||
+      entry.balanceAfter < 0
+    ) {
+      brokenEntries.push(entry.id);
+    }
+
+    balance = entry.balanceAfter;
+  });
+
+  return {
+    balanced: brokenEntries.length === 0 && balance === credits,
+    ledgerBalance: balance,
+    discrepancy: credits - balance,
+    brokenEntries,
+  };
+};
+
+export const creditsLedgerToCsv = (ledger: CreditsLedgerEntry[]): string => {
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const rows = ledger.map((entry) =>
+    [
+      entry.id,
+      new Date(entry.timestamp).toISOString(),
+      entry.type,
+      entry.amount,
+      entry.balanceAfter,
+      escape(entry.description),
+    ].join(","),
+  );
+
+  return ["id,timestamp,type,amount,balance_after,description", ...rows].join(
+    "\n",
+  );
+};
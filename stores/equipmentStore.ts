@@ -0,0 +1,147 @@
+import { create } from "zustand";
+import { createJSONStorage, devtools, persist } from "zustand/middleware";
+
+import { Resource, useGameStore } from "./gameStore";
+
+import {
+  getDurability,
+  getEquipmentDefinition,
+  isBroken,
+  type EquipmentDefinition,
+  type EquipmentEffects,
+  type EquipmentSlot,
+} from "@/data/equipment";
+import { gameStorage } from "@/services/storageAdapter";
+
+export interface EquipmentState {
+  // One crafted item per slot, taken out of the inventory while fitted
+  equipped: Partial<Record<EquipmentSlot, Resource>>;
+
+  // Actions
+  equipItem: (item: Resource) => boolean;
+  unequipItem: (slot: EquipmentSlot) => boolean;
+  wearEquipment: (effect: keyof EquipmentEffects, amount: number) => Resource[]; // Returns the items that just broke
+  repairEquipment: (slot: EquipmentSlot) => void;
+  getEquippedDefinitions: () => EquipmentDefinition[];
+  reset: () => void;
+}
+
+export const useEquipmentStore = create<EquipmentState>()(
+  devtools(
+    persist<EquipmentState>(
+      (set, get) => ({
+        equipped: {},
+
+        equipItem: (item) => {
+          const definition = getEquipmentDefinition(item);
+          const { inventory, addResource, removeResource } =
+            useGameStore.getState();
+          const stack = inventory.find((r) => r.id === item.id);
+
+          if (!definition || !stack) return false;
+
+          const current = get().equipped[definition.slot];
+
+          removeResource(stack.id, 1);
+
+          // Swap out whatever was fitted, putting the item back if the
+          // old one doesn't fit in the hold
+          if (current && addResource(current) === 0) {
+            addResource({ ...stack, quantity: 1 });
+
+            return false;
+          }
+
+          set((state) => ({
+            equipped: {
+              ...state.equipped,
+              [definition.slot]: { ...stack, quantity: 1 },
+            },
+          }));
+
+          return true;
+        },
+
+        unequipItem: (slot) => {
+          const item = get().equipped[slot];
+
+          if (!item || useGameStore.getState().addResource(item) === 0) {
+            return false;
+          }
+
+          set((state) => {
+            const equipped = { ...state.equipped };
+
+            delete equipped[slot];
+
+            return { equipped };
+          });
+
+          return true;
+        },
+
+        // Wear down every working item that gives the effect
+        wearEquipment: (effect, amount) => {
+          const broken: Resource[] = [];
+          const equipped = { ...get().equipped };
+
+          Object.entries(equipped).forEach(([slot, item]) => {
+            if (!item || isBroken(item)) return;
+            if (!getEquipmentDefinition(item)?.effects[effect]) return;
+
+            const worn = {
+              ...item,
+              durability: Math.max(0, getDurability(item) - amount),
+            };
+
+            equipped[slot as EquipmentSlot] = worn;
+
+            if (isBroken(worn)) broken.push(worn);
+          });
+
+          set({ equipped });
+
+          return broken;
+        },
+
+        // Restore full durability, so the item stacks with new ones again
+        repairEquipment: (slot) => {
+          const item = get().equipped[slot];
+
+          if (!item) return;
+
+          const { durability, ...repaired } = item;
+
+          set((state) => ({
+            equipped: { ...state.equipped, [slot]: repaired },
+          }));
+        },
+
+        // Broken items give no bonus
+        getEquippedDefinitions: () =>
+          Object.values(get().equipped)
+            .map((item) =>
+              item && !isBroken(item) ? getEquipmentDefinition(item) : null,
+            )
+            .filter(
+              (definition): definition is EquipmentDefinition => !!definition,
+            ),
+
+        reset: () => set({ equipped: {} }),
+      }),
+      {
+        name: "g-bax-equipment",
+        // Hydrated by StorageProvider once the storage backend has loaded
+        storage: createJSONStorage(() => gameStorage),
+        skipHydration: true,
+      },
+    ),
+    { name: "EquipmentStore" },
+  ),
+);
+
+// Export reset function for external use
+export const resetEquipmentStore = () => {
+  useEquipmentStore.getState().reset();
+  gameStorage.removeItem("g-bax-equipment");
+};
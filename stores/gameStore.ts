@@ -1,7 +1,19 @@
 import { create } from "zustand";
-import { devtools, persist } from "zustand/middleware";
-
-import { getLevelFromExperience } from "@/utils/gameHelpers";
+import { createJSONStorage, devtools, persist } from "zustand/middleware";
+
+import type { GameSystemsSnapshot } from "@/systems/gameSystemsManager";
+import type { CreditsEntryType } from "@/stores/creditsLedgerStore";
+
+import {
+  getCargoMass,
+  getLevelFromExperience,
+  getResourceMass,
+  getStackKey,
+  stackResources,
+} from "@/utils/gameHelpers";
+import { GAME_CONFIG, ITEM_QUALITIES } from "@/utils/constants";
+import { gameStorage } from "@/services/storageAdapter";
+import { useCreditsLedgerStore } from "@/stores/creditsLedgerStore";
 
 // Game state types
 export interface Player {
@@ -38,8 +50,12 @@ export interface Resource {
   type: "crystal" | "metal" | "energy";
   quantity: number;
   rarity: "common" | "rare" | "epic" | "legendary";
+  quality?: ItemQuality; // Only crafted items roll a quality
+  durability?: number; // Only set on equipment once it has worn, full otherwise
 }
 
+export type ItemQuality = (typeof ITEM_QUALITIES)[number]["grade"];
+
 export interface Mission {
   id: string;
   title: string;
@@ -59,8 +75,9 @@ export interface GameState {
   // Player data
   player: Player | null;
 
-  // Inventory
+  // Inventory, limited by the mass the ship's cargo hold can carry
   inventory: Resource[];
+  cargoCapacity: number;
 
   // Missions
   missions: Mission[];
@@ -70,18 +87,28 @@ export interface GameState {
   isLoading: boolean;
   currentScene: "menu" | "space" | "crafting" | "missions";
 
+  // In-flight mining and crafting operations, resumed on the next load
+  savedOperations: GameSystemsSnapshot | null;
+
   // Actions
-  setPlayer: (player: Player | null) => void;
+  setPlayer: (player: Player | null) => void; // Credits only seed a new player's ledger
   updatePlayerPosition: (position: [number, number, number]) => void;
   updatePlayerExperience: (experience: number) => void;
+  changeCredits: (
+    type: CreditsEntryType,
+    amount: number,
+    description: string,
+  ) => boolean; // False if the player can't cover a charge
   setInventory: (inventory: Resource[]) => void;
-  addResource: (resource: Resource) => void;
-  removeResource: (resourceId: string, quantity: number) => void;
+  addResource: (resource: Resource) => number; // Returns the quantity that fit in the hold
+  removeResource: (stackId: string, quantity: number) => void;
+  raiseCargoCapacity: (amount: number) => void;
   setMissions: (missions: Mission[]) => void;
   setActiveMission: (mission: Mission | null) => void;
   updateMissionProgress: (missionId: string, progress: number) => void;
   setCurrentScene: (scene: GameState["currentScene"]) => void;
   setLoading: (loading: boolean) => void;
+  setSavedOperations: (snapshot: GameSystemsSnapshot | null) => void;
   reset: () => void;
   saveProgress: () => void;
   loadProgress: () => void;
@@ -94,19 +121,31 @@ export const useGameStore = create<GameState>()(
         // Initial state
         player: null,
         inventory: [],
+        cargoCapacity: GAME_CONFIG.INITIAL_CARGO_CAPACITY,
         missions: [],
         activeMission: null,
         isLoading: false,
         currentScene: "menu",
+        savedOperations: null,
 
         // Actions
         setPlayer: (player) => {
           if (player) {
             // Ensure level is calculated correctly from experience
             const correctedLevel = getLevelFromExperience(player.experience);
-            const correctedPlayer = { ...player, level: correctedLevel };
+            const ledger = useCreditsLedgerStore.getState();
 
-            set({ player: correctedPlayer });
+            // Credits only change through changeCredits. A new player's ledger
+            // opens with what they start with, after that it holds the balance
+            ledger.openLedger(player.id, player.credits);
+
+            set({
+              player: {
+                ...player,
+                level: correctedLevel,
+                credits: ledger.getBalance(player.id),
+              },
+            });
           } else {
             set({ player });
           }
@@ -133,40 +172,79 @@ export const useGameStore = create<GameState>()(
             };
           }),
 
-        setInventory: (inventory) => set({ inventory }),
+        changeCredits: (type, amount, description) => {
+          const { player } = get();
+
+          if (!player || player.credits + amount < 0) return false;
+
+          useCreditsLedgerStore
+            .getState()
+            .appendEntry(player.id, type, amount, description);
+          set({ player: { ...player, credits: player.credits + amount } });
+
+          return true;
+        },
+
+        setInventory: (inventory) =>
+          set({ inventory: stackResources(inventory) }),
+
+        addResource: (resource) => {
+          const { inventory, cargoCapacity } = get();
+          // Only as many whole units as the free cargo space allows
+          const freeMass = cargoCapacity - getCargoMass(inventory);
+          const quantity = Math.max(
+            0,
+            Math.min(
+              resource.quantity,
+              Math.floor(freeMass / getResourceMass(resource)),
+            ),
+          );
+
+          if (quantity === 0) return 0;
+
+          // Merge into the resource's stack whatever id it arrived with
+          const stackKey = getStackKey(resource);
 
-        addResource: (resource) =>
           set((state) => {
             const existingResource = state.inventory.find(
-              (r) => r.id === resource.id,
+              (r) => r.id === stackKey,
             );
 
             if (existingResource) {
               return {
                 inventory: state.inventory.map((r) =>
-                  r.id === resource.id
-                    ? { ...r, quantity: r.quantity + resource.quantity }
+                  r.id === stackKey
+                    ? { ...r, quantity: r.quantity + quantity }
                     : r,
                 ),
               };
             }
 
             return {
-              inventory: [...state.inventory, resource],
+              inventory: [
+                ...state.inventory,
+                { ...resource, id: stackKey, quantity },
+              ],
             };
-          }),
+          });
 
-        removeResource: (resourceId, quantity) =>
+          return quantity;
+        },
+
+        removeResource: (stackId, quantity) =>
           set((state) => ({
             inventory: state.inventory
               .map((r) =>
-                r.id === resourceId
+                r.id === stackId
                   ? { ...r, quantity: Math.max(0, r.quantity - quantity) }
                   : r,
               )
               .filter((r) => r.quantity > 0),
           })),
 
+        raiseCargoCapacity: (amount) =>
+          set((state) => ({ cargoCapacity: state.cargoCapacity + amount })),
+
         setMissions: (missions) => set({ missions }),
 
         setActiveMission: (mission) => set({ activeMission: mission }),
@@ -211,14 +289,18 @@ export const useGameStore = create<GameState>()(
 
         setLoading: (loading) => set({ isLoading: loading }),
 
+        setSavedOperations: (snapshot) => set({ savedOperations: snapshot }),
+
         reset: () =>
           set({
             player: null,
             inventory: [],
+            cargoCapacity: GAME_CONFIG.INITIAL_CARGO_CAPACITY,
             missions: [],
             activeMission: null,
             isLoading: false,
             currentScene: "menu",
+            savedOperations: null,
           }),
 
         saveProgress: () => {
@@ -232,7 +314,7 @@ export const useGameStore = create<GameState>()(
             lastSaved: new Date().toISOString(),
           };
 
-          localStorage.setItem("g-bax-game-progress", JSON.stringify(gameData));
+          gameStorage.setItem("g-bax-game-progress", JSON.stringify(gameData));
         },
 
         loadProgress: () => {
@@ -242,12 +324,17 @@ export const useGameStore = create<GameState>()(
       }),
       {
         name: "g-bax-game-storage",
+        // Hydrated by StorageProvider once the storage backend has loaded
+        storage: createJSONStorage(() => gameStorage),
+        skipHydration: true,
         partialize: (state) => ({
           player: state.player,
           inventory: state.inventory,
+          cargoCapacity: state.cargoCapacity,
           missions: state.missions,
           activeMission: state.activeMission,
           currentScene: state.currentScene,
+          savedOperations: state.savedOperations,
         }),
       },
     ),
@@ -261,6 +348,6 @@ export const useGameStore = create<GameState>()(
 export const resetGameStore = () => {
   useGameStore.getState().reset();
   // Also clear the persisted storage
-  localStorage.removeItem("g-bax-game-storage");
-  localStorage.removeItem("g-bax-game-progress");
+  gameStorage.removeItem("g-bax-game-storage");
+  gameStorage.removeItem("g-bax-game-progress");
 };
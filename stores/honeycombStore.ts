@@ -28,6 +28,7 @@ import {
   PlayerGuildInfo,
   GuildSystemStatus,
 } from "@/types";
+import { gameStorage } from "@/services/storageAdapter";
 
 export interface HoneycombState {
   // Service instance
@@ -661,7 +662,7 @@ export const useHoneycombStore = create<HoneycombState>()(
 
         // Fallback 2: localStorage simulation (when no service available)
         const blockchainKey = `honeycomb-profile-${player.toString()}`;
-        const existing = localStorage.getItem(blockchainKey);
+        const existing = gameStorage.getItem(blockchainKey);
         let profile = {
           id: player.toString(),
           name: `Explorer ${player.toString().slice(0, 8)}`,
@@ -681,7 +682,7 @@ export const useHoneycombStore = create<HoneycombState>()(
         profile.level = Math.floor(experience / 1000) + 1;
 
         // Save to localStorage (simulating blockchain)
-        localStorage.setItem(blockchainKey, JSON.stringify(profile));
+        gameStorage.setItem(blockchainKey, JSON.stringify(profile));
       },
 
       // Profile actions
@@ -938,7 +939,7 @@ export const useHoneycombStore = create<HoneycombState>()(
             // Update sync timestamp
             const syncKey = `g-bax-sync-${playerWallet.toString()}`;
 
-            localStorage.setItem(syncKey, Date.now().toString());
+            gameStorage.setItem(syncKey, Date.now().toString());
           }
 
           return success;
@@ -967,7 +968,7 @@ export const useHoneycombStore = create<HoneycombState>()(
             // Update sync timestamp
             const syncKey = `g-bax-sync-${playerWallet.toString()}`;
 
-            localStorage.setItem(syncKey, Date.now().toString());
+            gameStorage.setItem(syncKey, Date.now().toString());
           }
 
           return syncResult;
@@ -1430,17 +1431,17 @@ export const useHoneycombStore = create<HoneycombState>()(
 export const resetHoneycombStore = () => {
   useHoneycombStore.getState().reset();
   // Also clear the persisted storage
-  localStorage.removeItem("g-bax-honeycomb-storage");
+  gameStorage.removeItem("g-bax-honeycomb-storage");
 
   // Clear all individual honeycomb data
   const keysToRemove = [];
 
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
+  for (let i = 0; i < gameStorage.length; i++) {
+    const key = gameStorage.key(i);
 
     if (key && key.startsWith("honeycomb_")) {
       keysToRemove.push(key);
     }
   }
-  keysToRemove.forEach((key) => localStorage.removeItem(key));
+  keysToRemove.forEach((key) => gameStorage.removeItem(key));
 };
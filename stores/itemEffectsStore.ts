@@ -1,5 +1,6 @@
 import { create } from "zustand";
-import { devtools, persist } from "zustand/middleware";
+import { createJSONStorage, devtools, persist } from "zustand/middleware";
+import { gameStorage } from "@/services/storageAdapter";
 
 export interface ItemEffect {
   id: string;
@@ -7,6 +8,7 @@ export interface ItemEffect {
   type:
     | "mining_efficiency"
     | "crafting_speed"
+    | "crafting_quality"
     | "experience_boost"
     | "resource_yield"
     | "energy_restore";
@@ -25,6 +27,7 @@ interface RuntimeItemEffect extends ItemEffect {
 
 export interface ItemEffectsState {
   activeEffects: RuntimeItemEffect[];
+  expiredEffects: ItemEffect[]; // Last expired boost of each type, stations can restore them
   totalItemsUsed: number; // Track total items used for tiered benefits
 
   // Actions
@@ -36,12 +39,16 @@ export interface ItemEffectsState {
     quantity: number,
     duration: number,
     name: string,
+    quality?: number, // Quality multiplier of the items used, scales the boost
   ) => void;
   removeEffect: (effectId: string) => void;
+  expireEffect: (effectId: string) => void;
+  restoreEffect: (effectId: string) => boolean; // False if it's no longer restorable
   updateEffects: () => void;
   getActiveMultipliers: () => {
     miningEfficiency: number;
     craftingSpeed: number;
+    craftingQuality: number;
     experienceBoost: number;
     resourceYield: number;
   };
@@ -51,10 +58,23 @@ export interface ItemEffectsState {
   reset: () => void;
 }
 
+// Keep the newest expired effect of each type, without its timeout
+const archiveExpiredEffects = (
+  archived: ItemEffect[],
+  expired: RuntimeItemEffect[],
+): ItemEffect[] =>
+  expired.reduce(
+    (kept, { timeoutId: _timeoutId, ...effect }) => [
+      ...kept.filter((archivedEffect) => archivedEffect.type !== effect.type),
+      { ...effect, isActive: false },
+    ],
+    archived,
+  );
+
 // Helper function to restart timeouts for active effects
 const restartEffectTimeouts = (
   effects: RuntimeItemEffect[],
-  removeEffect: (id: string) => void,
+  expireEffect: (id: string) => void,
 ): RuntimeItemEffect[] => {
   const now = Date.now();
 
@@ -64,7 +84,7 @@ const restartEffectTimeouts = (
     if (remainingTime > 0) {
       // Effect is still active, restart its timeout
       const timeoutId = setTimeout(() => {
-        removeEffect(effect.id);
+        expireEffect(effect.id);
       }, remainingTime);
 
       return { ...effect, timeoutId };
@@ -80,6 +100,7 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
     persist<ItemEffectsState>(
       (set, get) => ({
         activeEffects: [],
+        expiredEffects: [],
         totalItemsUsed: 0,
 
         addEffect: (
@@ -89,7 +110,7 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
 
           // Auto-remove effect after duration
           const timeoutId = setTimeout(() => {
-            get().removeEffect(effectId);
+            get().expireEffect(effectId);
           }, effectData.duration);
 
           const effect: RuntimeItemEffect = {
@@ -111,6 +132,7 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
           quantity: number,
           duration: number,
           name: string,
+          quality: number = 1.0,
         ) => {
           const { getTieredBenefit } = get();
 
@@ -121,13 +143,18 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
 
           // Get the new total and calculate tiered benefit
           const newTotal = get().totalItemsUsed;
-          const benefitMultiplier = getTieredBenefit(newTotal);
+          const benefitMultiplier =
+            1 + (getTieredBenefit(newTotal) - 1) * quality;
 
-          // Remove any existing effects of the same type
+          // Remove any existing effects of the same type, a fresh boost
+          // also replaces an expired one waiting to be restored
           set((state) => ({
             activeEffects: state.activeEffects.filter(
               (effect) => effect.type !== type,
             ),
+            expiredEffects: state.expiredEffects.filter(
+              (effect) => effect.type !== type,
+            ),
           }));
 
           // Add new effect with tiered benefit
@@ -135,7 +162,7 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
 
           // Auto-remove effect after duration
           const timeoutId = setTimeout(() => {
-            get().removeEffect(effectId);
+            get().expireEffect(effectId);
           }, duration);
 
           const effect: RuntimeItemEffect = {
@@ -175,6 +202,52 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
           });
         },
 
+        // Called when an effect runs out, it stays restorable at stations
+        expireEffect: (effectId: string) => {
+          const expired = get().activeEffects.find(
+            (effect) => effect.id === effectId,
+          );
+
+          get().removeEffect(effectId);
+
+          if (expired) {
+            set((state) => ({
+              expiredEffects: archiveExpiredEffects(state.expiredEffects, [
+                expired,
+              ]),
+            }));
+          }
+        },
+
+        // Start an expired effect again for its full duration
+        restoreEffect: (effectId: string) => {
+          const expired = get().expiredEffects.find(
+            (effect) => effect.id === effectId,
+          );
+
+          if (!expired) return false;
+
+          set((state) => ({
+            activeEffects: state.activeEffects.filter(
+              (effect) => effect.type !== expired.type,
+            ),
+            expiredEffects: state.expiredEffects.filter(
+              (effect) => effect.id !== effectId,
+            ),
+          }));
+
+          const {
+            id: _id,
+            startTime: _startTime,
+            isActive: _isActive,
+            ...effect
+          } = expired;
+
+          get().addEffect(effect);
+
+          return true;
+        },
+
         updateEffects: () => {
           const now = Date.now();
 
@@ -193,6 +266,7 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
           const multipliers = {
             miningEfficiency: 1.0,
             craftingSpeed: 1.0,
+            craftingQuality: 1.0,
             experienceBoost: 1.0,
             resourceYield: 1.0,
           };
@@ -217,6 +291,12 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
                   effect.multiplier,
                 );
                 break;
+              case "crafting_quality":
+                multipliers.craftingQuality = Math.max(
+                  multipliers.craftingQuality,
+                  effect.multiplier,
+                );
+                break;
               case "experience_boost":
                 multipliers.experienceBoost = Math.max(
                   multipliers.experienceBoost,
@@ -254,6 +334,12 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
             activeEffects: state.activeEffects.filter(
               (effect) => now - effect.startTime < effect.duration,
             ),
+            expiredEffects: archiveExpiredEffects(
+              state.expiredEffects,
+              state.activeEffects.filter(
+                (effect) => now - effect.startTime >= effect.duration,
+              ),
+            ),
           }));
         },
 
@@ -262,7 +348,7 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
           set((state) => ({
             activeEffects: restartEffectTimeouts(
               state.activeEffects,
-              get().removeEffect,
+              get().expireEffect,
             ),
           }));
         },
@@ -279,6 +365,7 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
 
             return {
               activeEffects: [],
+              expiredEffects: [],
               totalItemsUsed: 0,
             };
           });
@@ -286,6 +373,9 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
       }),
       {
         name: "item-effects-storage",
+        // Hydrated by StorageProvider once the storage backend has loaded
+        storage: createJSONStorage(() => gameStorage),
+        skipHydration: true,
         version: 1,
         // Restart timeouts after hydration
         onRehydrateStorage: () => (state) => {
@@ -304,8 +394,6 @@ export const useItemEffectsStore = create<ItemEffectsState>()(
 // Export reset function for external use
 export const resetItemEffectsStore = () => {
   useItemEffectsStore.getState().reset();
-  // Also clear the persisted storage (only in browser environment)
-  if (typeof window !== "undefined" && window.localStorage) {
-    localStorage.removeItem("item-effects-storage");
-  }
+  // Also clear the persisted storage
+  gameStorage.removeItem("item-effects-storage");
 };
@@ -4,7 +4,7 @@
  */
 
 import { create } from "zustand";
-import { devtools, persist } from "zustand/middleware";
+import { createJSONStorage, devtools, persist } from "zustand/middleware";
 import type { TraitDefinition } from "@/data/traits";
 import {
   localCharacterService,
@@ -12,6 +12,7 @@ import {
   type LocalCharacterTrait,
   type LocalCharacterData
 } from "@/services/localCharacterService";
+import { gameStorage } from "@/services/storageAdapter";
 
 export interface LocalCharacterState {
   // Character data
@@ -275,7 +276,7 @@ export const useLocalCharacterStore = create<LocalCharacterState>()(
         // Get last sync timestamp
         getLastSyncTimestamp: () => {
           try {
-            const data = localStorage.getItem("g-bax-characters");
+            const data = gameStorage.getItem("g-bax-characters");
             if (data) {
               const parsed = JSON.parse(data) as LocalCharacterData;
               return parsed.lastSyncTimestamp;
@@ -286,6 +287,9 @@ export const useLocalCharacterStore = create<LocalCharacterState>()(
       }),
       {
         name: "local-character-store",
+        // Hydrated by StorageProvider once the storage backend has loaded
+        storage: createJSONStorage(() => gameStorage),
+        skipHydration: true,
         partialize: (state) => ({
           // Only persist essential data, let the service handle the rest
           currentPlayerId: state.currentPlayerId,
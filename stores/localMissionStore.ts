@@ -4,9 +4,10 @@
  */
 
 import { create } from "zustand";
-import { devtools, persist } from "zustand/middleware";
+import { createJSONStorage, devtools, persist } from "zustand/middleware";
 import type { Mission, Resource } from "@/stores/gameStore";
 import { localMissionService, type LocalMissionProgress, type LocalMissionData } from "@/services/localMissionService";
+import { gameStorage } from "@/services/storageAdapter";
 
 export interface LocalMissionState {
   // Mission data
@@ -85,6 +86,7 @@ export const useLocalMissionStore = create<LocalMissionState>()(
           set({ isLoading: true, error: null });
 
           try {
+            localMissionService.unlockMissions(playerId, playerLevel);
             const availableMissions = localMissionService.getAvailableMissions(playerId, playerLevel);
 
             set({
@@ -268,7 +270,7 @@ export const useLocalMissionStore = create<LocalMissionState>()(
         // Get last sync timestamp
         getLastSyncTimestamp: () => {
           try {
-            const data = localStorage.getItem("g-bax-missions");
+            const data = gameStorage.getItem("g-bax-missions");
             if (data) {
               const parsed = JSON.parse(data) as LocalMissionData;
               return parsed.lastSyncTimestamp;
@@ -279,6 +281,9 @@ export const useLocalMissionStore = create<LocalMissionState>()(
       }),
       {
         name: "local-mission-store",
+        // Hydrated by StorageProvider once the storage backend has loaded
+        storage: createJSONStorage(() => gameStorage),
+        skipHydration: true,
         partialize: (state) => ({
           // Only persist essential data, let the service handle the rest
           currentPlayerId: state.currentPlayerId,
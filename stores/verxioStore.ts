@@ -1,5 +1,5 @@
 import { create } from "zustand";
-import { devtools, persist } from "zustand/middleware";
+import { createJSONStorage, devtools, persist } from "zustand/middleware";
 import { PublicKey } from "@solana/web3.js";
 
 import {
@@ -9,6 +9,7 @@ import {
   type GuildMember,
   type LoyaltyTier,
 } from "@/services/verxioService";
+import { gameStorage } from "@/services/storageAdapter";
 
 export interface VerxioState {
   // Service instance
@@ -477,6 +478,9 @@ export const useVerxioStore = create<VerxioState>()(
       }),
       {
         name: "g-bax-verxio-storage",
+        // Hydrated by StorageProvider once the storage backend has loaded
+        storage: createJSONStorage(() => gameStorage),
+        skipHydration: true,
         partialize: (state) => ({
           playerLoyalty: state.playerLoyalty,
           playerGuild: state.playerGuild,
@@ -495,17 +499,17 @@ export const useVerxioStore = create<VerxioState>()(
 export const resetVerxioStore = () => {
   useVerxioStore.getState().reset();
   // Also clear the persisted storage and individual loyalty data
-  localStorage.removeItem("g-bax-verxio-storage");
+  gameStorage.removeItem("g-bax-verxio-storage");
 
   // Clear all individual verxio loyalty data
   const keysToRemove = [];
 
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
+  for (let i = 0; i < gameStorage.length; i++) {
+    const key = gameStorage.key(i);
 
     if (key && key.startsWith("verxio_")) {
       keysToRemove.push(key);
     }
   }
-  keysToRemove.forEach((key) => localStorage.removeItem(key));
+  keysToRemove.forEach((key) => gameStorage.removeItem(key));
 };
@@ -0,0 +1,90 @@
+import type { Resource } from "@/types/game";
+
+import { create } from "zustand";
+import { createJSONStorage, devtools, persist } from "zustand/middleware";
+
+import { gameStorage } from "@/services/storageAdapter";
+import { GAME_CONFIG } from "@/utils/constants";
+import {
+  getCargoMass,
+  getResourceMass,
+  getStackKey,
+} from "@/utils/gameHelpers";
+
+export interface WarehouseState {
+  // Goods stored at each station, keyed by station id. Every station has
+  // its own warehouse of the same capacity
+  warehouses: Record<string, Resource[]>;
+
+  // Actions
+  storeResource: (stationId: string, resource: Resource) => number; // Returns the quantity that fit
+  takeResource: (stationId: string, stackId: string, quantity: number) => void;
+  getWarehouse: (stationId: string) => Resource[];
+  reset: () => void;
+}
+
+export const useWarehouseStore = create<WarehouseState>()(
+  devtools(
+    persist<WarehouseState>(
+      (set, get) => ({
+        warehouses: {},
+
+        storeResource: (stationId, resource) => {
+          const warehouse = get().getWarehouse(stationId);
+          // Only as many whole units as the free warehouse space allows
+          const freeMass =
+            GAME_CONFIG.STATION_WAREHOUSE_CAPACITY - getCargoMass(warehouse);
+          const quantity = Math.max(
+            0,
+            Math.min(
+              resource.quantity,
+              Math.floor(freeMass / getResourceMass(resource)),
+            ),
+          );
+
+          if (quantity === 0) return 0;
+
+          const stackKey = getStackKey(resource);
+          const stored = warehouse.some((r) => r.id === stackKey)
+            ? warehouse.map((r) =>
+                r.id === stackKey
+                  ? { ...r, quantity: r.quantity + quantity }
+                  : r,
+              )
+            : [...warehouse, { ...resource, id: stackKey, quantity }];
+
+          set((state) => ({
+            warehouses: { ...state.warehouses, [stationId]: stored },
+          }));
+
+          return quantity;
+        },
+
+        takeResource: (stationId, stackId, quantity) =>
+          set((state) => ({
+            warehouses: {
+              ...state.warehouses,
+              [stationId]: (state.warehouses[stationId] || [])
+                .map((r) =>
+                  r.id === stackId
+                    ? { ...r, quantity: Math.max(0, r.quantity - quantity) }
+                    : r,
+                )
+                .filter((r) => r.quantity > 0),
+            },
+          })),
+
+        getWarehouse: (stationId) => get().warehouses[stationId] || [],
+
+        reset: () => set({ warehouses: {} }),
+      }),
+      {
+        name: "g-bax-warehouses",
+        // Hydrated by StorageProvider once the storage backend has loaded
+        storage: createJSONStorage(() => gameStorage),
+        skipHydration: true,
+      },
+    ),
+    { name: "WarehouseStore" },
+  ),
+);
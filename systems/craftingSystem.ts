@@ -1,189 +1,231 @@
-import type { CraftingRecipe } from "@/types/game";
+import type { CraftingRecipe, ItemQuality, RefiningRecipe } from "@/types/game";
+import type { RandomSource } from "@/utils/random";
+import type { EquipmentDefinition } from "@/data/equipment";
 
-import { Resource } from "@/stores/gameStore";
+import { GameClock } from "./gameClock";
 
-export interface CraftingOperation {
+import { rngService } from "@/services/rngService";
+import { GAME_CONFIG } from "@/utils/constants";
+import { Resource } from "@/stores/gameStore";
+import {
+  allocateRecipeInputs,
+  checkRecipeInputs,
+  getCraftingQualityScore,
+  getQualityForScore,
+  getRawResourceName,
+  getStackKey,
+  stackResources,
+  type MissingRecipeInput,
+} from "@/utils/gameHelpers";
+import { CRAFTING_RECIPES } from "@/data/recipes";
+import { REFINING_RECIPES } from "@/data/refining";
+
+// A crafting job. Its resources are reserved from the inventory when it is
+// queued, and its duration and quality odds are fixed by the bonuses at that time
+export interface CraftingJob {
   id: string;
   recipeId: string;
   playerId: string;
-  startTime: number;
   duration: number;
-  progress: number;
-  isCompleted: boolean;
   requiredResources: Resource[];
   outputItem: Resource;
   efficiency: number;
+  qualityBonus?: number; // Missing from jobs saved before item quality
+}
+
+// A job running in one of the player's crafting slots
+export interface CraftingOperation extends CraftingJob {
+  startTime: number;
+  progress: number;
+  isCompleted: boolean;
+}
+
+// Crafting operation as stored in a save, with game time elapsed instead of a clock timestamp
+export interface SavedCraftingOperation
+  extends Omit<CraftingOperation, "startTime"> {
+  elapsed: number;
 }
 
 export interface CraftingResult {
   success: boolean;
+  recipeId: string;
+  playerId: string;
   item: Resource;
   experience: number;
   message: string;
   bonusItems?: Resource[];
+  overflow?: Resource[]; // Crafted but left behind because the cargo hold was full
+}
+
+// A batch of raw resources being turned into a refined material. Purity
+// scales how much material the batch yields
+export interface RefiningOperation
+  extends Omit<CraftingOperation, "efficiency"> {
+  purity: number;
+}
+
+export interface SavedRefiningOperation
+  extends Omit<RefiningOperation, "startTime"> {
+  elapsed: number;
+}
+
+export interface RefiningResult {
+  success: boolean;
+  recipeId: string;
+  playerId: string;
+  item: Resource;
+  experience: number;
+  message: string;
+  overflow?: Resource[]; // Refined but left behind because the cargo hold was full
+}
+
+// A crafted item being taken apart. Its required resources are the item
+// itself, and what it gives back is fixed when it starts
+export interface SalvageOperation
+  extends Omit<CraftingOperation, "efficiency" | "outputItem"> {
+  returns: Resource[];
+}
+
+export interface SavedSalvageOperation
+  extends Omit<SalvageOperation, "startTime"> {
+  elapsed: number;
+}
+
+export interface SalvageResult {
+  success: boolean;
+  recipeId: string;
+  playerId: string;
+  item: Resource; // What was taken apart
+  returns: Resource[];
+  experience: number;
+  message: string;
+  overflow?: Resource[]; // Salvaged but left behind because the cargo hold was full
 }
 
+// Recipes whose output is installed in the ship rather than stored, by the
+// cargo capacity each one adds
+export const CARGO_UPGRADES: Record<string, number> = {
+  cargo_expander: 100,
+};
+
 export class CraftingSystem {
   private activeCraftingOperations: Map<string, CraftingOperation> = new Map();
   private craftingCallbacks: Map<string, (result: CraftingResult) => void> =
     new Map();
   private recipes: Map<string, CraftingRecipe> = new Map();
+  private craftingQueues: Map<string, CraftingJob[]> = new Map();
+  private craftingSlots: Map<string, number> = new Map();
+  private activeRefiningOperations: Map<string, RefiningOperation> = new Map();
+  private activeSalvageOperations: Map<string, SalvageOperation> = new Map();
+  private refiningRecipes: Map<string, RefiningRecipe> = new Map();
+  private clock: GameClock;
+  private random: RandomSource;
+
+  constructor(
+    clock: GameClock = new GameClock(),
+    random: RandomSource = rngService.stream("crafting"),
+    recipes: CraftingRecipe[] = CRAFTING_RECIPES,
+    refiningRecipes: RefiningRecipe[] = REFINING_RECIPES,
+  ) {
+    this.clock = clock;
+    this.random = random;
+    this.loadRecipes(recipes);
+    refiningRecipes.forEach((recipe) =>
+      this.refiningRecipes.set(recipe.id, recipe),
+    );
+  }
 
-  constructor() {
-    this.initializeRecipes();
-  }
-
-  // Initialize predefined crafting recipes
-  private initializeRecipes(): void {
-    const recipes: CraftingRecipe[] = [
-      // Basic Tools
-      {
-        id: "basic_mining_tool",
-        name: "Basic Mining Tool",
-        description: "A simple tool that increases mining efficiency",
-        requiredResources: [
-          { resourceType: "metal", quantity: 3 },
-          { resourceType: "crystal", quantity: 1 },
-        ],
-        output: {
-          id: "basic_mining_tool_001",
-          name: "Basic Mining Tool",
-          type: "metal",
-          quantity: 1,
-          rarity: "common",
-        },
-        craftingTime: 3000,
-        requiredLevel: 1,
-      },
-
-      // Advanced Tools
-      {
-        id: "advanced_scanner",
-        name: "Advanced Scanner",
-        description: "Detects rare resources more effectively",
-        requiredResources: [
-          { resourceType: "crystal", quantity: 5 },
-          { resourceType: "energy", quantity: 3 },
-          { resourceType: "metal", quantity: 2 },
-        ],
-        output: {
-          id: "advanced_scanner_001",
-          name: "Advanced Scanner",
-          type: "crystal",
-          quantity: 1,
-          rarity: "rare",
-        },
-        craftingTime: 8000,
-        requiredLevel: 3,
-      },
-
-      // Energy Cells
-      {
-        id: "energy_cell",
-        name: "Energy Cell",
-        description: "Stores energy for extended operations",
-        requiredResources: [
-          { resourceType: "energy", quantity: 10 },
-          { resourceType: "crystal", quantity: 2 },
-        ],
-        output: {
-          id: "energy_cell_001",
-          name: "Energy Cell",
-          type: "energy",
-          quantity: 1,
-          rarity: "common",
-        },
-        craftingTime: 5000,
-        requiredLevel: 2,
-      },
-
-      // Rare Alloys
-      {
-        id: "quantum_alloy",
-        name: "Quantum Alloy",
-        description: "An extremely durable and lightweight material",
-        requiredResources: [
-          { resourceType: "metal", quantity: 15 },
-          { resourceType: "crystal", quantity: 8 },
-          { resourceType: "energy", quantity: 5 },
-        ],
-        output: {
-          id: "quantum_alloy_001",
-          name: "Quantum Alloy",
-          type: "metal",
-          quantity: 1,
-          rarity: "epic",
-        },
-        craftingTime: 15000,
-        requiredLevel: 5,
-      },
-
-      // Legendary Equipment
-      {
-        id: "stellar_forge",
-        name: "Stellar Forge",
-        description:
-          "A legendary crafting station that enhances all operations",
-        requiredResources: [
-          { resourceType: "metal", quantity: 50 },
-          { resourceType: "crystal", quantity: 30 },
-          { resourceType: "energy", quantity: 20 },
-        ],
-        output: {
-          id: "stellar_forge_001",
-          name: "Stellar Forge",
-          type: "crystal",
-          quantity: 1,
-          rarity: "legendary",
-        },
-        craftingTime: 30000,
-        requiredLevel: 8,
-      },
-    ];
-
+  // Load recipe definitions, skipping any that can't be crafted
+  private loadRecipes(recipes: CraftingRecipe[]): void {
     recipes.forEach((recipe) => {
+      const valid =
+        recipe.inputs.length > 0 &&
+        recipe.outputs.length > 0 &&
+        recipe.outputs.every(
+          (output) => output.probability > 0 && output.probability <= 1,
+        );
+
+      if (!valid || this.recipes.has(recipe.id)) {
+        console.warn(`Skipping invalid crafting recipe "${recipe.id}"`);
+
+        return;
+      }
+
       this.recipes.set(recipe.id, recipe);
     });
   }
 
-  // Start crafting operation
-  startCrafting(
+  // Queue a crafting job. It starts straight away if a slot is free,
+  // otherwise it waits in the player's queue
+  queueCrafting(
     playerId: string,
     recipeId: string,
     playerResources: Resource[],
     efficiency: number = 1.0,
-  ): CraftingOperation | null {
+    qualityBonus: number = 1.0,
+  ): CraftingJob | null {
     const recipe = this.recipes.get(recipeId);
 
-    if (!recipe) return null;
+    if (!recipe || !this.canQueueCrafting(playerId)) return null;
 
     // Check if player has required resources
     const canCraft = this.canCraftRecipe(recipe, playerResources);
 
     if (!canCraft.canCraft) return null;
 
-    // Calculate crafting duration based on efficiency
-    const adjustedDuration = recipe.craftingTime / efficiency;
-
-    const operation: CraftingOperation = {
+    const job: CraftingJob = {
       id: `crafting_${Date.now()}_${Math.random()}`,
       recipeId,
       playerId,
-      startTime: Date.now(),
-      duration: adjustedDuration,
-      progress: 0,
-      isCompleted: false,
+      // Calculate crafting duration based on efficiency
+      duration: recipe.craftingTime / efficiency,
       requiredResources: this.getRequiredResourcesFromInventory(
         recipe,
         playerResources,
       ),
-      outputItem: { ...recipe.output },
+      outputItem: { ...recipe.outputs[0].item },
       efficiency,
+      qualityBonus,
     };
 
-    this.activeCraftingOperations.set(operation.id, operation);
+    this.craftingQueues.set(playerId, [
+      ...this.getCraftingQueue(playerId),
+      job,
+    ]);
+    this.startQueuedJobs(playerId, this.clock.now());
 
-    return operation;
+    return job;
+  }
+
+  // Check whether the player has a free slot or room left in the queue
+  canQueueCrafting(playerId: string): boolean {
+    return (
+      this.getPlayerCraftingOperations(playerId).length <
+        this.getCraftingSlots(playerId) ||
+      this.getCraftingQueue(playerId).length < GAME_CONFIG.CRAFTING_QUEUE_SIZE
+    );
+  }
+
+  // Move queued jobs into free slots, in queue order
+  private startQueuedJobs(playerId: string, startTime: number): void {
+    const queue = [...this.getCraftingQueue(playerId)];
+
+    while (
+      queue.length > 0 &&
+      this.getPlayerCraftingOperations(playerId).length <
+        this.getCraftingSlots(playerId)
+    ) {
+      const job = queue.shift()!;
+
+      this.activeCraftingOperations.set(job.id, {
+        ...job,
+        startTime,
+        progress: 0,
+        isCompleted: false,
+      });
+    }
+
+    this.craftingQueues.set(playerId, queue);
   }
 
   // Update crafting progress
@@ -194,8 +236,8 @@ export class CraftingSystem {
     this.activeCraftingOperations.forEach((operation, operationId) => {
       if (operation.isCompleted) return;
 
-      // Update progress
-      const elapsed = Date.now() - operation.startTime;
+      // Update progress against game time
+      const elapsed = this.clock.now() - operation.startTime;
 
       operation.progress = Math.min(elapsed / operation.duration, 1.0);
 
@@ -217,9 +259,16 @@ export class CraftingSystem {
       }
     });
 
-    // Clean up completed operations
+    // Clean up completed operations, handing each freed slot to the next
+    // queued job from the moment the finished one ended
     completedOperations.forEach((id) => {
+      const operation = this.activeCraftingOperations.get(id)!;
+
       this.activeCraftingOperations.delete(id);
+      this.startQueuedJobs(
+        operation.playerId,
+        operation.startTime + operation.duration,
+      );
     });
 
     return results;
@@ -232,6 +281,8 @@ export class CraftingSystem {
     if (!recipe) {
       return {
         success: false,
+        recipeId: operation.recipeId,
+        playerId: operation.playerId,
         item: operation.outputItem,
         experience: 0,
         message: "Recipe not found",
@@ -242,18 +293,47 @@ export class CraftingSystem {
     const baseExperience = this.getRecipeExperience(recipe);
     const experience = Math.floor(baseExperience * operation.efficiency);
 
-    // Check for bonus items based on efficiency and luck
-    const bonusItems = this.calculateBonusItems(recipe, operation.efficiency);
+    // Check for by-products and bonus items based on efficiency and luck
+    const bonusItems = [
+      ...this.rollByproducts(recipe),
+      ...this.calculateBonusItems(recipe, operation.efficiency),
+    ];
+    const item = {
+      ...operation.outputItem,
+      quality: this.rollQuality(operation),
+    };
 
     return {
       success: true,
-      item: operation.outputItem,
+      recipeId: operation.recipeId,
+      playerId: operation.playerId,
+      item,
       experience,
-      message: `Crafting completed! Created ${operation.outputItem.name}.`,
+      message: `Crafting completed! Created ${item.quality} ${item.name}.`,
       bonusItems,
     };
   }
 
+  // Roll the finished item's quality grade around the job's quality score
+  private rollQuality(job: CraftingJob): ItemQuality {
+    const score = getCraftingQualityScore(
+      job.efficiency,
+      job.qualityBonus ?? 1.0,
+      job.requiredResources,
+    );
+    const spread = GAME_CONFIG.CRAFTING_QUALITY_SPREAD;
+
+    return getQualityForScore(score + this.random.range(-spread, spread));
+  }
+
+  // Roll each of the recipe's by-products against its probability
+  private rollByproducts(recipe: CraftingRecipe): Resource[] {
+    return recipe.outputs
+      .slice(1)
+      .filter((output) => this.random.chance(output.probability))
+      .map((output) => ({ ...output.item }));
+  }
+
   // Calculate bonus items from high efficiency crafting
   private calculateBonusItems(
     recipe: CraftingRecipe,
@@ -262,14 +342,17 @@ export class CraftingSystem {
     const bonusItems: Resource[] = [];
 
     // Higher efficiency has chance for bonus materials
-    if (efficiency > 1.5 && Math.random() < 0.3) {
+    if (efficiency > 1.5 && this.random.chance(0.3)) {
       // Return some materials used in crafting
-      const bonusResource = recipe.requiredResources[0];
+      const bonusResource = recipe.inputs[0];
+
+      const name = `Recycled ${bonusResource.resourceType}`;
+      const type = bonusResource.resourceType;
 
       bonusItems.push({
-        id: `bonus_${Date.now()}`,
-        name: `Recycled ${bonusResource.resourceType}`,
-        type: bonusResource.resourceType as "crystal" | "metal" | "energy",
+        id: getStackKey({ name, type, rarity: "common" }),
+        name,
+        type,
         quantity: Math.floor(bonusResource.quantity * 0.2),
         rarity: "common",
       });
@@ -284,70 +367,17 @@ export class CraftingSystem {
     playerResources: Resource[],
   ): {
     canCraft: boolean;
-    missingResources?: { resourceType: string; needed: number; have: number }[];
+    missingResources?: MissingRecipeInput[];
   } {
-    const missingResources: {
-      resourceType: string;
-      needed: number;
-      have: number;
-    }[] = [];
-
-    for (const requirement of recipe.requiredResources) {
-      const playerAmount = this.getResourceAmount(
-        playerResources,
-        requirement.resourceType,
-      );
-
-      if (playerAmount < requirement.quantity) {
-        missingResources.push({
-          resourceType: requirement.resourceType,
-          needed: requirement.quantity,
-          have: playerAmount,
-        });
-      }
-    }
-
-    return {
-      canCraft: missingResources.length === 0,
-      missingResources:
-        missingResources.length > 0 ? missingResources : undefined,
-    };
-  }
-
-  // Get amount of specific resource type in inventory
-  private getResourceAmount(
-    resources: Resource[],
-    resourceType: string,
-  ): number {
-    return resources
-      .filter((resource) => resource.type === resourceType)
-      .reduce((total, resource) => total + resource.quantity, 0);
+    return checkRecipeInputs(recipe, playerResources);
   }
 
-  // Get required resources from player inventory
+  // Get required resources from player inventory, one entry per stack
   private getRequiredResourcesFromInventory(
     recipe: CraftingRecipe,
     playerResources: Resource[],
   ): Resource[] {
-    const requiredResources: Resource[] = [];
-
-    for (const requirement of recipe.requiredResources) {
-      let remainingNeeded = requirement.quantity;
-
-      for (const resource of playerResources) {
-        if (resource.type === requirement.resourceType && remainingNeeded > 0) {
-          const takeAmount = Math.min(resource.quantity, remainingNeeded);
-
-          requiredResources.push({
-            ...resource,
-            quantity: takeAmount,
-          });
-          remainingNeeded -= takeAmount;
-        }
-      }
-    }
-
-    return requiredResources;
+    return allocateRecipeInputs(recipe, playerResources).allocated;
   }
 
   // Get experience reward for recipe
@@ -359,16 +389,28 @@ export class CraftingSystem {
       legendary: 400,
     };
 
-    return rarityMultiplier[recipe.output.rarity] || 50;
+    return rarityMultiplier[recipe.outputs[0].item.rarity] || 50;
   }
 
-  // Get all available recipes
-  getAvailableRecipes(playerLevel: number): CraftingRecipe[] {
+  // Recipes the player's level allows, limited to known blueprints if given
+  getAvailableRecipes(
+    playerLevel: number,
+    knownBlueprints?: string[],
+  ): CraftingRecipe[] {
     return Array.from(this.recipes.values()).filter(
-      (recipe) => recipe.requiredLevel <= playerLevel,
+      (recipe) =>
+        recipe.requiredLevel <= playerLevel &&
+        (!knownBlueprints || knownBlueprints.includes(recipe.id)),
     );
   }
 
+  // Roll to work out one of the candidate blueprints while crafting
+  rollBlueprintStudy(chance: number, candidates: string[]): string | null {
+    if (candidates.length === 0 || !this.random.chance(chance)) return null;
+
+    return this.random.choice(candidates);
+  }
+
   // Get recipe by ID
   getRecipe(recipeId: string): CraftingRecipe | null {
     return this.recipes.get(recipeId) || null;
@@ -381,20 +423,322 @@ export class CraftingSystem {
     );
   }
 
-  // Cancel crafting operation
-  cancelCrafting(operationId: string): boolean {
-    const operation = this.activeCraftingOperations.get(operationId);
+  // Refining operations. Each batch turns the recipe's raw inputs into its
+  // refined output, running alongside crafting in its own slots
+  getRefiningRecipes(): RefiningRecipe[] {
+    return Array.from(this.refiningRecipes.values());
+  }
+
+  getRefiningRecipe(recipeId: string): RefiningRecipe | null {
+    return this.refiningRecipes.get(recipeId) || null;
+  }
+
+  canRefine(
+    playerId: string,
+    recipe: RefiningRecipe,
+    playerResources: Resource[],
+  ): { canRefine: boolean; reason?: string } {
+    if (
+      this.getPlayerRefiningOperations(playerId).length >=
+      GAME_CONFIG.REFINING_SLOTS
+    ) {
+      return { canRefine: false, reason: "All refinery slots are busy" };
+    }
+
+    if (!checkRecipeInputs(recipe, playerResources).canCraft) {
+      return { canRefine: false, reason: "Not enough raw resources" };
+    }
+
+    return { canRefine: true };
+  }
+
+  startRefining(
+    playerId: string,
+    recipeId: string,
+    playerResources: Resource[],
+    purity: number = 1.0,
+  ): RefiningOperation | null {
+    const recipe = this.refiningRecipes.get(recipeId);
+
+    if (
+      !recipe ||
+      !this.canRefine(playerId, recipe, playerResources).canRefine
+    ) {
+      return null;
+    }
+
+    const operation: RefiningOperation = {
+      id: `refining_${Date.now()}_${Math.random()}`,
+      recipeId,
+      playerId,
+      startTime: this.clock.now(),
+      duration: recipe.refiningTime,
+      progress: 0,
+      isCompleted: false,
+      requiredResources: allocateRecipeInputs(recipe, playerResources)
+        .allocated,
+      outputItem: { ...recipe.output },
+      purity,
+    };
+
+    this.activeRefiningOperations.set(operation.id, operation);
+
+    return operation;
+  }
+
+  // Update refining progress
+  updateRefining(): RefiningResult[] {
+    const results: RefiningResult[] = [];
+
+    this.activeRefiningOperations.forEach((operation, operationId) => {
+      const elapsed = this.clock.now() - operation.startTime;
+
+      operation.progress = Math.min(elapsed / operation.duration, 1.0);
+
+      if (operation.progress < 1.0) return;
+
+      operation.isCompleted = true;
+      results.push(this.completeRefining(operation));
+      this.activeRefiningOperations.delete(operationId);
+    });
+
+    return results;
+  }
+
+  // Purity above 1 adds whole extra units, plus a chance at one more for
+  // the fraction left over
+  private completeRefining(operation: RefiningOperation): RefiningResult {
+    const yieldAmount = operation.outputItem.quantity * operation.purity;
+    const quantity =
+      Math.floor(yieldAmount) + (this.random.chance(yieldAmount % 1) ? 1 : 0);
+    const item = { ...operation.outputItem, quantity };
+
+    return {
+      success: true,
+      recipeId: operation.recipeId,
+      playerId: operation.playerId,
+      item,
+      experience: GAME_CONFIG.REFINING_EXPERIENCE,
+      message: `Refining completed! Produced ${quantity} ${item.name}.`,
+    };
+  }
+
+  // Cancel a refining batch. Returns it so its resources can be refunded
+  cancelRefining(operationId: string): RefiningOperation | null {
+    const operation = this.activeRefiningOperations.get(operationId);
+
+    if (!operation || operation.isCompleted) return null;
+
+    this.activeRefiningOperations.delete(operationId);
+
+    return operation;
+  }
+
+  getPlayerRefiningOperations(playerId: string): RefiningOperation[] {
+    return Array.from(this.activeRefiningOperations.values()).filter(
+      (op) => op.playerId === playerId,
+    );
+  }
+
+  // Find the recipe that crafts an item, whatever its quality or wear
+  getSalvageRecipe(item: Resource): CraftingRecipe | null {
+    const stackKey = getStackKey({
+      name: item.name,
+      type: item.type,
+      rarity: item.rarity,
+    });
+
+    return (
+      Array.from(this.recipes.values()).find(
+        (recipe) =>
+          !CARGO_UPGRADES[recipe.id] &&
+          getStackKey(recipe.outputs[0].item) === stackKey,
+      ) || null
+    );
+  }
+
+  // Resources taking one item apart gives back, a share of each recipe input
+  getSalvageReturns(item: Resource, returnRate: number): Resource[] {
+    const recipe = this.getSalvageRecipe(item);
+
+    if (!recipe) return [];
+
+    const returns = recipe.inputs.map((input) => {
+      const rarity = input.rarity || "common";
+      const resource = {
+        name: input.item || getRawResourceName(input.resourceType, rarity),
+        type: input.resourceType,
+        rarity,
+      };
+
+      return {
+        ...resource,
+        id: getStackKey(resource),
+        quantity: Math.floor(input.quantity * Math.min(returnRate, 1.0)),
+      };
+    });
+
+    return stackResources(returns.filter(({ quantity }) => quantity > 0));
+  }
+
+  // Start taking one crafted item apart
+  startSalvage(
+    playerId: string,
+    item: Resource,
+    returnRate: number = GAME_CONFIG.SALVAGE_RETURN_RATE,
+  ): SalvageOperation | null {
+    const recipe = this.getSalvageRecipe(item);
+    const returns = this.getSalvageReturns(item, returnRate);
+
+    if (
+      !recipe ||
+      returns.length === 0 ||
+      this.getPlayerSalvageOperations(playerId).length >=
+        GAME_CONFIG.SALVAGE_SLOTS
+    ) {
+      return null;
+    }
+
+    const operation: SalvageOperation = {
+      id: `salvage_${Date.now()}_${Math.random()}`,
+      recipeId: recipe.id,
+      playerId,
+      startTime: this.clock.now(),
+      duration: recipe.craftingTime * GAME_CONFIG.SALVAGE_TIME_FACTOR,
+      progress: 0,
+      isCompleted: false,
+      requiredResources: [{ ...item, quantity: 1 }],
+      returns,
+    };
+
+    this.activeSalvageOperations.set(operation.id, operation);
+
+    return operation;
+  }
+
+  // Update salvage progress
+  updateSalvage(): SalvageResult[] {
+    const results: SalvageResult[] = [];
+
+    this.activeSalvageOperations.forEach((operation, operationId) => {
+      const elapsed = this.clock.now() - operation.startTime;
+
+      operation.progress = Math.min(elapsed / operation.duration, 1.0);
+
+      if (operation.progress < 1.0) return;
+
+      operation.isCompleted = true;
+      results.push(this.completeSalvage(operation));
+      this.activeSalvageOperations.delete(operationId);
+    });
+
+    return results;
+  }
+
+  private completeSalvage(operation: SalvageOperation): SalvageResult {
+    const recipe = this.recipes.get(operation.recipeId);
+    const [item] = operation.requiredResources;
+    const experience = recipe
+      ? Math.floor(
+          this.getRecipeExperience(recipe) *
+            GAME_CONFIG.SALVAGE_EXPERIENCE_FACTOR,
+        )
+      : 0;
+
+    return {
+      success: true,
+      recipeId: operation.recipeId,
+      playerId: operation.playerId,
+      item,
+      returns: operation.returns,
+      experience,
+      message: `Salvage completed! Took apart ${item.name}.`,
+    };
+  }
+
+  // Cancel a salvage. Returns it so the item can be handed back
+  cancelSalvage(operationId: string): SalvageOperation | null {
+    const operation = this.activeSalvageOperations.get(operationId);
+
+    if (!operation || operation.isCompleted) return null;
+
+    this.activeSalvageOperations.delete(operationId);
+
+    return operation;
+  }
+
+  getPlayerSalvageOperations(playerId: string): SalvageOperation[] {
+    return Array.from(this.activeSalvageOperations.values()).filter(
+      (op) => op.playerId === playerId,
+    );
+  }
 
-    if (!operation || operation.isCompleted) {
+  // Get jobs waiting for a free slot, in the order they will start
+  getCraftingQueue(playerId: string): CraftingJob[] {
+    return this.craftingQueues.get(playerId) || [];
+  }
+
+  getCraftingSlots(playerId: string): number {
+    return this.craftingSlots.get(playerId) ?? GAME_CONFIG.CRAFTING_BASE_SLOTS;
+  }
+
+  // Change how many jobs the player can run at once. Newly opened slots
+  // pick up queued jobs immediately
+  setCraftingSlots(playerId: string, slots: number): void {
+    this.craftingSlots.set(playerId, slots);
+    this.startQueuedJobs(playerId, this.clock.now());
+  }
+
+  // Move a queued job to a new position in the player's queue
+  reorderCraftingQueue(
+    playerId: string,
+    jobId: string,
+    toIndex: number,
+  ): boolean {
+    const queue = [...this.getCraftingQueue(playerId)];
+    const fromIndex = queue.findIndex((job) => job.id === jobId);
+
+    if (fromIndex === -1 || toIndex < 0 || toIndex >= queue.length) {
       return false;
     }
 
-    this.activeCraftingOperations.delete(operationId);
-    this.craftingCallbacks.delete(operationId);
+    const [job] = queue.splice(fromIndex, 1);
+
+    queue.splice(toIndex, 0, job);
+    this.craftingQueues.set(playerId, queue);
 
     return true;
   }
 
+  // Cancel a running or queued job. Returns the job so its reserved
+  // resources can be refunded
+  cancelCrafting(jobId: string): CraftingJob | null {
+    const operation = this.activeCraftingOperations.get(jobId);
+
+    if (operation) {
+      if (operation.isCompleted) return null;
+
+      this.activeCraftingOperations.delete(jobId);
+      this.craftingCallbacks.delete(jobId);
+      this.startQueuedJobs(operation.playerId, this.clock.now());
+
+      return operation;
+    }
+
+    const job = this.serializeQueue().find((queued) => queued.id === jobId);
+
+    if (!job) return null;
+
+    this.craftingQueues.set(
+      job.playerId,
+      this.getCraftingQueue(job.playerId).filter(
+        (queued) => queued.id !== jobId,
+      ),
+    );
+
+    return job;
+  }
+
   // Register callback for crafting completion
   onCraftingComplete(
     operationId: string,
@@ -404,7 +748,10 @@ export class CraftingSystem {
   }
 
   // Calculate crafting efficiency based on traits and equipment
-  calculateCraftingEfficiency(playerTraits: any[], equipment: any[]): number {
+  calculateCraftingEfficiency(
+    playerTraits: any[],
+    equipment: EquipmentDefinition[],
+  ): number {
     let efficiency = 1.0;
 
     // Apply trait bonuses
@@ -435,16 +782,141 @@ export class CraftingSystem {
 
     if (!operation) return null;
 
-    const elapsed = Date.now() - operation.startTime;
+    const elapsed = this.clock.now() - operation.startTime;
     const progress = Math.min(elapsed / operation.duration, 1.0);
     const timeRemaining = Math.max(operation.duration - elapsed, 0);
 
     return { progress, timeRemaining };
   }
 
+  // Snapshot unfinished operations for saving
+  serializeOperations(): SavedCraftingOperation[] {
+    const now = this.clock.now();
+
+    return Array.from(this.activeCraftingOperations.values())
+      .filter((op) => !op.isCompleted)
+      .map(({ startTime, ...operation }) => ({
+        ...operation,
+        elapsed: now - startTime,
+      }));
+  }
+
+  // Snapshot in-flight refining batches for saving
+  serializeRefining(): SavedRefiningOperation[] {
+    const now = this.clock.now();
+
+    return Array.from(this.activeRefiningOperations.values())
+      .filter((op) => !op.isCompleted)
+      .map(({ startTime, ...operation }) => ({
+        ...operation,
+        elapsed: now - startTime,
+      }));
+  }
+
+  // Restore saved refining batches, counting time spent away as elapsed
+  restoreRefining(
+    savedOperations: SavedRefiningOperation[],
+    offlineTime: number = 0,
+  ): void {
+    const now = this.clock.now();
+
+    savedOperations.forEach(({ elapsed, ...operation }) => {
+      if (this.activeRefiningOperations.has(operation.id)) return;
+
+      this.activeRefiningOperations.set(operation.id, {
+        ...operation,
+        startTime: now - elapsed - offlineTime,
+      });
+    });
+  }
+  // Snapshot in-flight salvage operations for saving
+  serializeSalvage(): SavedSalvageOperation[] {
+    const now = this.clock.now();
+
+    return Array.from(this.activeSalvageOperations.values())
+      .filter((op) => !op.isCompleted)
+      .map(({ startTime, ...operation }) => ({
+        ...operation,
+        elapsed: now - startTime,
+      }));
+  }
+
+  // Restore saved salvage operations, counting time spent away as elapsed
+  restoreSalvage(
+    savedOperations: SavedSalvageOperation[],
+    offlineTime: number = 0,
+  ): void {
+    const now = this.clock.now();
+
+    savedOperations.forEach(({ elapsed, ...operation }) => {
+      if (this.activeSalvageOperations.has(operation.id)) return;
+
+      this.activeSalvageOperations.set(operation.id, {
+        ...operation,
+        startTime: now - elapsed - offlineTime,
+      });
+    });
+  }
+
+  // Snapshot every player's queue for saving
+  serializeQueue(): CraftingJob[] {
+    return Array.from(this.craftingQueues.values()).flat();
+  }
+
+  // Restore saved queues, starting any jobs that have a free slot
+  restoreQueue(savedJobs: CraftingJob[]): void {
+    savedJobs.forEach((job) => {
+      const queue = this.getCraftingQueue(job.playerId);
+
+      if (queue.some((queued) => queued.id === job.id)) return;
+
+      this.craftingQueues.set(job.playerId, [...queue, job]);
+    });
+
+    new Set(savedJobs.map((job) => job.playerId)).forEach((playerId) =>
+      this.startQueuedJobs(playerId, this.clock.now()),
+    );
+  }
+
+  // Count crafting jobs running and waiting, and refining batches, across all players
+  getOperationCounts(): {
+    activeOperations: number;
+    queuedOperations: number;
+    refiningOperations: number;
+    salvageOperations: number;
+  } {
+    return {
+      activeOperations: this.activeCraftingOperations.size,
+      queuedOperations: this.serializeQueue().length,
+      refiningOperations: this.activeRefiningOperations.size,
+      salvageOperations: this.activeSalvageOperations.size,
+    };
+  }
+
+  // Restore saved operations, counting time spent away as elapsed.
+  // Operations that finished in the meantime complete on the next update
+  restoreOperations(
+    savedOperations: SavedCraftingOperation[],
+    offlineTime: number = 0,
+  ): void {
+    const now = this.clock.now();
+
+    savedOperations.forEach(({ elapsed, ...operation }) => {
+      if (this.activeCraftingOperations.has(operation.id)) return;
+
+      this.activeCraftingOperations.set(operation.id, {
+        ...operation,
+        startTime: now - elapsed - offlineTime,
+      });
+    });
+  }
+
   // Clear all operations
   clearAllOperations(): void {
     this.activeCraftingOperations.clear();
     this.craftingCallbacks.clear();
+    this.craftingQueues.clear();
+    this.activeRefiningOperations.clear();
+    this.activeSalvageOperations.clear();
   }
 }
@@ -0,0 +1,123 @@
+import type { Resource } from "@/types/game";
+
+import { GAME_CONFIG } from "@/utils/constants";
+
+export interface EnergyState {
+  energy: number;
+  maxEnergy: number;
+}
+
+// Energy resource units to convert, cheapest first
+export interface RefuelPlan {
+  resource: Resource;
+  quantity: number;
+}
+
+// Ship energy gained from converting one unit of an energy resource
+export const ENERGY_PER_RESOURCE: Record<Resource["rarity"], number> = {
+  common: 10,
+  rare: 25,
+  epic: 60,
+  legendary: 150,
+};
+
+const RARITY_ORDER: Resource["rarity"][] = [
+  "common",
+  "rare",
+  "epic",
+  "legendary",
+];
+
+export class EnergySystem {
+  private energy: number;
+  private maxEnergy: number;
+  private regenRate: number;
+
+  constructor(
+    maxEnergy: number = GAME_CONFIG.SHIP_MAX_ENERGY,
+    regenRate: number = GAME_CONFIG.ENERGY_REGEN_RATE,
+  ) {
+    this.maxEnergy = maxEnergy;
+    this.energy = maxEnergy;
+    this.regenRate = regenRate;
+  }
+
+  getState(): EnergyState {
+    return { energy: this.energy, maxEnergy: this.maxEnergy };
+  }
+
+  hasEnergy(amount: number): boolean {
+    return this.energy >= amount;
+  }
+
+  // Spend energy for an action, nothing is spent if there isn't enough
+  consume(amount: number): boolean {
+    if (!this.hasEnergy(amount)) return false;
+
+    this.energy -= amount;
+
+    return true;
+  }
+
+  // Drain energy at a per-second rate. Returns false once the tank runs dry
+  consumeOverTime(ratePerSecond: number, deltaTime: number): boolean {
+    const amount = (ratePerSecond * deltaTime) / 1000;
+
+    if (this.energy <= 0) return false;
+
+    this.energy = Math.max(this.energy - amount, 0);
+
+    return true;
+  }
+
+  // Add energy up to the tank size, returns the amount actually added
+  restore(amount: number): number {
+    const restored = Math.min(amount, this.maxEnergy - this.energy);
+
+    this.energy += restored;
+
+    return restored;
+  }
+
+  refill(): void {
+    this.energy = this.maxEnergy;
+  }
+
+  // Passive regeneration, called once per fixed clock step
+  regenerate(deltaTime: number): void {
+    this.restore((this.regenRate * deltaTime) / 1000);
+  }
+
+  // Work out which energy resources to convert to fill the tank. Commons are
+  // used first, and no unit is converted if the tank is already full
+  planRefuel(inventory: Resource[]): RefuelPlan[] {
+    let missing = this.maxEnergy - this.energy;
+    const plan: RefuelPlan[] = [];
+    const fuel = inventory
+      .filter((resource) => resource.type === "energy")
+      .sort(
+        (a, b) =>
+          RARITY_ORDER.indexOf(a.rarity) - RARITY_ORDER.indexOf(b.rarity),
+      );
+
+    for (const resource of fuel) {
+      if (missing <= 0) break;
+
+      const perUnit = ENERGY_PER_RESOURCE[resource.rarity];
+      const quantity = Math.min(
+        Math.ceil(missing / perUnit),
+        resource.quantity,
+      );
+
+      plan.push({ resource, quantity });
+      missing -= quantity * perUnit;
+    }
+
+    return plan;
+  }
+
+  // Restore a saved energy level, clamped to the current tank size
+  restoreState(state: EnergyState): void {
+    this.energy = Math.min(Math.max(state.energy, 0), this.maxEnergy);
+  }
+}
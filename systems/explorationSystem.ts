@@ -2,6 +2,8 @@ import type { SpaceObject } from "@/types/game";
 
 import * as THREE from "three";
 
+import { GameClock } from "./gameClock";
+
 export interface ExplorationResult {
   success: boolean;
   discoveredObject?: SpaceObject;
@@ -29,8 +31,13 @@ export class ExplorationSystem {
   private lastPlayerPosition: THREE.Vector3 = new THREE.Vector3();
   private discoveryRadius: number = 5.0; // Distance to discover objects
   private locationRadius: number = 15.0; // Distance to count as new location (increased)
+  private clock: GameClock;
   // Notification system removed per user preference
 
+  constructor(clock: GameClock = new GameClock()) {
+    this.clock = clock;
+  }
+
   // Initialize exploration for a player
   initializeExploration(playerId: string): ExplorationProgress {
     const progress: ExplorationProgress = {
@@ -39,7 +46,7 @@ export class ExplorationSystem {
       discoveredObjects: new Set(),
       visitedLocations: [],
       totalDistance: 0,
-      startTime: Date.now(),
+      startTime: this.clock.now(),
     };
 
     this.explorationProgress.set(playerId, progress);
@@ -190,7 +197,7 @@ export class ExplorationSystem {
       discoveredObjects: progress.discoveredObjects.size,
       visitedLocations: progress.visitedLocations.length,
       totalDistance: progress.totalDistance,
-      explorationTime: Date.now() - progress.startTime,
+      explorationTime: this.clock.now() - progress.startTime,
     };
   }
 
@@ -223,6 +230,15 @@ export class ExplorationSystem {
     });
   }
 
+  // Mark objects found on an earlier visit, so they give no experience again
+  restoreDiscoveries(playerId: string, objectIds: string[]): void {
+    const progress =
+      this.explorationProgress.get(playerId) ??
+      this.initializeExploration(playerId);
+
+    objectIds.forEach((objectId) => progress.discoveredObjects.add(objectId));
+  }
+
   // Get discovered objects for a player
   getDiscoveredObjects(playerId: string): string[] {
     const progress = this.explorationProgress.get(playerId);
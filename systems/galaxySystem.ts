@@ -0,0 +1,212 @@
+import type { Resource, SpaceObject } from "@/types/game";
+import type { Galaxy, GalaxySector } from "@/utils/spaceGeneration";
+
+import { GameClock } from "./gameClock";
+
+import { GAME_CONFIG } from "@/utils/constants";
+import { SpaceGenerator, getMapDistance } from "@/utils/spaceGeneration";
+
+export interface WarpCost {
+  energy: number;
+  duration: number; // Game milliseconds in transit
+}
+
+export interface WarpJump {
+  fromSectorId: string;
+  toSectorId: string;
+  startTime: number;
+  duration: number;
+}
+
+export interface SectorObjectState {
+  id: string;
+  health?: number;
+  resources: Resource[]; // Remaining reserves
+  depletedAt?: number; // Game time it was mined out, its respawn timer runs from here
+}
+
+// How a sector differs from the procedural baseline its seed generates
+export interface SectorState {
+  sectorId: string;
+  seed?: number; // The changes are dropped if the sector's seed no longer matches
+  objects: SectorObjectState[]; // Only objects that differ from the baseline
+  discovered: string[]; // Ids of objects the player has discovered
+  spawned: SpaceObject[]; // Objects added after generation, as they first appeared
+}
+
+export interface SavedSectorState extends Omit<SectorState, "objects"> {
+  objects: (Omit<SectorObjectState, "depletedAt"> & { depletedFor?: number })[];
+}
+
+export interface SavedGalaxyState {
+  sectorId: string;
+  warp: (Omit<WarpJump, "startTime"> & { elapsed: number }) | null;
+  sectors?: SavedSectorState[]; // Missing from saves made before per-sector state
+}
+
+/**
+ * Where the ship is in the galaxy and any warp jump it is making. Jumps run
+ * on game time and only follow the galaxy's warp routes
+ */
+export class GalaxySystem {
+  private galaxy: Galaxy;
+  private sectorId: string;
+  private warp: WarpJump | null = null;
+  private sectorStates: Map<string, SectorState> = new Map(); // Sector ID -> changes since generation
+  private clock: GameClock;
+
+  constructor(
+    clock: GameClock = new GameClock(),
+    galaxy: Galaxy = SpaceGenerator.generateGalaxy(),
+  ) {
+    this.clock = clock;
+    this.galaxy = galaxy;
+    this.sectorId = galaxy.homeSectorId;
+  }
+
+  getGalaxy(): Galaxy {
+    return this.galaxy;
+  }
+
+  getSector(sectorId: string): GalaxySector | null {
+    return this.galaxy.sectors.find((sector) => sector.id === sectorId) ?? null;
+  }
+
+  // The sector the ship is in, or is leaving while a jump is under way
+  getCurrentSector(): GalaxySector {
+    return this.getSector(this.sectorId)!;
+  }
+
+  getWarp(): WarpJump | null {
+    return this.warp;
+  }
+
+  // Share of the current jump completed, 0 when not warping
+  getWarpProgress(): number {
+    if (!this.warp) return 0;
+
+    return Math.min(
+      (this.clock.now() - this.warp.startTime) / this.warp.duration,
+      1,
+    );
+  }
+
+  // Energy and time to jump from the current sector, null without a route
+  getWarpCost(sectorId: string): WarpCost | null {
+    const from = this.getCurrentSector();
+    const to = this.getSector(sectorId);
+
+    if (!to || !from.links.includes(sectorId)) return null;
+
+    const distance = getMapDistance(from.mapPosition, to.mapPosition);
+
+    return {
+      // Never more than a full tank, so every route can be flown
+      energy: Math.min(
+        Math.ceil(
+          GAME_CONFIG.WARP_BASE_ENERGY +
+            distance * GAME_CONFIG.WARP_ENERGY_PER_UNIT,
+        ),
+        GAME_CONFIG.SHIP_MAX_ENERGY,
+      ),
+      duration: Math.round(
+        GAME_CONFIG.WARP_BASE_DURATION +
+          distance * GAME_CONFIG.WARP_DURATION_PER_UNIT,
+      ),
+    };
+  }
+
+  // Begin a jump along a warp route. Energy is the caller's to take
+  startWarp(sectorId: string): WarpJump | null {
+    const cost = this.getWarpCost(sectorId);
+
+    if (this.warp || !cost) return null;
+
+    this.warp = {
+      fromSectorId: this.sectorId,
+      toSectorId: sectorId,
+      startTime: this.clock.now(),
+      duration: cost.duration,
+    };
+
+    return this.warp;
+  }
+
+  // Finish a jump whose time is up, returning the sector arrived in
+  updateWarp(): GalaxySector | null {
+    if (!this.warp || this.getWarpProgress() < 1) return null;
+
+    this.sectorId = this.warp.toSectorId;
+    this.warp = null;
+
+    return this.getCurrentSector();
+  }
+
+  // Changes to apply over a sector's generated baseline, null when there are
+  // none or they were made to a sector generated from a different seed
+  getSectorState(sectorId: string): SectorState | null {
+    const state = this.sectorStates.get(sectorId);
+    const sector = this.getSector(sectorId);
+
+    return state && sector && state.seed === sector.config.seed ? state : null;
+  }
+
+  setSectorState(state: SectorState): void {
+    this.sectorStates.set(state.sectorId, state);
+  }
+
+  serializeState(): SavedGalaxyState {
+    const now = this.clock.now();
+    const sectors = Array.from(this.sectorStates.values()).map((state) => ({
+      ...state,
+      objects: state.objects.map(({ depletedAt, ...object }) =>
+        depletedAt === undefined
+          ? object
+          : { ...object, depletedFor: now - depletedAt },
+      ),
+    }));
+
+    if (!this.warp) return { sectorId: this.sectorId, warp: null, sectors };
+
+    const { startTime, ...warp } = this.warp;
+
+    return {
+      sectorId: this.sectorId,
+      warp: { ...warp, elapsed: now - startTime },
+      sectors,
+    };
+  }
+
+  // Restore the ship's sector and the changes made across the galaxy. Time
+  // spent away counts towards a jump and respawn timers, so a jump that
+  // finished meanwhile arrives on the next update
+  restoreState(state: SavedGalaxyState, offlineTime: number = 0): void {
+    if (!this.getSector(state.sectorId)) return;
+
+    const now = this.clock.now();
+
+    this.sectorId = state.sectorId;
+    this.sectorStates = new Map(
+      (state.sectors || []).map((sector) => [
+        sector.sectorId,
+        {
+          ...sector,
+          objects: sector.objects.map(({ depletedFor, ...object }) =>
+            depletedFor === undefined
+              ? object
+              : { ...object, depletedAt: now - depletedFor - offlineTime },
+          ),
+        },
+      ]),
+    );
+
+    if (state.warp && this.getSector(state.warp.toSectorId)) {
+      const { elapsed, ...warp } = state.warp;
+
+      this.warp = {
+        ...warp,
+        startTime: now - elapsed - offlineTime,
+      };
+    }
+  }
+}
@@ -0,0 +1,106 @@
+export interface GameClockConfig {
+  fixedTimeStep: number; // Simulation step size in milliseconds
+  maxStepsPerTick: number; // Fixed steps per tick before the remainder is flushed in one step
+  timeScale: number; // Game milliseconds per real millisecond
+}
+
+/**
+ * Deterministic game clock driving all game systems.
+ *
+ * Real frame time is accumulated and consumed in fixed-size steps, so game
+ * time only moves while the clock is running and always in the same
+ * increments regardless of frame rate. Systems read `now()` instead of
+ * `Date.now()`, which lets the clock be paused, sped up or stepped by hand.
+ */
+export class GameClock {
+  private config: GameClockConfig;
+  private currentTime: number;
+  private accumulator: number = 0;
+  private paused: boolean = false;
+
+  constructor(config: Partial<GameClockConfig> = {}, startTime: number = 0) {
+    this.config = {
+      fixedTimeStep: 1000 / 60, // 60 simulation steps per second
+      maxStepsPerTick: 240,
+      timeScale: 1.0,
+      ...config,
+    };
+
+    this.currentTime = startTime;
+  }
+
+  // Current game time in milliseconds
+  now(): number {
+    return this.currentTime;
+  }
+
+  // Feed real elapsed time and run the fixed steps it covers
+  tick(realDeltaTime: number, onStep: (stepTime: number) => void): number {
+    if (this.paused || realDeltaTime <= 0) return 0;
+
+    this.accumulator += realDeltaTime * this.config.timeScale;
+
+    return this.consumeAccumulator(onStep);
+  }
+
+  // Advance game time by an exact amount, ignoring pause and time scale (tests, simulations)
+  step(gameTime: number, onStep?: (stepTime: number) => void): number {
+    if (gameTime <= 0) return 0;
+
+    this.accumulator += gameTime;
+
+    return this.consumeAccumulator(onStep);
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  setTimeScale(timeScale: number): void {
+    this.config.timeScale = Math.max(0, timeScale);
+  }
+
+  getTimeScale(): number {
+    return this.config.timeScale;
+  }
+
+  getFixedTimeStep(): number {
+    return this.config.fixedTimeStep;
+  }
+
+  // Run whole fixed steps from the accumulator, flushing any backlog beyond
+  // maxStepsPerTick as a single catch-up step so long frames don't lose time
+  private consumeAccumulator(onStep?: (stepTime: number) => void): number {
+    const { fixedTimeStep, maxStepsPerTick } = this.config;
+    let steps = 0;
+
+    while (this.accumulator >= fixedTimeStep && steps < maxStepsPerTick) {
+      this.accumulator -= fixedTimeStep;
+      this.currentTime += fixedTimeStep;
+      steps++;
+
+      if (onStep) onStep(fixedTimeStep);
+    }
+
+    if (this.accumulator >= fixedTimeStep) {
+      const catchUpTime =
+        Math.floor(this.accumulator / fixedTimeStep) * fixedTimeStep;
+
+      this.accumulator -= catchUpTime;
+      this.currentTime += catchUpTime;
+      steps++;
+
+      if (onStep) onStep(catchUpTime);
+    }
+
+    return steps;
+  }
+}
@@ -0,0 +1,107 @@
+import type { Resource, SpaceObject } from "@/types/game";
+import type { BlueprintSourceType } from "@/data/blueprints";
+import type { Mission } from "@/stores/gameStore";
+import type { MiningResult } from "./miningSystem";
+import type { TradeSide } from "./marketSystem";
+import type { GalaxySector, GeneratedSector } from "@/utils/spaceGeneration";
+import type {
+  CraftingResult,
+  RefiningResult,
+  SalvageResult,
+} from "./craftingSystem";
+
+import * as THREE from "three";
+
+// Payloads for every domain event, keyed by event name
+export interface GameEventMap {
+  MiningCompleted: { result: MiningResult };
+  ItemCrafted: { result: CraftingResult };
+  MaterialRefined: { result: RefiningResult };
+  ItemSalvaged: { result: SalvageResult };
+  ObjectDamaged: { object: SpaceObject; damage: number };
+  ObjectDepleted: { object: SpaceObject };
+  ObjectRespawned: { object: SpaceObject };
+  ObjectSpawned: { object: SpaceObject };
+  ObjectDiscovered: { object: SpaceObject; experience: number };
+  LocationVisited: { location: THREE.Vector3; experience: number };
+  ExperienceGained: { baseAmount: number; amount: number };
+  LevelUp: { previousLevel: number; level: number };
+  BlueprintLearned: { recipeId: string; source: BlueprintSourceType };
+  EquipmentBroken: { item: Resource };
+  StationDocked: { station: SpaceObject };
+  StationUndocked: { station: SpaceObject };
+  MarketTrade: {
+    stationId: string;
+    item: Resource; // Quantity is the amount traded
+    side: TradeSide;
+    credits: number;
+  };
+  WarpStarted: { from: GalaxySector; to: GalaxySector; duration: number };
+  SectorEntered: { sector: GeneratedSector }; // Objects already handed to the systems
+  MissionProgressed: { mission: Mission; progress: number; completed: boolean };
+}
+
+export type GameEventType = keyof GameEventMap;
+
+export type GameEventHandler<T extends GameEventType> = (
+  payload: GameEventMap[T],
+) => unknown;
+
+// Handlers are stored untyped and looked up by event name
+type AnyGameEventHandler = (payload: GameEventMap[GameEventType]) => unknown;
+
+/**
+ * Typed publish/subscribe bus for game domain events.
+ *
+ * Systems emit what happened; missions, achievements, guilds, loyalty and UI
+ * subscribe independently. A failing subscriber never stops the others.
+ */
+export class GameEventBus {
+  private handlers: Map<GameEventType, Set<AnyGameEventHandler>> = new Map();
+
+  // Subscribe to an event, returns an unsubscribe function
+  on<T extends GameEventType>(
+    type: T,
+    handler: GameEventHandler<T>,
+  ): () => void {
+    let handlers = this.handlers.get(type);
+
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+
+    handlers.add(handler as AnyGameEventHandler);
+
+    return () => this.off(type, handler);
+  }
+
+  off<T extends GameEventType>(type: T, handler: GameEventHandler<T>): void {
+    this.handlers.get(type)?.delete(handler as AnyGameEventHandler);
+  }
+
+  emit<T extends GameEventType>(type: T, payload: GameEventMap[T]): void {
+    const handlers = this.handlers.get(type);
+
+    if (!handlers) return;
+
+    // Copy so handlers can unsubscribe while the event is being delivered
+    Array.from(handlers).forEach((handler) => {
+      try {
+        const outcome = handler(payload);
+
+        if (outcome instanceof Promise) {
+          outcome.catch(() => {});
+        }
+      } catch (error) {}
+    });
+  }
+
+  // Remove all subscribers (for cleanup)
+  clear(): void {
+    this.handlers.clear();
+  }
+}
+
+// Shared bus used by the game scene and its subscribers
+export const gameEvents = new GameEventBus();
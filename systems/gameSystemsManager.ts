@@ -1,13 +1,80 @@
-import type { SpaceObject, Resource } from "@/types/game";
+import type { ItemQuality, SpaceObject, Resource } from "@/types/game";
 
 import * as THREE from "three";
 
-import { MiningSystem, type MiningResult } from "./miningSystem";
-import { CraftingSystem, type CraftingResult } from "./craftingSystem";
+import { GameClock } from "./gameClock";
+import {
+  MiningSystem,
+  type MiningResult,
+  type MiningYieldEstimate,
+  type SavedMiningOperation,
+} from "./miningSystem";
+import {
+  CARGO_UPGRADES,
+  CraftingSystem,
+  type CraftingJob,
+  type CraftingResult,
+  type RefiningResult,
+  type SalvageResult,
+  type SavedCraftingOperation,
+  type SavedRefiningOperation,
+  type SavedSalvageOperation,
+} from "./craftingSystem";
 import { ExplorationSystem, type ExplorationResult } from "./explorationSystem";
-
+import {
+  ENERGY_PER_RESOURCE,
+  EnergySystem,
+  type EnergyState,
+} from "./energySystem";
+import {
+  MarketSystem,
+  type MarketListing,
+  type SavedMarketState,
+} from "./marketSystem";
+import {
+  GalaxySystem,
+  type SavedGalaxyState,
+  type WarpCost,
+  type WarpJump,
+} from "./galaxySystem";
+import { GameEventBus, gameEvents } from "./gameEvents";
+
+import { rngService } from "@/services/rngService";
 import { useGameStore } from "@/stores/gameStore";
-import { useItemEffectsStore } from "@/stores/itemEffectsStore";
+import { useBlueprintStore } from "@/stores/blueprintStore";
+import { useEquipmentStore } from "@/stores/equipmentStore";
+import {
+  useItemEffectsStore,
+  type ItemEffect,
+} from "@/stores/itemEffectsStore";
+import { useWarehouseStore } from "@/stores/warehouseStore";
+import { gameStorage } from "@/services/storageAdapter";
+import { GAME_CONFIG } from "@/utils/constants";
+import {
+  allocateRecipeInputs,
+  getCraftingQualityScore,
+  getCraftingSlots,
+  getQualityForScore,
+  getRemainingReserves,
+} from "@/utils/gameHelpers";
+import {
+  getBlueprintPrice,
+  getDiscoveryBlueprints,
+  type BlueprintSourceType,
+} from "@/data/blueprints";
+import {
+  getDurability,
+  getEquipmentDefinition,
+  type EquipmentEffects,
+  type EquipmentSlot,
+} from "@/data/equipment";
+import { getRecipeName } from "@/data/recipes";
+import {
+  SpaceGenerator,
+  type Galaxy,
+  type GalaxySector,
+  type GeneratedSector,
+} from "@/utils/spaceGeneration";
 
 export interface GameSystemsConfig {
   enableMining: boolean;
@@ -15,30 +82,55 @@ export interface GameSystemsConfig {
   enableExploration: boolean;
   enableAutoSave: boolean;
   autoSaveInterval: number;
+  seed?: number; // Session seed for gameplay randomness, random when omitted
+}
+
+// Values the systems read from outside the game stores. Outcomes are
+// published on the event bus instead of being pushed through callbacks
+export interface GameSystemsProviders {
+  getLoyaltyMultiplier?: () => number;
+  getBlueprintStudyChance?: () => number; // Per finished craft, from traits
+  getCrystalPurity?: () => number; // Crystal refining output multiplier, from traits
+  getCraftingQuality?: () => number; // Crafted item quality bonus, from traits
+  getSalvageBonus?: () => number; // Salvage return multiplier, from traits and guild
 }
 
-export interface GameSystemsCallbacks {
-  onResourceAdded?: (resource: Resource) => void;
-  onExperienceGained?: (experience: number) => void;
-  onMiningComplete?: (result: MiningResult) => void;
-  onCraftingComplete?: (result: CraftingResult) => void;
-  onExplorationComplete?: (result: ExplorationResult) => void;
-  onMissionProgress?: (missionType: string, progress: number) => void;
-  onGetLoyaltyMultiplier?: () => number;
+// In-flight operations and ship energy saved with the game state so they survive a reload
+export interface GameSystemsSnapshot {
+  savedAt: number; // Wall-clock time of the save, used to count time spent away
+  mining: SavedMiningOperation[];
+  crafting: SavedCraftingOperation[];
+  craftingQueue?: CraftingJob[]; // Missing from saves made before the crafting queue
+  refining?: SavedRefiningOperation[]; // Missing from saves made before refining
+  salvage?: SavedSalvageOperation[]; // Missing from saves made before salvage
+  energy?: EnergyState; // Missing from saves made before ship energy
+  market?: SavedMarketState; // Missing from saves made before station markets
+  galaxy?: SavedGalaxyState; // Missing from saves made before warp travel
 }
 
 export class GameSystemsManager {
   private miningSystem: MiningSystem;
   private craftingSystem: CraftingSystem;
   private explorationSystem: ExplorationSystem;
+  private energySystem: EnergySystem;
+  private marketSystem: MarketSystem;
+  private galaxySystem: GalaxySystem;
+  private gameClock: GameClock;
   private config: GameSystemsConfig;
-  private callbacks: GameSystemsCallbacks;
+  private providers: GameSystemsProviders;
+  private eventBus: GameEventBus;
+  private dockedStation: SpaceObject | null = null; // Station services are open while docked
+  private loadedSectorId: string | null = null;
+  private sectorBaseline: SpaceObject[] = []; // Loaded sector's objects as generated or spawned
+  private spawnedObjects: SpaceObject[] = [];
   private updateInterval: number | null = null;
   private autoSaveInterval: number | null = null;
 
   constructor(
     config: Partial<GameSystemsConfig> = {},
-    callbacks: GameSystemsCallbacks = {},
+    providers: GameSystemsProviders = {},
+    clock: GameClock = new GameClock(),
+    events: GameEventBus = gameEvents,
   ) {
     this.config = {
       enableMining: true,
@@ -49,10 +141,21 @@ export class GameSystemsManager {
       ...config,
     };
 
-    this.callbacks = callbacks;
-    this.miningSystem = new MiningSystem();
-    this.craftingSystem = new CraftingSystem();
-    this.explorationSystem = new ExplorationSystem();
+    this.providers = providers;
+    this.gameClock = clock;
+    this.eventBus = events;
+
+    // Seed before the systems take their random streams
+    if (this.config.seed !== undefined) {
+      rngService.setSeed(this.config.seed);
+    }
+
+    this.miningSystem = new MiningSystem(clock);
+    this.craftingSystem = new CraftingSystem(clock);
+    this.explorationSystem = new ExplorationSystem(clock);
+    this.energySystem = new EnergySystem();
+    this.marketSystem = new MarketSystem(clock);
+    this.galaxySystem = new GalaxySystem(clock);
   }
 
   // Initialize the game systems
@@ -60,6 +163,15 @@ export class GameSystemsManager {
     // Don't start internal update loop - let the main scene handle updates
     // this.startUpdateLoop();
 
+    // Resume operations that were still running when the game was closed
+    const { savedOperations } = useGameStore.getState();
+
+    if (savedOperations) {
+      this.restoreSnapshot(savedOperations);
+    }
+
+    this.syncCraftingSlots();
+
     // Start auto-save if enabled
     if (this.config.enableAutoSave) {
       this.startAutoSave();
@@ -71,30 +183,88 @@ export class GameSystemsManager {
     const update = () => {
       const deltaTime = 16; // Assuming 60 FPS
 
-      this.update(deltaTime);
+      this.updateSystems(deltaTime);
       this.updateInterval = requestAnimationFrame(update);
     };
 
     update();
   }
 
-  // Public method to update all systems - called from main animation loop
+  // Public method to update all systems - called from main animation loop.
+  // Real frame time goes through the game clock, which runs update() in fixed steps
   updateSystems(deltaTime: number): void {
-    this.update(deltaTime);
+    this.gameClock.tick(deltaTime, (stepTime) => this.update(stepTime));
+  }
+
+  // Advance game time by hand, bypassing pause and time scale (tests, simulations)
+  stepSystems(gameTime: number): void {
+    this.gameClock.step(gameTime, (stepTime) => this.update(stepTime));
   }
 
-  // Main update function
+  // Game clock controls
+  pause(): void {
+    this.gameClock.pause();
+  }
+
+  resume(): void {
+    this.gameClock.resume();
+  }
+
+  isPaused(): boolean {
+    return this.gameClock.isPaused();
+  }
+
+  setTimeScale(timeScale: number): void {
+    this.gameClock.setTimeScale(timeScale);
+  }
+
+  // Session seed - together with the player's inputs it replays the same yields
+  getSeed(): number {
+    return rngService.getSeed();
+  }
+
+  // Main update function - runs once per fixed clock step
   private update(deltaTime: number): void {
+    let operationsFinished = false;
+
+    this.energySystem.regenerate(deltaTime);
+
+    if (this.galaxySystem.updateWarp()) {
+      this.eventBus.emit("SectorEntered", { sector: this.loadCurrentSector() });
+      operationsFinished = true;
+    }
+
     if (this.config.enableMining) {
       const miningResults = this.miningSystem.updateMining(deltaTime);
 
       this.handleMiningResults(miningResults);
+      operationsFinished = operationsFinished || miningResults.length > 0;
+
+      this.miningSystem.updateRespawns().forEach((object) => {
+        this.eventBus.emit("ObjectRespawned", { object });
+      });
     }
 
     if (this.config.enableCrafting) {
       const craftingResults = this.craftingSystem.updateCrafting(deltaTime);
 
       this.handleCraftingResults(craftingResults);
+      operationsFinished = operationsFinished || craftingResults.length > 0;
+
+      const refiningResults = this.craftingSystem.updateRefining();
+
+      this.handleRefiningResults(refiningResults);
+      operationsFinished = operationsFinished || refiningResults.length > 0;
+
+      const salvageResults = this.craftingSystem.updateSalvage();
+
+      this.handleSalvageResults(salvageResults);
+      operationsFinished = operationsFinished || salvageResults.length > 0;
+    }
+
+    // Drop settled operations from the save so they aren't granted twice
+    if (operationsFinished) {
+      this.persistOperations();
     }
   }
 
@@ -102,120 +272,215 @@ export class GameSystemsManager {
   private handleMiningResults(results: MiningResult[]): void {
     results.forEach((result) => {
       if (result.success) {
-        // Add resources to player inventory via callback
-        result.resources.forEach((resource) => {
-          if (this.callbacks.onResourceAdded) {
-            this.callbacks.onResourceAdded(resource);
-          }
-        });
+        result.overflow = this.storeResources(result.resources);
+        this.grantExperience(result.experience);
 
-        // Update player experience via callback
-        if (result.experience > 0 && this.callbacks.onExperienceGained) {
-          this.callbacks.onExperienceGained(result.experience);
-        }
+        this.eventBus.emit("MiningCompleted", { result });
+        this.publishObjectDamage(result);
+      }
+    });
+  }
 
-        // Notify mining completion
-        if (this.callbacks.onMiningComplete) {
-          this.callbacks.onMiningComplete(result);
-        }
+  // Let the scene show the target's new health, or its destruction
+  private publishObjectDamage(result: MiningResult): void {
+    const object = this.miningSystem.getSpaceObject(result.targetObjectId);
 
-        // Track mission progress for mining
-        if (this.callbacks.onMissionProgress) {
-          // Track general mining progress
-          this.callbacks.onMissionProgress("mining", 1);
+    if (!object || result.damage <= 0) return;
 
-          // Track specific resource type mining for targeted missions
-          const resourceTypes = result.resources.map((r) => r.type);
-          const uniqueResourceTypes = Array.from(new Set(resourceTypes));
+    this.eventBus.emit("ObjectDamaged", { object, damage: result.damage });
 
-          uniqueResourceTypes.forEach((resourceType) => {
-            if (this.callbacks.onMissionProgress) {
-              this.callbacks.onMissionProgress(`mining_${resourceType}`, 1);
-            }
-          });
-        }
-      }
-    });
+    if (result.depleted) {
+      this.eventBus.emit("ObjectDepleted", { object });
+    }
   }
 
   // Handle crafting results
   private handleCraftingResults(results: CraftingResult[]): void {
     results.forEach((result) => {
       if (result.success) {
-        // Add crafted item to inventory via callback
-        if (this.callbacks.onResourceAdded) {
-          this.callbacks.onResourceAdded(result.item);
+        const cargoUpgrade = CARGO_UPGRADES[result.recipeId];
+
+        // Hold upgrades are fitted straight away instead of taking up space
+        if (cargoUpgrade) {
+          useGameStore
+            .getState()
+            .raiseCargoCapacity(cargoUpgrade * result.item.quantity);
+          result.overflow = this.storeResources(result.bonusItems || []);
+        } else {
+          result.overflow = this.storeResources([
+            result.item,
+            ...(result.bonusItems || []),
+          ]);
         }
+        this.grantExperience(result.experience);
 
-        // Add bonus items if any
-        if (result.bonusItems) {
-          result.bonusItems.forEach((item) => {
-            if (this.callbacks.onResourceAdded) {
-              this.callbacks.onResourceAdded(item);
-            }
-          });
-        }
+        this.eventBus.emit("ItemCrafted", { result });
+        this.studyBlueprints(result.playerId);
+      }
+    });
+  }
 
-        // Update player experience via callback
-        if (result.experience > 0 && this.callbacks.onExperienceGained) {
-          this.callbacks.onExperienceGained(result.experience);
-        }
+  // Store refined materials in the hold
+  private handleRefiningResults(results: RefiningResult[]): void {
+    results.forEach((result) => {
+      result.overflow = this.storeResources([result.item]);
+      this.grantExperience(result.experience);
 
-        // Notify crafting completion
-        if (this.callbacks.onCraftingComplete) {
-          this.callbacks.onCraftingComplete(result);
-        }
+      this.eventBus.emit("MaterialRefined", { result });
+    });
+  }
 
-        // Track mission progress for crafting
-        if (this.callbacks.onMissionProgress) {
-          this.callbacks.onMissionProgress("crafting", 1);
-        }
+  // Store what salvage gave back in the hold
+  private handleSalvageResults(results: SalvageResult[]): void {
+    results.forEach((result) => {
+      result.overflow = this.storeResources(result.returns);
+      this.grantExperience(result.experience);
+
+      this.eventBus.emit("ItemSalvaged", { result });
+    });
+  }
+
+  // Blueprint Mastery gives each finished craft a chance to work out a
+  // blueprint the player's level allows but they haven't learned yet
+  private studyBlueprints(playerId: string): void {
+    const chance = this.providers.getBlueprintStudyChance?.() ?? 0;
+
+    if (chance <= 0) return;
+
+    const level = useGameStore.getState().player?.level ?? 1;
+    const known = useBlueprintStore.getState().getKnownBlueprints(playerId);
+    const candidates = this.craftingSystem
+      .getAvailableRecipes(level)
+      .map((recipe) => recipe.id)
+      .filter((recipeId) => !known.includes(recipeId));
+    const recipeId = this.craftingSystem.rollBlueprintStudy(chance, candidates);
+
+    if (recipeId) {
+      this.learnBlueprint(playerId, recipeId, "study");
+    }
+  }
+
+  // Teach the player a blueprint, announcing it if it wasn't already known
+  private learnBlueprint(
+    playerId: string,
+    recipeId: string,
+    source: BlueprintSourceType,
+  ): boolean {
+    const learned = useBlueprintStore
+      .getState()
+      .learnBlueprint(playerId, recipeId);
+
+    if (learned) {
+      this.eventBus.emit("BlueprintLearned", { recipeId, source });
+    }
+
+    return learned;
+  }
+
+  // Put resources in the cargo hold, returning whatever didn't fit. Docked
+  // ships send what the hold can't take to the station's warehouse
+  private storeResources(resources: Resource[]): Resource[] {
+    const { addResource } = useGameStore.getState();
+    const { storeResource } = useWarehouseStore.getState();
+    const overflow: Resource[] = [];
+
+    resources.forEach((resource) => {
+      const stored = addResource(resource);
+      const remaining = resource.quantity - stored;
+      const warehoused =
+        remaining > 0 && this.dockedStation
+          ? storeResource(this.dockedStation.id, {
+              ...resource,
+              quantity: remaining,
+            })
+          : 0;
+
+      if (stored + warehoused < resource.quantity) {
+        overflow.push({
+          ...resource,
+          quantity: resource.quantity - stored - warehoused,
+        });
       }
     });
+
+    return overflow;
+  }
+
+  // Award experience with loyalty and item effect multipliers applied
+  private grantExperience(baseAmount: number): void {
+    if (baseAmount <= 0) return;
+
+    const gameStore = useGameStore.getState();
+    const itemMultipliers = useItemEffectsStore
+      .getState()
+      .getActiveMultipliers();
+    const totalMultiplier =
+      this.getLoyaltyMultiplier() * itemMultipliers.experienceBoost;
+    const amount = Math.floor(baseAmount * totalMultiplier);
+    const previousLevel = gameStore.player?.level;
+
+    gameStore.updatePlayerExperience(amount);
+    this.eventBus.emit("ExperienceGained", { baseAmount, amount });
+
+    const level = useGameStore.getState().player?.level;
+
+    if (
+      previousLevel !== undefined &&
+      level !== undefined &&
+      level > previousLevel
+    ) {
+      this.eventBus.emit("LevelUp", { previousLevel, level });
+      this.syncCraftingSlots();
+    }
+  }
+
+  // Give the player as many crafting slots as their level allows
+  private syncCraftingSlots(): void {
+    const { player } = useGameStore.getState();
+
+    if (player) {
+      this.craftingSystem.setCraftingSlots(
+        player.id,
+        getCraftingSlots(player.level),
+      );
+    }
   }
 
-  // Update space objects for mining and exploration systems
-  updateSpaceObjects(objects: SpaceObject[]): void {
-    this.miningSystem.updateSpaceObjects(objects);
+  private getLoyaltyMultiplier(): number {
+    return this.providers.getLoyaltyMultiplier?.() ?? 1.0;
+  }
+
+  // Update space objects for mining and exploration systems. Depleted objects
+  // come back after the sector's respawn time (0 turns respawning off)
+  updateSpaceObjects(objects: SpaceObject[], respawnTime?: number): void {
+    this.miningSystem.updateSpaceObjects(objects, respawnTime);
     if (this.config.enableExploration) {
       this.explorationSystem.updateSpaceObjects(objects);
     }
   }
 
+  // Current state of a space object, including mining damage
+  getSpaceObject(objectId: string): SpaceObject | null {
+    return this.miningSystem.getSpaceObject(objectId);
+  }
+
   // Mining operations
   startMining(playerId: string, targetObject: SpaceObject): boolean {
     if (!this.config.enableMining) return false;
 
-    const canMine = this.miningSystem.canStartMining(playerId, targetObject);
+    const canMine = this.canStartMining(playerId, targetObject);
 
     if (!canMine.canMine) {
       return false;
     }
 
-    // Calculate efficiency based on player traits, loyalty tier, and item effects
-    const gameStore = useGameStore.getState();
-    const itemEffectsStore = useItemEffectsStore.getState();
-
-    // Get base efficiency from traits and equipment
-    let efficiency = this.miningSystem.calculateMiningEfficiency([], []); // Would use actual player data
-
-    // Apply item effect bonuses (additive to prevent exponential growth)
-    const itemMultipliers = itemEffectsStore.getActiveMultipliers();
-
-    efficiency += itemMultipliers.miningEfficiency - 1.0; // Convert to additive
-    efficiency += itemMultipliers.resourceYield - 1.0; // Convert to additive
-
-    // Get loyalty multiplier for bonuses
-    let loyaltyMultiplier = 1.0;
-
-    if (this.callbacks.onGetLoyaltyMultiplier) {
-      loyaltyMultiplier = this.callbacks.onGetLoyaltyMultiplier();
-      // Apply loyalty bonus additively and cap at 2.0x total efficiency
-      efficiency += loyaltyMultiplier - 1.0;
-    }
-
-    // Cap final efficiency at 3.0x (200% bonus maximum)
-    efficiency = Math.min(efficiency, 3.0);
+    const efficiency = this.getMiningEfficiency();
+    const loyaltyMultiplier = this.getLoyaltyMultiplier();
+    const existingIds = new Set(
+      this.miningSystem
+        .getPlayerMiningOperations(playerId)
+        .map((operation) => operation.id),
+    );
 
     const operation = this.miningSystem.startMining(
       playerId,
@@ -224,9 +489,19 @@ export class GameSystemsManager {
       loyaltyMultiplier,
     );
 
+    // Starting a target that's already being mined hands back its operation,
+    // which was paid for when it began
+    if (operation && existingIds.has(operation.id)) {
+      return true;
+    }
+
     if (operation) {
+      this.energySystem.consume(GAME_CONFIG.MINING_ENERGY_COST);
+      this.wearEquipment("miningBonus");
+
       // Set up completion callback
       this.miningSystem.onMiningComplete(operation.id, (result) => {});
+      this.persistOperations();
 
       return true;
     }
@@ -234,8 +509,61 @@ export class GameSystemsManager {
     return false;
   }
 
+  // Check whether mining can start, with the reason when it can't
+  canStartMining(
+    playerId: string,
+    targetObject: SpaceObject,
+  ): { canMine: boolean; reason?: string } {
+    if (this.galaxySystem.getWarp()) {
+      return { canMine: false, reason: "Can't mine during a warp jump" };
+    }
+
+    return this.miningSystem.canStartMining(
+      playerId,
+      targetObject,
+      this.energySystem.getState().energy,
+    );
+  }
+
+  // Expected yield of mining an object now, with the player's current bonuses
+  getEstimatedYield(targetObject: SpaceObject): MiningYieldEstimate {
+    return this.miningSystem.getEstimatedYield(
+      targetObject,
+      this.getMiningEfficiency(),
+    );
+  }
+
+  // Calculate efficiency based on player traits, equipment, loyalty tier, and item effects
+  private getMiningEfficiency(): number {
+    const itemEffectsStore = useItemEffectsStore.getState();
+
+    // Get base efficiency from traits and equipment
+    let efficiency = this.miningSystem.calculateMiningEfficiency(
+      [], // Would use actual player traits
+      useEquipmentStore.getState().getEquippedDefinitions(),
+    );
+
+    // Apply item effect bonuses (additive to prevent exponential growth)
+    const itemMultipliers = itemEffectsStore.getActiveMultipliers();
+
+    efficiency += itemMultipliers.miningEfficiency - 1.0; // Convert to additive
+    efficiency += itemMultipliers.resourceYield - 1.0; // Convert to additive
+
+    // Apply loyalty bonus additively
+    efficiency += this.getLoyaltyMultiplier() - 1.0;
+
+    // Cap final efficiency at 3.0x (200% bonus maximum)
+    return Math.min(efficiency, 3.0);
+  }
+
   cancelMining(operationId: string): boolean {
-    return this.miningSystem.cancelMining(operationId);
+    const cancelled = this.miningSystem.cancelMining(operationId);
+
+    if (cancelled) {
+      this.persistOperations();
+    }
+
+    return cancelled;
   }
 
   getPlayerMiningOperations(playerId: string) {
@@ -246,18 +574,24 @@ export class GameSystemsManager {
     return this.miningSystem.getMiningProgress(operationId);
   }
 
-  // Crafting operations
-  startCrafting(
+  // Crafting operations. Resources and energy are taken when the job is
+  // queued and refunded if it is cancelled before finishing
+  queueCrafting(
     playerId: string,
     recipeId: string,
     playerResources: Resource[],
-  ): boolean {
-    if (!this.config.enableCrafting) return false;
+  ): CraftingJob | null {
+    if (!this.config.enableCrafting) return null;
 
     const recipe = this.craftingSystem.getRecipe(recipeId);
 
-    if (!recipe) {
-      return false;
+    if (
+      !recipe ||
+      (recipe.stationOnly && !this.dockedStation) ||
+      !useBlueprintStore.getState().hasBlueprint(playerId, recipeId) ||
+      !this.craftingSystem.canQueueCrafting(playerId)
+    ) {
+      return null;
     }
 
     const canCraft = this.craftingSystem.canCraftRecipe(
@@ -265,62 +599,802 @@ export class GameSystemsManager {
       playerResources,
     );
 
-    if (!canCraft.canCraft) {
-      return false;
+    if (
+      !canCraft.canCraft ||
+      !this.energySystem.hasEnergy(GAME_CONFIG.CRAFTING_ENERGY_COST)
+    ) {
+      return null;
+    }
+
+    const job = this.craftingSystem.queueCrafting(
+      playerId,
+      recipeId,
+      playerResources,
+      this.getCraftingEfficiency(),
+      this.getCraftingQualityBonus(),
+    );
+
+    if (job) {
+      const { removeResource } = useGameStore.getState();
+
+      this.energySystem.consume(GAME_CONFIG.CRAFTING_ENERGY_COST);
+      this.wearEquipment("craftingBonus");
+
+      // Reserve exactly the inventory stacks the job will use
+      job.requiredResources.forEach((resource) =>
+        removeResource(resource.id, resource.quantity),
+      );
+
+      this.persistOperations();
     }
 
-    // Calculate efficiency based on player traits, loyalty tier, and item effects
+    return job;
+  }
+
+  // Calculate efficiency based on player traits, equipment, loyalty tier, and item effects
+  private getCraftingEfficiency(): number {
     const itemEffectsStore = useItemEffectsStore.getState();
-    let efficiency = this.craftingSystem.calculateCraftingEfficiency([], []); // Would use actual player data
+    let efficiency = this.craftingSystem.calculateCraftingEfficiency(
+      [], // Would use actual player traits
+      useEquipmentStore.getState().getEquippedDefinitions(),
+    );
 
     // Apply item effect bonuses (additive to prevent exponential growth)
     const itemMultipliers = itemEffectsStore.getActiveMultipliers();
 
     efficiency += itemMultipliers.craftingSpeed - 1.0; // Convert to additive
 
-    // Apply loyalty tier crafting bonuses
-    if (this.callbacks.onGetLoyaltyMultiplier) {
-      const loyaltyMultiplier = this.callbacks.onGetLoyaltyMultiplier();
-
-      // Apply loyalty bonus additively
-      efficiency += loyaltyMultiplier - 1.0;
-    }
+    // Apply loyalty tier crafting bonuses additively
+    efficiency += this.getLoyaltyMultiplier() - 1.0;
 
     // Cap final efficiency at 3.0x (200% bonus maximum)
-    efficiency = Math.min(efficiency, 3.0);
+    return Math.min(efficiency, 3.0);
+  }
+
+  // Quality bonus from traits and the active crafting quality item effect
+  private getCraftingQualityBonus(): number {
+    const itemMultipliers = useItemEffectsStore
+      .getState()
+      .getActiveMultipliers();
+
+    return (
+      (this.providers.getCraftingQuality?.() ?? 1.0) +
+      itemMultipliers.craftingQuality -
+      1.0
+    );
+  }
 
-    const operation = this.craftingSystem.startCrafting(
+  // Quality grade a recipe would reach right now before the random swing,
+  // using the stacks it would take from the given resources
+  getExpectedQuality(
+    recipeId: string,
+    playerResources: Resource[],
+  ): ItemQuality | null {
+    const recipe = this.craftingSystem.getRecipe(recipeId);
+
+    if (!recipe) return null;
+
+    const { allocated, missing } = allocateRecipeInputs(
+      recipe,
+      playerResources,
+    );
+
+    if (missing.length > 0) return null;
+
+    return getQualityForScore(
+      getCraftingQualityScore(
+        this.getCraftingEfficiency(),
+        this.getCraftingQualityBonus(),
+        allocated,
+      ),
+    );
+  }
+
+  // Cancel a running or queued job, refunding its resources and energy.
+  // Whatever no longer fits in the hold is returned as overflow
+  cancelCrafting(jobId: string): Resource[] | null {
+    const job = this.craftingSystem.cancelCrafting(jobId);
+
+    if (!job) return null;
+
+    const overflow = this.storeResources(job.requiredResources);
+
+    this.energySystem.restore(GAME_CONFIG.CRAFTING_ENERGY_COST);
+    this.persistOperations();
+
+    return overflow;
+  }
+
+  // Refining operations. Resources and energy are taken when a batch starts
+  startRefining(
+    playerId: string,
+    recipeId: string,
+    playerResources: Resource[],
+  ): boolean {
+    if (!this.config.enableCrafting) return false;
+
+    const recipe = this.craftingSystem.getRefiningRecipe(recipeId);
+
+    if (
+      !recipe ||
+      !this.energySystem.hasEnergy(GAME_CONFIG.REFINING_ENERGY_COST)
+    ) {
+      return false;
+    }
+
+    // Crystal Resonance only improves crystal refining
+    const purity = recipe.inputs.some(
+      (input) => input.resourceType === "crystal",
+    )
+      ? (this.providers.getCrystalPurity?.() ?? 1.0)
+      : 1.0;
+    const operation = this.craftingSystem.startRefining(
       playerId,
       recipeId,
       playerResources,
-      efficiency,
+      purity,
     );
 
-    if (operation) {
-      // Note: Resource removal should be handled by the calling code
-      // since we can't access the game store directly from here
+    if (!operation) return false;
 
-      // Set up completion callback
-      this.craftingSystem.onCraftingComplete(operation.id, (result) => {});
+    const { removeResource } = useGameStore.getState();
 
-      return true;
+    this.energySystem.consume(GAME_CONFIG.REFINING_ENERGY_COST);
+    operation.requiredResources.forEach((resource) =>
+      removeResource(resource.id, resource.quantity),
+    );
+    this.persistOperations();
+
+    return true;
+  }
+
+  // Cancel a refining batch, refunding its resources and energy. Whatever
+  // no longer fits in the hold is returned as overflow
+  cancelRefining(operationId: string): Resource[] | null {
+    const operation = this.craftingSystem.cancelRefining(operationId);
+
+    if (!operation) return null;
+
+    const overflow = this.storeResources(operation.requiredResources);
+
+    this.energySystem.restore(GAME_CONFIG.REFINING_ENERGY_COST);
+    this.persistOperations();
+
+    return overflow;
+  }
+
+  getPlayerRefiningOperations(playerId: string) {
+    return this.craftingSystem.getPlayerRefiningOperations(playerId);
+  }
+
+  // Salvage operations. The item and energy are taken when it starts
+  startSalvage(playerId: string, item: Resource): boolean {
+    const { inventory, removeResource } = useGameStore.getState();
+    const stack = inventory.find((resource) => resource.id === item.id);
+
+    if (
+      !this.config.enableCrafting ||
+      !stack ||
+      stack.quantity < 1 ||
+      !this.energySystem.hasEnergy(GAME_CONFIG.CRAFTING_ENERGY_COST)
+    ) {
+      return false;
     }
 
-    return false;
+    const operation = this.craftingSystem.startSalvage(
+      playerId,
+      stack,
+      this.getSalvageReturnRate(),
+    );
+
+    if (!operation) return false;
+
+    this.energySystem.consume(GAME_CONFIG.CRAFTING_ENERGY_COST);
+    removeResource(stack.id, 1);
+    this.persistOperations();
+
+    return true;
+  }
+
+  // Cancel a salvage, handing the item and energy back. Returns the item
+  // as overflow if it no longer fits in the hold
+  cancelSalvage(operationId: string): Resource[] | null {
+    const operation = this.craftingSystem.cancelSalvage(operationId);
+
+    if (!operation) return null;
+
+    const overflow = this.storeResources(operation.requiredResources);
+
+    this.energySystem.restore(GAME_CONFIG.CRAFTING_ENERGY_COST);
+    this.persistOperations();
+
+    return overflow;
+  }
+
+  // What salvaging an item would give back with the player's current bonuses
+  getSalvageReturns(item: Resource): Resource[] {
+    return this.craftingSystem.getSalvageReturns(
+      item,
+      this.getSalvageReturnRate(),
+    );
+  }
+
+  getPlayerSalvageOperations(playerId: string) {
+    return this.craftingSystem.getPlayerSalvageOperations(playerId);
   }
 
-  cancelCrafting(operationId: string): boolean {
-    return this.craftingSystem.cancelCrafting(operationId);
+  private getSalvageReturnRate(): number {
+    return (
+      GAME_CONFIG.SALVAGE_RETURN_RATE *
+      (this.providers.getSalvageBonus?.() ?? 1.0)
+    );
+  }
+
+  getRefiningRecipes() {
+    return this.craftingSystem.getRefiningRecipes();
+  }
+
+  reorderCraftingQueue(
+    playerId: string,
+    jobId: string,
+    toIndex: number,
+  ): boolean {
+    const moved = this.craftingSystem.reorderCraftingQueue(
+      playerId,
+      jobId,
+      toIndex,
+    );
+
+    if (moved) {
+      this.persistOperations();
+    }
+
+    return moved;
   }
 
   getPlayerCraftingOperations(playerId: string) {
     return this.craftingSystem.getPlayerCraftingOperations(playerId);
   }
 
+  getCraftingQueue(playerId: string) {
+    return this.craftingSystem.getCraftingQueue(playerId);
+  }
+
+  getCraftingSlots(playerId: string) {
+    return this.craftingSystem.getCraftingSlots(playerId);
+  }
+
   getCraftingProgress(operationId: string) {
     return this.craftingSystem.getCraftingProgress(operationId);
   }
 
+  // Ship energy
+  getEnergy(): EnergyState {
+    return this.energySystem.getState();
+  }
+
+  hasEnergyFor(amount: number): boolean {
+    return this.energySystem.hasEnergy(amount);
+  }
+
+  // Drain thrust energy for a frame of movement. Returns false once the
+  // tank is empty, so the caller can cut the engines
+  spendMovementEnergy(deltaTime: number): boolean {
+    return this.energySystem.consumeOverTime(
+      GAME_CONFIG.MOVEMENT_ENERGY_COST,
+      deltaTime,
+    );
+  }
+
+  // Convert energy resources from the inventory into ship energy.
+  // Returns the energy restored
+  refuelFromInventory(): number {
+    const { inventory, removeResource } = useGameStore.getState();
+    const plan = this.energySystem.planRefuel(inventory);
+    let restored = 0;
+
+    plan.forEach(({ resource, quantity }) => {
+      removeResource(resource.id, quantity);
+      restored += this.energySystem.restore(
+        quantity * ENERGY_PER_RESOURCE[resource.rarity],
+      );
+    });
+
+    if (restored > 0) {
+      this.persistOperations();
+    }
+
+    return restored;
+  }
+
+  // Stations refill the tank for free when the ship is close enough to dock
+  dockAndRefuel(station: SpaceObject, shipPosition: THREE.Vector3): boolean {
+    if (station.type !== "station") return false;
+
+    const distance = shipPosition.distanceTo(
+      new THREE.Vector3(...station.position),
+    );
+
+    if (distance > GAME_CONFIG.STATION_DOCKING_RANGE) return false;
+
+    this.energySystem.refill();
+    this.persistOperations();
+
+    return true;
+  }
+
+  // Dock at a station in range. Docking refuels the ship and opens the
+  // station's services until it undocks
+  dockAt(station: SpaceObject, shipPosition: THREE.Vector3): boolean {
+    if (this.galaxySystem.getWarp()) return false;
+
+    if (!this.dockAndRefuel(station, shipPosition)) return false;
+
+    if (this.dockedStation?.id !== station.id) {
+      this.undock();
+      this.dockedStation = station;
+      this.eventBus.emit("StationDocked", { station });
+    }
+
+    return true;
+  }
+
+  undock(): boolean {
+    const station = this.dockedStation;
+
+    if (!station) return false;
+
+    this.dockedStation = null;
+    this.eventBus.emit("StationUndocked", { station });
+
+    return true;
+  }
+
+  getDockedStation(): SpaceObject | null {
+    return this.dockedStation;
+  }
+
+  // Goods stored at the docked station, empty while undocked
+  getWarehouse(): Resource[] {
+    return this.dockedStation
+      ? useWarehouseStore.getState().getWarehouse(this.dockedStation.id)
+      : [];
+  }
+
+  // Move goods from the hold into the docked station's warehouse, returns
+  // the quantity that fit
+  depositToWarehouse(item: Resource, quantity: number): number {
+    const { inventory, removeResource } = useGameStore.getState();
+    const stack = inventory.find((resource) => resource.id === item.id);
+
+    if (!this.dockedStation || !stack) return 0;
+
+    const stored = useWarehouseStore
+      .getState()
+      .storeResource(this.dockedStation.id, {
+        ...stack,
+        quantity: Math.min(quantity, stack.quantity),
+      });
+
+    removeResource(stack.id, stored);
+
+    return stored;
+  }
+
+  // Move goods from the docked station's warehouse into the hold, returns
+  // the quantity that fit
+  withdrawFromWarehouse(item: Resource, quantity: number): number {
+    const stack = this.getWarehouse().find(
+      (resource) => resource.id === item.id,
+    );
+
+    if (!this.dockedStation || !stack) return 0;
+
+    const taken = useGameStore.getState().addResource({
+      ...stack,
+      quantity: Math.min(quantity, stack.quantity),
+    });
+
+    useWarehouseStore
+      .getState()
+      .takeResource(this.dockedStation.id, stack.id, taken);
+
+    return taken;
+  }
+
+  // Credits a station charges to restore an expired boost, by how long it lasts
+  getBoostRestoreFee(effect: ItemEffect): number {
+    return (
+      Math.ceil(effect.duration / 60000) *
+      GAME_CONFIG.BOOST_RESTORE_CREDITS_PER_MINUTE
+    );
+  }
+
+  // Restore an expired item-effect boost for its full duration at the docked station
+  restoreBoost(effectId: string): boolean {
+    const { expiredEffects, restoreEffect } = useItemEffectsStore.getState();
+    const effect = expiredEffects.find(
+      (expiredEffect) => expiredEffect.id === effectId,
+    );
+    const { changeCredits } = useGameStore.getState();
+
+    if (!this.dockedStation || !effect) return false;
+
+    const fee = this.getBoostRestoreFee(effect);
+
+    if (!changeCredits("purchase", -fee, `Restored ${effect.name}`)) {
+      return false;
+    }
+
+    if (restoreEffect(effectId)) return true;
+
+    changeCredits("refund", fee, `Refund for ${effect.name}`);
+
+    return false;
+  }
+
+  // Buy a blueprint from a station the ship is docked at
+  purchaseBlueprint(
+    playerId: string,
+    recipeId: string,
+    station: SpaceObject,
+  ): boolean {
+    const price = getBlueprintPrice(recipeId);
+    const { changeCredits } = useGameStore.getState();
+    const name = getRecipeName(recipeId);
+
+    if (
+      price === null ||
+      !this.isDockedAt(station) ||
+      useBlueprintStore.getState().hasBlueprint(playerId, recipeId) ||
+      !changeCredits("purchase", -price, `${name} blueprint`)
+    ) {
+      return false;
+    }
+
+    if (this.learnBlueprint(playerId, recipeId, "station")) return true;
+
+    changeCredits("refund", price, `Refund for ${name} blueprint`);
+
+    return false;
+  }
+
+  // Station services are only open to a ship that has docked there
+  private isDockedAt(station: SpaceObject): boolean {
+    return this.dockedStation?.id === station.id;
+  }
+
+  // Fitted tools wear down with each operation they help. Broken ones stay
+  // fitted but stop giving their bonus
+  private wearEquipment(effect: keyof EquipmentEffects): void {
+    useEquipmentStore
+      .getState()
+      .wearEquipment(effect, GAME_CONFIG.TOOL_WEAR_PER_OPERATION)
+      .forEach((item) => this.eventBus.emit("EquipmentBroken", { item }));
+  }
+
+  // Credits or metal needed to bring a fitted item back to full durability
+  getRepairCost(slot: EquipmentSlot): { credits: number; metal: number } {
+    const item = useEquipmentStore.getState().equipped[slot];
+    const definition = item ? getEquipmentDefinition(item) : null;
+
+    if (!item || !definition) return { credits: 0, metal: 0 };
+
+    const missing = definition.maxDurability - getDurability(item);
+
+    return {
+      credits: missing * GAME_CONFIG.REPAIR_CREDITS_PER_POINT,
+      metal: Math.ceil(missing / GAME_CONFIG.REPAIR_POINTS_PER_METAL),
+    };
+  }
+
+  // Repair a fitted item for credits at a station the ship is docked at
+  repairAtStation(slot: EquipmentSlot, station: SpaceObject): boolean {
+    const { credits } = this.getRepairCost(slot);
+    const item = useEquipmentStore.getState().equipped[slot];
+
+    if (
+      credits === 0 ||
+      !item ||
+      !this.isDockedAt(station) ||
+      !useGameStore
+        .getState()
+        .changeCredits("purchase", -credits, `Repaired ${item.name}`)
+    ) {
+      return false;
+    }
+
+    useEquipmentStore.getState().repairEquipment(slot);
+
+    return true;
+  }
+
+  // Repair a fitted item anywhere by working metal from the hold into it
+  repairWithMetal(slot: EquipmentSlot, playerResources: Resource[]): boolean {
+    const { metal } = this.getRepairCost(slot);
+
+    if (metal === 0) return false;
+
+    // Never melt down other equipment for the metal
+    const { allocated, missing } = allocateRecipeInputs(
+      { inputs: [{ resourceType: "metal", quantity: metal }] },
+      playerResources.filter((resource) => !getEquipmentDefinition(resource)),
+    );
+
+    if (missing.length > 0) return false;
+
+    const { removeResource } = useGameStore.getState();
+
+    allocated.forEach((resource) =>
+      removeResource(resource.id, resource.quantity),
+    );
+    useEquipmentStore.getState().repairEquipment(slot);
+
+    return true;
+  }
+
+  // Goods a station sells, priced for the next unit either way
+  getMarketListings(station: SpaceObject): MarketListing[] {
+    return this.marketSystem.getListings(station);
+  }
+
+  // Credits a station would pay for some of an item, null if it won't buy it
+  getMarketSellPrice(
+    station: SpaceObject,
+    item: Resource,
+    quantity: number = item.quantity,
+  ): number | null {
+    return this.marketSystem.quote(station, item, quantity, "sell");
+  }
+
+  // Buy goods from a station the ship is docked at. Only what fits in the
+  // hold is bought and paid for
+  buyFromMarket(
+    station: SpaceObject,
+    item: Resource,
+    quantity: number,
+  ): boolean {
+    const price = this.marketSystem.quote(station, item, quantity, "buy");
+    const { player, changeCredits, addResource } = useGameStore.getState();
+
+    if (
+      price === null ||
+      !player ||
+      player.credits < price ||
+      !this.isDockedAt(station) ||
+      !this.marketSystem.isStocked(station, item)
+    ) {
+      return false;
+    }
+
+    const bought = addResource({ ...item, quantity });
+
+    if (bought === 0) return false;
+
+    const credits = this.marketSystem.quote(station, item, bought, "buy")!;
+
+    changeCredits("purchase", -credits, `Bought ${bought} ${item.name}`);
+    this.marketSystem.recordTrade(station, item, bought, "buy");
+    this.eventBus.emit("MarketTrade", {
+      stationId: station.id,
+      item: { ...item, quantity: bought },
+      side: "buy",
+      credits,
+    });
+    this.persistOperations();
+
+    return true;
+  }
+
+  // Sell goods from the hold to a station the ship is docked at
+  sellToMarket(
+    station: SpaceObject,
+    item: Resource,
+    quantity: number,
+  ): boolean {
+    const { player, inventory, changeCredits, removeResource } =
+      useGameStore.getState();
+    const stack = inventory.find((resource) => resource.id === item.id);
+    const credits = this.marketSystem.quote(station, item, quantity, "sell");
+
+    if (
+      credits === null ||
+      !player ||
+      !stack ||
+      stack.quantity < quantity ||
+      !this.isDockedAt(station)
+    ) {
+      return false;
+    }
+
+    removeResource(stack.id, quantity);
+    changeCredits("sale", credits, `Sold ${quantity} ${item.name}`);
+    this.marketSystem.recordTrade(station, item, quantity, "sell");
+    this.eventBus.emit("MarketTrade", {
+      stationId: station.id,
+      item: { ...stack, quantity },
+      side: "sell",
+      credits,
+    });
+    this.persistOperations();
+
+    return true;
+  }
+
+  // Galaxy and warp travel
+  getGalaxy(): Galaxy {
+    return this.galaxySystem.getGalaxy();
+  }
+
+  getCurrentSector(): GalaxySector {
+    return this.galaxySystem.getCurrentSector();
+  }
+
+  // Generate the sector the ship is in and hand its objects to the systems,
+  // with the changes from earlier visits applied over the generated baseline
+  loadCurrentSector(): GeneratedSector {
+    const { id, config } = this.galaxySystem.getCurrentSector();
+    const sector = SpaceGenerator.generateSector(config);
+    const playerId = useGameStore.getState().player?.id;
+
+    // Keep what changed in the sector being left, which may be this one
+    this.captureSectorState();
+
+    const state = this.galaxySystem.getSectorState(id);
+
+    this.loadedSectorId = id;
+    this.spawnedObjects = state ? [...state.spawned] : [];
+    this.sectorBaseline = [...sector.objects, ...this.spawnedObjects];
+    this.updateSpaceObjects(this.sectorBaseline, sector.respawnTime);
+
+    state?.objects.forEach(({ id: objectId, depletedAt, ...object }) =>
+      this.miningSystem.restoreObjectState(objectId, object, depletedAt),
+    );
+    if (state && playerId) {
+      this.explorationSystem.restoreDiscoveries(playerId, state.discovered);
+    }
+
+    return { ...sector, objects: this.miningSystem.getSpaceObjects() };
+  }
+
+  // Add an object to the loaded sector. It is saved with the sector's state
+  // and is there again on later visits
+  spawnSpaceObject(object: SpaceObject): boolean {
+    if (
+      !this.loadedSectorId ||
+      this.sectorBaseline.some(({ id }) => id === object.id)
+    ) {
+      return false;
+    }
+
+    this.spawnedObjects.push(object);
+    this.sectorBaseline.push(object);
+    this.miningSystem.addSpaceObject(object);
+    if (this.config.enableExploration) {
+      this.explorationSystem.updateSpaceObjects(
+        this.miningSystem.getSpaceObjects(),
+      );
+    }
+
+    this.eventBus.emit("ObjectSpawned", { object });
+    this.persistOperations();
+
+    return true;
+  }
+
+  // Record how the loaded sector differs from its generated baseline
+  private captureSectorState(): void {
+    const sector = this.loadedSectorId
+      ? this.galaxySystem.getSector(this.loadedSectorId)
+      : null;
+    const playerId = useGameStore.getState().player?.id;
+
+    if (!sector) return;
+
+    const baselines = new Map(
+      this.sectorBaseline.map((object) => [object.id, object]),
+    );
+    const objects = this.miningSystem
+      .getSpaceObjects()
+      .filter((object) => {
+        const baseline = baselines.get(object.id);
+
+        return (
+          !!baseline &&
+          (object.health !== baseline.health ||
+            getRemainingReserves(object) !== getRemainingReserves(baseline))
+        );
+      })
+      .map(({ id, health, resources }) => ({
+        id,
+        health,
+        resources: resources || [],
+        depletedAt: this.miningSystem.getDepletedAt(id) ?? undefined,
+      }));
+    const discovered = playerId
+      ? this.explorationSystem
+          .getDiscoveredObjects(playerId)
+          .filter((objectId) => baselines.has(objectId))
+      : [];
+
+    this.galaxySystem.setSectorState({
+      sectorId: sector.id,
+      seed: sector.config.seed,
+      objects,
+      discovered,
+      spawned: [...this.spawnedObjects],
+    });
+  }
+
+  getWarp(): WarpJump | null {
+    return this.galaxySystem.getWarp();
+  }
+
+  getWarpProgress(): number {
+    return this.galaxySystem.getWarpProgress();
+  }
+
+  getWarpCost(sectorId: string): WarpCost | null {
+    return this.galaxySystem.getWarpCost(sectorId);
+  }
+
+  // Check whether the ship can jump to a sector, with the reason when it can't
+  canWarpTo(sectorId: string): { canWarp: boolean; reason?: string } {
+    const cost = this.galaxySystem.getWarpCost(sectorId);
+    const sector = this.galaxySystem.getSector(sectorId);
+    const level = useGameStore.getState().player?.level ?? 1;
+
+    if (this.galaxySystem.getWarp()) {
+      return { canWarp: false, reason: "Already in a warp jump" };
+    }
+
+    if (!cost || !sector) {
+      return { canWarp: false, reason: "No warp route to that sector" };
+    }
+
+    if (level < sector.minLevel) {
+      return {
+        canWarp: false,
+        reason: `${sector.name} needs level ${sector.minLevel}`,
+      };
+    }
+
+    if (!this.energySystem.hasEnergy(cost.energy)) {
+      return {
+        canWarp: false,
+        reason: `The jump needs ${cost.energy} ship energy`,
+      };
+    }
+
+    return { canWarp: true };
+  }
+
+  // Jump to a linked sector. The ship undocks and leaves its mining behind,
+  // and the new sector loads once the jump's time is up
+  startWarp(playerId: string, sectorId: string): boolean {
+    if (!this.canWarpTo(sectorId).canWarp) return false;
+
+    const from = this.galaxySystem.getCurrentSector();
+    const cost = this.galaxySystem.getWarpCost(sectorId)!;
+
+    this.undock();
+    this.miningSystem
+      .getPlayerMiningOperations(playerId)
+      .forEach((operation) => this.miningSystem.cancelMining(operation.id));
+    this.energySystem.consume(cost.energy);
+
+    const warp = this.galaxySystem.startWarp(sectorId)!;
+
+    this.eventBus.emit("WarpStarted", {
+      from,
+      to: this.galaxySystem.getSector(sectorId)!,
+      duration: warp.duration,
+    });
+    this.persistOperations();
+
+    return true;
+  }
+
   // Exploration operations
   updatePlayerPosition(
     playerId: string,
@@ -336,26 +1410,21 @@ export class GameSystemsManager {
     // Process exploration results
     results.forEach((result) => {
       if (result.success) {
-        // Add experience
-        if (this.callbacks.onExperienceGained) {
-          this.callbacks.onExperienceGained(result.experience);
-        }
+        this.grantExperience(result.experience);
 
-        // Track mission progress based on discovery type
-        if (this.callbacks.onMissionProgress) {
-          if (result.discoveredObject) {
-            // Track object discoveries for "Sector Scout" type missions
-            this.callbacks.onMissionProgress("exploration", 1);
-            this.callbacks.onMissionProgress("object_discovery", 1);
-          } else if (result.newLocation) {
-            // Track location discoveries for "Deep Space Cartographer" type missions
-            this.callbacks.onMissionProgress("location_discovery", 1);
-          }
-        }
-
-        // Trigger exploration callback
-        if (this.callbacks.onExplorationComplete) {
-          this.callbacks.onExplorationComplete(result);
+        if (result.discoveredObject) {
+          this.eventBus.emit("ObjectDiscovered", {
+            object: result.discoveredObject,
+            experience: result.experience,
+          });
+          getDiscoveryBlueprints(result.discoveredObject.type).forEach(
+            (recipeId) => this.learnBlueprint(playerId, recipeId, "discovery"),
+          );
+        } else if (result.newLocation) {
+          this.eventBus.emit("LocationVisited", {
+            location: result.newLocation,
+            experience: result.experience,
+          });
         }
       }
     });
@@ -381,8 +1450,26 @@ export class GameSystemsManager {
     return this.explorationSystem.getVisitedLocations(playerId);
   }
 
-  getAvailableRecipes(playerLevel: number) {
-    return this.craftingSystem.getAvailableRecipes(playerLevel);
+  // Blueprints a station would sell the player, for recipes their level allows
+  getStationBlueprints(playerId: string, playerLevel: number) {
+    const { hasBlueprint } = useBlueprintStore.getState();
+
+    return this.craftingSystem
+      .getAvailableRecipes(playerLevel)
+      .filter((recipe) => !hasBlueprint(playerId, recipe.id))
+      .flatMap((recipe) => {
+        const price = getBlueprintPrice(recipe.id);
+
+        return price === null ? [] : [{ recipe, price }];
+      });
+  }
+
+  // Recipes the player has the level and the blueprint for
+  getAvailableRecipes(playerId: string, playerLevel: number) {
+    return this.craftingSystem.getAvailableRecipes(
+      playerLevel,
+      useBlueprintStore.getState().getKnownBlueprints(playerId),
+    );
   }
 
   // Auto-save functionality
@@ -401,14 +1488,62 @@ export class GameSystemsManager {
     };
 
     try {
-      localStorage.setItem("g-bax-systems-state", JSON.stringify(systemState));
+      gameStorage.setItem("g-bax-systems-state", JSON.stringify(systemState));
     } catch (error) {}
+
+    this.persistOperations();
+  }
+
+  // Snapshot in-flight mining and crafting operations, ship energy and the
+  // state of every sector visited
+  createSnapshot(): GameSystemsSnapshot {
+    this.captureSectorState();
+
+    return {
+      savedAt: Date.now(),
+      mining: this.miningSystem.serializeOperations(),
+      crafting: this.craftingSystem.serializeOperations(),
+      craftingQueue: this.craftingSystem.serializeQueue(),
+      refining: this.craftingSystem.serializeRefining(),
+      salvage: this.craftingSystem.serializeSalvage(),
+      energy: this.energySystem.getState(),
+      market: this.marketSystem.serializeState(),
+      galaxy: this.galaxySystem.serializeState(),
+    };
+  }
+
+  // Resume operations from a snapshot. Time since the snapshot was taken counts
+  // as elapsed, so anything that finished meanwhile settles on the next update
+  restoreSnapshot(snapshot: GameSystemsSnapshot): void {
+    const offlineTime = Math.max(0, Date.now() - snapshot.savedAt);
+
+    this.miningSystem.restoreOperations(snapshot.mining || [], offlineTime);
+    this.craftingSystem.restoreOperations(snapshot.crafting || [], offlineTime);
+    this.craftingSystem.restoreQueue(snapshot.craftingQueue || []);
+    this.craftingSystem.restoreRefining(snapshot.refining || [], offlineTime);
+    this.craftingSystem.restoreSalvage(snapshot.salvage || [], offlineTime);
+    this.marketSystem.restoreState(snapshot.market || {}, offlineTime);
+
+    if (snapshot.galaxy) {
+      this.galaxySystem.restoreState(snapshot.galaxy, offlineTime);
+    }
+
+    // The ship keeps recharging while the game is closed
+    if (snapshot.energy) {
+      this.energySystem.restoreState(snapshot.energy);
+      this.energySystem.regenerate(offlineTime);
+    }
+  }
+
+  // Save in-flight operations with the rest of the game state
+  private persistOperations(): void {
+    useGameStore.getState().setSavedOperations(this.createSnapshot());
   }
 
   // Load game state
   loadGameState(): boolean {
     try {
-      const savedState = localStorage.getItem("g-bax-systems-state");
+      const savedState = gameStorage.getItem("g-bax-systems-state");
 
       if (!savedState) return false;
 
@@ -425,8 +1560,7 @@ export class GameSystemsManager {
     return {
       mining: this.miningSystem.getMiningStats(),
       crafting: {
-        activeOperations:
-          this.craftingSystem.getPlayerCraftingOperations("").length,
+        ...this.craftingSystem.getOperationCounts(),
         availableRecipes: this.craftingSystem.getAvailableRecipes(1).length,
       },
     };
@@ -444,8 +1578,13 @@ export class GameSystemsManager {
       this.autoSaveInterval = null;
     }
 
+    // Keep unfinished operations in the save before tearing the systems down
+    this.persistOperations();
+
     this.miningSystem.clearAllOperations();
     this.craftingSystem.clearAllOperations();
+    this.marketSystem.clearAll();
+    this.dockedStation = null;
   }
 
   // Getters for systems
@@ -456,4 +1595,16 @@ export class GameSystemsManager {
   get crafting(): CraftingSystem {
     return this.craftingSystem;
   }
+
+  get energy(): EnergySystem {
+    return this.energySystem;
+  }
+
+  get clock(): GameClock {
+    return this.gameClock;
+  }
+
+  get events(): GameEventBus {
+    return this.eventBus;
+  }
 }
@@ -0,0 +1,210 @@
+import type { Resource, SpaceObject } from "@/types/game";
+
+import { GameClock } from "./gameClock";
+
+import { getBaseValue, getTradeGoods } from "@/data/market";
+import { GAME_CONFIG } from "@/utils/constants";
+import { getStackKey } from "@/utils/gameHelpers";
+import { RandomStream, hashSeed } from "@/utils/random";
+
+// Side of a trade from the player's point of view
+export type TradeSide = "buy" | "sell";
+
+export interface MarketListing {
+  item: Resource; // One unit of the good
+  buyPrice: number; // What the station charges for the next unit
+  sellPrice: number; // What the station pays for the next unit
+}
+
+// Trade drift per station and good, saved at its current level
+export type SavedMarketState = Record<string, Record<string, number>>;
+
+interface PriceDrift {
+  drift: number; // Share above (+) or below (-) the seeded price
+  updatedAt: number; // Game time the drift was last set
+}
+
+/**
+ * Station markets. Each station's prices are seeded from its market seed and
+ * drift with what the player buys and sells, easing back over game time
+ */
+export class MarketSystem {
+  private drifts: Map<string, Map<string, PriceDrift>> = new Map();
+  private clock: GameClock;
+
+  constructor(clock: GameClock = new GameClock()) {
+    this.clock = clock;
+  }
+
+  // Goods a station sells, with the price of the next unit either way
+  getListings(station: SpaceObject): MarketListing[] {
+    const { staples, craftedGoods } = getTradeGoods();
+    const seed = this.getMarketSeed(station);
+    const stocked = craftedGoods.filter((item) =>
+      new RandomStream(hashSeed(seed, "stock", item.id)).chance(
+        GAME_CONFIG.MARKET_CRAFTED_STOCK_CHANCE,
+      ),
+    );
+
+    return [...staples, ...stocked].map((item) => ({
+      item,
+      buyPrice: this.quote(station, item, 1, "buy") ?? 0,
+      sellPrice: this.quote(station, item, 1, "sell") ?? 0,
+    }));
+  }
+
+  isStocked(station: SpaceObject, item: Resource): boolean {
+    const key = this.getGoodKey(item);
+
+    return this.getListings(station).some((listing) => listing.item.id === key);
+  }
+
+  // Total credits for trading a quantity, each unit priced after the drift
+  // the previous one caused. Null for goods stations don't trade
+  quote(
+    station: SpaceObject,
+    item: Resource,
+    quantity: number,
+    side: TradeSide,
+  ): number | null {
+    const value = getBaseValue(item);
+
+    if (value === null || quantity <= 0) return null;
+
+    const key = this.getGoodKey(item);
+    const price = value * this.getSeededFactor(station, key);
+    let drift = this.getDrift(station.id, key);
+    let total = 0;
+
+    for (let i = 0; i < quantity; i++) {
+      total += this.getUnitPrice(price * (1 + drift), side);
+      drift = this.shiftDrift(drift, side);
+    }
+
+    return total;
+  }
+
+  // Move the station's price for a good after the player trades it
+  recordTrade(
+    station: SpaceObject,
+    item: Resource,
+    quantity: number,
+    side: TradeSide,
+  ): void {
+    const key = this.getGoodKey(item);
+    let drift = this.getDrift(station.id, key);
+
+    for (let i = 0; i < quantity; i++) {
+      drift = this.shiftDrift(drift, side);
+    }
+
+    let stationDrifts = this.drifts.get(station.id);
+
+    if (!stationDrifts) {
+      stationDrifts = new Map();
+      this.drifts.set(station.id, stationDrifts);
+    }
+
+    stationDrifts.set(key, { drift, updatedAt: this.clock.now() });
+  }
+
+  // Stations without a generated seed still get stable prices from their id
+  private getMarketSeed(station: SpaceObject): number {
+    return station.marketSeed ?? hashSeed(station.id);
+  }
+
+  // Graded and worn items move the same price as the plain good
+  private getGoodKey(item: Resource): string {
+    return getStackKey({
+      name: item.name,
+      type: item.type,
+      rarity: item.rarity,
+    });
+  }
+
+  private getSeededFactor(station: SpaceObject, key: string): number {
+    const random = new RandomStream(
+      hashSeed(this.getMarketSeed(station), "price", key),
+    );
+
+    return (
+      1 +
+      random.range(
+        -GAME_CONFIG.MARKET_PRICE_VARIANCE,
+        GAME_CONFIG.MARKET_PRICE_VARIANCE,
+      )
+    );
+  }
+
+  // Current drift, halving every recovery half-life since it was set
+  private getDrift(stationId: string, key: string): number {
+    const entry = this.drifts.get(stationId)?.get(key);
+
+    if (!entry) return 0;
+
+    const elapsed = Math.max(0, this.clock.now() - entry.updatedAt);
+
+    return (
+      entry.drift *
+      Math.pow(0.5, elapsed / GAME_CONFIG.MARKET_RECOVERY_HALF_LIFE)
+    );
+  }
+
+  // Buying pushes the price up, selling pushes it down
+  private shiftDrift(drift: number, side: TradeSide): number {
+    const impact =
+      side === "buy"
+        ? GAME_CONFIG.MARKET_PRICE_IMPACT
+        : -GAME_CONFIG.MARKET_PRICE_IMPACT;
+
+    return Math.min(
+      Math.max(drift + impact, -GAME_CONFIG.MARKET_MAX_DRIFT),
+      GAME_CONFIG.MARKET_MAX_DRIFT,
+    );
+  }
+
+  // Stations sell above and buy below the going price, never for nothing
+  private getUnitPrice(price: number, side: TradeSide): number {
+    return side === "buy"
+      ? Math.ceil(price * (1 + GAME_CONFIG.MARKET_SPREAD))
+      : Math.max(1, Math.floor(price * (1 - GAME_CONFIG.MARKET_SPREAD)));
+  }
+
+  // Drift that has mostly worn off isn't worth saving
+  serializeState(): SavedMarketState {
+    const state: SavedMarketState = {};
+
+    this.drifts.forEach((stationDrifts, stationId) => {
+      stationDrifts.forEach((_entry, key) => {
+        const drift = this.getDrift(stationId, key);
+
+        if (Math.abs(drift) >= 0.001) {
+          state[stationId] = { ...state[stationId], [key]: drift };
+        }
+      });
+    });
+
+    return state;
+  }
+
+  // Restore saved drift. Time spent away counts towards its recovery
+  restoreState(state: SavedMarketState, offlineTime: number = 0): void {
+    const updatedAt = this.clock.now() - offlineTime;
+
+    Object.entries(state).forEach(([stationId, goods]) => {
+      this.drifts.set(
+        stationId,
+        new Map(
+          Object.entries(goods).map(([key, drift]) => [
+            key,
+            { drift, updatedAt },
+          ]),
+        ),
+      );
+    });
+  }
+
+  clearAll(): void {
+    this.drifts.clear();
+  }
+}
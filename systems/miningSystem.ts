@@ -1,7 +1,19 @@
 import type { SpaceObject, Resource } from "@/types/game";
+import type { RandomSource } from "@/utils/random";
+import type { EquipmentDefinition } from "@/data/equipment";
 
+import { GameClock } from "./gameClock";
+
+import { rngService } from "@/services/rngService";
 import { GAME_CONFIG } from "@/utils/constants";
-import { generateRandomResource } from "@/utils/gameHelpers";
+import {
+  generateRandomResource,
+  getRawResourceName,
+  getRemainingReserves,
+  getStackKey,
+  hasFiniteReserves,
+  isObjectDepleted,
+} from "@/utils/gameHelpers";
 
 export interface MiningOperation {
   id: string;
@@ -16,19 +28,50 @@ export interface MiningOperation {
   loyaltyMultiplier?: number;
 }
 
+// Mining operation as stored in a save, with game time elapsed instead of a clock timestamp
+export interface SavedMiningOperation
+  extends Omit<MiningOperation, "startTime"> {
+  elapsed: number;
+}
+
 export interface MiningResult {
   success: boolean;
+  targetObjectId: string;
   resources: Resource[];
+  overflow: Resource[]; // Extracted but left behind because the cargo hold was full
   experience: number;
   damage: number;
+  depleted: boolean; // The target ran out of health on this operation
   message: string;
 }
 
+// What one operation on an object is expected to produce
+export interface MiningYieldEstimate {
+  minQuantity: number;
+  maxQuantity: number;
+  remainingReserves: number | null; // Null for objects without finite reserves
+  duration: number;
+  experience: number;
+}
+
 export class MiningSystem {
   private activeMiningOperations: Map<string, MiningOperation> = new Map();
   private miningCallbacks: Map<string, (result: MiningResult) => void> =
     new Map();
   private spaceObjects: SpaceObject[] = []; // Store reference to space objects
+  private depletedObjects: Map<string, number> = new Map(); // Object ID -> game time it was depleted
+  private respawnTime: number = GAME_CONFIG.OBJECT_RESPAWN_TIME;
+  private initialReserves: Map<string, Resource[]> = new Map(); // Restored on respawn
+  private clock: GameClock;
+  private random: RandomSource;
+
+  constructor(
+    clock: GameClock = new GameClock(),
+    random: RandomSource = rngService.stream("mining"),
+  ) {
+    this.clock = clock;
+    this.random = random;
+  }
 
   // Start mining operation on a space object
   startMining(
@@ -61,7 +104,7 @@ export class MiningSystem {
       id: `mining_${Date.now()}_${Math.random()}`,
       targetObjectId: targetObject.id,
       playerId,
-      startTime: Date.now(),
+      startTime: this.clock.now(),
       duration: adjustedDuration,
       progress: 0,
       isCompleted: false,
@@ -83,8 +126,8 @@ export class MiningSystem {
     this.activeMiningOperations.forEach((operation, operationId) => {
       if (operation.isCompleted) return;
 
-      // Update progress
-      const elapsed = Date.now() - operation.startTime;
+      // Update progress against game time
+      const elapsed = this.clock.now() - operation.startTime;
 
       operation.progress = Math.min(elapsed / operation.duration, 1.0);
 
@@ -117,7 +160,21 @@ export class MiningSystem {
   // Complete mining operation and generate resources
   private completeMining(operation: MiningOperation): MiningResult {
     // Find the target object to get its specific resources
-    const targetObject = this.findObjectById(operation.targetObjectId);
+    let targetObject = this.findObjectById(operation.targetObjectId);
+
+    // Someone else mined it out while this operation was running
+    if (targetObject && isObjectDepleted(targetObject)) {
+      return {
+        success: false,
+        targetObjectId: operation.targetObjectId,
+        resources: [],
+        overflow: [],
+        experience: 0,
+        damage: 0,
+        depleted: true,
+        message: "Mining failed - the target was depleted.",
+      };
+    }
 
     const resources: Resource[] = [];
 
@@ -133,25 +190,44 @@ export class MiningSystem {
       const adjustedResourceCount = Math.floor(
         baseResourceCount * operation.efficiency,
       );
+      const finiteReserves = hasFiniteReserves(targetObject);
+      const reserves = targetObject.resources.map((resource) => ({
+        ...resource,
+      }));
 
       for (let i = 0; i < adjustedResourceCount; i++) {
-        // Pick a random resource from the object's available resources
-        const sourceResource =
-          targetObject.resources[
-            Math.floor(Math.random() * targetObject.resources.length)
-          ];
+        // Pick a random resource from what the object has left
+        const available = finiteReserves
+          ? reserves.filter((reserve) => reserve.quantity > 0)
+          : reserves;
+
+        if (available.length === 0) break;
+
+        const sourceResource = this.random.choice(available);
+        const rolledQuantity = this.random.int(1, 5); // 1-5 quantity per mining
+        const quantity = finiteReserves
+          ? Math.min(rolledQuantity, sourceResource.quantity)
+          : rolledQuantity;
+
+        if (finiteReserves) {
+          sourceResource.quantity -= quantity;
+        }
 
         // Create a new resource instance based on the source
         const resource: Resource = {
-          id: `${sourceResource.type}_${sourceResource.rarity}_${Date.now()}_${Math.random()}`,
+          id: getStackKey(sourceResource),
           name: sourceResource.name,
           type: sourceResource.type,
-          quantity: Math.floor(Math.random() * 5) + 1, // 1-5 quantity per mining
+          quantity,
           rarity: sourceResource.rarity,
         };
 
         resources.push(resource);
       }
+
+      if (finiteReserves) {
+        targetObject = { ...targetObject, resources: reserves };
+      }
     } else {
       // Fallback to random generation if object has no specific resources
       const baseResourceCount = this.getBaseResourceCount(
@@ -162,7 +238,7 @@ export class MiningSystem {
       );
 
       for (let i = 0; i < adjustedResourceCount; i++) {
-        const resource = generateRandomResource();
+        const resource = generateRandomResource(this.random);
 
         resources.push(resource);
       }
@@ -177,16 +253,23 @@ export class MiningSystem {
     const baseExperience = 25;
     const experience = Math.floor(baseExperience * operation.efficiency);
 
-    // Calculate damage to object (for future health system)
-    const damage = 10;
+    // Wear the object down - it stops yielding once its health or reserves run out
+    const damage = GAME_CONFIG.MINING_DAMAGE;
+    const damagedObject = targetObject
+      ? this.damageObject(targetObject, damage)
+      : undefined;
+    const depleted = damagedObject ? isObjectDepleted(damagedObject) : false;
 
     operation.resources = resources;
 
     return {
       success: true,
+      targetObjectId: operation.targetObjectId,
       resources,
+      overflow: [],
       experience,
       damage,
+      depleted,
       message: `Mining completed! Extracted ${resources.length} resources.`,
     };
   }
@@ -246,11 +329,14 @@ export class MiningSystem {
   private getBaseResourceCount(objectId: string): number {
     // This would typically be based on object properties
     // For now, using random values based on object type
-    return Math.floor(Math.random() * 3) + 1; // 1-3 resources
+    return this.random.int(1, 3); // 1-3 resources
   }
 
   // Get mining efficiency based on player traits and equipment
-  calculateMiningEfficiency(playerTraits: any[], equipment: any[]): number {
+  calculateMiningEfficiency(
+    playerTraits: any[],
+    equipment: EquipmentDefinition[],
+  ): number {
     let efficiency = 1.0;
 
     // Apply trait bonuses
@@ -281,7 +367,7 @@ export class MiningSystem {
 
     if (!operation) return null;
 
-    const elapsed = Date.now() - operation.startTime;
+    const elapsed = this.clock.now() - operation.startTime;
     const progress = Math.min(elapsed / operation.duration, 1.0);
     const timeRemaining = Math.max(operation.duration - elapsed, 0);
 
@@ -292,14 +378,29 @@ export class MiningSystem {
   canStartMining(
     playerId: string,
     targetObject: SpaceObject,
+    availableEnergy: number = Infinity,
   ): { canMine: boolean; reason?: string } {
     // Check if object can be mined
     if (!this.canMineObject(targetObject)) {
       return { canMine: false, reason: "This object cannot be mined" };
     }
 
-    // Check if object has health remaining
-    if (targetObject.health !== undefined && targetObject.health <= 0) {
+    // Check the ship has the energy to run the drill
+    if (availableEnergy < GAME_CONFIG.MINING_ENERGY_COST) {
+      return { canMine: false, reason: "Not enough ship energy" };
+    }
+
+    // Check if object has health and reserves remaining. The UI may hold an older copy
+    const currentObject = this.findObjectById(targetObject.id) ?? targetObject;
+
+    if (
+      hasFiniteReserves(currentObject) &&
+      getRemainingReserves(currentObject) === 0
+    ) {
+      return { canMine: false, reason: "This node's reserves are exhausted" };
+    }
+
+    if (isObjectDepleted(currentObject)) {
       return { canMine: false, reason: "This object is depleted" };
     }
 
@@ -325,26 +426,65 @@ export class MiningSystem {
     return { canMine: true };
   }
 
-  // Get estimated mining yield for an object
+  // Get estimated mining yield for an object, capped by its remaining reserves.
+  // Doesn't draw from the random stream, so previews never change outcomes
   getEstimatedYield(
     targetObject: SpaceObject,
     efficiency: number = 1.0,
-  ): {
-    resourceCount: number;
-    duration: number;
-    experience: number;
-  } {
-    const baseResourceCount = this.getBaseResourceCount(targetObject.id);
-    const baseDuration = this.getBaseMiningDuration(targetObject);
+  ): MiningYieldEstimate {
+    const object = this.findObjectById(targetObject.id) ?? targetObject;
+    const hasResources = !!object.resources && object.resources.length > 0;
+    // Picks per operation match getBaseResourceCount (1-3)
+    const minPicks = Math.floor(1 * efficiency);
+    const maxPicks = Math.floor(3 * efficiency);
+    // Listed resources yield 1-5 per pick, random resources up to 10
+    const maxPerPick = hasResources ? 5 : 10;
+    const remainingReserves = hasFiniteReserves(object)
+      ? getRemainingReserves(object)
+      : null;
+    const cap = remainingReserves ?? Infinity;
+    const baseDuration = this.getBaseMiningDuration(object);
     const baseExperience = 25;
 
     return {
-      resourceCount: Math.floor(baseResourceCount * efficiency),
+      minQuantity: Math.min(minPicks, cap),
+      maxQuantity: Math.min(maxPicks * maxPerPick, cap),
+      remainingReserves,
       duration: baseDuration / efficiency,
       experience: Math.floor(baseExperience * efficiency),
     };
   }
 
+  // Snapshot unfinished operations for saving
+  serializeOperations(): SavedMiningOperation[] {
+    const now = this.clock.now();
+
+    return Array.from(this.activeMiningOperations.values())
+      .filter((op) => !op.isCompleted)
+      .map(({ startTime, ...operation }) => ({
+        ...operation,
+        elapsed: now - startTime,
+      }));
+  }
+
+  // Restore saved operations, counting time spent away as elapsed.
+  // Operations that finished in the meantime complete on the next update
+  restoreOperations(
+    savedOperations: SavedMiningOperation[],
+    offlineTime: number = 0,
+  ): void {
+    const now = this.clock.now();
+
+    savedOperations.forEach(({ elapsed, ...operation }) => {
+      if (this.activeMiningOperations.has(operation.id)) return;
+
+      this.activeMiningOperations.set(operation.id, {
+        ...operation,
+        startTime: now - elapsed - offlineTime,
+      });
+    });
+  }
+
   // Clear all mining operations (for cleanup)
   clearAllOperations(): void {
     this.activeMiningOperations.clear();
@@ -370,9 +510,102 @@ export class MiningSystem {
     };
   }
 
-  // Update space objects reference for resource lookup
-  updateSpaceObjects(objects: SpaceObject[]): void {
-    this.spaceObjects = objects;
+  // Update space objects reference for resource lookup. Objects that arrive
+  // depleted start their respawn timer now
+  updateSpaceObjects(
+    objects: SpaceObject[],
+    respawnTime: number = this.respawnTime,
+  ): void {
+    const now = this.clock.now();
+    const depletedObjects = new Map<string, number>();
+
+    this.spaceObjects = [...objects];
+    this.respawnTime = respawnTime;
+    this.initialReserves = new Map(
+      objects
+        .filter(hasFiniteReserves)
+        .map((object) => [object.id, object.resources || []]),
+    );
+    this.spaceObjects
+      .filter((object) => isObjectDepleted(object))
+      .forEach((object) => {
+        depletedObjects.set(
+          object.id,
+          this.depletedObjects.get(object.id) ?? now,
+        );
+      });
+    this.depletedObjects = depletedObjects;
+  }
+
+  // Current state of a space object, including damage from mining
+  getSpaceObject(objectId: string): SpaceObject | null {
+    return this.findObjectById(objectId) ?? null;
+  }
+
+  getSpaceObjects(): SpaceObject[] {
+    return [...this.spaceObjects];
+  }
+
+  // Restore depleted objects whose respawn timer has run out
+  updateRespawns(): SpaceObject[] {
+    if (this.respawnTime <= 0) return [];
+
+    const now = this.clock.now();
+    const respawned: SpaceObject[] = [];
+
+    this.depletedObjects.forEach((depletedAt, objectId) => {
+      if (now - depletedAt < this.respawnTime) return;
+
+      const object = this.findObjectById(objectId);
+
+      this.depletedObjects.delete(objectId);
+      if (!object) return;
+
+      const restored = {
+        ...object,
+        health: object.maxHealth,
+        resources: this.initialReserves.get(objectId) ?? object.resources,
+      };
+
+      this.replaceObject(restored);
+      respawned.push(restored);
+    });
+
+    return respawned;
+  }
+
+  // Add an object after the sector was generated, e.g. one spawned by an event
+  addSpaceObject(object: SpaceObject): void {
+    if (this.findObjectById(object.id)) return;
+
+    this.spaceObjects.push(object);
+    if (hasFiniteReserves(object)) {
+      this.initialReserves.set(object.id, object.resources || []);
+    }
+  }
+
+  // Put back an object's saved health and reserves. A depleted object's
+  // respawn timer runs from the game time it was depleted
+  restoreObjectState(
+    objectId: string,
+    state: Pick<SpaceObject, "health" | "resources">,
+    depletedAt?: number,
+  ): void {
+    const object = this.findObjectById(objectId);
+
+    if (!object) return;
+
+    const restored = { ...object, ...state };
+
+    this.replaceObject(restored);
+    if (isObjectDepleted(restored)) {
+      this.depletedObjects.set(objectId, depletedAt ?? this.clock.now());
+    }
+  }
+
+  // Game time an object was depleted, null while it can still be mined
+  getDepletedAt(objectId: string): number | null {
+    return this.depletedObjects.get(objectId) ?? null;
   }
 
   // Find object by ID for resource lookup
@@ -380,6 +613,38 @@ export class MiningSystem {
     return this.spaceObjects.find((obj) => obj.id === objectId);
   }
 
+  // Apply mining damage, replacing the object so earlier copies stay unchanged.
+  // A node with nothing left to extract is destroyed outright
+  private damageObject(object: SpaceObject, damage: number): SpaceObject {
+    const exhausted =
+      hasFiniteReserves(object) && getRemainingReserves(object) === 0;
+    const damaged = {
+      ...object,
+      health:
+        object.health === undefined
+          ? undefined
+          : exhausted
+            ? 0
+            : Math.max(object.health - damage, 0),
+    };
+
+    this.replaceObject(damaged);
+
+    if (isObjectDepleted(damaged)) {
+      this.depletedObjects.set(damaged.id, this.clock.now());
+    }
+
+    return damaged;
+  }
+
+  private replaceObject(object: SpaceObject): void {
+    const index = this.spaceObjects.findIndex((obj) => obj.id === object.id);
+
+    if (index !== -1) {
+      this.spaceObjects[index] = object;
+    }
+  }
+
   // Apply loyalty tier bonuses to mined resources
   private applyLoyaltyResourceBonuses(
     resources: Resource[],
@@ -389,11 +654,8 @@ export class MiningSystem {
     if (loyaltyMultiplier >= 1.1) {
       // Apprentice Miner tier (1.1x)
       // 10% chance for bonus resource
-      if (Math.random() < 0.1) {
-        const bonusResource = generateRandomResource();
-
-        bonusResource.name = `Bonus ${bonusResource.name}`;
-        resources.push(bonusResource);
+      if (this.random.chance(0.1)) {
+        resources.push(generateRandomResource(this.random));
       }
     }
 
@@ -401,9 +663,8 @@ export class MiningSystem {
       // Journeyman Crafter tier (1.25x)
       // Upgrade some common resources to rare
       resources.forEach((resource) => {
-        if (resource.rarity === "common" && Math.random() < 0.15) {
-          resource.rarity = "rare";
-          resource.name = `Rare ${resource.name}`;
+        if (resource.rarity === "common" && this.random.chance(0.15)) {
+          this.setResourceRarity(resource, "rare");
         }
       });
     }
@@ -412,9 +673,8 @@ export class MiningSystem {
       // Expert Navigator tier (1.5x)
       // Upgrade some rare resources to epic
       resources.forEach((resource) => {
-        if (resource.rarity === "rare" && Math.random() < 0.1) {
-          resource.rarity = "epic";
-          resource.name = `Epic ${resource.name}`;
+        if (resource.rarity === "rare" && this.random.chance(0.1)) {
+          this.setResourceRarity(resource, "epic");
         }
       });
     }
@@ -422,14 +682,24 @@ export class MiningSystem {
     if (loyaltyMultiplier >= 2.0) {
       // Master Explorer tier (2.0x)
       // Small chance for legendary resources
-      if (Math.random() < 0.05) {
-        const legendaryResource = generateRandomResource();
+      if (this.random.chance(0.05)) {
+        const legendaryResource = generateRandomResource(this.random);
 
-        legendaryResource.rarity = "legendary";
-        legendaryResource.name = `Legendary ${legendaryResource.name}`;
+        this.setResourceRarity(legendaryResource, "legendary");
         legendaryResource.quantity = Math.floor(legendaryResource.quantity * 2);
         resources.push(legendaryResource);
       }
     }
   }
+
+  // Upgraded resources take the raw name and stack of their new rarity, so
+  // they merge with the same resource mined at that rarity
+  private setResourceRarity(
+    resource: Resource,
+    rarity: Resource["rarity"],
+  ): void {
+    resource.rarity = rarity;
+    resource.name = getRawResourceName(resource.type, rarity);
+    resource.id = getStackKey(resource);
+  }
 }
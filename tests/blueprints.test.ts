@@ -0,0 +1,98 @@
+/**
+ * Test file for recipe blueprints
+ * Verifies per-player blueprint knowledge, station purchases and trait study
+ */
+
+import type { SpaceObject } from "@/types/game";
+
+import * as THREE from "three";
+
+import { createManager, player } from "./helpers";
+
+import { useBlueprintStore } from "@/stores/blueprintStore";
+import { useGameStore } from "@/stores/gameStore";
+import { CraftingSystem } from "@/systems/craftingSystem";
+import { GameClock } from "@/systems/gameClock";
+import { GameEventBus } from "@/systems/gameEvents";
+import { getBlueprintPrice, STARTER_BLUEPRINTS } from "@/data/blueprints";
+import { getBlueprintStudyChance } from "@/data/traits";
+import { RandomStream } from "@/utils/random";
+
+const station: SpaceObject = {
+  id: "station_test",
+  type: "station",
+  position: [0, 0, 0],
+  rotation: [0, 0, 0],
+  scale: [1, 1, 1],
+  health: 100,
+  maxHealth: 100,
+  resources: [],
+};
+
+describe('Blueprints', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset();
+    useBlueprintStore.getState().reset();
+  });
+
+  test('should keep learned blueprints per player', () => {
+    const { learnBlueprint, getKnownBlueprints } =
+      useBlueprintStore.getState();
+
+    expect(learnBlueprint("player", "advanced_scanner")).toBe(true);
+    expect(learnBlueprint("player", "advanced_scanner")).toBe(false);
+
+    expect(useBlueprintStore.getState().getKnownBlueprints("player")).toEqual([
+      ...STARTER_BLUEPRINTS,
+      "advanced_scanner",
+    ]);
+    expect(getKnownBlueprints("someone_else")).toEqual(STARTER_BLUEPRINTS);
+  });
+
+  test('should only offer and craft recipes with a known blueprint', () => {
+    const events = new GameEventBus();
+    const manager = createManager(events);
+    const learned: string[] = [];
+
+    events.on("BlueprintLearned", ({ recipeId }) => learned.push(recipeId));
+    useGameStore.getState().setPlayer(player);
+
+    expect(
+      manager.getAvailableRecipes("player", 5).map(({ id }) => id),
+    ).toEqual(STARTER_BLUEPRINTS);
+
+    // Not docked at the station to trade
+    expect(manager.purchaseBlueprint("player", "cargo_expander", station)).toBe(
+      false,
+    );
+
+    manager.dockAt(station, new THREE.Vector3());
+    expect(manager.purchaseBlueprint("player", "cargo_expander", station)).toBe(
+      true,
+    );
+    expect(learned).toEqual(["cargo_expander"]);
+    expect(useGameStore.getState().player?.credits).toBe(
+      player.credits - getBlueprintPrice("cargo_expander")!,
+    );
+    expect(
+      manager.getStationBlueprints("player", 5).map(({ recipe }) => recipe.id),
+    ).not.toContain("cargo_expander");
+  });
+
+  test('should study unknown blueprints with Blueprint Mastery', () => {
+    const crafting = new CraftingSystem(new GameClock(), new RandomStream(7));
+
+    expect(getBlueprintStudyChance([])).toBe(0);
+    expect(
+      getBlueprintStudyChance([
+        { id: "blueprint_mastery", effects: { blueprintEfficiency: 1.3 } },
+      ]),
+    ).toBeCloseTo(0.3);
+
+    expect(crafting.rollBlueprintStudy(1, ["advanced_scanner"])).toBe(
+      "advanced_scanner",
+    );
+    expect(crafting.rollBlueprintStudy(0, ["advanced_scanner"])).toBeNull();
+    expect(crafting.rollBlueprintStudy(1, [])).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Test file for the cargo hold
+ * Verifies that the inventory only accepts what fits in the ship's hold
+ */
+
+import type { Resource } from "@/stores/gameStore";
+
+import { useGameStore } from "@/stores/gameStore";
+import {
+  getCargoMass,
+  getRawResourceName,
+  getResourceMass,
+} from "@/utils/gameHelpers";
+import { GAME_CONFIG } from "@/utils/constants";
+
+const createMetal = (rarity: Resource["rarity"], quantity: number) => ({
+  id: `metal_${rarity}`,
+  name: getRawResourceName("metal", rarity),
+  type: "metal" as const,
+  quantity,
+  rarity,
+});
+
+describe('Cargo Hold', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset();
+  });
+
+  test('should weigh resources by type and rarity', () => {
+    expect(getResourceMass(createMetal("common", 1))).toBe(2);
+    expect(getResourceMass(createMetal("legendary", 1))).toBe(4);
+    expect(
+      getCargoMass([createMetal("common", 10), createMetal("rare", 4)]),
+    ).toBe(30);
+  });
+
+  test('should only accept the units that fit in the hold', () => {
+    const { addResource } = useGameStore.getState();
+    // Common metal weighs 2, so the empty hold takes half the capacity in units
+    const unitsThatFit = GAME_CONFIG.INITIAL_CARGO_CAPACITY / 2;
+
+    expect(addResource(createMetal("common", unitsThatFit + 5))).toBe(
+      unitsThatFit,
+    );
+    expect(addResource(createMetal("common", 1))).toBe(0);
+    expect(useGameStore.getState().inventory).toEqual([
+      createMetal("common", unitsThatFit),
+    ]);
+  });
+
+  test('should accept more once the capacity is raised', () => {
+    const { addResource, raiseCargoCapacity } = useGameStore.getState();
+
+    addResource(createMetal("common", GAME_CONFIG.INITIAL_CARGO_CAPACITY));
+    raiseCargoCapacity(10);
+
+    expect(addResource(createMetal("rare", 10))).toBe(4);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Test file for the crafting queue
+ * Verifies slot limits, automatic starts, reordering and cancelling jobs
+ */
+
+import type { Resource } from "@/types/game";
+
+import { CraftingSystem } from "@/systems/craftingSystem";
+import { GameClock } from "@/systems/gameClock";
+import { RandomStream } from "@/utils/random";
+import { GAME_CONFIG } from "@/utils/constants";
+import { getCraftingSlots } from "@/utils/gameHelpers";
+
+const inventory: Resource[] = [
+  { id: "metal_common", name: "Common Metal", type: "metal", quantity: 99, rarity: "common" },
+  { id: "crystal_common", name: "Common Crystal", type: "crystal", quantity: 99, rarity: "common" },
+];
+
+const queueTools = (crafting: CraftingSystem, count: number) =>
+  Array.from({ length: count }, () =>
+    crafting.queueCrafting("player", "basic_mining_tool", inventory),
+  );
+
+describe('Crafting Queue', () => {
+  test('should start the next queued job when a slot frees up', () => {
+    const clock = new GameClock();
+    const crafting = new CraftingSystem(clock, new RandomStream(1));
+    const [first, second, third] = queueTools(crafting, 3);
+
+    expect(
+      crafting.getPlayerCraftingOperations("player").map(({ id }) => id),
+    ).toEqual([first!.id]);
+    expect(crafting.getCraftingQueue("player").map(({ id }) => id)).toEqual([
+      second!.id,
+      third!.id,
+    ]);
+
+    // Basic tools take 3s, so only the first one finishes
+    clock.step(4000);
+
+    expect(crafting.updateCrafting(0)).toHaveLength(1);
+    expect(
+      crafting.getPlayerCraftingOperations("player").map(({ id }) => id),
+    ).toEqual([second!.id]);
+    expect(crafting.getCraftingQueue("player")).toHaveLength(1);
+  });
+
+  test('should reorder and cancel queued jobs', () => {
+    const crafting = new CraftingSystem(new GameClock(), new RandomStream(1));
+    const [first, second, third] = queueTools(crafting, 3);
+
+    expect(crafting.reorderCraftingQueue("player", third!.id, 0)).toBe(true);
+    expect(crafting.reorderCraftingQueue("player", third!.id, 5)).toBe(false);
+
+    // Cancelling the running job hands its slot to the front of the queue
+    // and gives back what it reserved for a refund
+    expect(crafting.cancelCrafting(first!.id)?.requiredResources).toEqual(
+      first!.requiredResources,
+    );
+    expect(
+      crafting.getPlayerCraftingOperations("player").map(({ id }) => id),
+    ).toEqual([third!.id]);
+
+    expect(crafting.cancelCrafting(second!.id)?.id).toBe(second!.id);
+    expect(crafting.getCraftingQueue("player")).toHaveLength(0);
+    expect(crafting.cancelCrafting(second!.id)).toBeNull();
+  });
+
+  test('should open slots with level and cap the queue length', () => {
+    const crafting = new CraftingSystem(new GameClock(), new RandomStream(1));
+
+    expect(getCraftingSlots(1)).toBe(GAME_CONFIG.CRAFTING_BASE_SLOTS);
+    expect(getCraftingSlots(10)).toBe(GAME_CONFIG.CRAFTING_BASE_SLOTS + 2);
+    expect(getCraftingSlots(100)).toBe(GAME_CONFIG.CRAFTING_MAX_SLOTS);
+
+    const jobs = queueTools(crafting, GAME_CONFIG.CRAFTING_QUEUE_SIZE + 2);
+
+    expect(jobs[jobs.length - 1]).toBeNull();
+
+    // New slots pick up waiting jobs straight away
+    crafting.setCraftingSlots("player", 3);
+
+    expect(crafting.getPlayerCraftingOperations("player")).toHaveLength(3);
+    expect(crafting.getCraftingQueue("player")).toHaveLength(
+      GAME_CONFIG.CRAFTING_QUEUE_SIZE - 2,
+    );
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Test file for data-driven crafting recipes
+ * Verifies rarity-specific inputs, by-product rolls and recipe loading
+ */
+
+import type { CraftingRecipe, Resource } from "@/types/game";
+
+import { CRAFTING_RECIPES } from "@/data/recipes";
+import { CraftingSystem } from "@/systems/craftingSystem";
+import { GameClock } from "@/systems/gameClock";
+import { RandomStream } from "@/utils/random";
+import { checkRecipeInputs } from "@/utils/gameHelpers";
+
+const crystal = (rarity: Resource["rarity"], quantity: number): Resource => ({
+  id: `crystal_${rarity}`,
+  name: `${rarity.charAt(0).toUpperCase() + rarity.slice(1)} Crystal`,
+  type: "crystal",
+  quantity,
+  rarity,
+});
+
+const lens: CraftingRecipe = {
+  id: "focusing_lens",
+  name: "Focusing Lens",
+  description: "Test recipe",
+  category: "components",
+  inputs: [
+    { resourceType: "crystal", quantity: 3 },
+    { resourceType: "crystal", rarity: "rare", quantity: 1 },
+  ],
+  outputs: [
+    {
+      item: {
+        id: "focusing_lens",
+        name: "Focusing Lens",
+        type: "crystal",
+        quantity: 1,
+        rarity: "rare",
+      },
+      probability: 1,
+    },
+    { item: crystal("common", 2), probability: 1 },
+    { item: crystal("epic", 1), probability: 0.000001 },
+  ],
+  craftingTime: 1000,
+  requiredLevel: 1,
+};
+
+describe('Crafting Recipes', () => {
+  test('should keep rare units for the input that asks for them', () => {
+    // The rare input claims its unit before the general input takes commons
+    expect(
+      checkRecipeInputs(lens, [crystal("rare", 1), crystal("common", 3)])
+        .canCraft,
+    ).toBe(true);
+    // Commons can't stand in for the rare input
+    expect(
+      checkRecipeInputs(lens, [crystal("common", 4)]).missingResources,
+    ).toEqual([{ resourceType: "crystal", rarity: "rare", needed: 1, have: 0 }]);
+  });
+
+  test('should never take crafted items for inputs that ask for raw resources', () => {
+    const getRecipe = (id: string) =>
+      CRAFTING_RECIPES.find((recipe) => recipe.id === id)!;
+    const metal = (rarity: Resource["rarity"], quantity: number): Resource => ({
+      id: `metal_${rarity}`,
+      name: `${rarity.charAt(0).toUpperCase() + rarity.slice(1)} Metal`,
+      type: "metal",
+      quantity,
+      rarity,
+    });
+    const tool: Resource = {
+      id: "metal_common_basic_mining_tool",
+      name: "Basic Mining Tool",
+      type: "metal",
+      quantity: 1,
+      rarity: "common",
+    };
+    const alloy: Resource = {
+      id: "metal_epic_quantum_alloy",
+      name: "Quantum Alloy",
+      type: "metal",
+      quantity: 2,
+      rarity: "epic",
+    };
+
+    expect(
+      checkRecipeInputs(getRecipe("basic_mining_tool"), [
+        tool,
+        metal("common", 2),
+        crystal("common", 1),
+      ]).missingResources?.map(({ needed, have }) => [needed, have]),
+    ).toEqual([[3, 2]]);
+    expect(
+      checkRecipeInputs(getRecipe("precision_mining_laser"), [alloy])
+        .missingResources?.[0],
+    ).toEqual({ resourceType: "metal", rarity: "epic", needed: 2, have: 0 });
+  });
+
+  test('should roll by-products against their probability', () => {
+    const clock = new GameClock();
+    const crafting = new CraftingSystem(clock, new RandomStream(3), [lens]);
+
+    crafting.queueCrafting("player", lens.id, [
+      crystal("common", 3),
+      crystal("rare", 1),
+    ]);
+    clock.step(2000);
+
+    const [result] = crafting.updateCrafting(0);
+
+    expect(result.item.name).toBe("Focusing Lens");
+    expect(result.bonusItems).toEqual([crystal("common", 2)]);
+  });
+
+  test('should skip recipes that produce nothing', () => {
+    const crafting = new CraftingSystem(new GameClock(), new RandomStream(3), [
+      { ...lens, outputs: [] },
+    ]);
+
+    expect(crafting.getRecipe(lens.id)).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Test file for the credits ledger
+ * Verifies ledger entries for credit changes, the balance audit and CSV export
+ */
+
+import type { Resource } from "@/stores/gameStore";
+import type { SpaceObject } from "@/types/game";
+
+import * as THREE from "three";
+
+import { createManager, player } from "./helpers";
+
+import { useBlueprintStore } from "@/stores/blueprintStore";
+import {
+  auditCreditsLedger,
+  creditsLedgerToCsv,
+  useCreditsLedgerStore,
+} from "@/stores/creditsLedgerStore";
+import { useGameStore } from "@/stores/gameStore";
+import { GameEventBus } from "@/systems/gameEvents";
+
+const station: SpaceObject = {
+  id: "station_test",
+  type: "station",
+  position: [0, 0, 0],
+  rotation: [0, 0, 0],
+  scale: [1, 1, 1],
+  health: 100,
+  maxHealth: 100,
+  resources: [],
+  marketSeed: 1,
+};
+
+const metal: Resource = {
+  id: "metal_common",
+  name: "Common Metal",
+  type: "metal",
+  quantity: 10,
+  rarity: "common",
+};
+
+const getLedger = () => useCreditsLedgerStore.getState().getLedger(player.id);
+const getCredits = () => useGameStore.getState().player!.credits;
+
+describe('Credits Ledger', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset();
+    useBlueprintStore.getState().reset();
+    useCreditsLedgerStore.getState().reset();
+    useGameStore.getState().setPlayer(player);
+  });
+
+  test('should record each change and refuse charges the balance cannot cover', () => {
+    const { changeCredits } = useGameStore.getState();
+
+    expect(changeCredits("mission_reward", 250, "Mission: First Steps")).toBe(
+      true,
+    );
+    expect(changeCredits("purchase", -2000, "Too expensive")).toBe(false);
+    expect(changeCredits("purchase", -1250, "Everything")).toBe(true);
+
+    const entries = getLedger().map(({ type, amount, balanceAfter }) => [
+      type,
+      amount,
+      balanceAfter,
+    ]);
+
+    expect(getCredits()).toBe(0);
+    expect(entries).toEqual([
+      ["opening_balance", 1000, 1000],
+      ["mission_reward", 250, 1250],
+      ["purchase", -1250, 0],
+    ]);
+    expect(auditCreditsLedger(getLedger(), getCredits()).balanced).toBe(true);
+  });
+
+  test('should book station trades and purchases through the ledger', () => {
+    const manager = createManager();
+
+    useGameStore.getState().addResource(metal);
+    manager.dockAt(station, new THREE.Vector3());
+
+    expect(manager.sellToMarket(station, metal, 10)).toBe(true);
+    expect(
+      manager.purchaseBlueprint(player.id, "fabrication_matrix", station),
+    ).toBe(false);
+    expect(
+      manager.purchaseBlueprint(player.id, "cargo_expander", station),
+    ).toBe(true);
+
+    expect(getLedger().map(({ type }) => type)).toEqual([
+      "opening_balance",
+      "sale",
+      "purchase",
+    ]);
+    expect(getLedger()[2].description).toBe("Cargo Expander blueprint");
+    expect(auditCreditsLedger(getLedger(), getCredits()).balanced).toBe(true);
+  });
+
+  test('should keep the ledger balance when a player is set again', () => {
+    useGameStore.getState().changeCredits("sale", 50, "Sold 5 Crystal");
+    useGameStore.getState().setPlayer({ ...player, credits: 5000 });
+
+    expect(getCredits()).toBe(1050);
+    expect(getLedger().map(({ type }) => type)).toEqual([
+      "opening_balance",
+      "sale",
+    ]);
+    expect(useCreditsLedgerStore.getState().openLedger(player.id, 5000)).toBe(
+      false,
+    );
+  });
+
+  test('should flag credits changed outside the ledger and export to CSV', () => {
+    useGameStore.getState().changeCredits("sale", 50, 'Sold 5 "Rare" Crystal');
+
+    const audit = auditCreditsLedger(getLedger(), 5000);
+
+    expect(audit.balanced).toBe(false);
+    expect(audit.discrepancy).toBe(5000 - 1050);
+    expect(audit.brokenEntries).toEqual([]);
+
+    // An entry rewritten after the fact no longer adds up
+    const tampered = getLedger().map((entry) =>
+      entry.type === "sale" ? { ...entry, amount: 500 } : entry,
+    );
+
+    expect(auditCreditsLedger(tampered, 1050).brokenEntries).toEqual(["txn_2"]);
+
+    const csv = creditsLedgerToCsv(getLedger()).split("\n");
+
+    expect(csv[0]).toBe("id,timestamp,type,amount,balance_after,description");
+    expect(csv[2].split(",").slice(2).join(",")).toBe(
+      'sale,50,1050,"Sold 5 ""Rare"" Crystal"',
+    );
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Test file for station docking
+ * Verifies the docked state, the station warehouse and station-only recipes
+ */
+
+import type { Resource } from "@/stores/gameStore";
+import type { SpaceObject } from "@/types/game";
+
+import * as THREE from "three";
+
+import { createManager } from "./helpers";
+
+import { useBlueprintStore } from "@/stores/blueprintStore";
+import { useGameStore } from "@/stores/gameStore";
+import { useWarehouseStore } from "@/stores/warehouseStore";
+import { GameEventBus } from "@/systems/gameEvents";
+import { getCargoMass } from "@/utils/gameHelpers";
+
+const station: SpaceObject = {
+  id: "station_test",
+  type: "station",
+  position: [0, 0, 0],
+  rotation: [0, 0, 0],
+  scale: [1, 1, 1],
+  health: 100,
+  maxHealth: 100,
+  resources: [],
+};
+
+const scanner: Resource = {
+  id: "crystal_rare_advanced_scanner",
+  name: "Advanced Scanner",
+  type: "crystal",
+  quantity: 2,
+  rarity: "rare",
+};
+
+describe('Station Docking', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset();
+    useBlueprintStore.getState().reset();
+    useWarehouseStore.getState().reset();
+  });
+
+  test('should only dock within range and undock once', () => {
+    const events = new GameEventBus();
+    const manager = createManager(events);
+    const log: string[] = [];
+
+    events.on("StationDocked", ({ station }) => log.push(`dock ${station.id}`));
+    events.on("StationUndocked", ({ station }) =>
+      log.push(`undock ${station.id}`),
+    );
+
+    expect(manager.dockAt(station, new THREE.Vector3(1000, 0, 0))).toBe(false);
+    expect(manager.getDockedStation()).toBeNull();
+
+    expect(manager.dockAt(station, new THREE.Vector3())).toBe(true);
+    expect(manager.dockAt(station, new THREE.Vector3())).toBe(true);
+    expect(manager.getDockedStation()?.id).toBe(station.id);
+
+    expect(manager.undock()).toBe(true);
+    expect(manager.undock()).toBe(false);
+    expect(log).toEqual([`dock ${station.id}`, `undock ${station.id}`]);
+  });
+
+  test('should store goods and catch overflow in the station warehouse', () => {
+    const manager = createManager();
+
+    useGameStore.getState().addResource(scanner);
+
+    // Nothing can be stored until docked
+    expect(manager.depositToWarehouse(scanner, 1)).toBe(0);
+
+    manager.dockAt(station, new THREE.Vector3());
+    expect(manager.depositToWarehouse(scanner, 1)).toBe(1);
+    expect(manager.getWarehouse().map(({ quantity }) => quantity)).toEqual([
+      1,
+    ]);
+
+    // A refund that doesn't fit in a full hold goes to the warehouse
+    expect(manager.startSalvage("player", scanner)).toBe(true);
+    useGameStore.setState({
+      cargoCapacity: getCargoMass(useGameStore.getState().inventory),
+    });
+
+    const [operation] = manager.getPlayerSalvageOperations("player");
+
+    expect(manager.cancelSalvage(operation.id)).toEqual([]);
+    expect(manager.getWarehouse().map(({ quantity }) => quantity)).toEqual([
+      2,
+    ]);
+
+    useGameStore.setState({ cargoCapacity: 500 });
+    expect(manager.withdrawFromWarehouse(scanner, 2)).toBe(2);
+    expect(manager.getWarehouse()).toEqual([]);
+  });
+
+  test('should only start station-only recipes while docked', () => {
+    const manager = createManager();
+    const materials: Resource[] = [
+      { id: "metal_ingot", name: "Metal Ingot", type: "metal", quantity: 6, rarity: "common" },
+      { id: "energy_cell", name: "Energy Cell", type: "energy", quantity: 3, rarity: "common" },
+      { id: "crystal_rare", name: "Rare Crystal", type: "crystal", quantity: 3, rarity: "rare" },
+    ];
+
+    materials.forEach((resource) =>
+      useGameStore.getState().addResource(resource),
+    );
+    useBlueprintStore.getState().learnBlueprint("player", "fabrication_matrix");
+
+    const craft = () =>
+      manager.queueCrafting(
+        "player",
+        "fabrication_matrix",
+        useGameStore.getState().inventory,
+      );
+
+    expect(craft()).toBeNull();
+
+    manager.dockAt(station, new THREE.Vector3());
+    expect(craft()).not.toBeNull();
+    expect(useGameStore.getState().inventory).toEqual([]);
+  });
+});
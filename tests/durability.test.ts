@@ -0,0 +1,153 @@
+/**
+ * Test file for equipment durability
+ * Verifies wear from operations, broken tools and repairs for credits or metal
+ */
+
+import type { Resource } from "@/stores/gameStore";
+import type { SpaceObject } from "@/types/game";
+
+import * as THREE from "three";
+
+import { createManager, player } from "./helpers";
+
+import { useEquipmentStore } from "@/stores/equipmentStore";
+import { useGameStore } from "@/stores/gameStore";
+import { getDurability } from "@/data/equipment";
+import { GAME_CONFIG } from "@/utils/constants";
+
+const miningTool: Resource = {
+  id: "metal_common_basic_mining_tool",
+  name: "Basic Mining Tool",
+  type: "metal",
+  quantity: 2,
+  rarity: "common",
+};
+
+const station: SpaceObject = {
+  id: "station_test",
+  type: "station",
+  position: [0, 0, 0],
+  rotation: [0, 0, 0],
+  scale: [1, 1, 1],
+  health: 100,
+  maxHealth: 100,
+  resources: [],
+};
+
+const asteroid: SpaceObject = {
+  ...station,
+  id: "asteroid_test",
+  type: "asteroid",
+};
+
+// Fit a mining tool and wear it down by the given number of operations
+const fitWornTool = (operations: number) => {
+  useGameStore.getState().addResource(miningTool);
+  useEquipmentStore.getState().equipItem(miningTool);
+
+  return useEquipmentStore
+    .getState()
+    .wearEquipment("miningBonus", operations);
+};
+
+describe('Durability', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset();
+    useEquipmentStore.getState().reset();
+  });
+
+  test('should wear tools down until they break and stop giving a bonus', () => {
+    expect(fitWornTool(10)).toEqual([]);
+    expect(
+      getDurability(useEquipmentStore.getState().equipped.mining_tool!),
+    ).toBe(40);
+
+    // Crafting doesn't wear a mining tool
+    expect(
+      useEquipmentStore.getState().wearEquipment("craftingBonus", 100),
+    ).toEqual([]);
+
+    const broken = useEquipmentStore
+      .getState()
+      .wearEquipment("miningBonus", 100);
+
+    expect(broken.map(({ name }) => name)).toEqual([miningTool.name]);
+    expect(useEquipmentStore.getState().getEquippedDefinitions()).toEqual([]);
+  });
+
+  test('should charge energy and wear once when the same target is mined twice', () => {
+    const manager = createManager();
+
+    fitWornTool(0);
+    manager.updateSpaceObjects([asteroid]);
+
+    const toolDurability = () =>
+      getDurability(useEquipmentStore.getState().equipped.mining_tool!);
+    const energy = manager.getEnergy().energy;
+    const durability = toolDurability();
+
+    manager.startMining(player.id, asteroid);
+    manager.startMining(player.id, asteroid);
+
+    expect(manager.getEnergy().energy).toBe(
+      energy - GAME_CONFIG.MINING_ENERGY_COST,
+    );
+    expect(toolDurability()).toBe(durability - 1);
+  });
+
+  test('should repair for credits only when docked at a station', () => {
+    const manager = createManager();
+
+    useGameStore.getState().setPlayer(player);
+    fitWornTool(10);
+
+    const { credits } = manager.getRepairCost("mining_tool");
+
+    expect(credits).toBe(10 * GAME_CONFIG.REPAIR_CREDITS_PER_POINT);
+    expect(manager.repairAtStation("mining_tool", station)).toBe(false);
+    expect(manager.dockAt(station, new THREE.Vector3())).toBe(true);
+    expect(manager.repairAtStation("mining_tool", station)).toBe(true);
+    expect(useGameStore.getState().player?.credits).toBe(
+      player.credits - credits,
+    );
+    expect(manager.getRepairCost("mining_tool").credits).toBe(0);
+  });
+
+  test('should repair with metal and keep worn tools in their own stack', () => {
+    const manager = createManager();
+
+    fitWornTool(10);
+
+    // The worn tool no longer stacks with the new one
+    useEquipmentStore.getState().unequipItem("mining_tool");
+    expect(useGameStore.getState().inventory).toHaveLength(2);
+
+    const worn = useGameStore
+      .getState()
+      .inventory.find((item) => item.durability !== undefined)!;
+
+    useEquipmentStore.getState().equipItem(worn);
+    useGameStore.getState().addResource({
+      id: "metal_common",
+      name: "Common Metal",
+      type: "metal",
+      quantity: 5,
+      rarity: "common",
+    });
+
+    expect(
+      manager.repairWithMetal("mining_tool", useGameStore.getState().inventory),
+    ).toBe(true);
+
+    // Only the ore was used and the repaired tool rejoins the new ones
+    useEquipmentStore.getState().unequipItem("mining_tool");
+    expect(
+      useGameStore
+        .getState()
+        .inventory.map(({ id, quantity }) => [id, quantity]),
+    ).toEqual([
+      [miningTool.id, 2],
+      ["metal_common", 3],
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Test file for the Energy System
+ * Verifies the ship energy pool and that actions are blocked when it runs dry
+ */
+
+import type { Resource, SpaceObject } from "@/types/game";
+
+import { EnergySystem } from "@/systems/energySystem";
+import { MiningSystem } from "@/systems/miningSystem";
+import { GameClock } from "@/systems/gameClock";
+import { GAME_CONFIG } from "@/utils/constants";
+
+const createEnergyResource = (
+  rarity: Resource["rarity"],
+  quantity: number,
+): Resource => ({
+  id: `energy_${rarity}`,
+  name: "Energy Cell",
+  type: "energy",
+  quantity,
+  rarity,
+});
+
+describe('Energy System', () => {
+  test('should only spend energy it has and regenerate over time', () => {
+    const energy = new EnergySystem(100, 2);
+
+    expect(energy.consume(80)).toBe(true);
+    expect(energy.consume(30)).toBe(false);
+    expect(energy.getState().energy).toBe(20);
+
+    energy.regenerate(5000);
+    expect(energy.getState().energy).toBe(30);
+
+    energy.regenerate(60000);
+    expect(energy.getState().energy).toBe(100);
+  });
+
+  test('should plan a refuel from the cheapest energy resources first', () => {
+    const energy = new EnergySystem(100);
+
+    energy.consume(45);
+
+    const plan = energy.planRefuel([
+      createEnergyResource("epic", 2),
+      createEnergyResource("common", 3),
+      {
+        id: "crystal_common",
+        name: "Crystal",
+        type: "crystal",
+        quantity: 9,
+        rarity: "common",
+      },
+    ]);
+
+    // 3 commons give 30, one epic covers the remaining 15
+    expect(
+      plan.map(({ resource, quantity }) => [resource.rarity, quantity]),
+    ).toEqual([
+      ["common", 3],
+      ["epic", 1],
+    ]);
+  });
+
+  test('should give the energy shortfall as the reason mining cannot start', () => {
+    const mining = new MiningSystem(new GameClock());
+    const asteroid: SpaceObject = {
+      id: "asteroid_test",
+      type: "asteroid",
+      position: [0, 0, 0],
+      rotation: [0, 0, 0],
+      scale: [1, 1, 1],
+      health: 100,
+      maxHealth: 100,
+      resources: [],
+    };
+
+    expect(
+      mining.canStartMining(
+        "player",
+        asteroid,
+        GAME_CONFIG.MINING_ENERGY_COST - 1,
+      ),
+    ).toEqual({ canMine: false, reason: "Not enough ship energy" });
+  });
+});
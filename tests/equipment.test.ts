@@ -0,0 +1,72 @@
+/**
+ * Test file for ship equipment
+ * Verifies fitting crafted tools and that they feed efficiency calculations
+ */
+
+import type { Resource } from "@/stores/gameStore";
+
+import { useEquipmentStore } from "@/stores/equipmentStore";
+import { useGameStore } from "@/stores/gameStore";
+import { MiningSystem } from "@/systems/miningSystem";
+import { CraftingSystem } from "@/systems/craftingSystem";
+import { GameClock } from "@/systems/gameClock";
+
+const miningTool: Resource = {
+  id: "metal_common_basic_mining_tool",
+  name: "Basic Mining Tool",
+  type: "metal",
+  quantity: 2,
+  rarity: "common",
+};
+
+describe('Equipment', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset();
+    useEquipmentStore.getState().reset();
+  });
+
+  test('should move one item from the inventory into its slot', () => {
+    useGameStore.getState().addResource(miningTool);
+
+    expect(useEquipmentStore.getState().equipItem(miningTool)).toBe(true);
+    expect(useEquipmentStore.getState().equipped.mining_tool?.quantity).toBe(1);
+    expect(useGameStore.getState().inventory[0].quantity).toBe(1);
+
+    expect(useEquipmentStore.getState().unequipItem("mining_tool")).toBe(true);
+    expect(useEquipmentStore.getState().equipped.mining_tool).toBeUndefined();
+    expect(useGameStore.getState().inventory[0].quantity).toBe(2);
+  });
+
+  test('should refuse items that are not equipment', () => {
+    const ore: Resource = {
+      id: "metal_common",
+      name: "Common Metal",
+      type: "metal",
+      quantity: 5,
+      rarity: "common",
+    };
+
+    useGameStore.getState().addResource(ore);
+
+    expect(useEquipmentStore.getState().equipItem(ore)).toBe(false);
+    expect(useGameStore.getState().inventory[0].quantity).toBe(5);
+  });
+
+  test('should apply equipped bonuses to efficiency calculations', () => {
+    useGameStore.getState().addResource(miningTool);
+    useEquipmentStore.getState().equipItem(miningTool);
+
+    const equipment = useEquipmentStore.getState().getEquippedDefinitions();
+
+    expect(
+      new MiningSystem(new GameClock()).calculateMiningEfficiency([], equipment),
+    ).toBeCloseTo(1.2);
+    // A mining tool does nothing for crafting
+    expect(
+      new CraftingSystem(new GameClock()).calculateCraftingEfficiency(
+        [],
+        equipment,
+      ),
+    ).toBe(1);
+  });
+});
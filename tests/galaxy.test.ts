@@ -0,0 +1,130 @@
+/**
+ * Test file for the galaxy and warp travel
+ * Verifies the seeded sector graph, warp costs and arrival, and saved jumps
+ */
+
+import { createManager, player } from "./helpers";
+
+import { useGameStore } from "@/stores/gameStore";
+import { GameEventBus } from "@/systems/gameEvents";
+import { GAME_CONFIG } from "@/utils/constants";
+import { getExperienceForLevel } from "@/utils/gameHelpers";
+import { HOME_SECTOR_CONFIG, SpaceGenerator } from "@/utils/spaceGeneration";
+
+// Far enough along to warp out of the home sector
+const veteran = { ...player, experience: getExperienceForLevel(10) };
+
+describe('Galaxy', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset();
+    useGameStore.getState().setPlayer(veteran);
+  });
+
+  test('should generate the same connected galaxy around the home sector', () => {
+    const galaxy = SpaceGenerator.generateGalaxy(GAME_CONFIG.GALAXY_SEED);
+    const home = galaxy.sectors.find(({ id }) => id === galaxy.homeSectorId)!;
+
+    expect(SpaceGenerator.generateGalaxy(GAME_CONFIG.GALAXY_SEED)).toEqual(
+      galaxy,
+    );
+    expect(galaxy.sectors.length).toBe(GAME_CONFIG.GALAXY_SECTOR_COUNT);
+    expect(home.difficulty).toBe(1);
+
+    // Every sector can be reached from home and links run both ways
+    const reached = new Set([home.id]);
+    const queue = [home];
+
+    while (queue.length > 0) {
+      const sector = queue.shift()!;
+
+      sector.links.forEach((linkId) => {
+        const linked = galaxy.sectors.find(({ id }) => id === linkId)!;
+
+        expect(linked.links.includes(sector.id)).toBe(true);
+
+        if (!reached.has(linkId)) {
+          reached.add(linkId);
+          queue.push(linked);
+        }
+      });
+    }
+
+    expect(reached.size).toBe(galaxy.sectors.length);
+
+    // Home space keeps the object ids older saves refer to
+    const homeObjects = SpaceGenerator.generateSector(home.config).objects;
+    const legacyObjects =
+      SpaceGenerator.generateSector(HOME_SECTOR_CONFIG).objects;
+
+    expect(homeObjects.map(({ id }) => id)).toEqual(
+      legacyObjects.map(({ id }) => id),
+    );
+
+    // Other sectors prefix their ids so they never collide with home's
+    const other = galaxy.sectors.find(({ id }) => id !== home.id)!;
+
+    SpaceGenerator.generateSector(other.config).objects.forEach(({ id }) => {
+      expect(id.startsWith(`${other.id}_`)).toBe(true);
+    });
+  });
+
+  test('should spend energy and time on a jump and load the new sector', () => {
+    const events = new GameEventBus();
+    const manager = createManager(events);
+    const log: string[] = [];
+    const target = manager.getCurrentSector().links[0];
+    const cost = manager.getWarpCost(target)!;
+    const energyBefore = manager.getEnergy().energy;
+    const asteroid = manager.loadCurrentSector().objects[0];
+
+    events.on("WarpStarted", ({ to }) => log.push(`warp ${to.id}`));
+    events.on("SectorEntered", ({ sector }) =>
+      log.push(`enter ${sector.objects.length}`),
+    );
+
+    expect(manager.startWarp(player.id, target)).toBe(true);
+    expect(manager.getEnergy().energy).toBe(energyBefore - cost.energy);
+    expect(manager.canWarpTo(target).reason).toBe("Already in a warp jump");
+    expect(manager.canStartMining(player.id, asteroid).canMine).toBe(false);
+
+    manager.stepSystems(cost.duration / 2);
+    expect(manager.getCurrentSector().id).not.toBe(target);
+    expect(manager.getWarpProgress()).toBeGreaterThan(0.4);
+
+    manager.stepSystems(cost.duration / 2 + 100);
+    expect(manager.getCurrentSector().id).toBe(target);
+    expect(manager.getWarp()).toBeNull();
+    expect(log.length).toBe(2);
+    expect(log[0]).toBe(`warp ${target}`);
+  });
+
+  test('should refuse jumps without a route or the level and keep saved jumps', () => {
+    const manager = createManager();
+    const home = manager.getCurrentSector();
+    const unlinked = manager
+      .getGalaxy()
+      .sectors.find(({ id }) => id !== home.id && !home.links.includes(id))!;
+    const target = home.links[0];
+    const cost = manager.getWarpCost(target)!;
+
+    expect(manager.canWarpTo(unlinked.id).reason).toBe(
+      "No warp route to that sector",
+    );
+
+    useGameStore.getState().setPlayer(player);
+    expect(manager.canWarpTo(target).canWarp).toBe(false);
+    expect(manager.startWarp(player.id, target)).toBe(false);
+
+    useGameStore.getState().setPlayer(veteran);
+    expect(manager.startWarp(player.id, target)).toBe(true);
+
+    // A jump saved part way through finishes after loading
+    const restored = createManager();
+
+    restored.restoreSnapshot(manager.createSnapshot());
+    expect(restored.getWarp()?.toSectorId).toBe(target);
+
+    restored.stepSystems(cost.duration + 100);
+    expect(restored.getCurrentSector().id).toBe(target);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Test file for the Game Clock
+ * Verifies fixed-step timing and that mining/crafting follow game time
+ */
+
+import type { SpaceObject } from "@/types/game";
+
+import { GameClock } from "@/systems/gameClock";
+import { MiningSystem } from "@/systems/miningSystem";
+import { CraftingSystem } from "@/systems/craftingSystem";
+import { GAME_CONFIG } from "@/utils/constants";
+
+const testAsteroid: SpaceObject = {
+  id: "asteroid_test",
+  type: "asteroid",
+  position: [0, 0, 0],
+  rotation: [0, 0, 0],
+  scale: [1, 1, 1],
+  health: 100,
+  maxHealth: 100,
+  resources: [],
+};
+
+describe('Game Clock', () => {
+  test('should advance in fixed steps', () => {
+    const clock = new GameClock({ fixedTimeStep: 10 });
+    const steps: number[] = [];
+
+    clock.tick(25, (stepTime) => steps.push(stepTime));
+
+    expect(steps).toEqual([10, 10]);
+    expect(clock.now()).toBe(20);
+
+    // Leftover 5ms is carried into the next tick
+    clock.tick(5, (stepTime) => steps.push(stepTime));
+
+    expect(clock.now()).toBe(30);
+  });
+
+  test('should not advance while paused', () => {
+    const clock = new GameClock({ fixedTimeStep: 10 });
+
+    clock.pause();
+    clock.tick(1000, () => {});
+
+    expect(clock.now()).toBe(0);
+
+    clock.resume();
+    clock.tick(1000, () => {});
+
+    expect(clock.now()).toBe(1000);
+  });
+
+  test('should apply time scale', () => {
+    const clock = new GameClock({ fixedTimeStep: 10 });
+
+    clock.setTimeScale(2);
+    clock.tick(100, () => {});
+
+    expect(clock.now()).toBe(200);
+  });
+
+  test('should flush long frames as a catch-up step', () => {
+    const clock = new GameClock({ fixedTimeStep: 10, maxStepsPerTick: 5 });
+    const steps: number[] = [];
+
+    clock.tick(1000, (stepTime) => steps.push(stepTime));
+
+    expect(steps).toEqual([10, 10, 10, 10, 10, 950]);
+    expect(clock.now()).toBe(1000);
+  });
+
+  test('should step by hand regardless of pause', () => {
+    const clock = new GameClock({ fixedTimeStep: 10 });
+
+    clock.pause();
+    clock.step(50);
+
+    expect(clock.now()).toBe(50);
+  });
+});
+
+describe('Game Clock driven systems', () => {
+  test('should finish mining after the right amount of game time across a pause', () => {
+    const clock = new GameClock({ fixedTimeStep: 100 });
+    const miningSystem = new MiningSystem(clock);
+    const operation = miningSystem.startMining("player", testAsteroid);
+    const duration = GAME_CONFIG.MINING_DURATION * 0.8;
+
+    expect(operation).not.toBeNull();
+
+    clock.step(duration / 2);
+    expect(miningSystem.updateMining(100)).toHaveLength(0);
+
+    // Real time passing while paused must not count
+    clock.pause();
+    clock.tick(duration * 10, () => {});
+    expect(miningSystem.updateMining(100)).toHaveLength(0);
+
+    clock.resume();
+    clock.step(duration / 2);
+    expect(miningSystem.updateMining(100)).toHaveLength(1);
+  });
+
+  test('should report crafting progress in game time', () => {
+    const clock = new GameClock({ fixedTimeStep: 100 });
+    const craftingSystem = new CraftingSystem(clock);
+    const operation = craftingSystem.queueCrafting(
+      "player",
+      "basic_mining_tool",
+      [
+        { id: "metal", name: "Common Metal", type: "metal", quantity: 3, rarity: "common" },
+        { id: "crystal", name: "Common Crystal", type: "crystal", quantity: 1, rarity: "common" },
+      ],
+    );
+
+    expect(operation).not.toBeNull();
+
+    clock.step(1500);
+
+    expect(craftingSystem.getCraftingProgress(operation!.id)).toEqual({
+      progress: 0.5,
+      timeRemaining: 1500,
+    });
+  });
+
+  test('should resume saved operations on a fresh clock', () => {
+    const clock = new GameClock({ fixedTimeStep: 100 });
+    const miningSystem = new MiningSystem(clock);
+
+    miningSystem.startMining("player", testAsteroid);
+    clock.step(1000);
+
+    const saved = miningSystem.serializeOperations();
+
+    expect(saved[0].elapsed).toBe(1000);
+
+    // Simulate a reload: new clock, 1 second spent away
+    const reloadedClock = new GameClock({ fixedTimeStep: 100 });
+    const reloadedSystem = new MiningSystem(reloadedClock);
+
+    reloadedSystem.restoreOperations(saved, 1000);
+    reloadedClock.step(1000);
+    expect(reloadedSystem.updateMining(100)).toHaveLength(0);
+
+    reloadedClock.step(1000);
+    expect(reloadedSystem.updateMining(100)).toHaveLength(1);
+  });
+
+  test('should settle operations that finished while away', () => {
+    const clock = new GameClock({ fixedTimeStep: 100 });
+    const miningSystem = new MiningSystem(clock);
+
+    miningSystem.startMining("player", testAsteroid);
+
+    const reloadedClock = new GameClock({ fixedTimeStep: 100 });
+    const reloadedSystem = new MiningSystem(reloadedClock);
+
+    reloadedSystem.restoreOperations(
+      miningSystem.serializeOperations(),
+      60 * 1000,
+    );
+
+    expect(reloadedSystem.updateMining(100)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Test file for the Game Event Bus
+ * Verifies subscriber delivery and the events published by the game systems
+ */
+
+import type { SpaceObject } from "@/types/game";
+
+import { GameClock } from "@/systems/gameClock";
+import { GameEventBus } from "@/systems/gameEvents";
+import { GameSystemsManager } from "@/systems/gameSystemsManager";
+import { useGameStore } from "@/stores/gameStore";
+
+const testAsteroid: SpaceObject = {
+  id: "asteroid_test",
+  type: "asteroid",
+  position: [0, 0, 0],
+  rotation: [0, 0, 0],
+  scale: [1, 1, 1],
+  health: 100,
+  maxHealth: 100,
+  resources: [],
+};
+
+describe('Game Event Bus', () => {
+  test('should deliver an event to every subscriber', () => {
+    const events = new GameEventBus();
+    const received: string[] = [];
+
+    events.on("LevelUp", ({ level }) => received.push(`first:${level}`));
+    events.on("LevelUp", ({ level }) => received.push(`second:${level}`));
+    events.emit("LevelUp", { previousLevel: 1, level: 2 });
+
+    expect(received).toEqual(["first:2", "second:2"]);
+  });
+
+  test('should stop delivering after unsubscribing', () => {
+    const events = new GameEventBus();
+    let count = 0;
+    const unsubscribe = events.on("LevelUp", () => {
+      count++;
+    });
+
+    events.emit("LevelUp", { previousLevel: 1, level: 2 });
+    unsubscribe();
+    events.emit("LevelUp", { previousLevel: 2, level: 3 });
+
+    expect(count).toBe(1);
+  });
+
+  test('should keep delivering when a subscriber throws', () => {
+    const events = new GameEventBus();
+    let delivered = false;
+
+    events.on("LevelUp", () => {
+      throw new Error("subscriber failure");
+    });
+    events.on("LevelUp", () => {
+      delivered = true;
+    });
+    events.emit("LevelUp", { previousLevel: 1, level: 2 });
+
+    expect(delivered).toBe(true);
+  });
+});
+
+describe('Game Systems events', () => {
+  test('should publish completed mining and add its resources', () => {
+    const events = new GameEventBus();
+    const clock = new GameClock({ fixedTimeStep: 100 });
+    const manager = new GameSystemsManager(
+      { enableAutoSave: false, seed: 42 },
+      {},
+      clock,
+      events,
+    );
+    const completed: string[] = [];
+
+    useGameStore.getState().setInventory([]);
+    events.on("MiningCompleted", ({ result }) =>
+      completed.push(result.targetObjectId),
+    );
+
+    manager.startMining("player", testAsteroid);
+    manager.stepSystems(10000);
+
+    expect(completed).toEqual(["asteroid_test"]);
+    expect(useGameStore.getState().inventory.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Shared fixtures for the test files
+ * A fresh pilot and a systems manager with a fixed seed and no auto-save
+ */
+
+import type { Player } from "@/stores/gameStore";
+
+import { GameSystemsManager } from "@/systems/gameSystemsManager";
+import { GameClock } from "@/systems/gameClock";
+import { GameEventBus } from "@/systems/gameEvents";
+
+// Level is worked out from experience when the pilot is set in the store
+export const player: Player = {
+  id: "player",
+  name: "Test Pilot",
+  bio: "",
+  address: "player",
+  createdAt: "",
+  lastUpdated: "",
+  pfp: "",
+  profileAddress: "",
+  projectAddress: "",
+  profileTreeAddress: "",
+  source: "test",
+  level: 1,
+  experience: 0,
+  position: [0, 0, 0],
+  credits: 1000,
+};
+
+export const createManager = (events: GameEventBus = new GameEventBus()) =>
+  new GameSystemsManager(
+    { enableAutoSave: false, seed: 42 },
+    {},
+    new GameClock(),
+    events,
+  );
@@ -129,6 +129,25 @@ describe('Local Mission System', () => {
     expect(level2MissionAvailable).toBeDefined();
   });
 
+  test('should unlock missions once their level and prerequisites are met', () => {
+    localMissionService.resetMissions(testPlayerId);
+    localMissionService.startMission(testPlayerId, "mining_001");
+    localMissionService.completeMission(testPlayerId, "mining_001");
+
+    const atLevel1 = localMissionService.unlockMissions(testPlayerId, 1);
+    const atLevel2 = localMissionService.unlockMissions(testPlayerId, 2);
+
+    expect(atLevel1.map(m => m.id)).not.toContain("mining_002");
+    expect(atLevel2.map(m => m.id)).toContain("mining_002");
+    expect(localMissionService.unlockMissions(testPlayerId, 2)).toEqual([]);
+
+    const mission = localMissionService
+      .getAvailableMissions(testPlayerId, 2)
+      .find(m => m.id === "mining_002");
+
+    expect(mission?.status).toBe("available");
+  });
+
   test('should create and restore backups', () => {
     localMissionService.initialize(testPlayerId);
     localMissionService.startMission(testPlayerId, "mining_001");
@@ -0,0 +1,128 @@
+/**
+ * Test file for station markets
+ * Verifies seeded prices, drift from trading and credit transfers while docked
+ */
+
+import type { Resource } from "@/stores/gameStore";
+import type { SpaceObject } from "@/types/game";
+
+import * as THREE from "three";
+
+import { createManager, player } from "./helpers";
+
+import { useGameStore } from "@/stores/gameStore";
+import { MarketSystem } from "@/systems/marketSystem";
+import { GameClock } from "@/systems/gameClock";
+import { GameEventBus } from "@/systems/gameEvents";
+import { getBaseValue } from "@/data/market";
+import { GAME_CONFIG } from "@/utils/constants";
+
+const metal: Resource = {
+  id: "metal_common",
+  name: "Common Metal",
+  type: "metal",
+  quantity: 10,
+  rarity: "common",
+};
+
+const createStation = (marketSeed: number): SpaceObject => ({
+  id: `station_${marketSeed}`,
+  type: "station",
+  position: [0, 0, 0],
+  rotation: [0, 0, 0],
+  scale: [1, 1, 1],
+  health: 100,
+  maxHealth: 100,
+  resources: [],
+  marketSeed,
+});
+
+describe('Station Market', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset();
+  });
+
+  test('should seed prices per station and value crafted goods above their inputs', () => {
+    const market = new MarketSystem(new GameClock());
+    const prices = [1, 2, 3].map((seed) =>
+      market.quote(createStation(seed), metal, 10, "buy"),
+    );
+
+    expect(market.quote(createStation(1), metal, 10, "buy")).toBe(prices[0]);
+    expect(new Set(prices).size).toBeGreaterThan(1);
+
+    // A Basic Mining Tool takes 3 metal and 1 crystal
+    const tool = { ...metal, name: "Basic Mining Tool" };
+
+    expect(getBaseValue(tool)).toBeGreaterThan(3 * 4 + 6);
+    expect(getBaseValue({ ...tool, quality: "masterwork" })).toBeGreaterThan(
+      getBaseValue(tool)!,
+    );
+    expect(getBaseValue({ ...metal, name: "Alien Relic" })).toBeNull();
+  });
+
+  test('should move prices with trades and ease them back over time', () => {
+    const clock = new GameClock();
+    const market = new MarketSystem(clock);
+    const station = createStation(1);
+    const sellPrice = () => market.quote(station, metal, 1, "sell")!;
+    const startPrice = sellPrice();
+
+    market.recordTrade(station, metal, 20, "sell");
+
+    const floodedPrice = sellPrice();
+
+    expect(floodedPrice).toBeLessThan(startPrice);
+
+    clock.step(GAME_CONFIG.MARKET_RECOVERY_HALF_LIFE * 10);
+    expect(sellPrice()).toBe(startPrice);
+
+    // Saved drift survives a reload, time away counts towards recovery
+    market.recordTrade(station, metal, 20, "sell");
+
+    const restored = new MarketSystem(new GameClock());
+
+    restored.restoreState(market.serializeState());
+    expect(restored.quote(station, metal, 1, "sell")).toBe(floodedPrice);
+
+    // Buying back what was just sold always costs more than it paid
+    expect(market.quote(station, metal, 20, "buy")).toBeGreaterThan(
+      market.quote(station, metal, 20, "sell")!,
+    );
+  });
+
+  test('should trade for credits only when docked at the station', () => {
+    const events = new GameEventBus();
+    const manager = createManager(events);
+    const station = createStation(1);
+    const trades: string[] = [];
+
+    events.on("MarketTrade", ({ side, item }) =>
+      trades.push(`${side} ${item.quantity}`),
+    );
+    useGameStore.getState().setPlayer(player);
+    useGameStore.getState().addResource(metal);
+
+    const price = manager.getMarketSellPrice(station, metal, 10)!;
+
+    expect(manager.sellToMarket(station, metal, 10)).toBe(false);
+    expect(manager.dockAt(station, new THREE.Vector3())).toBe(true);
+    expect(manager.sellToMarket(station, metal, 10)).toBe(true);
+    expect(useGameStore.getState().inventory).toEqual([]);
+    expect(useGameStore.getState().player?.credits).toBe(
+      player.credits + price,
+    );
+
+    const listing = manager
+      .getMarketListings(station)
+      .find(({ item }) => item.id === metal.id)!;
+
+    expect(manager.buyFromMarket(station, listing.item, 5)).toBe(true);
+    expect(useGameStore.getState().inventory[0].quantity).toBe(5);
+
+    // Staying close by after undocking doesn't keep the market open
+    manager.undock();
+    expect(manager.sellToMarket(station, listing.item, 5)).toBe(false);
+    expect(trades).toEqual(["sell 10", "buy 5"]);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Test file for the Mining System
+ * Verifies that mining wears objects down and that depleted objects respawn
+ */
+
+import type { Resource, SpaceObject } from "@/types/game";
+
+import { GameClock } from "@/systems/gameClock";
+import { MiningSystem } from "@/systems/miningSystem";
+import { RandomStream } from "@/utils/random";
+import { GAME_CONFIG } from "@/utils/constants";
+import { getRawResourceName } from "@/utils/gameHelpers";
+
+const createAsteroid = (health: number): SpaceObject => ({
+  id: "asteroid_test",
+  type: "asteroid",
+  position: [0, 0, 0],
+  rotation: [0, 0, 0],
+  scale: [1, 1, 1],
+  health,
+  maxHealth: 100,
+  resources: [],
+});
+
+// Run a single mining operation on the object to completion. Resource nodes
+// take longer than asteroids, so step well past the base duration
+const mineOnce = (
+  mining: MiningSystem,
+  clock: GameClock,
+  object: SpaceObject,
+) => {
+  mining.startMining("player", object);
+  clock.step(GAME_CONFIG.MINING_DURATION * 2);
+
+  return mining.updateMining(0);
+};
+
+describe('Mining System', () => {
+  test('should damage the target on every completed operation', () => {
+    const clock = new GameClock();
+    const mining = new MiningSystem(clock, new RandomStream(1));
+    const asteroid = createAsteroid(100);
+
+    mining.updateSpaceObjects([asteroid]);
+
+    const [result] = mineOnce(mining, clock, asteroid);
+
+    expect(result.damage).toBe(GAME_CONFIG.MINING_DAMAGE);
+    expect(result.depleted).toBe(false);
+    expect(mining.getSpaceObject(asteroid.id)?.health).toBe(
+      100 - GAME_CONFIG.MINING_DAMAGE,
+    );
+    expect(asteroid.health).toBe(100);
+  });
+
+  test('should refuse to mine a depleted object', () => {
+    const clock = new GameClock();
+    const mining = new MiningSystem(clock, new RandomStream(1));
+    const asteroid = createAsteroid(GAME_CONFIG.MINING_DAMAGE);
+
+    mining.updateSpaceObjects([asteroid]);
+
+    const [result] = mineOnce(mining, clock, asteroid);
+
+    expect(result.depleted).toBe(true);
+    // The caller's stale copy still has health, the system knows better
+    expect(mining.canStartMining("player", asteroid)).toEqual({
+      canMine: false,
+      reason: "This object is depleted",
+    });
+  });
+
+  test('should respawn depleted objects after the respawn time', () => {
+    const clock = new GameClock();
+    const mining = new MiningSystem(clock, new RandomStream(1));
+    const asteroid = createAsteroid(GAME_CONFIG.MINING_DAMAGE);
+
+    mining.updateSpaceObjects([asteroid], 60000);
+    mineOnce(mining, clock, asteroid);
+
+    clock.step(59000);
+    expect(mining.updateRespawns()).toEqual([]);
+
+    clock.step(1000);
+    const [respawned] = mining.updateRespawns();
+
+    expect(respawned.id).toBe(asteroid.id);
+    expect(respawned.health).toBe(100);
+    expect(mining.canStartMining("player", asteroid).canMine).toBe(true);
+  });
+
+  test('should stack loyalty upgrades with resources of the same rarity', () => {
+    const clock = new GameClock();
+    const mining = new MiningSystem(clock, new RandomStream(3));
+    const asteroid: SpaceObject = {
+      ...createAsteroid(100),
+      resources: [
+        {
+          id: "metal_common",
+          name: "Common Metal",
+          type: "metal",
+          quantity: 1,
+          rarity: "common",
+        },
+      ],
+    };
+    const mined: Resource[] = [];
+
+    for (let i = 0; i < 40; i++) {
+      mining.updateSpaceObjects([asteroid]);
+      mining.startMining("player", asteroid, 1.0, 2.0);
+      clock.step(GAME_CONFIG.MINING_DURATION * 2);
+      mining
+        .updateMining(0)
+        .forEach(({ resources }) => mined.push(...resources));
+    }
+
+    expect(mined.some(({ rarity }) => rarity !== "common")).toBe(true);
+    mined.forEach((resource) => {
+      expect(resource.name).toBe(
+        getRawResourceName(resource.type, resource.rarity),
+      );
+      expect(resource.id).toBe(`${resource.type}_${resource.rarity}`);
+    });
+  });
+});
+
+describe('Mining reserves', () => {
+  const createNode = (quantity: number): SpaceObject => ({
+    id: "resource_node_test",
+    type: "resource_node",
+    position: [0, 0, 0],
+    rotation: [0, 0, 0],
+    scale: [1, 1, 1],
+    health: 200,
+    maxHealth: 200,
+    resources: [
+      {
+        id: "crystal_rare",
+        name: "Rare Crystal",
+        type: "crystal",
+        quantity,
+        rarity: "rare",
+      },
+    ],
+  });
+
+  test('should draw extracted quantities from the node reserves', () => {
+    const clock = new GameClock();
+    const mining = new MiningSystem(clock, new RandomStream(7));
+    const node = createNode(30);
+
+    mining.updateSpaceObjects([node]);
+
+    const [result] = mineOnce(mining, clock, node);
+    const extracted = result.resources.reduce(
+      (total, resource) => total + resource.quantity,
+      0,
+    );
+
+    expect(extracted).toBeGreaterThan(0);
+    expect(mining.getEstimatedYield(node).remainingReserves).toBe(
+      30 - extracted,
+    );
+  });
+
+  test('should stop yielding once the reserves are exhausted', () => {
+    const clock = new GameClock();
+    const mining = new MiningSystem(clock, new RandomStream(7));
+    const node = createNode(1);
+
+    mining.updateSpaceObjects([node]);
+
+    const [result] = mineOnce(mining, clock, node);
+
+    expect(result.resources.map((resource) => resource.quantity)).toEqual([1]);
+    expect(result.depleted).toBe(true);
+    expect(mining.canStartMining("player", node)).toEqual({
+      canMine: false,
+      reason: "This node's reserves are exhausted",
+    });
+  });
+
+  test('should cap the estimated yield at the remaining reserves', () => {
+    const mining = new MiningSystem(new GameClock(), new RandomStream(7));
+    const node = createNode(2);
+
+    mining.updateSpaceObjects([node]);
+
+    expect(mining.getEstimatedYield(node, 2)).toMatchObject({
+      minQuantity: 2,
+      maxQuantity: 2,
+      remainingReserves: 2,
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Test file for salvage
+ * Verifies salvage returns, timed salvage operations and handing items back
+ */
+
+import type { Resource } from "@/types/game";
+
+import { useGameStore } from "@/stores/gameStore";
+import { CraftingSystem } from "@/systems/craftingSystem";
+import { GameClock } from "@/systems/gameClock";
+import { GameSystemsManager } from "@/systems/gameSystemsManager";
+import { GameEventBus } from "@/systems/gameEvents";
+import { getSalvageBonus } from "@/data/traits";
+import { RandomStream } from "@/utils/random";
+import { GAME_CONFIG } from "@/utils/constants";
+
+const scanner: Resource = {
+  id: "crystal_rare_advanced_scanner_fine",
+  name: "Advanced Scanner",
+  type: "crystal",
+  quantity: 2,
+  rarity: "rare",
+  quality: "fine",
+};
+
+const summarize = (resources: Resource[]) =>
+  resources.map(({ name, quantity }) => [name, quantity]);
+
+describe('Salvage', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset();
+  });
+
+  test('should give back a share of the recipe inputs', () => {
+    const crafting = new CraftingSystem(new GameClock(), new RandomStream(1));
+
+    expect(summarize(crafting.getSalvageReturns(scanner, 0.5))).toEqual([
+      ["Common Crystal", 2],
+      ["Common Energy", 1],
+      ["Common Metal", 1],
+    ]);
+    expect(summarize(crafting.getSalvageReturns(scanner, 2))).toEqual([
+      ["Common Crystal", 5],
+      ["Common Energy", 3],
+      ["Common Metal", 2],
+    ]);
+
+    // Raw resources were never crafted
+    expect(
+      crafting.getSalvageReturns(
+        { id: "metal_common", name: "Common Metal", type: "metal", quantity: 5, rarity: "common" },
+        1,
+      ),
+    ).toEqual([]);
+
+    expect(
+      getSalvageBonus(
+        [{ id: "material_synthesis", effects: { materialEfficiency: 1.2 } }],
+        0.25,
+      ),
+    ).toBeCloseTo(1.45);
+  });
+
+  test('should take an item apart over time within the salvage slots', () => {
+    const clock = new GameClock();
+    const crafting = new CraftingSystem(clock, new RandomStream(1));
+
+    expect(crafting.startSalvage("player", scanner)).not.toBeNull();
+    expect(crafting.startSalvage("player", scanner)).toBeNull();
+
+    // Advanced Scanners take 8s to craft and half that to salvage
+    clock.step(3000);
+    expect(crafting.updateSalvage()).toHaveLength(0);
+
+    clock.step(2000);
+
+    const [result] = crafting.updateSalvage();
+
+    expect(result.item.name).toBe(scanner.name);
+    expect(result.returns.length).toBeGreaterThan(0);
+    expect(result.experience).toBe(
+      100 * GAME_CONFIG.SALVAGE_EXPERIENCE_FACTOR,
+    );
+    expect(crafting.getPlayerSalvageOperations("player")).toHaveLength(0);
+  });
+
+  test('should take the item from the hold and hand it back on cancel', () => {
+    const manager = new GameSystemsManager(
+      { enableAutoSave: false, seed: 42 },
+      { getSalvageBonus: () => 2 },
+      new GameClock(),
+      new GameEventBus(),
+    );
+
+    useGameStore.getState().addResource(scanner);
+
+    // Bonuses raise the returns, never past the full recipe
+    expect(summarize(manager.getSalvageReturns(scanner))).toEqual([
+      ["Common Crystal", 5],
+      ["Common Energy", 3],
+      ["Common Metal", 2],
+    ]);
+
+    expect(manager.startSalvage("player", scanner)).toBe(true);
+    expect(useGameStore.getState().inventory[0].quantity).toBe(1);
+
+    const [operation] = manager.getPlayerSalvageOperations("player");
+
+    expect(manager.cancelSalvage(operation.id)).toEqual([]);
+    expect(useGameStore.getState().inventory[0]).toEqual(scanner);
+  });
+
+  test('should refuse to salvage an item that is no longer in the hold', () => {
+    const manager = new GameSystemsManager(
+      { enableAutoSave: false, seed: 42 },
+      {},
+      new GameClock(),
+      new GameEventBus(),
+    );
+    const energy = manager.getEnergy().energy;
+
+    expect(manager.startSalvage("player", scanner)).toBe(false);
+    expect(manager.getPlayerSalvageOperations("player")).toEqual([]);
+    expect(manager.getEnergy().energy).toBe(energy);
+  });
+});
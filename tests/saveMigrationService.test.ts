@@ -0,0 +1,212 @@
+/**
+ * Test file for the Save Migration Service
+ * Verifies that old saves are upgraded in order and never left half-migrated
+ */
+
+import type { SaveMigration } from "@/services/saveMigrations";
+
+import { SaveMigrationService } from "@/services/saveMigrationService";
+import {
+  SAVE_MANIFEST_KEY,
+  SAVE_MIGRATIONS,
+  mapSavedResources,
+} from "@/services/saveMigrations";
+import { MemoryStorageAdapter } from "@/services/storageAdapter";
+
+const legacyGameSave = {
+  state: {
+    inventory: [
+      { id: "iron_1", name: "Iron Ore", type: "metal", rarity: "common", quantity: 5 },
+    ],
+  },
+  version: 0,
+};
+
+// Renames Resource.type to Resource.category, as a later schema change might
+const renameTypeMigration: SaveMigration = {
+  version: 2,
+  description: "Rename resource type to category",
+  migrate: (storage) =>
+    mapSavedResources(storage, ({ type, ...resource }) => ({
+      ...resource,
+      category: type,
+    })),
+};
+
+const stampMigration: SaveMigration = {
+  version: 1,
+  description: "Stamp saves written before versioning",
+  migrate: () => {},
+};
+
+describe('Save Migration Service', () => {
+  test('should stamp a fresh install without running migrations', () => {
+    const storage = new MemoryStorageAdapter();
+    let ran = false;
+    const service = new SaveMigrationService(
+      [{ version: 1, description: "test", migrate: () => { ran = true; } }],
+      storage,
+    );
+
+    const result = service.migrate();
+
+    expect(ran).toBe(false);
+    expect(result.applied).toEqual([]);
+    expect(service.getManifest()?.version).toBe(1);
+  });
+
+  test('should upgrade an unversioned save through every migration', () => {
+    const storage = new MemoryStorageAdapter();
+
+    storage.setItem("g-bax-game-storage", JSON.stringify(legacyGameSave));
+
+    const service = new SaveMigrationService(
+      [renameTypeMigration, stampMigration],
+      storage,
+    );
+    const result = service.migrate();
+    const saved = JSON.parse(storage.getItem("g-bax-game-storage")!);
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.applied).toEqual([1, 2]);
+    expect(saved.state.inventory[0].category).toBe("metal");
+    expect(saved.state.inventory[0].type).toBeUndefined();
+    expect(service.getManifest()?.version).toBe(2);
+  });
+
+  test('should only run migrations newer than the saved version', () => {
+    const storage = new MemoryStorageAdapter();
+    let stampRuns = 0;
+
+    storage.setItem("g-bax-game-storage", JSON.stringify(legacyGameSave));
+    storage.setItem(
+      SAVE_MANIFEST_KEY,
+      JSON.stringify({ version: 1, updatedAt: "", appliedMigrations: [1] }),
+    );
+
+    const service = new SaveMigrationService(
+      [
+        { ...stampMigration, migrate: () => { stampRuns++; } },
+        renameTypeMigration,
+      ],
+      storage,
+    );
+
+    expect(service.migrate().applied).toEqual([2]);
+    expect(stampRuns).toBe(0);
+  });
+
+  test('should restore the old save when a migration fails', () => {
+    const storage = new MemoryStorageAdapter();
+    const original = JSON.stringify(legacyGameSave);
+
+    storage.setItem("g-bax-game-storage", original);
+
+    const service = new SaveMigrationService(
+      [
+        renameTypeMigration,
+        {
+          version: 3,
+          description: "Broken migration",
+          migrate: () => {
+            throw new Error("unexpected save shape");
+          },
+        },
+      ],
+      storage,
+    );
+    const result = service.migrate();
+
+    expect(result.error).toBeDefined();
+    expect(storage.getItem("g-bax-game-storage")).toBe(original);
+    expect(service.getManifest()).toBeNull();
+  });
+
+  test('should back up and restore guild membership saves', () => {
+    const storage = new MemoryStorageAdapter();
+    const membership = JSON.stringify({ guildId: "guild_1", role: "member" });
+
+    storage.setItem("verxio_guild_member_player", membership);
+
+    const service = new SaveMigrationService(
+      [
+        {
+          version: 1,
+          description: "Broken guild migration",
+          migrate: (storage) => {
+            storage.setItem("verxio_guild_member_player", "{}");
+            throw new Error("unexpected guild shape");
+          },
+        },
+      ],
+      storage,
+    );
+
+    expect(service.getSaveKeys()).toEqual(["verxio_guild_member_player"]);
+    expect(service.migrate().error).toBeDefined();
+    expect(storage.getItem("verxio_guild_member_player")).toBe(membership);
+  });
+
+  test('should merge legacy inventory rows into stacks', () => {
+    const storage = new MemoryStorageAdapter();
+    const metal = { name: "Common Metal", type: "metal", rarity: "common" };
+
+    storage.setItem(
+      "g-bax-game-progress",
+      JSON.stringify({
+        inventory: [
+          { ...metal, id: "metal_common_1700000000000_0.1", quantity: 3 },
+          { ...metal, id: "metal_common_1700000000001_0.2", quantity: 4 },
+          { ...legacyGameSave.state.inventory[0] },
+        ],
+      }),
+    );
+
+    new SaveMigrationService(SAVE_MIGRATIONS, storage).migrate();
+
+    expect(
+      JSON.parse(storage.getItem("g-bax-game-progress")!).inventory,
+    ).toEqual([
+      { ...metal, id: "metal_common", quantity: 7 },
+      {
+        id: "metal_common_iron_ore",
+        name: "Iron Ore",
+        type: "metal",
+        rarity: "common",
+        quantity: 5,
+      },
+    ]);
+  });
+
+  test('should open a credits ledger for the saved player once', () => {
+    const storage = new MemoryStorageAdapter();
+    const gameSave = {
+      state: { player: { id: "player", credits: 1500 } },
+      version: 0,
+    };
+
+    storage.setItem("g-bax-game-storage", JSON.stringify(gameSave));
+    new SaveMigrationService(SAVE_MIGRATIONS, storage).migrate();
+
+    const { ledgers } = JSON.parse(
+      storage.getItem("g-bax-credits-ledger")!,
+    ).state;
+
+    expect(
+      ledgers.player.map(({ type, amount, balanceAfter }: any) => [
+        type,
+        amount,
+        balanceAfter,
+      ]),
+    ).toEqual([["opening_balance", 1500, 1500]]);
+
+    // A ledger already kept is left alone
+    const kept = JSON.stringify({ state: { ledgers }, version: 0 });
+
+    storage.setItem("g-bax-credits-ledger", kept);
+    storage.removeItem(SAVE_MANIFEST_KEY);
+    new SaveMigrationService(SAVE_MIGRATIONS, storage).migrate();
+
+    expect(storage.getItem("g-bax-credits-ledger")).toBe(kept);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Test file for per-sector world state
+ * Verifies that mined objects, discoveries and spawned objects persist per sector
+ */
+
+import type { SpaceObject } from "@/types/game";
+
+import * as THREE from "three";
+
+import { createManager, player } from "./helpers";
+
+import { useGameStore } from "@/stores/gameStore";
+import { GameSystemsManager } from "@/systems/gameSystemsManager";
+import { GameEventBus } from "@/systems/gameEvents";
+import { GAME_CONFIG } from "@/utils/constants";
+import { getExperienceForLevel } from "@/utils/gameHelpers";
+
+// Far enough along to warp out of the home sector
+const veteran = { ...player, experience: getExperienceForLevel(10) };
+
+const container: SpaceObject = {
+  id: "salvage_container_1",
+  type: "asteroid",
+  position: [5, 5, 5],
+  rotation: [0, 0, 0],
+  scale: [1, 1, 1],
+  health: 20,
+  maxHealth: 20,
+  resources: [],
+};
+
+const findAsteroid = (objects: SpaceObject[]) =>
+  objects.find(({ type }) => type === "asteroid")!;
+
+// Run one mining operation on an object, with time to recharge afterwards
+const mineOnce = (manager: GameSystemsManager, object: SpaceObject) => {
+  manager.startMining(player.id, object);
+  manager.stepSystems(GAME_CONFIG.MINING_DURATION * 3);
+};
+
+// Jump along a warp route and wait until the ship arrives
+const warpTo = (manager: GameSystemsManager, sectorId: string) => {
+  const cost = manager.getWarpCost(sectorId)!;
+
+  expect(manager.startWarp(player.id, sectorId)).toBe(true);
+  manager.stepSystems(cost.duration + 100);
+};
+
+describe('Sector State', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset();
+    useGameStore.getState().setPlayer(veteran);
+  });
+
+  test('should keep mined objects and discoveries when returning to a sector', () => {
+    const events = new GameEventBus();
+    const manager = createManager(events);
+    let loaded: SpaceObject[] = [];
+
+    events.on("SectorEntered", ({ sector }) => (loaded = sector.objects));
+    manager.initializeExploration(player.id);
+
+    const home = manager.getCurrentSector();
+    const asteroid = findAsteroid(manager.loadCurrentSector().objects);
+
+    mineOnce(manager, asteroid);
+    expect(
+      manager.updatePlayerPosition(
+        player.id,
+        new THREE.Vector3(...asteroid.position),
+      ).length,
+    ).toBe(1);
+
+    warpTo(manager, home.links[0]);
+    expect(findAsteroid(loaded).id).not.toBe(asteroid.id);
+
+    warpTo(manager, home.id);
+
+    const returned = loaded.find(({ id }) => id === asteroid.id)!;
+
+    expect(returned.health).toBe(asteroid.health! - GAME_CONFIG.MINING_DAMAGE);
+
+    // Already discovered, so flying past again finds nothing new
+    expect(
+      manager
+        .updatePlayerPosition(
+          player.id,
+          new THREE.Vector3(...asteroid.position),
+        )
+        .filter(({ discoveredObject }) => discoveredObject?.id === asteroid.id),
+    ).toEqual([]);
+  });
+
+  test('should keep apart asteroids from home fields that once shared ids', () => {
+    const events = new GameEventBus();
+    const manager = createManager(events);
+    let loaded: SpaceObject[] = [];
+
+    events.on("SectorEntered", ({ sector }) => (loaded = sector.objects));
+
+    const home = manager.getCurrentSector();
+    const objects = manager.loadCurrentSector().objects;
+    const first = objects.find(({ id }) => id === "field_asteroid_0")!;
+    const second = objects.find(({ id }) => id === "field_1_asteroid_0")!;
+
+    expect(new Set(objects.map(({ id }) => id)).size).toBe(objects.length);
+
+    mineOnce(manager, second);
+    warpTo(manager, home.links[0]);
+    warpTo(manager, home.id);
+
+    expect(loaded.find(({ id }) => id === second.id)?.health).toBe(
+      second.health! - GAME_CONFIG.MINING_DAMAGE,
+    );
+    expect(loaded.find(({ id }) => id === first.id)?.health).toBe(first.health);
+  });
+
+  test('should keep respawns when the current sector is loaded again', () => {
+    const manager = createManager();
+    const sector = manager.loadCurrentSector();
+    const asteroid = findAsteroid(sector.objects);
+
+    for (let i = 0; i < 50; i++) {
+      if (manager.getSpaceObject(asteroid.id)?.health === 0) break;
+      mineOnce(manager, asteroid);
+    }
+
+    manager.stepSystems(sector.respawnTime);
+    expect(manager.getSpaceObject(asteroid.id)?.health).toBe(
+      asteroid.maxHealth,
+    );
+
+    const reloaded = manager.loadCurrentSector().objects;
+
+    expect(reloaded.find(({ id }) => id === asteroid.id)?.health).toBe(
+      asteroid.maxHealth,
+    );
+  });
+
+  test('should save sector changes with the game and respawn depleted objects on time', () => {
+    const manager = createManager();
+    const sector = manager.loadCurrentSector();
+    const asteroid = findAsteroid(sector.objects);
+
+    for (let i = 0; i < 50; i++) {
+      if (manager.getSpaceObject(asteroid.id)?.health === 0) break;
+      mineOnce(manager, asteroid);
+    }
+
+    expect(manager.getSpaceObject(asteroid.id)?.health).toBe(0);
+
+    const events = new GameEventBus();
+    const restored = createManager(events);
+    const respawned: string[] = [];
+
+    events.on("ObjectRespawned", ({ object }) => respawned.push(object.id));
+    restored.restoreSnapshot(manager.createSnapshot());
+
+    const reloaded = restored.loadCurrentSector().objects;
+
+    expect(reloaded.find(({ id }) => id === asteroid.id)?.health).toBe(0);
+    expect(restored.canStartMining(player.id, asteroid).canMine).toBe(false);
+
+    restored.stepSystems(sector.respawnTime);
+    expect(respawned).toEqual([asteroid.id]);
+    expect(restored.getSpaceObject(asteroid.id)?.health).toBe(
+      asteroid.maxHealth,
+    );
+  });
+
+  test('should bring back spawned objects and drop changes made to another seed', () => {
+    const manager = createManager();
+    const asteroid = findAsteroid(manager.loadCurrentSector().objects);
+
+    expect(manager.spawnSpaceObject(container)).toBe(true);
+    expect(manager.spawnSpaceObject(container)).toBe(false);
+    mineOnce(manager, asteroid);
+
+    const snapshot = manager.createSnapshot();
+    const restored = createManager();
+
+    restored.restoreSnapshot(snapshot);
+
+    const reloaded = restored.loadCurrentSector().objects;
+
+    expect(reloaded.some(({ id }) => id === container.id)).toBe(true);
+    expect(reloaded.find(({ id }) => id === asteroid.id)?.health).toBe(
+      asteroid.health! - GAME_CONFIG.MINING_DAMAGE,
+    );
+
+    // The galaxy was regenerated with a new seed for this sector
+    const reseeded = createManager();
+
+    reseeded.restoreSnapshot({
+      ...snapshot,
+      galaxy: {
+        ...snapshot.galaxy!,
+        sectors: snapshot.galaxy!.sectors!.map((state) => ({
+          ...state,
+          seed: 1,
+        })),
+      },
+    });
+
+    const baseline = reseeded.loadCurrentSector().objects;
+
+    expect(baseline.some(({ id }) => id === container.id)).toBe(false);
+    expect(baseline.find(({ id }) => id === asteroid.id)?.health).toBe(
+      asteroid.health,
+    );
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Test file for the Storage Adapters
+ * Verifies every backend behaves the same way for the services using it
+ */
+
+import type { StorageAdapter } from "@/services/storageAdapter";
+
+import {
+  IndexedDBStorageAdapter,
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+} from "@/services/storageAdapter";
+
+// Map-backed stand-in for window.localStorage
+const createBrowserStorage = (): Storage => {
+  const data = new Map<string, string>();
+
+  return {
+    get length() {
+      return data.size;
+    },
+    key: (index: number) => Array.from(data.keys())[index] ?? null,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      data.set(key, String(value));
+    },
+    removeItem: (key: string) => {
+      data.delete(key);
+    },
+    clear: () => data.clear(),
+  };
+};
+
+const adapters: [string, () => StorageAdapter][] = [
+  ["memory", () => new MemoryStorageAdapter()],
+  ["localStorage", () => new LocalStorageAdapter(createBrowserStorage())],
+];
+
+adapters.forEach(([name, createAdapter]) => {
+  describe(`Storage Adapter (${name})`, () => {
+    test('should read back what was written', async () => {
+      const storage = createAdapter();
+
+      await storage.ready();
+      storage.setItem("g-bax-missions", JSON.stringify({ missions: [] }));
+
+      expect(storage.getItem("g-bax-missions")).toBe('{"missions":[]}');
+      expect(storage.getItem("missing")).toBeNull();
+    });
+
+    test('should list and remove keys', async () => {
+      const storage = createAdapter();
+
+      await storage.ready();
+      storage.setItem("activity-player-mining", "3");
+      storage.setItem("activity-player-crafting", "1");
+      storage.removeItem("activity-player-mining");
+
+      expect(storage.keys()).toEqual(["activity-player-crafting"]);
+      expect(storage.length).toBe(1);
+      expect(storage.key(0)).toBe("activity-player-crafting");
+
+      storage.clear();
+
+      expect(storage.length).toBe(0);
+    });
+  });
+});
+
+describe('IndexedDB Storage Adapter', () => {
+  test('should carry over every save kept in localStorage', async () => {
+    const legacyStorage = createBrowserStorage();
+
+    legacyStorage.setItem("verxio_loyalty_player", '{"points":10}');
+    legacyStorage.setItem("verxio_guild_member_player", '{"guildId":"g1"}');
+    legacyStorage.setItem("predefined-missions", "[]");
+    legacyStorage.setItem("mission-pool", '{"address":"pool"}');
+    legacyStorage.setItem("unrelated-key", "1");
+
+    // Without IndexedDB the adapter serves the localStorage saves instead
+    const storage = new IndexedDBStorageAdapter(
+      "g-bax",
+      "saves",
+      legacyStorage,
+    );
+
+    await storage.ready();
+
+    expect(storage.getItem("verxio_guild_member_player")).toBe(
+      '{"guildId":"g1"}',
+    );
+    expect(storage.keys().sort()).toEqual([
+      "mission-pool",
+      "predefined-missions",
+      "verxio_guild_member_player",
+      "verxio_loyalty_player",
+    ]);
+  });
+});
+
+describe('Memory Storage Adapter', () => {
+  test('should start from the initial data', () => {
+    const storage = new MemoryStorageAdapter({ "g-bax-guilds": "[]" });
+
+    expect(storage.getItem("g-bax-guilds")).toBe("[]");
+  });
+});
@@ -2,7 +2,7 @@
 import { Resource } from "@/stores/gameStore";
 
 export type { WalletState } from "@/stores/walletStore";
-export type { Resource } from "@/stores/gameStore";
+export type { ItemQuality, Resource } from "@/stores/gameStore";
 
 // Additional game types
 export interface SpaceObject {
@@ -14,20 +14,54 @@ export interface SpaceObject {
   health?: number;
   maxHealth?: number;
   resources?: Resource[];
+  marketSeed?: number; // Stations only, seeds their market prices and stock
 }
 
 
+export type RecipeCategory =
+  | "tools"
+  | "components"
+  | "energy"
+  | "upgrades"
+  | "artifacts";
+
+// An ingredient. Any rarity of the resource type counts unless one is given.
+// Refined materials only count when the input names them as its item
+export interface RecipeInput {
+  resourceType: Resource["type"];
+  rarity?: Resource["rarity"];
+  item?: string; // Name of a refined material, e.g. "Metal Ingot"
+  quantity: number;
+}
+
+// A product, made with the given probability (0-1)
+export interface RecipeOutput {
+  item: Resource;
+  probability: number;
+}
+
 export interface CraftingRecipe {
   id: string;
   name: string;
   description: string;
-  requiredResources: {
-    resourceType: string;
-    quantity: number;
-  }[];
-  output: Resource;
+  category: RecipeCategory;
+  inputs: RecipeInput[];
+  // The first output is the recipe's main product and is always made, the
+  // rest are by-products rolled against their probability
+  outputs: RecipeOutput[];
   craftingTime: number; // in milliseconds
   requiredLevel: number;
+  stationOnly?: boolean; // Needs a docked station's fabricators to start
+}
+
+// Turns raw resources into a refined material in its own timed operation
+export interface RefiningRecipe {
+  id: string;
+  name: string;
+  description: string;
+  inputs: RecipeInput[];
+  output: Resource;
+  refiningTime: number; // in milliseconds
 }
 
 export interface Guild {
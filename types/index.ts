@@ -228,23 +228,13 @@ export interface ResourceSystemStatus {
   totalHoldings: number;
 }
 
-export interface CraftingRecipe {
-  id: string;
-  name: string;
-  description: string;
-  inputs: Array<{
-    resourceId: string;
-    amount: number;
-  }>;
-  outputs: Array<{
-    resourceId: string;
-    amount: number;
-    probability: number;
-  }>;
-  craftingTime: number;
-  requiredLevel: number;
-  category: string;
-}
+export type {
+  CraftingRecipe,
+  RecipeCategory,
+  RecipeInput,
+  RecipeOutput,
+  RefiningRecipe,
+} from "./game";
 
 // Guild Progression on Blockchain Types
 export interface Guild {
@@ -33,6 +33,8 @@ export class CameraControls {
     up: false,
     down: false,
   };
+  private movementEnabled = true; // Cut when the ship runs out of energy
+  private locked = false; // Held on a docked station, all input is ignored
 
   // Mouse state
   private mouse = new THREE.Vector2();
@@ -103,7 +105,7 @@ export class CameraControls {
   }
 
   private onMouseDown(event: MouseEvent) {
-    if (!this.config.enableOrbit) return;
+    if (!this.config.enableOrbit || this.locked) return;
 
     this.isMouseDown = true;
     this.mouseButton = event.button;
@@ -136,7 +138,7 @@ export class CameraControls {
   }
 
   private onWheel(event: WheelEvent) {
-    if (!this.config.enableZoom) return;
+    if (!this.config.enableZoom || this.locked) return;
 
     event.preventDefault();
     const delta = event.deltaY > 0 ? 1.1 : 0.9;
@@ -171,6 +173,8 @@ export class CameraControls {
   private onTouchMove(event: TouchEvent) {
     event.preventDefault();
 
+    if (this.locked) return;
+
     if (event.touches.length === 1) {
       // Single touch - rotate
       const touch = event.touches[0];
@@ -290,7 +294,7 @@ export class CameraControls {
 
   public update(deltaTime: number) {
     // Update WASD movement
-    if (this.config.enableWASD) {
+    if (this.config.enableWASD && this.movementEnabled && !this.locked) {
       this.moveVector.set(0, 0, 0);
 
       if (this.keys.forward) this.moveVector.z -= 1;
@@ -364,6 +368,15 @@ export class CameraControls {
     }
   }
 
+  // Whether any movement key is held, used to charge thrust energy
+  public isMoving(): boolean {
+    return !this.locked && Object.values(this.keys).some((pressed) => pressed);
+  }
+
+  public setMovementEnabled(enabled: boolean) {
+    this.movementEnabled = enabled;
+  }
+
   public setTarget(target: THREE.Vector3) {
     this.target.copy(target);
     this.targetEnd.copy(target);
@@ -372,4 +385,29 @@ export class CameraControls {
   public getTarget(): THREE.Vector3 {
     return this.target.clone();
   }
+
+  // Hold the camera on a point at a set distance, e.g. a docked station
+  public lockOn(target: THREE.Vector3, distance: number) {
+    this.setTarget(target);
+    this.spherical.radius = distance;
+    this.sphericalDelta.set(0, 0, 0);
+    this.locked = true;
+  }
+
+  // Hand control back to the player
+  public unlock() {
+    this.locked = false;
+  }
+
+  // Put the camera back at a position looking at a point, e.g. after a warp
+  public resetView(position: THREE.Vector3, target: THREE.Vector3) {
+    this.camera.position.copy(position);
+    this.setTarget(target);
+    this.sphericalDelta.set(0, 0, 0);
+    this.updateSpherical();
+  }
+
+  public isLocked(): boolean {
+    return this.locked;
+  }
 }
@@ -12,9 +12,63 @@ export const GAME_CONFIG = {
   // Mining settings
   MINING_DURATION: 5000, // 5 seconds in milliseconds
   MINING_ENERGY_COST: 10,
+  MINING_DAMAGE: 10, // Health removed from the target per completed operation
+  OBJECT_RESPAWN_TIME: 300000, // 5 minutes of game time before a depleted object returns
 
   // Crafting settings
   CRAFTING_DURATION: 3000, // 3 seconds in milliseconds
+  CRAFTING_ENERGY_COST: 5,
+  CRAFTING_BASE_SLOTS: 1, // Jobs that can run at once at level 1
+  CRAFTING_LEVELS_PER_SLOT: 5, // Another slot opens every this many levels
+  CRAFTING_MAX_SLOTS: 4,
+  CRAFTING_QUEUE_SIZE: 5, // Jobs that can wait for a free slot
+  CRAFTING_QUALITY_SPREAD: 0.25, // Random swing on each craft's quality score
+  SALVAGE_SLOTS: 1, // Items a player can take apart at once
+  SALVAGE_RETURN_RATE: 0.5, // Share of the recipe inputs salvage gives back
+  SALVAGE_TIME_FACTOR: 0.5, // Share of the crafting time salvage takes
+  SALVAGE_EXPERIENCE_FACTOR: 0.25, // Share of the crafting experience salvage awards
+  REFINING_ENERGY_COST: 2,
+  REFINING_SLOTS: 2, // Batches a player can refine at once
+  REFINING_EXPERIENCE: 10, // Per finished batch
+
+  // Equipment durability settings
+  TOOL_WEAR_PER_OPERATION: 1, // Durability a fitted tool loses per operation it helps
+  REPAIR_CREDITS_PER_POINT: 3, // Station repair price
+  REPAIR_POINTS_PER_METAL: 5, // Durability restored per unit of metal
+
+  // Ship energy settings
+  SHIP_MAX_ENERGY: 100,
+  ENERGY_REGEN_RATE: 1, // Energy per second of game time
+  MOVEMENT_ENERGY_COST: 2, // Energy per second of thrust
+  STATION_DOCKING_RANGE: 8, // Distance within which a ship can dock to refuel
+
+  // Station service settings
+  STATION_WAREHOUSE_CAPACITY: 2000, // Resource mass each station's warehouse holds
+  BOOST_RESTORE_CREDITS_PER_MINUTE: 25, // Fee to restore an expired boost, per minute it lasts
+
+  // Station market settings
+  MARKET_SPREAD: 0.1, // Stations sell this much above and buy below their price
+  MARKET_PRICE_VARIANCE: 0.2, // How far a station's seeded prices stray from base value
+  MARKET_PRICE_IMPACT: 0.02, // Price drift per unit the player trades
+  MARKET_MAX_DRIFT: 0.6, // Trades never push a price further than this from its seeded level
+  MARKET_RECOVERY_HALF_LIFE: 600000, // 10 minutes of game time for trade drift to halve
+  MARKET_CRAFTED_STOCK_CHANCE: 0.5, // Chance a station stocks each crafted item
+
+  // Galaxy and warp travel settings
+  GALAXY_SEED: 12345,
+  GALAXY_SECTOR_COUNT: 8,
+  GALAXY_MIN_SECTOR_SPACING: 15, // Map units between sectors
+  GALAXY_MAX_DIFFICULTY: 5,
+  SECTOR_LEVELS_PER_DIFFICULTY: 5, // Player levels needed per step of difficulty
+  SECTOR_RARITY_SHIFT: 0.05, // Added to resource node rarity rolls per step of difficulty
+  SECTOR_TOUGHNESS_PER_DIFFICULTY: 0.25, // Extra object health per step of difficulty
+  WARP_BASE_ENERGY: 20,
+  WARP_ENERGY_PER_UNIT: 1, // Extra energy per map unit jumped
+  WARP_BASE_DURATION: 10000, // 10 seconds of game time
+  WARP_DURATION_PER_UNIT: 500, // Extra game milliseconds per map unit jumped
+
+  // Cargo hold settings
+  INITIAL_CARGO_CAPACITY: 500, // Total resource mass the hold can carry
 
   // Mission settings
   MAX_ACTIVE_MISSIONS: 3,
@@ -35,6 +89,46 @@ export const RESOURCE_RARITIES = {
   LEGENDARY: "legendary",
 } as const;
 
+// Intermediate materials made by refining raw resources. Recipes ask for
+// them by name, and they never stand in for the raw resource they came from
+export const REFINED_MATERIALS = {
+  METAL_INGOT: "Metal Ingot",
+  PURIFIED_CRYSTAL: "Purified Crystal",
+  ENERGY_CELL: "Energy Cell",
+} as const;
+
+// Grades a crafted item can roll, worst first. The multiplier scales the
+// item's effects and minScore is the quality score needed to reach it
+export const ITEM_QUALITIES = [
+  { grade: "crude", multiplier: 0.8, minScore: -Infinity, color: "#b45309" },
+  { grade: "standard", multiplier: 1, minScore: -0.15, color: "#9ca3af" },
+  { grade: "fine", multiplier: 1.15, minScore: 0.2, color: "#10b981" },
+  { grade: "superior", multiplier: 1.3, minScore: 0.45, color: "#3b82f6" },
+  { grade: "masterwork", multiplier: 1.5, minScore: 0.75, color: "#f59e0b" },
+] as const;
+
+// Quality score each unit of a recipe input adds, by rarity
+export const RARITY_QUALITY_BONUS = {
+  common: 0,
+  rare: 0.1,
+  epic: 0.2,
+  legendary: 0.35,
+} as const;
+
+// Cargo mass per unit of resource, scaled by rarity
+export const RESOURCE_MASS = {
+  metal: 2,
+  crystal: 1,
+  energy: 0.5,
+} as const;
+
+export const RARITY_MASS_MULTIPLIER = {
+  common: 1,
+  rare: 1.25,
+  epic: 1.5,
+  legendary: 2,
+} as const;
+
 // Mission types
 export const MISSION_TYPES = {
   MINING: "mining",
@@ -1,6 +1,17 @@
-import type { Resource } from "@/stores/gameStore";
+import type { ItemQuality, Resource } from "@/stores/gameStore";
+import type { CraftingRecipe, RecipeInput, SpaceObject } from "@/types/game";
+import type { RandomSource } from "./random";
 
-import { GAME_CONFIG, RESOURCE_RARITIES, COLORS } from "./constants";
+import {
+  GAME_CONFIG,
+  RESOURCE_RARITIES,
+  COLORS,
+  RESOURCE_MASS,
+  RARITY_MASS_MULTIPLIER,
+  REFINED_MATERIALS,
+  ITEM_QUALITIES,
+  RARITY_QUALITY_BONUS,
+} from "./constants";
 
 /**
  * Calculate the experience required for a given level
@@ -42,9 +53,9 @@ export function getExperienceProgress(experience: number): {
 }
 
 /**
- * Generate a random resource based on rarity weights
+ * Generate a random resource based on rarity weights, drawing from the given random source
  */
-export function generateRandomResource(): Resource {
+export function generateRandomResource(random: RandomSource): Resource {
   const rarityWeights = {
     [RESOURCE_RARITIES.COMMON]: 60,
     [RESOURCE_RARITIES.RARE]: 25,
@@ -56,39 +67,272 @@ export function generateRandomResource(): Resource {
     (sum, weight) => sum + weight,
     0,
   );
-  const random = Math.random() * totalWeight;
+  const roll = random.next() * totalWeight;
 
   let currentWeight = 0;
   let selectedRarity: Resource["rarity"] = RESOURCE_RARITIES.COMMON;
 
   for (const [rarityKey, weight] of Object.entries(rarityWeights)) {
     currentWeight += weight;
-    if (random <= currentWeight) {
+    if (roll <= currentWeight) {
       selectedRarity = rarityKey as Resource["rarity"];
       break;
     }
   }
 
   const resourceTypes = ["crystal", "metal", "energy"] as const;
-  const randomType =
-    resourceTypes[Math.floor(Math.random() * resourceTypes.length)];
+  const randomType = random.choice(resourceTypes);
 
   const baseQuantity = {
-    [RESOURCE_RARITIES.COMMON]: Math.floor(Math.random() * 10) + 1,
-    [RESOURCE_RARITIES.RARE]: Math.floor(Math.random() * 5) + 1,
-    [RESOURCE_RARITIES.EPIC]: Math.floor(Math.random() * 3) + 1,
+    [RESOURCE_RARITIES.COMMON]: random.int(1, 10),
+    [RESOURCE_RARITIES.RARE]: random.int(1, 5),
+    [RESOURCE_RARITIES.EPIC]: random.int(1, 3),
     [RESOURCE_RARITIES.LEGENDARY]: 1,
   };
 
   return {
-    id: `${randomType}_${selectedRarity}_${Date.now()}_${Math.random()}`,
-    name: `${selectedRarity.charAt(0).toUpperCase() + selectedRarity.slice(1)} ${randomType.charAt(0).toUpperCase() + randomType.slice(1)}`,
+    id: `${randomType}_${selectedRarity}`,
+    name: getRawResourceName(randomType, selectedRarity),
     type: randomType,
     quantity: baseQuantity[selectedRarity],
     rarity: selectedRarity,
   };
 }
 
+/**
+ * Number of crafting jobs a player can run at once
+ */
+export function getCraftingSlots(level: number): number {
+  return Math.min(
+    GAME_CONFIG.CRAFTING_MAX_SLOTS,
+    GAME_CONFIG.CRAFTING_BASE_SLOTS +
+      Math.floor(level / GAME_CONFIG.CRAFTING_LEVELS_PER_SLOT),
+  );
+}
+
+/**
+ * Check whether mining draws down an object's listed resources. Resource nodes
+ * hold finite reserves; asteroids are only limited by their health
+ */
+export function hasFiniteReserves(object: SpaceObject): boolean {
+  return (
+    object.type === "resource_node" &&
+    !!object.resources &&
+    object.resources.length > 0
+  );
+}
+
+/**
+ * Total quantity left to extract from an object's reserves
+ */
+export function getRemainingReserves(object: SpaceObject): number {
+  return (object.resources || []).reduce(
+    (total, resource) => total + resource.quantity,
+    0,
+  );
+}
+
+/**
+ * Check whether an object has been mined out. Objects without a health value
+ * only run out through their reserves
+ */
+export function isObjectDepleted(object: SpaceObject): boolean {
+  return (
+    (object.health !== undefined && object.health <= 0) ||
+    (hasFiniteReserves(object) && getRemainingReserves(object) === 0)
+  );
+}
+
+/**
+ * Cargo mass of a single unit of a resource
+ */
+export function getResourceMass(
+  resource: Pick<Resource, "type" | "rarity">,
+): number {
+  return RESOURCE_MASS[resource.type] * RARITY_MASS_MULTIPLIER[resource.rarity];
+}
+
+/**
+ * Total cargo mass of an inventory
+ */
+export function getCargoMass(inventory: Resource[]): number {
+  return inventory.reduce(
+    (total, resource) => total + getResourceMass(resource) * resource.quantity,
+    0,
+  );
+}
+
+/**
+ * Display name of a raw resource, e.g. "Rare Crystal"
+ */
+export function getRawResourceName(
+  type: Resource["type"],
+  rarity: Resource["rarity"],
+): string {
+  return `${rarity.charAt(0).toUpperCase() + rarity.slice(1)} ${type.charAt(0).toUpperCase() + type.slice(1)}`;
+}
+
+/**
+ * Canonical inventory stack key. Raw resources stack by type and rarity,
+ * crafted items also by the item they are so tools never merge into ore,
+ * by quality so better grades keep their own stack, and by durability so
+ * worn tools never merge into new ones
+ */
+export function getStackKey(
+  resource: Pick<
+    Resource,
+    "type" | "rarity" | "name" | "quality" | "durability"
+  >,
+): string {
+  const key = `${resource.type}_${resource.rarity}`;
+
+  if (resource.name === getRawResourceName(resource.type, resource.rarity)) {
+    return key;
+  }
+
+  const definition = resource.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+  const quality =
+    resource.quality && resource.quality !== "standard"
+      ? `_${resource.quality}`
+      : "";
+
+  const durability =
+    resource.durability !== undefined ? `_worn_${resource.durability}` : "";
+
+  return `${key}_${definition}${quality}${durability}`;
+}
+
+/**
+ * Merge resources into one entry per stack, identified by its stack key
+ */
+export function stackResources(resources: Resource[]): Resource[] {
+  const stacks = new Map<string, Resource>();
+
+  resources.forEach((resource) => {
+    const key = getStackKey(resource);
+    const stack = stacks.get(key);
+
+    if (stack) {
+      stack.quantity += resource.quantity;
+    } else {
+      stacks.set(key, { ...resource, id: key });
+    }
+  });
+
+  return Array.from(stacks.values());
+}
+
+export interface MissingRecipeInput {
+  resourceType: Resource["type"];
+  rarity?: Resource["rarity"];
+  item?: string;
+  needed: number;
+  have: number;
+}
+
+/**
+ * Check whether a resource can be used for a recipe input. Inputs that name
+ * no item only take raw resources, never crafted items or refined materials
+ */
+export function matchesRecipeInput(
+  resource: Pick<Resource, "type" | "rarity" | "name">,
+  input: RecipeInput,
+): boolean {
+  if (
+    resource.type !== input.resourceType ||
+    (input.rarity && resource.rarity !== input.rarity)
+  ) {
+    return false;
+  }
+
+  return input.item
+    ? resource.name === input.item
+    : resource.name === getRawResourceName(resource.type, resource.rarity);
+}
+
+/**
+ * Check whether a resource is a refined intermediate material
+ */
+export function isRefinedMaterial(resource: Pick<Resource, "name">): boolean {
+  return (Object.values(REFINED_MATERIALS) as string[]).includes(resource.name);
+}
+
+/**
+ * Work out which inventory stacks a recipe would consume and which inputs
+ * fall short. Rarity-specific inputs claim their units first so a general
+ * input of the same type can't use them up
+ */
+export function allocateRecipeInputs(
+  recipe: Pick<CraftingRecipe, "inputs">,
+  inventory: Resource[],
+): { allocated: Resource[]; missing: MissingRecipeInput[] } {
+  const stacks = stackResources(inventory);
+  const allocated: Resource[] = [];
+  const missing: MissingRecipeInput[] = [];
+  const inputs = [...recipe.inputs].sort(
+    (a, b) => Number(!!b.rarity) - Number(!!a.rarity),
+  );
+
+  inputs.forEach((input) => {
+    let remaining = input.quantity;
+
+    stacks.forEach((stack) => {
+      if (remaining <= 0 || !matchesRecipeInput(stack, input)) return;
+
+      const take = Math.min(stack.quantity, remaining);
+
+      if (take > 0) {
+        allocated.push({ ...stack, quantity: take });
+        stack.quantity -= take;
+        remaining -= take;
+      }
+    });
+
+    if (remaining > 0) {
+      missing.push({
+        resourceType: input.resourceType,
+        rarity: input.rarity,
+        ...(input.item && { item: input.item }),
+        needed: input.quantity,
+        have: input.quantity - remaining,
+      });
+    }
+  });
+
+  return { allocated: stackResources(allocated), missing };
+}
+
+/**
+ * Check whether an inventory holds everything a recipe needs
+ */
+export function checkRecipeInputs(
+  recipe: Pick<CraftingRecipe, "inputs">,
+  inventory: Resource[],
+): { canCraft: boolean; missingResources?: MissingRecipeInput[] } {
+  const { missing } = allocateRecipeInputs(recipe, inventory);
+
+  return {
+    canCraft: missing.length === 0,
+    missingResources: missing.length > 0 ? missing : undefined,
+  };
+}
+
+/**
+ * Display label for a recipe input, e.g. "2 rare crystal" or "3 Metal Ingot"
+ */
+export function formatRecipeInput(
+  input: Pick<RecipeInput, "resourceType" | "rarity" | "item">,
+  quantity: number,
+): string {
+  if (input.item) return `${quantity} ${input.item}`;
+
+  return `${quantity} ${input.rarity ? `${input.rarity} ` : ""}${input.resourceType}`;
+}
+
 /**
  * Get color for resource rarity
  */
@@ -107,6 +351,67 @@ export function getRarityColor(rarity: string): string {
   }
 }
 
+/**
+ * Get the quality grade definition, treating ungraded resources as standard
+ */
+function getQualityDefinition(quality?: ItemQuality) {
+  return (
+    ITEM_QUALITIES.find((definition) => definition.grade === quality) ||
+    ITEM_QUALITIES[1]
+  );
+}
+
+/**
+ * Multiplier a resource's quality applies to its effects
+ */
+export function getQualityMultiplier(
+  resource: Pick<Resource, "quality">,
+): number {
+  return getQualityDefinition(resource.quality).multiplier;
+}
+
+/**
+ * Get color for an item quality grade
+ */
+export function getQualityColor(quality?: ItemQuality): string {
+  return getQualityDefinition(quality).color;
+}
+
+/**
+ * Quality score of a craft before its random swing. Efficiency and quality
+ * bonuses above 1 raise it, as do rarer and better graded inputs
+ */
+export function getCraftingQualityScore(
+  efficiency: number,
+  qualityBonus: number,
+  inputs: Resource[],
+): number {
+  const units = inputs.reduce((total, input) => total + input.quantity, 0);
+  const inputScore =
+    units > 0
+      ? inputs.reduce(
+          (total, input) =>
+            total +
+            input.quantity *
+              (RARITY_QUALITY_BONUS[input.rarity] +
+                getQualityMultiplier(input) -
+                1),
+          0,
+        ) / units
+      : 0;
+
+  return efficiency - 1 + (qualityBonus - 1) + inputScore;
+}
+
+/**
+ * Best quality grade a score reaches
+ */
+export function getQualityForScore(score: number): ItemQuality {
+  return [...ITEM_QUALITIES]
+    .reverse()
+    .find(({ minScore }) => score >= minScore)!.grade;
+}
+
 /**
  * Get color for resource type
  */
@@ -166,14 +471,15 @@ export function calculateDistance(
 }
 
 /**
- * Generate random position within a sphere
+ * Generate random position within a sphere, drawing from the given random source
  */
 export function generateRandomPosition(
+  random: RandomSource,
   radius: number = 10,
 ): [number, number, number] {
-  const theta = Math.random() * 2 * Math.PI;
-  const phi = Math.acos(2 * Math.random() - 1);
-  const r = Math.random() * radius;
+  const theta = random.next() * 2 * Math.PI;
+  const phi = Math.acos(2 * random.next() - 1);
+  const r = random.next() * radius;
 
   const x = r * Math.sin(phi) * Math.cos(theta);
   const y = r * Math.sin(phi) * Math.sin(theta);
@@ -0,0 +1,94 @@
+/**
+ * Random number generators
+ * Deterministic generators used for all gameplay randomness
+ */
+
+export interface RandomSource {
+  next(): number; // Float in [0, 1)
+  range(min: number, max: number): number;
+  int(min: number, max: number): number; // Inclusive of both bounds
+  choice<T>(array: readonly T[]): T;
+  chance(probability: number): boolean;
+}
+
+/**
+ * Hash any mix of strings and numbers into a 32-bit seed (FNV-1a)
+ */
+export function hashSeed(...parts: (string | number)[]): number {
+  const key = parts.join(":");
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+// Shared helpers built on top of next()
+abstract class BaseRandom implements RandomSource {
+  abstract next(): number;
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  choice<T>(array: readonly T[]): T {
+    return array[Math.floor(this.next() * array.length)];
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+}
+
+// Linear congruential generator used for sector layouts. Kept as-is so
+// existing seeds keep producing the same sectors
+export class SeededRandom extends BaseRandom {
+  private seed: number;
+
+  constructor(seed: number) {
+    super();
+    this.seed = seed;
+  }
+
+  next(): number {
+    this.seed = (this.seed * 9301 + 49297) % 233280;
+
+    return this.seed / 233280;
+  }
+}
+
+// Mulberry32 generator with a full 32-bit state, used for gameplay streams
+export class RandomStream extends BaseRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    super();
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+
+    let t = this.state;
+
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  reseed(seed: number): void {
+    this.state = seed >>> 0;
+  }
+
+  getState(): number {
+    return this.state;
+  }
+}
@@ -1,9 +1,23 @@
-import type { SpaceObject } from "@/types/game";
+import type { Resource, SpaceObject } from "@/types/game";
 
 import * as THREE from "three";
 
-import { COLORS } from "./constants";
+import { COLORS, GAME_CONFIG } from "./constants";
 import { generateRandomResource } from "./gameHelpers";
+import { RandomStream, SeededRandom, hashSeed } from "./random";
+
+import { rngService } from "@/services/rngService";
+
+// Relative chance of each resource type on a sector's resource nodes
+export type ResourceWeights = Record<Resource["type"], number>;
+
+export interface AsteroidFieldConfig {
+  center: [number, number, number];
+  radius: number;
+  count: number;
+  seed: number;
+  idPrefix?: string; // Replaces the field's default object ids
+}
 
 export interface SpaceSectorConfig {
   size: number;
@@ -12,37 +26,58 @@ export interface SpaceSectorConfig {
   stationCount: number;
   density: number;
   seed?: number;
+  respawnTime?: number; // Game milliseconds before a depleted object returns
+  name?: string; // Replaces the name generated from the seed
+  idPrefix?: string; // Keeps object ids unique across the galaxy
+  difficulty?: number; // 1 when missing, higher rolls rarer and tougher objects
+  resourceWeights?: ResourceWeights; // Even spread of resource types when missing
+  asteroidFields?: AsteroidFieldConfig[];
 }
 
-export interface GeneratedSector {
+// A sector on the galaxy map, generated in full when the ship arrives
+export interface GalaxySector {
   id: string;
   name: string;
-  objects: SpaceObject[];
-  bounds: THREE.Box3;
-  center: THREE.Vector3;
+  mapPosition: [number, number]; // Galaxy map coordinates, 0-100 on each axis
+  difficulty: number; // 1 at the home sector, rising with each jump away
+  minLevel: number; // Player level needed to warp in
+  links: string[]; // Sectors a warp jump can reach from here
+  config: SpaceSectorConfig;
 }
 
-// Seeded random number generator for consistent generation
-class SeededRandom {
-  private seed: number;
-
-  constructor(seed: number) {
-    this.seed = seed;
-  }
-
-  next(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-
-    return this.seed / 233280;
-  }
+export interface Galaxy {
+  homeSectorId: string;
+  sectors: GalaxySector[];
+}
 
-  range(min: number, max: number): number {
-    return min + this.next() * (max - min);
-  }
+// The sector every pilot starts in. Its layout and object ids are the ones
+// the game had before warp travel, so older saves still line up
+export const HOME_SECTOR_CONFIG: SpaceSectorConfig = {
+  size: 40,
+  asteroidCount: 15,
+  resourceNodeCount: 8,
+  stationCount: 2,
+  density: 0.3,
+  seed: 12345,
+  asteroidFields: [
+    { center: [15, 5, -10], radius: 8, count: 20, seed: 54321 },
+    {
+      center: [-12, -8, 15],
+      radius: 6,
+      count: 15,
+      seed: 98765,
+      idPrefix: "field_1_asteroid",
+    },
+  ],
+};
 
-  choice<T>(array: T[]): T {
-    return array[Math.floor(this.next() * array.length)];
-  }
+export interface GeneratedSector {
+  id: string;
+  name: string;
+  objects: SpaceObject[];
+  bounds: THREE.Box3;
+  center: THREE.Vector3;
+  respawnTime: number;
 }
 
 export class SpaceGenerator {
@@ -70,12 +105,16 @@ export class SpaceGenerator {
   ];
 
   static generateSector(config: SpaceSectorConfig): GeneratedSector {
-    const seed = config.seed || Math.floor(Math.random() * 1000000);
+    const seed = config.seed || rngService.stream("world").int(0, 999999);
     const rng = new SeededRandom(seed);
+    // Resource contents use their own stream so layouts don't shift with them
+    const lootRng = new RandomStream(hashSeed(seed, "loot"));
 
     const sectorId = `sector_${seed}`;
-    const sectorName =
+    // Drawn even when the name is given so the layout doesn't shift
+    const generatedName =
       rng.choice(this.sectorNames) + ` Sector ${seed.toString().slice(-3)}`;
+    const sectorName = config.name ?? generatedName;
 
     const objects: SpaceObject[] = [];
     const center = new THREE.Vector3(0, 0, 0);
@@ -86,39 +125,183 @@ export class SpaceGenerator {
 
     // Generate asteroids
     for (let i = 0; i < config.asteroidCount; i++) {
-      const asteroid = this.generateAsteroid(rng, config.size, i);
+      const asteroid = this.generateAsteroid(rng, lootRng, config, i);
 
       objects.push(asteroid);
     }
 
     // Generate resource nodes
     for (let i = 0; i < config.resourceNodeCount; i++) {
-      const resourceNode = this.generateResourceNode(rng, config.size, i);
+      const resourceNode = this.generateResourceNode(rng, config, i);
 
       objects.push(resourceNode);
     }
 
     // Generate stations
     for (let i = 0; i < config.stationCount; i++) {
-      const station = this.generateStation(rng, config.size, i);
+      const station = this.generateStation(rng, seed, config, i);
 
       objects.push(station);
     }
 
+    // Asteroid fields. The home sector's first keeps the ids saves already use
+    config.asteroidFields?.forEach((field, fieldIndex) => {
+      objects.push(
+        ...this.generateAsteroidField(
+          new THREE.Vector3(...field.center),
+          field.radius,
+          field.count,
+          field.seed,
+          field.idPrefix ??
+            (config.idPrefix
+              ? `${config.idPrefix}field_${fieldIndex}_asteroid`
+              : undefined),
+        ),
+      );
+    });
+
     return {
       id: sectorId,
       name: sectorName,
       objects,
       bounds,
       center,
+      respawnTime: config.respawnTime ?? GAME_CONFIG.OBJECT_RESPAWN_TIME,
+    };
+  }
+
+  // Seeded graph of sectors linked by warp routes. The home sector sits in
+  // the middle and sectors get harder with each jump away from it
+  static generateGalaxy(seed: number = GAME_CONFIG.GALAXY_SEED): Galaxy {
+    const rng = new RandomStream(hashSeed(seed, "galaxy"));
+    const names = [...this.sectorNames];
+    const count = Math.min(GAME_CONFIG.GALAXY_SECTOR_COUNT, names.length);
+    const seeds = [HOME_SECTOR_CONFIG.seed!];
+    const positions: [number, number][] = [[50, 50]];
+
+    for (let i = 1; i < count; i++) {
+      let position: [number, number] = [rng.range(5, 95), rng.range(5, 95)];
+
+      // Keep sectors apart on the map, settling for the last try if crowded
+      for (
+        let attempt = 0;
+        attempt < 20 &&
+        positions.some(
+          (other) =>
+            getMapDistance(other, position) <
+            GAME_CONFIG.GALAXY_MIN_SECTOR_SPACING,
+        );
+        attempt++
+      ) {
+        position = [rng.range(5, 95), rng.range(5, 95)];
+      }
+
+      positions.push(position);
+      seeds.push(hashSeed(seed, "sector", i));
+    }
+
+    // Link each sector to its nearest earlier one so every sector can be
+    // reached, then to its nearest neighbour for a few shortcuts
+    const links: Set<number>[] = positions.map(() => new Set());
+    const link = (a: number, b: number) => {
+      links[a].add(b);
+      links[b].add(a);
+    };
+    const nearest = (index: number, candidates: number[]) =>
+      candidates.reduce((best, candidate) =>
+        getMapDistance(positions[index], positions[candidate]) <
+        getMapDistance(positions[index], positions[best])
+          ? candidate
+          : best,
+      );
+
+    positions.forEach((_position, i) => {
+      const others = positions.map((_p, j) => j).filter((j) => j !== i);
+
+      if (i > 0) link(i, nearest(i, others.slice(0, i)));
+      if (others.length > 0) link(i, nearest(i, others));
+    });
+
+    // Jumps away from home, breadth first
+    const hops = [0];
+    const queue = [0];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+
+      links[current].forEach((next) => {
+        if (hops[next] === undefined) {
+          hops[next] = hops[current] + 1;
+          queue.push(next);
+        }
+      });
+    }
+
+    const sectors = seeds.map((sectorSeed, i): GalaxySector => {
+      const difficulty = Math.min(
+        1 + hops[i],
+        GAME_CONFIG.GALAXY_MAX_DIFFICULTY,
+      );
+      const name = names.splice(rng.int(0, names.length - 1), 1)[0];
+
+      return {
+        id: `sector_${sectorSeed}`,
+        name,
+        mapPosition: positions[i],
+        difficulty,
+        minLevel:
+          1 + (difficulty - 1) * GAME_CONFIG.SECTOR_LEVELS_PER_DIFFICULTY,
+        links: Array.from(links[i]).map((j) => `sector_${seeds[j]}`),
+        config:
+          i === 0
+            ? { ...HOME_SECTOR_CONFIG, name }
+            : this.generateSectorConfig(sectorSeed, name, difficulty),
+      };
+    });
+
+    return { homeSectorId: sectors[0].id, sectors };
+  }
+
+  // Object counts, resource mix and asteroid fields for a galaxy sector
+  private static generateSectorConfig(
+    seed: number,
+    name: string,
+    difficulty: number,
+  ): SpaceSectorConfig {
+    const rng = new RandomStream(hashSeed(seed, "config"));
+
+    return {
+      size: 40,
+      asteroidCount: rng.int(10, 20),
+      resourceNodeCount: rng.int(5, 8) + difficulty,
+      stationCount: rng.int(1, 2),
+      density: 0.3,
+      seed,
+      name,
+      idPrefix: `sector_${seed}_`,
+      difficulty,
+      resourceWeights: {
+        crystal: rng.range(0.5, 1.5),
+        metal: rng.range(0.5, 1.5),
+        energy: rng.range(0.5, 1.5),
+      },
+      asteroidFields: Array.from({ length: rng.int(1, 3) }, (_field, i) => ({
+        center: [rng.range(-15, 15), rng.range(-10, 10), rng.range(-15, 15)],
+        radius: rng.range(5, 9),
+        count: rng.int(10, 20),
+        seed: hashSeed(seed, "field", i),
+      })),
     };
   }
 
   private static generateAsteroid(
     rng: SeededRandom,
-    sectorSize: number,
+    lootRng: RandomStream,
+    config: SpaceSectorConfig,
     index: number,
   ): SpaceObject {
+    const sectorSize = config.size;
+    const toughness = this.getToughness(config);
     const position: [number, number, number] = [
       rng.range(-sectorSize / 2, sectorSize / 2),
       rng.range(-sectorSize / 2, sectorSize / 2),
@@ -134,33 +317,37 @@ export class SpaceGenerator {
 
     // Some asteroids might contain resources
     const hasResources = rng.next() < 0.3; // 30% chance
-    const resources = hasResources ? [generateRandomResource()] : [];
+    const resources = hasResources ? [generateRandomResource(lootRng)] : [];
 
     return {
-      id: `asteroid_${index}`,
+      id: `${config.idPrefix ?? ""}asteroid_${index}`,
       type: "asteroid",
       position,
       rotation,
       scale: [scale, scale, scale],
-      health: Math.floor(scale * 100),
-      maxHealth: Math.floor(scale * 100),
+      health: Math.floor(scale * 100 * toughness),
+      maxHealth: Math.floor(scale * 100 * toughness),
       resources,
     };
   }
 
   private static generateResourceNode(
     rng: SeededRandom,
-    sectorSize: number,
+    config: SpaceSectorConfig,
     index: number,
   ): SpaceObject {
+    const sectorSize = config.size;
+    const toughness = this.getToughness(config);
     const position: [number, number, number] = [
       rng.range(-sectorSize / 2, sectorSize / 2),
       rng.range(-sectorSize / 2, sectorSize / 2),
       rng.range(-sectorSize / 2, sectorSize / 2),
     ];
 
-    const resourceType = rng.choice(["crystal", "metal", "energy"]);
-    const rarity = this.getWeightedRarity(rng);
+    const resourceType = config.resourceWeights
+      ? this.getWeightedResourceType(rng, config.resourceWeights)
+      : rng.choice(["crystal", "metal", "energy"]);
+    const rarity = this.getWeightedRarity(rng, config.difficulty);
 
     // Resource nodes are larger and more valuable
     const scale = rng.range(0.8, 1.5);
@@ -183,27 +370,29 @@ export class SpaceGenerator {
       id: `${resourceType}_${rarity}_${Date.now()}_${Math.random()}`,
       name: `${rarity.charAt(0).toUpperCase() + rarity.slice(1)} ${resourceType.charAt(0).toUpperCase() + resourceType.slice(1)}`,
       type: resourceType as "crystal" | "metal" | "energy",
-      quantity: rng.range(10, 50),
+      quantity: rng.int(10, 50),
       rarity: rarity as "common" | "rare" | "epic" | "legendary",
     }));
 
     return {
-      id: `resource_node_${index}`,
+      id: `${config.idPrefix ?? ""}resource_node_${index}`,
       type: "resource_node",
       position,
       rotation,
       scale: [scale, scale, scale],
-      health: Math.floor(scale * 200),
-      maxHealth: Math.floor(scale * 200),
+      health: Math.floor(scale * 200 * toughness),
+      maxHealth: Math.floor(scale * 200 * toughness),
       resources,
     };
   }
 
   private static generateStation(
     rng: SeededRandom,
-    sectorSize: number,
+    sectorSeed: number,
+    config: SpaceSectorConfig,
     index: number,
   ): SpaceObject {
+    const sectorSize = config.size;
     const position: [number, number, number] = [
       rng.range(-sectorSize / 3, sectorSize / 3), // Stations closer to center
       rng.range(-sectorSize / 3, sectorSize / 3),
@@ -218,7 +407,7 @@ export class SpaceGenerator {
     ];
 
     return {
-      id: `station_${index}`,
+      id: `${config.idPrefix ?? ""}station_${index}`,
       type: "station",
       position,
       rotation,
@@ -226,11 +415,20 @@ export class SpaceGenerator {
       health: Math.floor(scale * 500),
       maxHealth: Math.floor(scale * 500),
       resources: [], // Stations don't contain mineable resources
+      // Derived from the sector seed so markets don't shift the layout
+      marketSeed: hashSeed(sectorSeed, "market", index),
     };
   }
 
-  private static getWeightedRarity(rng: SeededRandom): string {
-    const rand = rng.next();
+  // Harder sectors shift every roll towards the rarer end
+  private static getWeightedRarity(
+    rng: SeededRandom,
+    difficulty: number = 1,
+  ): string {
+    const rand = Math.min(
+      rng.next() + (difficulty - 1) * GAME_CONFIG.SECTOR_RARITY_SHIFT,
+      0.999,
+    );
 
     if (rand < 0.6) return "common";
     if (rand < 0.85) return "rare";
@@ -239,13 +437,41 @@ export class SpaceGenerator {
     return "legendary";
   }
 
+  private static getWeightedResourceType(
+    rng: SeededRandom,
+    weights: ResourceWeights,
+  ): Resource["type"] {
+    const types = Object.keys(weights) as Resource["type"][];
+    const total = types.reduce((sum, type) => sum + weights[type], 0);
+    let roll = rng.next() * total;
+
+    for (const type of types) {
+      roll -= weights[type];
+      if (roll < 0) return type;
+    }
+
+    return types[types.length - 1];
+  }
+
+  // Health multiplier for objects in harder sectors
+  private static getToughness(config: SpaceSectorConfig): number {
+    return (
+      1 +
+      ((config.difficulty ?? 1) - 1) *
+        GAME_CONFIG.SECTOR_TOUGHNESS_PER_DIFFICULTY
+    );
+  }
+
   static generateAsteroidField(
     center: THREE.Vector3,
     radius: number,
     count: number,
     seed?: number,
+    idPrefix: string = "field_asteroid",
   ): SpaceObject[] {
-    const rng = new SeededRandom(seed || Math.floor(Math.random() * 1000000));
+    const fieldSeed = seed || rngService.stream("world").int(0, 999999);
+    const rng = new SeededRandom(fieldSeed);
+    const lootRng = new RandomStream(hashSeed(fieldSeed, "loot"));
     const asteroids: SpaceObject[] = [];
 
     for (let i = 0; i < count; i++) {
@@ -266,14 +492,14 @@ export class SpaceGenerator {
       ];
 
       asteroids.push({
-        id: `field_asteroid_${i}`,
+        id: `${idPrefix}_${i}`,
         type: "asteroid",
         position: [x, y, z],
         rotation,
         scale: [scale, scale, scale],
         health: Math.floor(scale * 50),
         maxHealth: Math.floor(scale * 50),
-        resources: rng.next() < 0.2 ? [generateRandomResource()] : [],
+        resources: rng.next() < 0.2 ? [generateRandomResource(lootRng)] : [],
       });
     }
 
@@ -311,12 +537,14 @@ export class SpaceGenerator {
       case "asteroid":
         // Irregular asteroid shape
         const asteroidGeometry = new THREE.DodecahedronGeometry(1, 0);
-        // Add some randomness to vertices for irregular shape
+        // Add some randomness to vertices for irregular shape, seeded by
+        // object id so each asteroid keeps its shape between sessions
+        const shapeRng = new RandomStream(hashSeed(object.id, "shape"));
         const positions = asteroidGeometry.attributes.position
           .array as Float32Array;
 
         for (let i = 0; i < positions.length; i += 3) {
-          const noise = 0.1 + Math.random() * 0.2;
+          const noise = shapeRng.range(0.1, 0.3);
 
           positions[i] *= noise;
           positions[i + 1] *= noise;
@@ -338,3 +566,11 @@ export class SpaceGenerator {
     }
   }
 }
+
+// Straight-line distance between two points on the galaxy map
+export function getMapDistance(
+  a: [number, number],
+  b: [number, number],
+): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1]);
+}
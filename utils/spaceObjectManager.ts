@@ -3,6 +3,7 @@ import type { SpaceObject } from "@/types/game";
 import * as THREE from "three";
 
 import { SpaceGenerator } from "./spaceGeneration";
+import { isObjectDepleted } from "./gameHelpers";
 
 export interface ObjectMesh extends THREE.Mesh {
   userData: {
@@ -10,9 +11,23 @@ export interface ObjectMesh extends THREE.Mesh {
     originalScale: THREE.Vector3;
     hovered: boolean;
     selected: boolean;
+    depleted: boolean;
   };
 }
 
+// Fragment thrown off by a fracturing asteroid
+interface DebrisFragment {
+  mesh: THREE.Mesh;
+  velocity: THREE.Vector3;
+  life: number; // Seconds left before it has faded out
+}
+
+const FADE_DURATION = 1.5; // Seconds to fade a depleted object in or out
+const DEBRIS_LIFETIME = 2;
+const DEBRIS_COUNT = 6;
+// Depleted objects shrink as they lose health, down to this fraction of their size
+const MIN_DAMAGED_SCALE = 0.6;
+
 export class SpaceObjectManager {
   private scene: THREE.Scene;
   private objectMeshes: Map<string, ObjectMesh> = new Map();
@@ -25,6 +40,10 @@ export class SpaceObjectManager {
   private hoveredObject: ObjectMesh | null = null;
   private selectedObject: ObjectMesh | null = null;
 
+  // Depletion effects
+  private fadingMeshes: Map<string, number> = new Map(); // Object ID -> fade direction (-1 out, 1 in)
+  private debris: DebrisFragment[] = [];
+
   // Event callbacks
   private onObjectHover?: (object: SpaceObject | null) => void;
   private onObjectSelect?: (object: SpaceObject | null) => void;
@@ -65,7 +84,9 @@ export class SpaceObjectManager {
   private updateHover() {
     this.raycaster.setFromCamera(this.mouse, this.camera);
     const intersects = this.raycaster.intersectObjects(
-      Array.from(this.objectMeshes.values()),
+      Array.from(this.objectMeshes.values()).filter(
+        (mesh) => !mesh.userData.depleted,
+      ),
     );
 
     // Clear previous hover
@@ -164,7 +185,7 @@ export class SpaceObjectManager {
       metalness: this.getMetalness(spaceObject),
       roughness: this.getRoughness(spaceObject),
       transparent: spaceObject.type === "resource_node",
-      opacity: spaceObject.type === "resource_node" ? 0.9 : 1.0,
+      opacity: this.getBaseOpacity(spaceObject),
     });
 
     const mesh = new THREE.Mesh(geometry, material);
@@ -186,13 +207,17 @@ export class SpaceObjectManager {
       spaceObject.scale[2],
     );
 
-    // Setup user data with proper typing
+    // Setup user data with proper typing. Objects mined on an earlier visit
+    // come back shrunk, or hidden until they respawn
     mesh.userData = {
       spaceObject,
-      originalScale: mesh.scale.clone(),
+      originalScale: this.getDamagedScale(spaceObject),
       hovered: false,
       selected: false,
+      depleted: isObjectDepleted(spaceObject),
     };
+    mesh.scale.copy(mesh.userData.originalScale);
+    mesh.visible = !mesh.userData.depleted;
 
     // Type assertion through unknown to satisfy TypeScript
     const objectMesh = mesh as unknown as ObjectMesh;
@@ -216,6 +241,7 @@ export class SpaceObjectManager {
       mesh.geometry.dispose();
       (mesh.material as THREE.Material).dispose();
       this.objectMeshes.delete(objectId);
+      this.fadingMeshes.delete(objectId);
 
       // Clear references if this was the hovered/selected object
       if (this.hoveredObject === mesh) {
@@ -251,6 +277,61 @@ export class SpaceObjectManager {
     }
   }
 
+  // Show mining damage by shrinking the object towards MIN_DAMAGED_SCALE
+  public damageSpaceObject(spaceObject: SpaceObject) {
+    const mesh = this.objectMeshes.get(spaceObject.id);
+
+    if (!mesh) return;
+
+    mesh.userData.spaceObject = spaceObject;
+    mesh.userData.originalScale = this.getDamagedScale(spaceObject);
+    this.updateObjectAppearance(mesh);
+  }
+
+  // Asteroids fracture into debris, other objects fade out. The mesh is kept
+  // hidden so the object can respawn in place
+  public depleteSpaceObject(spaceObject: SpaceObject) {
+    const mesh = this.objectMeshes.get(spaceObject.id);
+
+    if (!mesh || mesh.userData.depleted) return;
+
+    mesh.userData.spaceObject = spaceObject;
+    mesh.userData.depleted = true;
+    mesh.userData.hovered = false;
+
+    if (this.hoveredObject === mesh) {
+      this.hoveredObject = null;
+      this.domElement.style.cursor = "default";
+      this.onObjectHover?.(null);
+    }
+    if (this.selectedObject === mesh) {
+      this.clearSelection();
+    }
+
+    if (spaceObject.type === "asteroid") {
+      this.spawnDebris(mesh);
+      mesh.visible = false;
+    } else {
+      this.setMeshOpacity(mesh, 1);
+      this.fadingMeshes.set(spaceObject.id, -1);
+    }
+  }
+
+  // Bring a depleted object back at full size
+  public respawnSpaceObject(spaceObject: SpaceObject) {
+    const mesh = this.objectMeshes.get(spaceObject.id);
+
+    if (!mesh) return;
+
+    mesh.userData.spaceObject = spaceObject;
+    mesh.userData.depleted = false;
+    mesh.userData.originalScale = this.getDamagedScale(spaceObject);
+    mesh.visible = true;
+    this.updateObjectAppearance(mesh);
+    this.setMeshOpacity(mesh, 0);
+    this.fadingMeshes.set(spaceObject.id, 1);
+  }
+
   public getSpaceObject(objectId: string): SpaceObject | null {
     const mesh = this.objectMeshes.get(objectId);
 
@@ -285,6 +366,128 @@ export class SpaceObjectManager {
           break;
       }
     });
+
+    this.animateDepletion(deltaTime);
+  }
+
+  private animateDepletion(deltaTime: number) {
+    this.fadingMeshes.forEach((direction, objectId) => {
+      const mesh = this.objectMeshes.get(objectId);
+
+      if (!mesh) {
+        this.fadingMeshes.delete(objectId);
+
+        return;
+      }
+
+      const material = mesh.material as THREE.MeshStandardMaterial;
+      const targetOpacity = this.getBaseOpacity(mesh.userData.spaceObject);
+      const opacity = THREE.MathUtils.clamp(
+        material.opacity + (direction * deltaTime) / FADE_DURATION,
+        0,
+        targetOpacity,
+      );
+
+      this.setMeshOpacity(mesh, opacity);
+
+      if (direction < 0 && opacity <= 0) {
+        mesh.visible = false;
+        this.fadingMeshes.delete(objectId);
+      } else if (direction > 0 && opacity >= targetOpacity) {
+        material.transparent =
+          mesh.userData.spaceObject.type === "resource_node";
+        material.needsUpdate = true;
+        this.fadingMeshes.delete(objectId);
+      }
+    });
+
+    this.debris = this.debris.filter((fragment) => {
+      fragment.life -= deltaTime;
+      fragment.mesh.position.addScaledVector(fragment.velocity, deltaTime);
+      fragment.mesh.rotation.x += deltaTime * 2;
+      fragment.mesh.rotation.y += deltaTime * 3;
+      (fragment.mesh.material as THREE.MeshStandardMaterial).opacity = Math.max(
+        fragment.life / DEBRIS_LIFETIME,
+        0,
+      );
+
+      if (fragment.life > 0) return true;
+
+      this.disposeDebris(fragment);
+
+      return false;
+    });
+  }
+
+  // Break an asteroid into small fragments drifting away from its centre
+  private spawnDebris(mesh: ObjectMesh) {
+    const sourceMaterial = mesh.material as THREE.MeshStandardMaterial;
+    const size = mesh.scale.x * 0.3;
+
+    for (let i = 0; i < DEBRIS_COUNT; i++) {
+      const fragmentMesh = new THREE.Mesh(
+        new THREE.DodecahedronGeometry(size, 0),
+        new THREE.MeshStandardMaterial({
+          color: sourceMaterial.color,
+          roughness: sourceMaterial.roughness,
+          metalness: sourceMaterial.metalness,
+          transparent: true,
+        }),
+      );
+      const velocity = new THREE.Vector3(
+        Math.random() - 0.5,
+        Math.random() - 0.5,
+        Math.random() - 0.5,
+      )
+        .normalize()
+        .multiplyScalar(0.5 + Math.random());
+
+      fragmentMesh.position.copy(mesh.position);
+      this.scene.add(fragmentMesh);
+      this.debris.push({
+        mesh: fragmentMesh,
+        velocity,
+        life: DEBRIS_LIFETIME,
+      });
+    }
+  }
+
+  private disposeDebris(fragment: DebrisFragment) {
+    this.scene.remove(fragment.mesh);
+    fragment.mesh.geometry.dispose();
+    (fragment.mesh.material as THREE.Material).dispose();
+  }
+
+  private getDamagedScale(spaceObject: SpaceObject): THREE.Vector3 {
+    const baseScale = new THREE.Vector3(...spaceObject.scale);
+
+    if (spaceObject.health === undefined || !spaceObject.maxHealth) {
+      return baseScale;
+    }
+
+    const healthRatio = THREE.MathUtils.clamp(
+      spaceObject.health / spaceObject.maxHealth,
+      0,
+      1,
+    );
+
+    return baseScale.multiplyScalar(
+      MIN_DAMAGED_SCALE + (1 - MIN_DAMAGED_SCALE) * healthRatio,
+    );
+  }
+
+  private getBaseOpacity(spaceObject: SpaceObject): number {
+    return spaceObject.type === "resource_node" ? 0.9 : 1.0;
+  }
+
+  private setMeshOpacity(mesh: ObjectMesh, opacity: number) {
+    const material = mesh.material as THREE.MeshStandardMaterial;
+
+    if (!material.transparent) {
+      material.transparent = true;
+      material.needsUpdate = true;
+    }
+    material.opacity = opacity;
   }
 
   private getMetalness(spaceObject: SpaceObject): number {
@@ -343,6 +546,22 @@ export class SpaceObjectManager {
     }
   }
 
+  // Remove every object and its debris, e.g. when the ship leaves the sector
+  public clearSpaceObjects() {
+    this.clearSelection();
+
+    if (this.hoveredObject && this.onObjectHover) {
+      this.onObjectHover(null);
+    }
+
+    Array.from(this.objectMeshes.keys()).forEach((objectId) =>
+      this.removeSpaceObject(objectId),
+    );
+
+    this.debris.forEach((fragment) => this.disposeDebris(fragment));
+    this.debris = [];
+  }
+
   public dispose() {
     this.domElement.removeEventListener(
       "mousemove",
@@ -358,5 +577,9 @@ export class SpaceObjectManager {
     });
 
     this.objectMeshes.clear();
+    this.fadingMeshes.clear();
+
+    this.debris.forEach((fragment) => this.disposeDebris(fragment));
+    this.debris = [];
   }
 }